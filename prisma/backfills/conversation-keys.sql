@@ -0,0 +1,26 @@
+-- Fills "participantKey" on conversations created before it existed, so starting a conversation
+-- finds them instead of opening a second one.
+--
+-- Order of the deploy:
+--   1. npm run db:push                    adds the optional, unique "participantKey"
+--   2. npm run db:backfill-conversations  this script; safe to run more than once
+--
+-- Only 1:1 conversations get a key. Where a race already left a pair with several conversations,
+-- the oldest one gets it and the others stay as they are.
+UPDATE "Conversation" AS c
+SET "participantKey" = k."participantKey"
+FROM (
+  SELECT DISTINCT ON (pairs."participantKey") pairs."conversationId", pairs."participantKey"
+  FROM (
+    SELECT cu."conversationId", string_agg(cu."userId", ':' ORDER BY cu."userId" COLLATE "C") AS "participantKey"
+    FROM "ConversationUser" AS cu
+    GROUP BY cu."conversationId"
+    HAVING count(*) = 2
+  ) AS pairs
+  JOIN "Conversation" AS conv ON conv."id" = pairs."conversationId"
+  WHERE NOT EXISTS (
+    SELECT 1 FROM "Conversation" AS taken WHERE taken."participantKey" = pairs."participantKey"
+  )
+  ORDER BY pairs."participantKey", conv."createdAt"
+) AS k
+WHERE c."id" = k."conversationId" AND c."participantKey" IS NULL;
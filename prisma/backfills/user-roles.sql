@@ -0,0 +1,11 @@
+-- Copies the old "isProfessional" flag into "role" for users created before roles existed.
+--
+-- Order of a deploy that moves to roles:
+--   1. npm run db:push              adds "role" and keeps "isProfessional"
+--   2. npm run db:backfill-roles    this script; safe to run more than once
+--   3. remove "isProfessional" from schema.prisma and db:push again
+--
+-- Staff roles are never touched, and a user who already has a role keeps it.
+UPDATE "User"
+SET "role" = 'PROFESSIONAL'
+WHERE "isProfessional" AND "role" = 'CUSTOMER';
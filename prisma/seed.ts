@@ -1,7 +1,28 @@
-import { PrismaClient } from "@prisma/client";
+import { type PriceType, type Prisma, PrismaClient } from "@prisma/client";
+
+import {
+  DEFAULT_COMMISSION_RATE,
+  computeBookingPricing,
+} from "../src/server/domain/booking-pricing";
+import { reindexServiceEmbeddings } from "../src/server/domain/service-embeddings";
+import { createHashedEmbeddingProvider } from "../src/server/embeddings/hashed-provider";
+import { coordinatesFor } from "../src/server/geocoding/geocoder";
+import { createLocalGeocoder } from "../src/server/geocoding/local-geocoder";
 
 const prisma = new PrismaClient();
 
+// Same pricing as `booking.create`, so seeded bookings add up like real ones.
+const pricingFor = (
+  service: { priceType: PriceType; price: Prisma.Decimal | number },
+  duration: number,
+) =>
+  computeBookingPricing({
+    priceType: service.priceType,
+    price: service.price,
+    duration,
+    commissionRate: DEFAULT_COMMISSION_RATE,
+  });
+
 async function main() {
   console.log("🌱 Starting database seed...");
 
@@ -14,16 +35,19 @@ async function main() {
   await prisma.review.deleteMany();
   await prisma.withdrawal.deleteMany();
   await prisma.earning.deleteMany();
+  await prisma.refund.deleteMany();
   await prisma.payment.deleteMany();
   await prisma.booking.deleteMany();
   await prisma.favorite.deleteMany();
   await prisma.availability.deleteMany();
+  await prisma.serviceEmbedding.deleteMany();
   await prisma.serviceMedia.deleteMany();
   await prisma.service.deleteMany();
   await prisma.category.deleteMany();
   await prisma.session.deleteMany();
   await prisma.account.deleteMany();
   await prisma.verificationToken.deleteMany();
+  await prisma.auditLog.deleteMany();
   await prisma.user.deleteMany();
 
   // =====================================================
@@ -41,7 +65,7 @@ async function main() {
       phone: "+1234567890",
       bio: "Professional house cleaner with 5+ years of experience. Specializing in eco-friendly cleaning solutions and attention to detail.",
       location: "San Francisco, CA",
-      isProfessional: true,
+      role: "PROFESSIONAL",
       professionalSince: new Date("2019-01-15"),
     },
   });
@@ -55,7 +79,7 @@ async function main() {
       phone: "+1234567891",
       bio: "Full-stack developer with expertise in React, Node.js, and cloud architecture. Building scalable web applications.",
       location: "Seattle, WA",
-      isProfessional: true,
+      role: "PROFESSIONAL",
       professionalSince: new Date("2018-06-01"),
     },
   });
@@ -69,7 +93,7 @@ async function main() {
       phone: "+1234567892",
       bio: "PhD in Mathematics, specializing in high school and college-level tutoring. Making complex concepts simple and engaging.",
       location: "Boston, MA",
-      isProfessional: true,
+      role: "PROFESSIONAL",
       professionalSince: new Date("2017-09-01"),
     },
   });
@@ -83,7 +107,7 @@ async function main() {
       phone: "+1234567893",
       bio: "Licensed beautician and makeup artist. Specializing in bridal makeup, special events, and personal styling.",
       location: "Los Angeles, CA",
-      isProfessional: true,
+      role: "PROFESSIONAL",
       professionalSince: new Date("2020-03-15"),
     },
   });
@@ -97,7 +121,7 @@ async function main() {
       phone: "+1234567894",
       bio: "ASE certified mechanic with 10+ years experience. Specializing in diagnostics, maintenance, and repairs for all vehicle makes.",
       location: "Austin, TX",
-      isProfessional: true,
+      role: "PROFESSIONAL",
       professionalSince: new Date("2014-01-01"),
     },
   });
@@ -111,7 +135,7 @@ async function main() {
       phone: "+1234567895",
       bio: "Professional photographer specializing in portraits, events, and commercial photography. Capturing moments that matter.",
       location: "Miami, FL",
-      isProfessional: true,
+      role: "PROFESSIONAL",
       professionalSince: new Date("2016-05-20"),
     },
   });
@@ -126,7 +150,7 @@ async function main() {
       phone: "+1234567896",
       bio: "Part-time fitness trainer and nutrition consultant. Helping clients achieve their health and fitness goals.",
       location: "Chicago, IL",
-      isProfessional: true,
+      role: "PROFESSIONAL",
       professionalSince: new Date("2021-01-10"),
     },
   });
@@ -141,7 +165,6 @@ async function main() {
       phone: "+1234567897",
       bio: "Busy professional looking for reliable service providers.",
       location: "New York, NY",
-      isProfessional: false,
     },
   });
 
@@ -153,7 +176,6 @@ async function main() {
       image: "https://api.dicebear.com/7.x/avataaars/svg?seed=robert",
       phone: "+1234567898",
       location: "Denver, CO",
-      isProfessional: false,
     },
   });
 
@@ -166,7 +188,25 @@ async function main() {
       phone: "+1234567899",
       bio: "Parent of two, looking for tutoring and home services.",
       location: "Phoenix, AZ",
-      isProfessional: false,
+    },
+  });
+
+  // Platform staff
+  await prisma.user.create({
+    data: {
+      email: "admin@example.com",
+      emailVerified: new Date(),
+      name: "Platform Admin",
+      role: "ADMIN",
+    },
+  });
+
+  await prisma.user.create({
+    data: {
+      email: "support@example.com",
+      emailVerified: new Date(),
+      name: "Support Agent",
+      role: "SUPPORT",
     },
   });
 
@@ -311,9 +351,10 @@ async function main() {
       priceUnit: "session",
       duration: 120,
       location: "San Francisco, CA",
+      serviceRadiusKm: 25,
       serviceType: "IN_PERSON",
       maxBookingsPerDay: 3,
-      cancellationPolicy: "Free cancellation up to 24 hours before the service. 50% charge for cancellations within 24 hours.",
+      cancellationPolicy: "FLEXIBLE",
       tags: ["eco-friendly", "professional", "insured", "pet-friendly"],
       features: ["Eco-friendly products", "Bring own supplies", "Insured & bonded", "Satisfaction guarantee"],
       requirements: "Please ensure pets are secured. Clear surfaces for better cleaning results.",
@@ -338,7 +379,7 @@ async function main() {
       priceUnit: "hour",
       serviceType: "ONLINE",
       advanceBookingDays: 14,
-      cancellationPolicy: "Free cancellation up to 48 hours before the project start.",
+      cancellationPolicy: "MODERATE",
       tags: ["react", "nodejs", "fullstack", "api", "cloud"],
       features: ["Source code included", "Post-launch support", "Responsive design", "SEO optimization"],
       averageRating: 5.0,
@@ -363,7 +404,7 @@ async function main() {
       duration: 60,
       serviceType: "HYBRID",
       maxBookingsPerDay: 5,
-      cancellationPolicy: "Free cancellation up to 12 hours before the session.",
+      cancellationPolicy: "FLEXIBLE",
       tags: ["algebra", "calculus", "statistics", "sat-prep", "online"],
       features: ["Customized lesson plans", "Practice materials included", "Progress tracking", "Parent reports available"],
       requirements: "Student should have textbook and calculator ready.",
@@ -389,7 +430,7 @@ async function main() {
       location: "Los Angeles, CA",
       serviceType: "IN_PERSON",
       maxBookingsPerDay: 4,
-      cancellationPolicy: "50% deposit required. Non-refundable within 48 hours of appointment.",
+      cancellationPolicy: "STRICT",
       tags: ["bridal", "events", "photoshoot", "airbrush"],
       features: ["Premium products", "False lashes included", "Touch-up kit provided", "Trial session available"],
       averageRating: 4.9,
@@ -413,7 +454,7 @@ async function main() {
       location: "Austin, TX",
       serviceType: "IN_PERSON",
       advanceBookingDays: 7,
-      cancellationPolicy: "Free cancellation up to 24 hours before appointment.",
+      cancellationPolicy: "FLEXIBLE",
       tags: ["certified", "warranty", "all-makes", "diagnostics"],
       features: ["ASE certified", "Warranty on parts", "Free inspection", "Loaner cars available"],
       requirements: "Please bring vehicle registration and any service records.",
@@ -439,7 +480,7 @@ async function main() {
       location: "Miami, FL",
       serviceType: "IN_PERSON",
       maxBookingsPerDay: 2,
-      cancellationPolicy: "50% deposit required. Non-refundable within 72 hours of shoot.",
+      cancellationPolicy: "STRICT",
       tags: ["portraits", "events", "weddings", "commercial"],
       features: ["Professional editing", "Online gallery", "Print rights included", "Quick turnaround"],
       averageRating: 4.9,
@@ -464,7 +505,7 @@ async function main() {
       duration: 60,
       serviceType: "HYBRID",
       maxBookingsPerDay: 6,
-      cancellationPolicy: "Free cancellation up to 12 hours before session.",
+      cancellationPolicy: "FLEXIBLE",
       tags: ["weight-loss", "strength", "cardio", "nutrition"],
       features: ["Personalized workout plans", "Nutrition guidance", "Progress tracking", "Online support"],
       averageRating: 4.8,
@@ -541,6 +582,32 @@ async function main() {
     },
   });
 
+  // =====================================================
+  // GEOCODE LOCATIONS
+  // =====================================================
+  // Same geocoder as the routers, so seeded listings show up in distance searches.
+  console.log("📍 Geocoding locations...");
+  const geocoder = createLocalGeocoder();
+  for (const user of await prisma.user.findMany({
+    where: { location: { not: null } },
+  })) {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: await coordinatesFor(geocoder, user.location),
+    });
+  }
+  for (const service of await prisma.service.findMany({
+    where: { location: { not: null } },
+  })) {
+    await prisma.service.update({
+      where: { id: service.id },
+      data: await coordinatesFor(geocoder, service.location),
+    });
+  }
+
+  console.log("🧠 Embedding services for semantic search...");
+  await reindexServiceEmbeddings(prisma, createHashedEmbeddingProvider());
+
   // =====================================================
   // CREATE SERVICE MEDIA
   // =====================================================
@@ -657,9 +724,7 @@ async function main() {
       startTime: "10:00",
       endTime: "12:00",
       duration: 120,
-      price: 80,
-      serviceFee: 8,
-      totalAmount: 88,
+      ...pricingFor(cleaningService, 120),
       specialRequests: "Please focus on the kitchen and bathrooms",
       customerNotes: "Great service!",
       confirmedAt: new Date(twoWeeksAgo.getTime() - 24 * 60 * 60 * 1000),
@@ -678,9 +743,7 @@ async function main() {
       startTime: "16:00",
       endTime: "17:00",
       duration: 60,
-      price: 60,
-      serviceFee: 6,
-      totalAmount: 66,
+      ...pricingFor(mathTutoringService, 60),
       specialRequests: "Help with calculus homework",
       customerNotes: "Very helpful session",
       confirmedAt: new Date(oneWeekAgo.getTime() - 12 * 60 * 60 * 1000),
@@ -699,9 +762,7 @@ async function main() {
       startTime: "09:00",
       endTime: "12:00",
       duration: 180,
-      price: 450, // 3 hours * $150
-      serviceFee: 45,
-      totalAmount: 495,
+      ...pricingFor(webDevService, 180),
       specialRequests: "Need help with React component optimization",
       providerNotes: "Optimized 5 components, improved performance by 40%",
       confirmedAt: new Date(oneWeekAgo.getTime() - 48 * 60 * 60 * 1000),
@@ -720,9 +781,7 @@ async function main() {
       startTime: "14:00",
       endTime: "15:30",
       duration: 90,
-      price: 120,
-      serviceFee: 12,
-      totalAmount: 132,
+      ...pricingFor(makeupService, 90),
       specialRequests: "Natural look for corporate event",
       confirmedAt: new Date(now.getTime() - 24 * 60 * 60 * 1000),
     },
@@ -739,9 +798,7 @@ async function main() {
       startTime: "10:00",
       endTime: "13:00",
       duration: 180,
-      price: 300,
-      serviceFee: 30,
-      totalAmount: 330,
+      ...pricingFor(photographyService, 180),
       specialRequests: "Family portrait session at the park",
       confirmedAt: now,
     },
@@ -757,9 +814,7 @@ async function main() {
       startTime: "06:00",
       endTime: "07:00",
       duration: 60,
-      price: 75,
-      serviceFee: 7.5,
-      totalAmount: 82.5,
+      ...pricingFor(fitnessService, 60),
       specialRequests: "Focus on core strength",
       confirmedAt: now,
     },
@@ -776,9 +831,8 @@ async function main() {
       startTime: "09:00",
       endTime: "11:00",
       duration: 120,
-      price: 150,
-      serviceFee: 15,
-      totalAmount: 165,
+      // CUSTOM-priced service, booked at the quoted price
+      ...pricingFor({ priceType: "FIXED", price: 150 }, 120),
       specialRequests: "Oil change and tire rotation",
     },
   });
@@ -794,9 +848,7 @@ async function main() {
       startTime: "14:00",
       endTime: "16:00",
       duration: 120,
-      price: 80,
-      serviceFee: 8,
-      totalAmount: 88,
+      ...pricingFor(cleaningService, 120),
       cancellationReason: "Customer had emergency travel",
       cancelledAt: new Date(now.getTime() - 4 * 24 * 60 * 60 * 1000),
     },
@@ -871,6 +923,7 @@ async function main() {
       value: 5,
       communication: 5,
       punctuality: 5,
+      revealedAt: completedBooking1.completedAt,
     },
   });
 
@@ -887,6 +940,7 @@ async function main() {
       value: 4,
       communication: 5,
       punctuality: 5,
+      revealedAt: completedBooking2.completedAt,
     },
   });
 
@@ -903,9 +957,32 @@ async function main() {
       value: 5,
       communication: 5,
       punctuality: 5,
+      revealedAt: completedBooking3.completedAt,
     },
   });
 
+  // Providers rate their customers too
+  await prisma.review.create({
+    data: {
+      bookingId: completedBooking1.id,
+      direction: "PROVIDER_TO_CUSTOMER",
+      serviceId: cleaningService.id,
+      reviewerId: sarahJohnson.id,
+      revieweeId: lisaAnderson.id,
+      rating: 5,
+      comment: "Lisa was home on time, had the rooms ready and described exactly what she needed. A pleasure to work for.",
+      punctuality: 5,
+      respectfulness: 5,
+      requestAccuracy: 5,
+      revealedAt: completedBooking1.completedAt,
+    },
+  });
+
+  await prisma.user.update({
+    where: { id: lisaAnderson.id },
+    data: { customerRating: 5, customerReviewCount: 1 },
+  });
+
   // =====================================================
   // CREATE EARNINGS
   // =====================================================
@@ -953,6 +1030,7 @@ async function main() {
 
   const conversation1 = await prisma.conversation.create({
     data: {
+      participantKey: [lisaAnderson.id, sarahJohnson.id].sort().join(":"),
       lastMessageAt: new Date(now.getTime() - 2 * 60 * 60 * 1000),
     },
   });
@@ -0,0 +1,43 @@
+-- Makes "Service"."searchVector" the generated full-text document that search queries, see
+-- src/server/domain/service-search.ts. schema.prisma declares the column and its GIN index, but
+-- db push creates it as a plain, empty column; this script turns it into a generated one.
+--
+-- Order of every deploy, not just the first:
+--   1. npm run db:push            adds "searchVector" and "Service_searchVector_idx"
+--   2. npm run db:search-vector   this script; safe to run more than once
+--
+-- db push may drop and re-add the column as a plain one whenever it sees a difference from the
+-- schema, so run this after each push rather than assuming the generated column survived. After
+-- changing the weights below, drop the column and run this again so existing rows are recomputed.
+
+-- Title matches count most, then the short description and tags, then the full description and
+-- features. array_to_string is only STABLE in general but does not depend on any setting for
+-- text[], so wrapping it here as IMMUTABLE is safe and lets a generated column use it.
+CREATE OR REPLACE FUNCTION service_search_document(
+  title text,
+  short_description text,
+  tags text[],
+  description text,
+  features text[]
+) RETURNS tsvector
+LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+  SELECT
+    setweight(to_tsvector('english', title), 'A') ||
+    setweight(to_tsvector('english', coalesce(short_description, '') || ' ' || array_to_string(tags, ' ')), 'B') ||
+    setweight(to_tsvector('english', description || ' ' || array_to_string(features, ' ')), 'C')
+$$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'Service' AND column_name = 'searchVector' AND is_generated = 'ALWAYS'
+  ) THEN
+    ALTER TABLE "Service" DROP COLUMN IF EXISTS "searchVector";
+    ALTER TABLE "Service" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+      service_search_document("title", "shortDescription", "tags", "description", "features")
+    ) STORED;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "Service_searchVector_idx" ON "Service" USING GIN ("searchVector");
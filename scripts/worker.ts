@@ -0,0 +1,35 @@
+/**
+ * Runs background jobs outside the web server, for `JOB_RUNNER="worker"`. Any number of workers
+ * can share the queue.
+ *
+ *   npm run worker            keep running until SIGINT/SIGTERM
+ *   npm run worker -- --once  run what is due now, then exit
+ */
+
+import { env } from "../src/env";
+import { db } from "../src/server/db";
+import { jobRunner } from "../src/server/jobs";
+
+if (env.REALTIME_BUS === "memory") {
+	console.warn(
+		'[jobs] REALTIME_BUS is "memory": live events raised by jobs stay in this process and do not reach connected users',
+	);
+}
+
+if (process.argv.includes("--once")) {
+	const result = await jobRunner.runDue();
+	console.info("[jobs]", JSON.stringify(result));
+	await db.$disconnect();
+} else {
+	console.info(`[jobs] worker ${jobRunner.workerId} started`);
+	jobRunner.start();
+
+	const shutdown = async (signal: string) => {
+		console.info(`[jobs] ${signal} received, finishing the current job`);
+		await jobRunner.stop();
+		await db.$disconnect();
+		process.exit(0);
+	};
+	process.once("SIGINT", () => void shutdown("SIGINT"));
+	process.once("SIGTERM", () => void shutdown("SIGTERM"));
+}
@@ -0,0 +1,51 @@
+"use client";
+
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "~/components/ui/table";
+import { api } from "~/trpc/react";
+
+export function AuditTrail() {
+	const { data, isLoading } = api.admin.auditLog.list.useQuery({});
+
+	return (
+		<Table>
+			<TableHeader>
+				<TableRow>
+					<TableHead>When</TableHead>
+					<TableHead>Who</TableHead>
+					<TableHead>Action</TableHead>
+					<TableHead>Target</TableHead>
+					<TableHead>Reason</TableHead>
+				</TableRow>
+			</TableHeader>
+			<TableBody>
+				{isLoading && (
+					<TableRow>
+						<TableCell colSpan={5}>Loading…</TableCell>
+					</TableRow>
+				)}
+				{data?.entries.map((entry) => (
+					<TableRow key={entry.id}>
+						<TableCell>{entry.createdAt.toLocaleString()}</TableCell>
+						<TableCell>{entry.actor.name ?? entry.actor.email}</TableCell>
+						<TableCell>
+							{entry.action.toLowerCase().replaceAll("_", " ")}
+						</TableCell>
+						<TableCell className="font-mono text-xs">
+							{entry.targetType.toLowerCase()} {entry.targetId}
+						</TableCell>
+						<TableCell className="max-w-sm whitespace-normal">
+							{entry.reason ?? "—"}
+						</TableCell>
+					</TableRow>
+				))}
+			</TableBody>
+		</Table>
+	);
+}
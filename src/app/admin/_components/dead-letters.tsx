@@ -0,0 +1,100 @@
+"use client";
+
+import { Badge } from "~/components/ui/badge";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "~/components/ui/table";
+import { api } from "~/trpc/react";
+import { ReasonForm } from "./reason-form";
+
+export function DeadLetters() {
+	const utils = api.useUtils();
+	const { data, isLoading } = api.admin.jobs.list.useQuery({});
+
+	const retry = api.admin.jobs.retry.useMutation({
+		onSuccess: () => utils.admin.jobs.list.invalidate(),
+	});
+	const discard = api.admin.jobs.discard.useMutation({
+		onSuccess: () => utils.admin.jobs.list.invalidate(),
+	});
+
+	return (
+		<section className="flex flex-col gap-4">
+			<p className="text-muted-foreground text-sm">
+				Background jobs that failed on every attempt. Retry once the cause is
+				fixed, or discard them.
+			</p>
+
+			<Table>
+				<TableHeader>
+					<TableRow>
+						<TableHead>Job</TableHead>
+						<TableHead>Last error</TableHead>
+						<TableHead>Failed</TableHead>
+						<TableHead>Actions</TableHead>
+					</TableRow>
+				</TableHeader>
+				<TableBody>
+					{isLoading && (
+						<TableRow>
+							<TableCell colSpan={4}>Loading…</TableCell>
+						</TableRow>
+					)}
+					{data?.jobs.length === 0 && (
+						<TableRow>
+							<TableCell colSpan={4}>No dead letters.</TableCell>
+						</TableRow>
+					)}
+					{data?.jobs.map((job) => (
+						<TableRow key={job.id}>
+							<TableCell>
+								<div className="flex items-center gap-2">
+									<span className="font-mono text-xs">{job.name}</span>
+									<Badge variant="secondary">
+										{job.attempts}/{job.maxAttempts} attempts
+									</Badge>
+								</div>
+								{job.idempotencyKey && (
+									<p className="font-mono text-muted-foreground text-xs">
+										{job.idempotencyKey}
+									</p>
+								)}
+							</TableCell>
+							<TableCell className="max-w-md whitespace-normal font-mono text-xs">
+								{job.lastError ?? "—"}
+							</TableCell>
+							<TableCell>
+								{(job.finishedAt ?? job.updatedAt).toLocaleString()}
+							</TableCell>
+							<TableCell className="flex flex-col gap-2">
+								<ReasonForm
+									label="Retry"
+									optional
+									pending={retry.isPending}
+									onSubmit={(reason) =>
+										retry.mutateAsync({ id: job.id, reason })
+									}
+								/>
+								<ReasonForm
+									label="Discard"
+									variant="destructive"
+									pending={discard.isPending}
+									onSubmit={(reason) =>
+										reason
+											? discard.mutateAsync({ id: job.id, reason })
+											: undefined
+									}
+								/>
+							</TableCell>
+						</TableRow>
+					))}
+				</TableBody>
+			</Table>
+		</section>
+	);
+}
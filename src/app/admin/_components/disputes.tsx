@@ -0,0 +1,140 @@
+"use client";
+
+import { useState } from "react";
+
+import { Input } from "~/components/ui/input";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "~/components/ui/table";
+import { api } from "~/trpc/react";
+import { ReasonForm } from "./reason-form";
+
+export function Disputes() {
+	const { data, isLoading } = api.admin.disputes.list.useQuery({});
+
+	return (
+		<section className="flex flex-col gap-4">
+			<p className="text-muted-foreground text-sm">
+				Bookings one side has disputed. Stand by the booking to pay the
+				provider, or cancel it and choose how much of the payment goes back to
+				the customer; the provider is paid the rest.
+			</p>
+
+			<Table>
+				<TableHeader>
+					<TableRow>
+						<TableHead>Booking</TableHead>
+						<TableHead>Customer</TableHead>
+						<TableHead>Provider</TableHead>
+						<TableHead>Paid</TableHead>
+						<TableHead>Resolve</TableHead>
+					</TableRow>
+				</TableHeader>
+				<TableBody>
+					{isLoading && (
+						<TableRow>
+							<TableCell colSpan={5}>Loading…</TableCell>
+						</TableRow>
+					)}
+					{data?.bookings.length === 0 && (
+						<TableRow>
+							<TableCell colSpan={5}>No open disputes.</TableCell>
+						</TableRow>
+					)}
+					{data?.bookings.map((booking) => (
+						<TableRow key={booking.id}>
+							<TableCell>
+								<div>{booking.service.title}</div>
+								<div className="text-muted-foreground text-xs">
+									{booking.bookingDate.toISOString().slice(0, 10)} at{" "}
+									{booking.startTime} ({booking.timeZone})
+								</div>
+								{booking.noShowParty && (
+									<div className="text-muted-foreground text-xs">
+										Contested no-show report against the{" "}
+										{booking.noShowParty.toLowerCase()}
+									</div>
+								)}
+							</TableCell>
+							<TableCell>
+								{booking.customer.name ?? booking.customer.email}
+							</TableCell>
+							<TableCell>
+								{booking.provider.name ?? booking.provider.email}
+							</TableCell>
+							<TableCell>
+								{booking.payment?.status === "COMPLETED"
+									? `${booking.payment.amount.toString()} ${booking.payment.currency}`
+									: "—"}
+							</TableCell>
+							<TableCell>
+								<DisputeActions bookingId={booking.id} />
+							</TableCell>
+						</TableRow>
+					))}
+				</TableBody>
+			</Table>
+		</section>
+	);
+}
+
+function DisputeActions({ bookingId }: { bookingId: string }) {
+	const utils = api.useUtils();
+	const [refundPercent, setRefundPercent] = useState(100);
+	const resolve = api.admin.disputes.resolve.useMutation({
+		onSuccess: () => utils.admin.disputes.list.invalidate(),
+	});
+
+	return (
+		<div className="flex flex-col gap-2">
+			<ReasonForm
+				label="Complete"
+				pending={resolve.isPending}
+				onSubmit={(reason) =>
+					reason
+						? resolve.mutateAsync({
+								id: bookingId,
+								resolution: { outcome: "complete" },
+								reason,
+							})
+						: undefined
+				}
+			/>
+			<div className="flex items-center gap-2">
+				<Input
+					type="number"
+					min={0}
+					max={100}
+					value={refundPercent}
+					onChange={(e) =>
+						setRefundPercent(
+							Math.min(100, Math.max(0, Math.round(Number(e.target.value)))),
+						)
+					}
+					aria-label="Refund percent"
+					className="h-8 w-20"
+				/>
+				<span className="text-muted-foreground text-sm">% refund</span>
+				<ReasonForm
+					label="Cancel"
+					variant="destructive"
+					pending={resolve.isPending}
+					onSubmit={(reason) =>
+						reason
+							? resolve.mutateAsync({
+									id: bookingId,
+									resolution: { outcome: "cancel", refundPercent },
+									reason,
+								})
+							: undefined
+					}
+				/>
+			</div>
+		</div>
+	);
+}
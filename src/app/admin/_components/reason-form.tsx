@@ -0,0 +1,57 @@
+"use client";
+
+import { useState } from "react";
+
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+
+/**
+ * An action button with the reason that goes into the audit trail. The button stays disabled
+ * until a reason is given, unless the reason is optional. The reason is cleared once `onSubmit`
+ * resolves, and kept for another try when it rejects.
+ */
+export function ReasonForm({
+	label,
+	onSubmit,
+	pending,
+	optional = false,
+	variant = "default",
+}: {
+	label: string;
+	onSubmit: (reason: string | undefined) => Promise<unknown> | undefined;
+	pending: boolean;
+	optional?: boolean;
+	variant?: "default" | "destructive" | "outline";
+}) {
+	const [reason, setReason] = useState("");
+	const trimmed = reason.trim();
+
+	return (
+		<form
+			className="flex items-center gap-2"
+			onSubmit={(e) => {
+				e.preventDefault();
+				onSubmit(trimmed || undefined)?.then(
+					() => setReason(""),
+					() => {},
+				);
+			}}
+		>
+			<Input
+				value={reason}
+				onChange={(e) => setReason(e.target.value)}
+				placeholder={optional ? "Reason (optional)" : "Reason"}
+				maxLength={500}
+				className="h-8 w-48"
+			/>
+			<Button
+				type="submit"
+				size="sm"
+				variant={variant}
+				disabled={pending || (!optional && !trimmed)}
+			>
+				{label}
+			</Button>
+		</form>
+	);
+}
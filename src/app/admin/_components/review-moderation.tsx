@@ -0,0 +1,100 @@
+"use client";
+
+import { useState } from "react";
+
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "~/components/ui/table";
+import { api } from "~/trpc/react";
+import { ReasonForm } from "./reason-form";
+
+export function ReviewModeration() {
+	// Low ratings are where abuse shows up first, so they are the default view.
+	const [maxRating, setMaxRating] = useState<number | undefined>(2);
+	const utils = api.useUtils();
+	const { data, isLoading } = api.admin.reviews.list.useQuery({ maxRating });
+
+	const setPublic = api.admin.reviews.setPublic.useMutation({
+		onSuccess: () => utils.admin.reviews.list.invalidate(),
+	});
+
+	return (
+		<section className="flex flex-col gap-4">
+			<div className="flex gap-2">
+				<Button
+					size="sm"
+					variant={maxRating ? "default" : "outline"}
+					onClick={() => setMaxRating(2)}
+				>
+					2 stars or less
+				</Button>
+				<Button
+					size="sm"
+					variant={maxRating ? "outline" : "default"}
+					onClick={() => setMaxRating(undefined)}
+				>
+					All reviews
+				</Button>
+			</div>
+
+			<Table>
+				<TableHeader>
+					<TableRow>
+						<TableHead>Review</TableHead>
+						<TableHead>Service</TableHead>
+						<TableHead>Reviewer</TableHead>
+						<TableHead>Actions</TableHead>
+					</TableRow>
+				</TableHeader>
+				<TableBody>
+					{isLoading && (
+						<TableRow>
+							<TableCell colSpan={4}>Loading…</TableCell>
+						</TableRow>
+					)}
+					{data?.reviews.map((review) => (
+						<TableRow key={review.id}>
+							<TableCell className="max-w-md whitespace-normal">
+								<div className="flex items-center gap-2">
+									<span>{"★".repeat(review.rating)}</span>
+									{!review.isPublic && (
+										<Badge variant="secondary">hidden</Badge>
+									)}
+								</div>
+								{review.title && <p className="font-medium">{review.title}</p>}
+								{review.comment && <p>{review.comment}</p>}
+							</TableCell>
+							<TableCell>{review.service.title}</TableCell>
+							<TableCell>
+								{review.reviewer.name ?? review.reviewer.email}
+							</TableCell>
+							<TableCell>
+								<ReasonForm
+									label={review.isPublic ? "Hide" : "Restore"}
+									variant={review.isPublic ? "destructive" : "default"}
+									pending={setPublic.isPending}
+									onSubmit={(reason) =>
+										reason
+											? setPublic.mutateAsync({
+													id: review.id,
+													isPublic: !review.isPublic,
+													reason,
+												})
+											: undefined
+									}
+								/>
+							</TableCell>
+						</TableRow>
+					))}
+				</TableBody>
+			</Table>
+		</section>
+	);
+}
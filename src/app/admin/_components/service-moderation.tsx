@@ -0,0 +1,151 @@
+"use client";
+
+import type { ServiceStatus } from "@prisma/client";
+import { useState } from "react";
+
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "~/components/ui/table";
+import { api } from "~/trpc/react";
+import { ReasonForm } from "./reason-form";
+
+const statuses: ServiceStatus[] = [
+	"PENDING_REVIEW",
+	"ACTIVE",
+	"PAUSED",
+	"DRAFT",
+	"ARCHIVED",
+];
+
+export function ServiceModeration() {
+	const [status, setStatus] = useState<ServiceStatus>("PENDING_REVIEW");
+	const utils = api.useUtils();
+	const { data, isLoading } = api.admin.services.list.useQuery({ status });
+
+	const onSuccess = () => utils.admin.services.list.invalidate();
+	const approve = api.admin.services.approve.useMutation({ onSuccess });
+	const reject = api.admin.services.reject.useMutation({ onSuccess });
+	const takeDown = api.admin.services.takeDown.useMutation({ onSuccess });
+	const setFeatured = api.admin.services.setFeatured.useMutation({
+		onSuccess,
+	});
+
+	return (
+		<section className="flex flex-col gap-4">
+			<div className="flex gap-2">
+				{statuses.map((s) => (
+					<Button
+						key={s}
+						size="sm"
+						variant={s === status ? "default" : "outline"}
+						onClick={() => setStatus(s)}
+					>
+						{s.replaceAll("_", " ").toLowerCase()}
+					</Button>
+				))}
+			</div>
+
+			<Table>
+				<TableHeader>
+					<TableRow>
+						<TableHead>Service</TableHead>
+						<TableHead>Provider</TableHead>
+						<TableHead>Category</TableHead>
+						<TableHead>Price</TableHead>
+						<TableHead>Actions</TableHead>
+					</TableRow>
+				</TableHeader>
+				<TableBody>
+					{isLoading && (
+						<TableRow>
+							<TableCell colSpan={5}>Loading…</TableCell>
+						</TableRow>
+					)}
+					{data?.services.length === 0 && (
+						<TableRow>
+							<TableCell colSpan={5}>Nothing to moderate.</TableCell>
+						</TableRow>
+					)}
+					{data?.services.map((service) => (
+						<TableRow key={service.id}>
+							<TableCell>
+								<div className="flex items-center gap-2">
+									{service.title}
+									{service.isFeatured && <Badge>Featured</Badge>}
+								</div>
+							</TableCell>
+							<TableCell>
+								{service.provider.name ?? service.provider.email}
+							</TableCell>
+							<TableCell>{service.category.name}</TableCell>
+							<TableCell>
+								{service.price.toString()} {service.currency}
+							</TableCell>
+							<TableCell>
+								{service.status === "PENDING_REVIEW" && (
+									<div className="flex flex-col gap-2">
+										<ReasonForm
+											label="Approve"
+											optional
+											pending={approve.isPending}
+											onSubmit={(reason) =>
+												approve.mutateAsync({ id: service.id, reason })
+											}
+										/>
+										<ReasonForm
+											label="Reject"
+											variant="destructive"
+											pending={reject.isPending}
+											onSubmit={(reason) =>
+												reason
+													? reject.mutateAsync({ id: service.id, reason })
+													: undefined
+											}
+										/>
+									</div>
+								)}
+								{(service.status === "ACTIVE" ||
+									service.status === "PAUSED") && (
+									<div className="flex flex-col gap-2">
+										{service.status === "ACTIVE" && (
+											<ReasonForm
+												label={service.isFeatured ? "Unfeature" : "Feature"}
+												variant="outline"
+												optional
+												pending={setFeatured.isPending}
+												onSubmit={(reason) =>
+													setFeatured.mutateAsync({
+														id: service.id,
+														featured: !service.isFeatured,
+														reason,
+													})
+												}
+											/>
+										)}
+										<ReasonForm
+											label="Take down"
+											variant="destructive"
+											pending={takeDown.isPending}
+											onSubmit={(reason) =>
+												reason
+													? takeDown.mutateAsync({ id: service.id, reason })
+													: undefined
+											}
+										/>
+									</div>
+								)}
+							</TableCell>
+						</TableRow>
+					))}
+				</TableBody>
+			</Table>
+		</section>
+	);
+}
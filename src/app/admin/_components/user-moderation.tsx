@@ -0,0 +1,103 @@
+"use client";
+
+import { useState } from "react";
+
+import { Badge } from "~/components/ui/badge";
+import { Input } from "~/components/ui/input";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "~/components/ui/table";
+import { api } from "~/trpc/react";
+import { ReasonForm } from "./reason-form";
+
+export function UserModeration() {
+	const [search, setSearch] = useState("");
+	const utils = api.useUtils();
+	const { data, isLoading } = api.admin.users.list.useQuery({
+		search: search.trim() || undefined,
+	});
+
+	const onSuccess = () => utils.admin.users.list.invalidate();
+	const suspend = api.admin.users.suspend.useMutation({ onSuccess });
+	const reactivate = api.admin.users.reactivate.useMutation({ onSuccess });
+
+	return (
+		<section className="flex flex-col gap-4">
+			<Input
+				value={search}
+				onChange={(e) => setSearch(e.target.value)}
+				placeholder="Search by name or email"
+				className="max-w-sm"
+			/>
+
+			<Table>
+				<TableHeader>
+					<TableRow>
+						<TableHead>User</TableHead>
+						<TableHead>Role</TableHead>
+						<TableHead>Services</TableHead>
+						<TableHead>Bookings</TableHead>
+						<TableHead>Actions</TableHead>
+					</TableRow>
+				</TableHeader>
+				<TableBody>
+					{isLoading && (
+						<TableRow>
+							<TableCell colSpan={5}>Loading…</TableCell>
+						</TableRow>
+					)}
+					{data?.users.map((user) => (
+						<TableRow key={user.id}>
+							<TableCell>
+								<div className="flex flex-col">
+									<span>{user.name ?? "—"}</span>
+									<span className="text-muted-foreground text-xs">
+										{user.email}
+									</span>
+								</div>
+							</TableCell>
+							<TableCell>
+								<div className="flex gap-1">
+									<Badge variant="outline">{user.role.toLowerCase()}</Badge>
+									{!user.isActive && (
+										<Badge variant="destructive">suspended</Badge>
+									)}
+								</div>
+							</TableCell>
+							<TableCell>{user._count.services}</TableCell>
+							<TableCell>{user._count.customerBookings}</TableCell>
+							<TableCell>
+								{user.isActive ? (
+									<ReasonForm
+										label="Suspend"
+										variant="destructive"
+										pending={suspend.isPending}
+										onSubmit={(reason) =>
+											reason
+												? suspend.mutateAsync({ id: user.id, reason })
+												: undefined
+										}
+									/>
+								) : (
+									<ReasonForm
+										label="Reactivate"
+										optional
+										pending={reactivate.isPending}
+										onSubmit={(reason) =>
+											reactivate.mutateAsync({ id: user.id, reason })
+										}
+									/>
+								)}
+							</TableCell>
+						</TableRow>
+					))}
+				</TableBody>
+			</Table>
+		</section>
+	);
+}
@@ -0,0 +1,5 @@
+import { AuditTrail } from "~/app/admin/_components/audit-trail";
+
+export default function AdminAuditPage() {
+	return <AuditTrail />;
+}
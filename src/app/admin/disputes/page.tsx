@@ -0,0 +1,5 @@
+import { Disputes } from "~/app/admin/_components/disputes";
+
+export default function AdminDisputesPage() {
+	return <Disputes />;
+}
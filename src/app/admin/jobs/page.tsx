@@ -0,0 +1,5 @@
+import { DeadLetters } from "~/app/admin/_components/dead-letters";
+
+export default function AdminJobsPage() {
+	return <DeadLetters />;
+}
@@ -0,0 +1,54 @@
+import { UserRole } from "@prisma/client";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+import { auth } from "~/server/auth";
+import { HydrateClient } from "~/trpc/server";
+
+const sections = [
+	{ href: "/admin/services", label: "Services" },
+	{ href: "/admin/users", label: "Users" },
+	{ href: "/admin/reviews", label: "Reviews" },
+	{ href: "/admin/disputes", label: "Disputes" },
+	{ href: "/admin/audit", label: "Audit trail" },
+	{ href: "/admin/jobs", label: "Dead letters" },
+];
+
+export default async function AdminLayout({
+	children,
+}: Readonly<{ children: React.ReactNode }>) {
+	const session = await auth();
+	const role = session?.user.role;
+	// Hide the console entirely from anyone who is not staff.
+	if (role !== UserRole.ADMIN && role !== UserRole.SUPPORT) {
+		notFound();
+	}
+
+	return (
+		<HydrateClient>
+			<div className="container mx-auto flex flex-col gap-6 px-4 py-8">
+				<header className="flex items-center justify-between">
+					<h1 className="font-bold text-2xl">Moderation</h1>
+					<nav className="flex gap-4 text-sm">
+						{sections.map((section) => (
+							<Link
+								key={section.href}
+								href={section.href}
+								className="text-muted-foreground hover:text-foreground"
+							>
+								{section.label}
+							</Link>
+						))}
+					</nav>
+				</header>
+				{role === UserRole.SUPPORT && (
+					<p className="text-muted-foreground text-sm">
+						Support accounts can browse the console and resolve disputes; every
+						other action is for admins.
+					</p>
+				)}
+				<main>{children}</main>
+			</div>
+		</HydrateClient>
+	);
+}
@@ -0,0 +1,5 @@
+import { ReviewModeration } from "~/app/admin/_components/review-moderation";
+
+export default function AdminReviewsPage() {
+	return <ReviewModeration />;
+}
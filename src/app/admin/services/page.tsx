@@ -0,0 +1,5 @@
+import { ServiceModeration } from "~/app/admin/_components/service-moderation";
+
+export default function AdminServicesPage() {
+	return <ServiceModeration />;
+}
@@ -0,0 +1,5 @@
+import { UserModeration } from "~/app/admin/_components/user-moderation";
+
+export default function AdminUsersPage() {
+	return <UserModeration />;
+}
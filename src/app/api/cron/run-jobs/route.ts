@@ -0,0 +1,26 @@
+import { timingSafeEqual } from "node:crypto";
+
+import { env } from "~/env";
+import { jobRunner } from "~/server/jobs";
+
+/** Compares the bearer token in constant time, so response timing gives nothing away. */
+function isAuthorized(req: Request) {
+	const expected = Buffer.from(`Bearer ${env.CRON_SECRET}`);
+	const given = Buffer.from(req.headers.get("authorization") ?? "");
+	return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+/**
+ * Schedules the recurring jobs and runs everything that is due, for hosts where nothing runs
+ * between requests (`JOB_RUNNER="worker"` without a worker). Meant to be hit every minute by a
+ * platform scheduler (e.g. Vercel Cron), which authenticates with `CRON_SECRET` as a bearer
+ * token.
+ */
+export async function GET(req: Request) {
+	if (!isAuthorized(req)) {
+		return Response.json({ error: "Unauthorized" }, { status: 401 });
+	}
+
+	const result = await jobRunner.runDue();
+	return Response.json(result);
+}
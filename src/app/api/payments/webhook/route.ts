@@ -0,0 +1,21 @@
+import { db } from "~/server/db";
+import { applyGatewayWebhook } from "~/server/domain/payments";
+import { paymentGateway } from "~/server/payments";
+
+/**
+ * Receives asynchronous settlement events from the payment gateway. The body must be read raw,
+ * since the signature covers the exact bytes that were sent.
+ */
+export async function POST(req: Request) {
+	const rawBody = await req.text();
+	const event = paymentGateway.verifyWebhook(
+		rawBody,
+		req.headers.get("x-payment-signature"),
+	);
+	if (!event) {
+		return Response.json({ error: "Invalid signature" }, { status: 400 });
+	}
+
+	const applied = await applyGatewayWebhook(db, event);
+	return Response.json({ received: true, applied });
+}
@@ -0,0 +1,45 @@
+import { fileStorage } from "~/server/storage";
+
+type Context = { params: Promise<{ key: string[] }> };
+
+/**
+ * Upload and download endpoint behind the local file storage's signed URLs. Other storage
+ * providers hand out URLs of their own, so this only answers while "local" is configured.
+ */
+export async function PUT(req: Request, { params }: Context) {
+	if (fileStorage.name !== "local") {
+		return Response.json({ error: "Not found" }, { status: 404 });
+	}
+	const { key } = await params;
+	const result = await fileStorage.receive(
+		key.join("/"),
+		new URL(req.url).searchParams,
+		await req.arrayBuffer(),
+		req.headers.get("content-type"),
+	);
+	return result.ok
+		? new Response(null, { status: 204 })
+		: Response.json({ error: result.error }, { status: result.status });
+}
+
+export async function GET(req: Request, { params }: Context) {
+	if (fileStorage.name !== "local") {
+		return Response.json({ error: "Not found" }, { status: 404 });
+	}
+	const { key } = await params;
+	const file = await fileStorage.read(
+		key.join("/"),
+		new URL(req.url).searchParams,
+	);
+	if (!file) {
+		return Response.json({ error: "Not found" }, { status: 404 });
+	}
+	return new Response(new Uint8Array(file.body), {
+		headers: {
+			"Content-Type": file.contentType,
+			"Content-Disposition": `inline; filename*=UTF-8''${encodeURIComponent(file.fileName)}`,
+			"Cache-Control": "private, max-age=300",
+			"X-Content-Type-Options": "nosniff",
+		},
+	});
+}
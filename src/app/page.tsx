@@ -1,17 +1,12 @@
 import Link from "next/link";
 
-import { LatestPost } from "~/app/_components/post";
 import { auth } from "~/server/auth";
 import { HydrateClient, api } from "~/trpc/server";
 
 export default async function Home() {
-	const hello = await api.post.hello({ text: "from tRPC" });
+	const { services } = await api.service.list({ featured: true, limit: 6 });
 	const session = await auth();
 
-	if (session?.user) {
-		void api.post.getLatest.prefetch();
-	}
-
 	return (
 		<HydrateClient>
 			<main className="flex min-h-screen flex-col items-center justify-center bg-gradient-to-b from-[#2e026d] to-[#15162c] text-white">
@@ -44,9 +39,13 @@ export default async function Home() {
 						</Link>
 					</div>
 					<div className="flex flex-col items-center gap-2">
-						<p className="text-2xl text-white">
-							{hello ? hello.greeting : "Loading tRPC query..."}
-						</p>
+						<ul className="flex flex-col items-center gap-1 text-lg text-white">
+							{services.map((service) => (
+								<li key={service.id}>
+									{service.title} — {service.provider.name}
+								</li>
+							))}
+						</ul>
 
 						<div className="flex flex-col items-center justify-center gap-4">
 							<p className="text-center text-2xl text-white">
@@ -60,8 +59,6 @@ export default async function Home() {
 							</Link>
 						</div>
 					</div>
-
-					{session?.user && <LatestPost />}
 				</div>
 			</main>
 		</HydrateClient>
@@ -0,0 +1,215 @@
+"use client";
+
+import type { NotificationType } from "@prisma/client";
+import { formatDistanceToNow } from "date-fns";
+import { BellIcon } from "lucide-react";
+import Link from "next/link";
+import { useState } from "react";
+
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuItem,
+	DropdownMenuLabel,
+	DropdownMenuRadioGroup,
+	DropdownMenuRadioItem,
+	DropdownMenuSeparator,
+	DropdownMenuSub,
+	DropdownMenuSubContent,
+	DropdownMenuSubTrigger,
+	DropdownMenuTrigger,
+} from "~/components/ui/dropdown-menu";
+import { cn } from "~/lib/utils";
+import { type RouterOutputs, api } from "~/trpc/react";
+
+type Notification =
+	RouterOutputs["notification"]["list"]["notifications"][number];
+
+const TYPE_LABELS: Record<NotificationType, string> = {
+	BOOKING_REQUEST: "Booking requests",
+	BOOKING_CONFIRMED: "Confirmations",
+	BOOKING_CANCELLED: "Cancellations",
+	BOOKING_COMPLETED: "Completed bookings",
+	BOOKING_REMINDER: "Reminders",
+	PAYMENT_RECEIVED: "Payments",
+	MESSAGE_RECEIVED: "Messages",
+	REVIEW_RECEIVED: "Reviews",
+	REVIEW_REPLIED: "Review replies",
+	WITHDRAWAL_COMPLETED: "Payouts",
+	SYSTEM: "Account",
+};
+
+const ALL_TYPES = "ALL";
+
+/** Shown on the badge; anything above is "99+". */
+const MAX_BADGE_COUNT = 99;
+
+export function NotificationBell() {
+	const [open, setOpen] = useState(false);
+	const [type, setType] = useState<NotificationType | undefined>();
+	const utils = api.useUtils();
+
+	const unread = api.notification.unreadCount.useQuery();
+	// The server pushes the count whenever it changes, so there is nothing to poll.
+	api.notification.onUnreadCount.useSubscription(undefined, {
+		onData: (count) => {
+			utils.notification.unreadCount.setData(undefined, count);
+			void utils.notification.list.invalidate();
+		},
+	});
+
+	const list = api.notification.list.useInfiniteQuery(
+		{ type, limit: 10 },
+		{ enabled: open, getNextPageParam: (page) => page.nextCursor },
+	);
+	const notifications = list.data?.pages.flatMap((page) => page.notifications);
+
+	const markRead = api.notification.markRead.useMutation({
+		onSuccess: ({ unreadCount }) => {
+			utils.notification.unreadCount.setData(undefined, unreadCount);
+			void utils.notification.list.invalidate();
+		},
+	});
+	const markAllRead = api.notification.markAllRead.useMutation({
+		onSuccess: ({ unreadCount }) => {
+			utils.notification.unreadCount.setData(undefined, unreadCount);
+			void utils.notification.list.invalidate();
+		},
+	});
+
+	const count = unread.data ?? 0;
+
+	return (
+		<DropdownMenu open={open} onOpenChange={setOpen}>
+			<DropdownMenuTrigger asChild>
+				<Button
+					variant="ghost"
+					size="icon"
+					className="relative"
+					aria-label={
+						count > 0 ? `Notifications, ${count} unread` : "Notifications"
+					}
+				>
+					<BellIcon />
+					{count > 0 && (
+						<Badge className="-top-1 -right-1 absolute h-5 min-w-5 rounded-full px-1 tabular-nums">
+							{count > MAX_BADGE_COUNT ? `${MAX_BADGE_COUNT}+` : count}
+						</Badge>
+					)}
+				</Button>
+			</DropdownMenuTrigger>
+
+			<DropdownMenuContent align="end" className="w-96">
+				<div className="flex items-center justify-between">
+					<DropdownMenuLabel>Notifications</DropdownMenuLabel>
+					<Button
+						variant="link"
+						size="sm"
+						disabled={count === 0 || markAllRead.isPending}
+						onClick={() => markAllRead.mutate({ type })}
+					>
+						{type ? "Mark these as read" : "Mark all as read"}
+					</Button>
+				</div>
+
+				<DropdownMenuSub>
+					<DropdownMenuSubTrigger>
+						{type ? TYPE_LABELS[type] : "All notifications"}
+					</DropdownMenuSubTrigger>
+					<DropdownMenuSubContent>
+						<DropdownMenuRadioGroup
+							value={type ?? ALL_TYPES}
+							onValueChange={(value) =>
+								setType(
+									value === ALL_TYPES ? undefined : (value as NotificationType),
+								)
+							}
+						>
+							<DropdownMenuRadioItem value={ALL_TYPES}>
+								All notifications
+							</DropdownMenuRadioItem>
+							{Object.entries(TYPE_LABELS).map(([value, label]) => (
+								<DropdownMenuRadioItem key={value} value={value}>
+									{label}
+								</DropdownMenuRadioItem>
+							))}
+						</DropdownMenuRadioGroup>
+					</DropdownMenuSubContent>
+				</DropdownMenuSub>
+				<DropdownMenuSeparator />
+
+				{list.isLoading && (
+					<p className="p-2 text-muted-foreground text-sm">Loading…</p>
+				)}
+				{notifications?.length === 0 && (
+					<p className="p-2 text-muted-foreground text-sm">
+						You are all caught up.
+					</p>
+				)}
+				{notifications?.map((notification) => (
+					<NotificationItem
+						key={notification.id}
+						notification={notification}
+						onOpen={() =>
+							!notification.isRead && markRead.mutate({ id: notification.id })
+						}
+					/>
+				))}
+				{list.hasNextPage && (
+					<DropdownMenuItem
+						disabled={list.isFetchingNextPage}
+						// Keep the menu open while the next page loads.
+						onSelect={(event) => {
+							event.preventDefault();
+							void list.fetchNextPage();
+						}}
+						className="justify-center text-sm"
+					>
+						{list.isFetchingNextPage ? "Loading…" : "Show older"}
+					</DropdownMenuItem>
+				)}
+			</DropdownMenuContent>
+		</DropdownMenu>
+	);
+}
+
+function NotificationItem({
+	notification,
+	onOpen,
+}: {
+	notification: Notification;
+	onOpen: () => void;
+}) {
+	const body = (
+		<div className="flex w-full items-start gap-2">
+			<span
+				className={cn(
+					"mt-1.5 size-2 shrink-0 rounded-full",
+					notification.isRead ? "bg-transparent" : "bg-primary",
+				)}
+			/>
+			<div className="flex min-w-0 flex-col gap-0.5">
+				<span className={cn(!notification.isRead && "font-medium")}>
+					{notification.title}
+				</span>
+				<span className="line-clamp-2 text-muted-foreground text-xs">
+					{notification.message}
+				</span>
+				<span className="text-muted-foreground text-xs">
+					{formatDistanceToNow(notification.createdAt, { addSuffix: true })}
+				</span>
+			</div>
+		</div>
+	);
+
+	if (!notification.href) {
+		return <DropdownMenuItem onSelect={onOpen}>{body}</DropdownMenuItem>;
+	}
+	return (
+		<DropdownMenuItem asChild onSelect={onOpen}>
+			<Link href={notification.href}>{body}</Link>
+		</DropdownMenuItem>
+	);
+}
@@ -1,6 +1,9 @@
 import { createEnv } from "@t3-oss/env-nextjs";
 import { z } from "zod";
 
+/** A list of offsets before a booking's start like "24h,1h,30m"; units are m, h and d. */
+export const REMINDER_OFFSETS_REGEX = /^\s*\d+[mhd]\s*(,\s*\d+[mhd]\s*)*$/;
+
 export const env = createEnv({
 	/**
 	 * Specify your server-side environment variables schema here. This way you can ensure the app
@@ -17,6 +20,42 @@ export const env = createEnv({
 		NODE_ENV: z
 			.enum(["development", "test", "production"])
 			.default("development"),
+		PLATFORM_COMMISSION_RATE: z.coerce.number().min(0).max(1).default(0.1),
+		PAYMENT_GATEWAY: z.enum(["fake"]).default("fake"),
+		PAYMENT_WEBHOOK_SECRET:
+			process.env.NODE_ENV === "production"
+				? z.string()
+				: z.string().default("dev-payment-webhook-secret"),
+		PAYMENT_FAKE_LEDGER_FILE: z.string().default(".payments/fake-ledger.json"),
+		ESCROW_HOLD_DAYS: z.coerce.number().int().min(0).default(15),
+		REVIEW_WINDOW_DAYS: z.coerce.number().int().min(1).default(14),
+		BOOKING_AUTO_COMPLETE_HOURS: z.coerce.number().min(0).default(24),
+		UNPAID_BOOKING_EXPIRY_HOURS: z.coerce.number().min(1).default(24),
+		BOOKING_REMINDER_OFFSETS: z
+			.string()
+			.regex(REMINDER_OFFSETS_REGEX)
+			.default("24h,1h"),
+		NO_SHOW_GRACE_MINUTES: z.coerce.number().int().min(0).default(30),
+		NO_SHOW_CONTEST_HOURS: z.coerce.number().int().min(1).default(48),
+		CRON_SECRET:
+			process.env.NODE_ENV === "production"
+				? z.string()
+				: z.string().default("dev-cron-secret"),
+		GEOCODING_PROVIDER: z.enum(["local"]).default("local"),
+		EMBEDDING_PROVIDER: z.enum(["local"]).default("local"),
+		REALTIME_BUS: z.enum(["memory"]).default("memory"),
+		STORAGE_PROVIDER: z.enum(["local"]).default("local"),
+		STORAGE_LOCAL_DIR: z.string().default(".uploads"),
+		EMAIL_TRANSPORT: z
+			.enum(["console", "file", "mailsink"])
+			.default("console"),
+		SMS_TRANSPORT: z.enum(["console", "file"]).default("console"),
+		PUSH_TRANSPORT: z.enum(["console", "file"]).default("console"),
+		NOTIFICATION_OUTBOX_DIR: z.string().default(".notifications"),
+		EMAIL_FROM: z.string().default("Marketplace <noreply@localhost>"),
+		APP_URL: z.string().url().default("http://localhost:3000"),
+		JOB_RUNNER: z.enum(["inprocess", "worker"]).default("inprocess"),
+		JOB_POLL_INTERVAL_MS: z.coerce.number().int().min(100).default(5000),
 	},
 
 	/**
@@ -38,6 +77,31 @@ export const env = createEnv({
 		AUTH_GOOGLE_SECRET: process.env.AUTH_GOOGLE_SECRET,
 		DATABASE_URL: process.env.DATABASE_URL,
 		NODE_ENV: process.env.NODE_ENV,
+		PLATFORM_COMMISSION_RATE: process.env.PLATFORM_COMMISSION_RATE,
+		PAYMENT_GATEWAY: process.env.PAYMENT_GATEWAY,
+		PAYMENT_WEBHOOK_SECRET: process.env.PAYMENT_WEBHOOK_SECRET,
+		PAYMENT_FAKE_LEDGER_FILE: process.env.PAYMENT_FAKE_LEDGER_FILE,
+		ESCROW_HOLD_DAYS: process.env.ESCROW_HOLD_DAYS,
+		REVIEW_WINDOW_DAYS: process.env.REVIEW_WINDOW_DAYS,
+		BOOKING_AUTO_COMPLETE_HOURS: process.env.BOOKING_AUTO_COMPLETE_HOURS,
+		UNPAID_BOOKING_EXPIRY_HOURS: process.env.UNPAID_BOOKING_EXPIRY_HOURS,
+		BOOKING_REMINDER_OFFSETS: process.env.BOOKING_REMINDER_OFFSETS,
+		NO_SHOW_GRACE_MINUTES: process.env.NO_SHOW_GRACE_MINUTES,
+		NO_SHOW_CONTEST_HOURS: process.env.NO_SHOW_CONTEST_HOURS,
+		CRON_SECRET: process.env.CRON_SECRET,
+		GEOCODING_PROVIDER: process.env.GEOCODING_PROVIDER,
+		EMBEDDING_PROVIDER: process.env.EMBEDDING_PROVIDER,
+		REALTIME_BUS: process.env.REALTIME_BUS,
+		STORAGE_PROVIDER: process.env.STORAGE_PROVIDER,
+		STORAGE_LOCAL_DIR: process.env.STORAGE_LOCAL_DIR,
+		EMAIL_TRANSPORT: process.env.EMAIL_TRANSPORT,
+		SMS_TRANSPORT: process.env.SMS_TRANSPORT,
+		PUSH_TRANSPORT: process.env.PUSH_TRANSPORT,
+		NOTIFICATION_OUTBOX_DIR: process.env.NOTIFICATION_OUTBOX_DIR,
+		EMAIL_FROM: process.env.EMAIL_FROM,
+		APP_URL: process.env.APP_URL,
+		JOB_RUNNER: process.env.JOB_RUNNER,
+		JOB_POLL_INTERVAL_MS: process.env.JOB_POLL_INTERVAL_MS,
 	},
 	/**
 	 * Run `build` or `dev` with `SKIP_ENV_VALIDATION` to skip env validation. This is especially
@@ -0,0 +1,11 @@
+/** Runs once when the server starts; see https://nextjs.org/docs/app/guides/instrumentation */
+export async function register() {
+	// The runner needs Node APIs and a database connection, neither of which the edge has.
+	if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+	const { env } = await import("~/env");
+	if (env.JOB_RUNNER !== "inprocess") return;
+
+	const { jobRunner } = await import("~/server/jobs");
+	jobRunner.start();
+}
@@ -1,4 +1,14 @@
-import { postRouter } from "~/server/api/routers/post";
+import { adminRouter } from "~/server/api/routers/admin";
+import { bookingRouter } from "~/server/api/routers/booking";
+import { categoryRouter } from "~/server/api/routers/category";
+import { geocodingRouter } from "~/server/api/routers/geocoding";
+import { messageRouter } from "~/server/api/routers/message";
+import { notificationRouter } from "~/server/api/routers/notification";
+import { paymentRouter } from "~/server/api/routers/payment";
+import { reviewRouter } from "~/server/api/routers/review";
+import { serviceRouter } from "~/server/api/routers/service";
+import { userRouter } from "~/server/api/routers/user";
+import { withdrawalRouter } from "~/server/api/routers/withdrawal";
 import { createCallerFactory, createTRPCRouter } from "~/server/api/trpc";
 
 /**
@@ -7,7 +17,17 @@ import { createCallerFactory, createTRPCRouter } from "~/server/api/trpc";
  * All routers added in /api/routers should be manually added here.
  */
 export const appRouter = createTRPCRouter({
-	post: postRouter,
+	service: serviceRouter,
+	category: categoryRouter,
+	booking: bookingRouter,
+	payment: paymentRouter,
+	review: reviewRouter,
+	message: messageRouter,
+	notification: notificationRouter,
+	withdrawal: withdrawalRouter,
+	user: userRouter,
+	geocoding: geocodingRouter,
+	admin: adminRouter,
 });
 
 // export type definition of API
@@ -17,7 +37,7 @@ export type AppRouter = typeof appRouter;
  * Create a server-side caller for the tRPC API.
  * @example
  * const trpc = createCaller(createContext);
- * const res = await trpc.post.all();
- *       ^? Post[]
+ * const res = await trpc.service.list({});
+ *       ^? { services: Service[], nextCursor?: string }
  */
 export const createCaller = createCallerFactory(appRouter);
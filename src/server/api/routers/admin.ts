@@ -0,0 +1,394 @@
+import {
+	AuditTargetType,
+	BookingStatus,
+	JobStatus,
+	type Prisma,
+	ServiceStatus,
+	UserRole,
+} from "@prisma/client";
+import { z } from "zod";
+
+import {
+	adminProcedure,
+	createTRPCRouter,
+	supportProcedure,
+} from "~/server/api/trpc";
+import { staffActionFrom } from "~/server/domain/audit";
+import { resolveDeadJob } from "~/server/domain/dead-letters";
+import { resolveDispute } from "~/server/domain/disputes";
+import {
+	reviewServiceListing,
+	setReviewPublic,
+	setServiceFeatured,
+	setUserActive,
+	takeDownServiceListing,
+} from "~/server/domain/moderation";
+
+const pageInput = {
+	limit: z.number().int().min(1).max(100).default(50),
+	cursor: z.string().nullish(),
+};
+
+const reasonInput = z.string().trim().min(1).max(500);
+
+const adminUserRouter = createTRPCRouter({
+	list: supportProcedure
+		.input(
+			z.object({
+				search: z.string().trim().min(1).optional(),
+				role: z.nativeEnum(UserRole).optional(),
+				isActive: z.boolean().optional(),
+				...pageInput,
+			}),
+		)
+		.query(async ({ ctx, input }) => {
+			const where: Prisma.UserWhereInput = {
+				role: input.role,
+				isActive: input.isActive,
+			};
+			if (input.search) {
+				where.OR = [
+					{ name: { contains: input.search, mode: "insensitive" } },
+					{ email: { contains: input.search, mode: "insensitive" } },
+				];
+			}
+
+			const users = await ctx.db.user.findMany({
+				where,
+				select: {
+					id: true,
+					name: true,
+					email: true,
+					image: true,
+					role: true,
+					isActive: true,
+					createdAt: true,
+					_count: { select: { services: true, customerBookings: true } },
+				},
+				orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+				take: input.limit + 1,
+				cursor: input.cursor ? { id: input.cursor } : undefined,
+			});
+
+			let nextCursor: string | undefined = undefined;
+			if (users.length > input.limit) {
+				nextCursor = users.pop()?.id;
+			}
+
+			return { users, nextCursor };
+		}),
+
+	suspend: adminProcedure
+		.input(z.object({ id: z.string(), reason: reasonInput }))
+		.mutation(({ ctx, input }) => {
+			return ctx.db.$transaction((tx) =>
+				setUserActive(tx, input.id, false, staffActionFrom(ctx, input.reason)),
+			);
+		}),
+
+	reactivate: adminProcedure
+		.input(z.object({ id: z.string(), reason: reasonInput.optional() }))
+		.mutation(({ ctx, input }) => {
+			return ctx.db.$transaction((tx) =>
+				setUserActive(tx, input.id, true, staffActionFrom(ctx, input.reason)),
+			);
+		}),
+});
+
+const adminServiceRouter = createTRPCRouter({
+	/** The moderation queue by default: listings waiting for approval, oldest first. */
+	list: supportProcedure
+		.input(
+			z.object({
+				status: z
+					.nativeEnum(ServiceStatus)
+					.default(ServiceStatus.PENDING_REVIEW),
+				search: z.string().trim().min(1).optional(),
+				featured: z.boolean().optional(),
+				...pageInput,
+			}),
+		)
+		.query(async ({ ctx, input }) => {
+			const services = await ctx.db.service.findMany({
+				where: {
+					status: input.status,
+					isFeatured: input.featured,
+					title: input.search
+						? { contains: input.search, mode: "insensitive" }
+						: undefined,
+				},
+				include: {
+					category: { select: { id: true, name: true } },
+					provider: { select: { id: true, name: true, email: true } },
+				},
+				orderBy: [{ updatedAt: "asc" }, { id: "asc" }],
+				take: input.limit + 1,
+				cursor: input.cursor ? { id: input.cursor } : undefined,
+			});
+
+			let nextCursor: string | undefined = undefined;
+			if (services.length > input.limit) {
+				nextCursor = services.pop()?.id;
+			}
+
+			return { services, nextCursor };
+		}),
+
+	approve: adminProcedure
+		.input(z.object({ id: z.string(), reason: reasonInput.optional() }))
+		.mutation(({ ctx, input }) => {
+			return ctx.db.$transaction((tx) =>
+				reviewServiceListing(
+					tx,
+					input.id,
+					"approve",
+					staffActionFrom(ctx, input.reason),
+				),
+			);
+		}),
+
+	reject: adminProcedure
+		.input(z.object({ id: z.string(), reason: reasonInput }))
+		.mutation(({ ctx, input }) => {
+			return ctx.db.$transaction((tx) =>
+				reviewServiceListing(
+					tx,
+					input.id,
+					"reject",
+					staffActionFrom(ctx, input.reason),
+				),
+			);
+		}),
+
+	/** Sends a live or paused listing back to its provider as a DRAFT. */
+	takeDown: adminProcedure
+		.input(z.object({ id: z.string(), reason: reasonInput }))
+		.mutation(({ ctx, input }) => {
+			return ctx.db.$transaction((tx) =>
+				takeDownServiceListing(
+					tx,
+					input.id,
+					staffActionFrom(ctx, input.reason),
+				),
+			);
+		}),
+
+	setFeatured: adminProcedure
+		.input(
+			z.object({
+				id: z.string(),
+				featured: z.boolean(),
+				reason: reasonInput.optional(),
+			}),
+		)
+		.mutation(({ ctx, input }) => {
+			return ctx.db.$transaction((tx) =>
+				setServiceFeatured(
+					tx,
+					input.id,
+					input.featured,
+					staffActionFrom(ctx, input.reason),
+				),
+			);
+		}),
+});
+
+const adminReviewRouter = createTRPCRouter({
+	list: supportProcedure
+		.input(
+			z.object({
+				serviceId: z.string().optional(),
+				isPublic: z.boolean().optional(),
+				maxRating: z.number().int().min(1).max(5).optional(),
+				...pageInput,
+			}),
+		)
+		.query(async ({ ctx, input }) => {
+			const reviews = await ctx.db.review.findMany({
+				where: {
+					serviceId: input.serviceId,
+					isPublic: input.isPublic,
+					rating: input.maxRating ? { lte: input.maxRating } : undefined,
+				},
+				include: {
+					service: { select: { id: true, title: true } },
+					reviewer: { select: { id: true, name: true, email: true } },
+				},
+				orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+				take: input.limit + 1,
+				cursor: input.cursor ? { id: input.cursor } : undefined,
+			});
+
+			let nextCursor: string | undefined = undefined;
+			if (reviews.length > input.limit) {
+				nextCursor = reviews.pop()?.id;
+			}
+
+			return { reviews, nextCursor };
+		}),
+
+	setPublic: adminProcedure
+		.input(
+			z.object({ id: z.string(), isPublic: z.boolean(), reason: reasonInput }),
+		)
+		.mutation(({ ctx, input }) => {
+			return ctx.db.$transaction((tx) =>
+				setReviewPublic(
+					tx,
+					input.id,
+					input.isPublic,
+					staffActionFrom(ctx, input.reason),
+				),
+			);
+		}),
+});
+
+const adminAuditLogRouter = createTRPCRouter({
+	/** Who changed what and why, newest first. Filter by target to see the history of one record. */
+	list: supportProcedure
+		.input(
+			z.object({
+				targetType: z.nativeEnum(AuditTargetType).optional(),
+				targetId: z.string().optional(),
+				actorId: z.string().optional(),
+				...pageInput,
+			}),
+		)
+		.query(async ({ ctx, input }) => {
+			const entries = await ctx.db.auditLog.findMany({
+				where: {
+					targetType: input.targetType,
+					targetId: input.targetId,
+					actorId: input.actorId,
+				},
+				include: { actor: { select: { id: true, name: true, email: true } } },
+				orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+				take: input.limit + 1,
+				cursor: input.cursor ? { id: input.cursor } : undefined,
+			});
+
+			let nextCursor: string | undefined = undefined;
+			if (entries.length > input.limit) {
+				nextCursor = entries.pop()?.id;
+			}
+
+			return { entries, nextCursor };
+		}),
+});
+
+const adminJobRouter = createTRPCRouter({
+	/** The dead letters by default: jobs that ran out of attempts, most recent failure first. */
+	list: supportProcedure
+		.input(
+			z.object({
+				status: z.nativeEnum(JobStatus).default(JobStatus.DEAD),
+				name: z.string().optional(),
+				...pageInput,
+			}),
+		)
+		.query(async ({ ctx, input }) => {
+			const jobs = await ctx.db.job.findMany({
+				where: { status: input.status, name: input.name },
+				orderBy: [{ updatedAt: "desc" }, { id: "desc" }],
+				take: input.limit + 1,
+				cursor: input.cursor ? { id: input.cursor } : undefined,
+			});
+
+			let nextCursor: string | undefined = undefined;
+			if (jobs.length > input.limit) {
+				nextCursor = jobs.pop()?.id;
+			}
+
+			return { jobs, nextCursor };
+		}),
+
+	retry: adminProcedure
+		.input(z.object({ id: z.string(), reason: reasonInput.optional() }))
+		.mutation(({ ctx, input }) => {
+			return ctx.db.$transaction((tx) =>
+				resolveDeadJob(
+					tx,
+					input.id,
+					"retry",
+					staffActionFrom(ctx, input.reason),
+				),
+			);
+		}),
+
+	discard: adminProcedure
+		.input(z.object({ id: z.string(), reason: reasonInput }))
+		.mutation(({ ctx, input }) => {
+			return ctx.db.$transaction((tx) =>
+				resolveDeadJob(
+					tx,
+					input.id,
+					"discard",
+					staffActionFrom(ctx, input.reason),
+				),
+			);
+		}),
+});
+
+const adminDisputeRouter = createTRPCRouter({
+	/** Disputed bookings, longest waiting first. */
+	list: supportProcedure
+		.input(z.object(pageInput))
+		.query(async ({ ctx, input }) => {
+			const bookings = await ctx.db.booking.findMany({
+				where: { status: BookingStatus.DISPUTED },
+				include: {
+					service: { select: { id: true, title: true } },
+					customer: { select: { id: true, name: true, email: true } },
+					provider: { select: { id: true, name: true, email: true } },
+					payment: {
+						select: { status: true, amount: true, currency: true },
+					},
+				},
+				orderBy: [{ updatedAt: "asc" }, { id: "asc" }],
+				take: input.limit + 1,
+				cursor: input.cursor ? { id: input.cursor } : undefined,
+			});
+
+			let nextCursor: string | undefined = undefined;
+			if (bookings.length > input.limit) {
+				nextCursor = bookings.pop()?.id;
+			}
+
+			return { bookings, nextCursor };
+		}),
+
+	/** Support staff settle disputes themselves; they are the ones talking to both sides. */
+	resolve: supportProcedure
+		.input(
+			z.object({
+				id: z.string(),
+				resolution: z.discriminatedUnion("outcome", [
+					z.object({ outcome: z.literal("complete") }),
+					z.object({
+						outcome: z.literal("cancel"),
+						refundPercent: z.number().int().min(0).max(100),
+					}),
+				]),
+				reason: reasonInput,
+			}),
+		)
+		.mutation(({ ctx, input }) => {
+			return ctx.db.$transaction((tx) =>
+				resolveDispute(
+					tx,
+					input.id,
+					input.resolution,
+					staffActionFrom(ctx, input.reason),
+				),
+			);
+		}),
+});
+
+export const adminRouter = createTRPCRouter({
+	users: adminUserRouter,
+	services: adminServiceRouter,
+	reviews: adminReviewRouter,
+	auditLog: adminAuditLogRouter,
+	jobs: adminJobRouter,
+	disputes: adminDisputeRouter,
+});
@@ -0,0 +1,411 @@
+import {
+	BookingStatus,
+	MessageCardStatus,
+	MessageType,
+	NotificationType,
+	Prisma,
+} from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import { env } from "~/env";
+import {
+	createTRPCRouter,
+	protectedProcedure,
+	publicProcedure,
+} from "~/server/api/trpc";
+import { contestNoShow, reportNoShow } from "~/server/domain/booking-lifecycle";
+import { computeBookingPricing } from "~/server/domain/booking-pricing";
+import {
+	computeOpenSlots,
+	isSlotOpen,
+	loadSlotContext,
+} from "~/server/domain/booking-slots";
+import {
+	bookingActorFor,
+	transitionBooking,
+} from "~/server/domain/booking-status";
+import {
+	cancelBooking,
+	quoteCancellation,
+} from "~/server/domain/cancellation-policy";
+import {
+	findOrCreateDirectConversation,
+	sendMessage,
+	toMessageView,
+} from "~/server/domain/conversations";
+import type { MessageCard } from "~/server/domain/message-cards";
+import { notify } from "~/server/domain/notifications";
+import { publishMessage } from "~/server/realtime";
+import { fileStorage } from "~/server/storage";
+import { TIME_OF_DAY_REGEX, startOfUtcDay, toDateKey } from "~/utils/time";
+
+/** Longest range a single slot query may cover, to keep the expansion cheap. */
+const MAX_SLOT_RANGE_DAYS = 62;
+
+/** Which side of the booking the caller is on; strangers get NOT_FOUND. */
+async function getBookingActor(
+	db: Prisma.TransactionClient,
+	bookingId: string,
+	userId: string,
+) {
+	const booking = await db.booking.findUnique({
+		where: { id: bookingId },
+		select: { customerId: true, providerId: true },
+	});
+	const actor = booking && bookingActorFor(booking, userId);
+	if (!actor) {
+		throw new TRPCError({ code: "NOT_FOUND", message: "Booking not found" });
+	}
+	return actor;
+}
+
+function isSerializationFailure(error: unknown) {
+	return (
+		error instanceof Prisma.PrismaClientKnownRequestError &&
+		error.code === "P2034"
+	);
+}
+
+export const bookingRouter = createTRPCRouter({
+	/**
+	 * Open slots per day for the "pick a time" flow. Days missing from the result have nothing
+	 * bookable and can be disabled in the `Calendar`.
+	 */
+	availableSlots: publicProcedure
+		.input(
+			z
+				.object({ serviceId: z.string(), from: z.date(), to: z.date() })
+				.refine((i) => i.from <= i.to, {
+					message: "from must not be after to",
+					path: ["to"],
+				})
+				.refine(
+					(i) =>
+						startOfUtcDay(i.to).getTime() - startOfUtcDay(i.from).getTime() <=
+						MAX_SLOT_RANGE_DAYS * 24 * 60 * 60 * 1000,
+					{
+						message: `Range cannot exceed ${MAX_SLOT_RANGE_DAYS} days`,
+						path: ["to"],
+					},
+				),
+		)
+		.query(async ({ ctx, input }) => {
+			const { service, ...slotContext } = await loadSlotContext(
+				ctx.db,
+				input.serviceId,
+				input.from,
+				input.to,
+			);
+
+			return {
+				serviceId: service.id,
+				duration: slotContext.rules.duration,
+				days: computeOpenSlots({
+					...slotContext,
+					from: input.from,
+					to: input.to,
+					now: new Date(),
+				}),
+			};
+		}),
+
+	/**
+	 * Books one open slot for the signed-in customer.
+	 *
+	 * The slot is re-checked inside a serializable transaction, so when two customers race for the
+	 * same time one of them fails with CONFLICT instead of double-booking the provider. Pricing is
+	 * snapshotted from the service, and the provider is told through a BOOKING_REQUEST message
+	 * (pushed live once the transaction commits) and a notification.
+	 */
+	create: protectedProcedure
+		.input(
+			z.object({
+				serviceId: z.string(),
+				date: z.date(),
+				startTime: z.string().regex(TIME_OF_DAY_REGEX, "Use HH:MM"),
+				specialRequests: z.string().max(2000).optional(),
+				customerNotes: z.string().max(2000).optional(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			const customerId = ctx.session.user.id;
+			const bookingDate = startOfUtcDay(input.date);
+
+			try {
+				const { booking, message } = await ctx.db.$transaction(
+					async (tx) => {
+						const { service, ...slotContext } = await loadSlotContext(
+							tx,
+							input.serviceId,
+							bookingDate,
+							bookingDate,
+						);
+						if (service.providerId === customerId) {
+							throw new TRPCError({
+								code: "BAD_REQUEST",
+								message: "You cannot book your own service",
+							});
+						}
+						if (service.price.lte(0)) {
+							throw new TRPCError({
+								code: "PRECONDITION_FAILED",
+								message: "This service is priced on request",
+							});
+						}
+
+						const slot = isSlotOpen({
+							...slotContext,
+							date: bookingDate,
+							startTime: input.startTime,
+							now: new Date(),
+						});
+						if (!slot) {
+							throw new TRPCError({
+								code: "CONFLICT",
+								message: "This time slot is no longer available",
+							});
+						}
+
+						const booking = await tx.booking.create({
+							data: {
+								serviceId: service.id,
+								customerId,
+								providerId: service.providerId,
+								bookingDate,
+								startTime: slot.startTime,
+								endTime: slot.endTime,
+								duration: slotContext.rules.duration,
+								timeZone: slotContext.rules.timeZone,
+								currency: service.currency,
+								specialRequests: input.specialRequests,
+								customerNotes: input.customerNotes,
+								...computeBookingPricing({
+									priceType: service.priceType,
+									price: service.price,
+									duration: slotContext.rules.duration,
+									commissionRate: env.PLATFORM_COMMISSION_RATE,
+								}),
+							},
+						});
+
+						await tx.service.update({
+							where: { id: service.id },
+							data: { bookingCount: { increment: 1 } },
+						});
+
+						const when = `${toDateKey(bookingDate)} at ${slot.startTime}`;
+						const conversation = await findOrCreateDirectConversation(
+							tx,
+							customerId,
+							service.providerId,
+						);
+						const message = await sendMessage(tx, {
+							conversationId: conversation.id,
+							senderId: customerId,
+							recipientId: service.providerId,
+							type: MessageType.BOOKING_REQUEST,
+							bookingId: booking.id,
+							content: `New booking request for "${service.title}" on ${when}.`,
+							// Lets the provider accept or decline right from the thread.
+							payload: {
+								kind: "booking_request",
+								bookingId: booking.id,
+							} satisfies MessageCard,
+							cardStatus: MessageCardStatus.PENDING,
+						});
+						await notify(tx, {
+							userId: service.providerId,
+							type: NotificationType.BOOKING_REQUEST,
+							title: "New booking request",
+							message: `"${service.title}" was requested for ${when}.`,
+							data: { bookingId: booking.id, serviceId: service.id },
+						});
+
+						return { booking, message };
+					},
+					{ isolationLevel: Prisma.TransactionIsolationLevel.Serializable },
+				);
+				await publishMessage(await toMessageView(fileStorage, message));
+				return booking;
+			} catch (error) {
+				if (isSerializationFailure(error)) {
+					throw new TRPCError({
+						code: "CONFLICT",
+						message: "This time slot is no longer available",
+						cause: error,
+					});
+				}
+				throw error;
+			}
+		}),
+
+	getById: protectedProcedure
+		.input(z.object({ id: z.string() }))
+		.query(async ({ ctx, input }) => {
+			const booking = await ctx.db.booking.findUnique({
+				where: { id: input.id },
+				include: {
+					service: { select: { id: true, title: true } },
+					customer: {
+						select: {
+							id: true,
+							name: true,
+							image: true,
+							customerRating: true,
+							customerReviewCount: true,
+						},
+					},
+					provider: { select: { id: true, name: true, image: true } },
+					payment: true,
+				},
+			});
+			if (!booking || !bookingActorFor(booking, ctx.session.user.id)) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Booking not found",
+				});
+			}
+			return booking;
+		}),
+
+	list: protectedProcedure
+		.input(
+			z.object({
+				as: z.enum(["customer", "provider"]),
+				status: z.nativeEnum(BookingStatus).optional(),
+				limit: z.number().int().min(1).max(50).default(20),
+				cursor: z.string().nullish(),
+			}),
+		)
+		.query(async ({ ctx, input }) => {
+			const userId = ctx.session.user.id;
+			const bookings = await ctx.db.booking.findMany({
+				where: {
+					...(input.as === "customer"
+						? { customerId: userId }
+						: { providerId: userId }),
+					status: input.status,
+				},
+				include: {
+					service: { select: { id: true, title: true } },
+					customer: {
+						select: {
+							id: true,
+							name: true,
+							image: true,
+							customerRating: true,
+							customerReviewCount: true,
+						},
+					},
+					provider: { select: { id: true, name: true, image: true } },
+				},
+				orderBy: [
+					{ bookingDate: "desc" },
+					{ startTime: "desc" },
+					{ id: "desc" },
+				],
+				take: input.limit + 1,
+				cursor: input.cursor ? { id: input.cursor } : undefined,
+			});
+
+			let nextCursor: string | undefined = undefined;
+			if (bookings.length > input.limit) {
+				nextCursor = bookings.pop()?.id;
+			}
+
+			return { bookings, nextCursor };
+		}),
+
+	/**
+	 * Moves a booking along its lifecycle on behalf of its customer or provider. Which moves each
+	 * side may make is decided by the booking status state machine. Cancelling goes through
+	 * `cancel` instead, because it settles the payment.
+	 */
+	updateStatus: protectedProcedure
+		.input(
+			z.object({
+				id: z.string(),
+				status: z.enum([
+					BookingStatus.CONFIRMED,
+					BookingStatus.IN_PROGRESS,
+					BookingStatus.COMPLETED,
+					BookingStatus.DISPUTED,
+				]),
+				reason: z.string().max(2000).optional(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			return ctx.db.$transaction(async (tx) => {
+				const actor = await getBookingActor(tx, input.id, ctx.session.user.id);
+
+				return transitionBooking(tx, {
+					bookingId: input.id,
+					to: input.status,
+					actor,
+					reason: input.reason,
+				});
+			});
+		}),
+
+	/** Previews the refund the caller would get by cancelling now. */
+	cancellationQuote: protectedProcedure
+		.input(z.object({ id: z.string() }))
+		.query(async ({ ctx, input }) => {
+			const actor = await getBookingActor(
+				ctx.db,
+				input.id,
+				ctx.session.user.id,
+			);
+			const { policy, refundPercent, refundAmount, hoursUntilStart } =
+				await quoteCancellation(ctx.db, input.id, actor);
+
+			return { policy, refundPercent, refundAmount, hoursUntilStart };
+		}),
+
+	cancel: protectedProcedure
+		.input(z.object({ id: z.string(), reason: z.string().min(1).max(2000) }))
+		.mutation(async ({ ctx, input }) => {
+			return ctx.db.$transaction(async (tx) => {
+				const actor = await getBookingActor(tx, input.id, ctx.session.user.id);
+
+				return cancelBooking(tx, {
+					bookingId: input.id,
+					actor,
+					reason: input.reason,
+				});
+			});
+		}),
+
+	/**
+	 * Reports that the other side did not turn up to a confirmed booking. Unless they contest it
+	 * in time, the booking is then cancelled and the cancellation policy decides the refund or
+	 * payout.
+	 */
+	reportNoShow: protectedProcedure
+		.input(
+			z.object({ id: z.string(), reason: z.string().max(2000).optional() }),
+		)
+		.mutation(async ({ ctx, input }) => {
+			return ctx.db.$transaction((tx) =>
+				reportNoShow(tx, {
+					bookingId: input.id,
+					userId: ctx.session.user.id,
+					reason: input.reason,
+				}),
+			);
+		}),
+
+	/** Contests a no-show report against the caller, which sends the booking to support. */
+	contestNoShow: protectedProcedure
+		.input(z.object({ id: z.string(), reason: z.string().min(1).max(2000) }))
+		.mutation(async ({ ctx, input }) => {
+			return ctx.db.$transaction((tx) =>
+				contestNoShow(tx, {
+					bookingId: input.id,
+					userId: ctx.session.user.id,
+					reason: input.reason,
+				}),
+			);
+		}),
+});
@@ -0,0 +1,319 @@
+import {
+	AuditAction,
+	AuditTargetType,
+	Prisma,
+	type PrismaClient,
+	ServiceStatus,
+} from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import {
+	adminProcedure,
+	createTRPCRouter,
+	publicProcedure,
+} from "~/server/api/trpc";
+import { recordAudit, staffActionFrom } from "~/server/domain/audit";
+import {
+	buildCategoryTree,
+	resolveCategoryPath,
+	rollUpCategoryCounts,
+	wouldCreateCycle,
+} from "~/server/domain/categories";
+import { CATEGORY_REINDEX_JOB } from "~/server/domain/service-embeddings";
+import { enqueueJob } from "~/server/jobs/prisma-store";
+
+const SLUG_REGEX = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+const categoryFields = {
+	name: z.string().trim().min(1).max(80),
+	slug: z
+		.string()
+		.max(80)
+		.regex(SLUG_REGEX, "Use lowercase letters, digits and single hyphens"),
+	description: z.string().trim().max(500).nullish(),
+	icon: z.string().trim().max(80).nullish(),
+	// Null makes it a top-level category.
+	parentId: z.string().nullish(),
+};
+
+const categorySelect = {
+	id: true,
+	name: true,
+	slug: true,
+	description: true,
+	icon: true,
+	parentId: true,
+} satisfies Prisma.CategorySelect;
+
+async function loadCategories(db: Prisma.TransactionClient) {
+	return db.category.findMany({
+		select: categorySelect,
+		orderBy: { name: "asc" },
+	});
+}
+
+/** Live services per category, filed directly under it; the tree adds up descendants. */
+async function activeServiceCounts(db: PrismaClient) {
+	const groups = await db.service.groupBy({
+		by: ["categoryId"],
+		where: {
+			status: ServiceStatus.ACTIVE,
+			isActive: true,
+			provider: { isActive: true },
+		},
+		_count: { _all: true },
+	});
+	return new Map(groups.map((g) => [g.categoryId, g._count._all]));
+}
+
+function withPaths<T extends { slug: string }>(trail: T[]) {
+	return trail.map((category, i) => ({
+		...category,
+		path: `/${trail
+			.slice(0, i + 1)
+			.map((c) => c.slug)
+			.join("/")}`,
+	}));
+}
+
+function isUniqueViolation(error: unknown) {
+	return (
+		error instanceof Prisma.PrismaClientKnownRequestError &&
+		error.code === "P2002"
+	);
+}
+
+function isSerializationFailure(error: unknown) {
+	return (
+		error instanceof Prisma.PrismaClientKnownRequestError &&
+		error.code === "P2034"
+	);
+}
+
+/** Runs a category write, turning a taken name or slug into a CONFLICT the form can show. */
+async function uniqueOrConflict<T>(write: Promise<T>) {
+	try {
+		return await write;
+	} catch (error) {
+		if (isUniqueViolation(error)) {
+			throw new TRPCError({
+				code: "CONFLICT",
+				message: "Another category already uses this name or slug",
+			});
+		}
+		throw error;
+	}
+}
+
+export const categoryRouter = createTRPCRouter({
+	/** Every category nested under its parent, with live service counts that include descendants. */
+	tree: publicProcedure.query(async ({ ctx }) => {
+		const [categories, counts] = await Promise.all([
+			loadCategories(ctx.db),
+			activeServiceCounts(ctx.db),
+		]);
+		return buildCategoryTree(categories, counts);
+	}),
+
+	/**
+	 * Resolves a slug path such as `/home/cleaning/deep-clean` to its category, with the
+	 * breadcrumb trail from the root and the subcategories to drill into next.
+	 */
+	byPath: publicProcedure
+		.input(z.object({ path: z.string().max(500) }))
+		.query(async ({ ctx, input }) => {
+			const [categories, counts] = await Promise.all([
+				loadCategories(ctx.db),
+				activeServiceCounts(ctx.db),
+			]);
+			const trail = resolveCategoryPath(
+				categories,
+				input.path.split("/").filter(Boolean),
+			);
+			const category = trail?.at(-1);
+			if (!trail || !category) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Category not found",
+				});
+			}
+
+			const totals = rollUpCategoryCounts(categories, counts);
+			const breadcrumbs = withPaths(trail);
+			const path = breadcrumbs.at(-1)?.path ?? "";
+
+			return {
+				category: { ...category, serviceCount: totals.get(category.id) ?? 0 },
+				breadcrumbs,
+				children: categories
+					.filter((c) => c.parentId === category.id)
+					.map((child) => ({
+						...child,
+						path: `${path}/${child.slug}`,
+						serviceCount: totals.get(child.id) ?? 0,
+					})),
+			};
+		}),
+
+	create: adminProcedure
+		.input(z.object(categoryFields))
+		.mutation(async ({ ctx, input }) => {
+			if (input.parentId) {
+				const parent = await ctx.db.category.findUnique({
+					where: { id: input.parentId },
+					select: { id: true },
+				});
+				if (!parent) {
+					throw new TRPCError({
+						code: "NOT_FOUND",
+						message: "Parent category not found",
+					});
+				}
+			}
+
+			return uniqueOrConflict(
+				ctx.db.$transaction(async (tx) => {
+					const category = await tx.category.create({
+						data: input,
+						select: categorySelect,
+					});
+					await recordAudit(tx, {
+						...staffActionFrom(ctx),
+						action: AuditAction.CATEGORY_CREATED,
+						targetType: AuditTargetType.CATEGORY,
+						targetId: category.id,
+						metadata: { name: category.name, slug: category.slug },
+					});
+					return category;
+				}),
+			);
+		}),
+
+	/**
+	 * Renames or moves a category. Moving it under itself or its own subtree is refused; renaming
+	 * it queues its services for re-embedding, since the name is part of what search embeds.
+	 */
+	update: adminProcedure
+		.input(
+			z.object({
+				id: z.string(),
+				name: categoryFields.name.optional(),
+				slug: categoryFields.slug.optional(),
+				description: categoryFields.description,
+				icon: categoryFields.icon,
+				parentId: categoryFields.parentId,
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			const { id, ...data } = input;
+			try {
+				return await uniqueOrConflict(
+					ctx.db.$transaction(
+						async (tx) => {
+							// Read inside the write's transaction: two moves that are each fine on their own
+							// (A under B, B under A) would together make a cycle, and Serializable makes one
+							// of them fail instead.
+							const categories = await loadCategories(tx);
+							const existing = categories.find((c) => c.id === id);
+							if (!existing) {
+								throw new TRPCError({
+									code: "NOT_FOUND",
+									message: "Category not found",
+								});
+							}
+							if (data.parentId) {
+								if (!categories.some((c) => c.id === data.parentId)) {
+									throw new TRPCError({
+										code: "NOT_FOUND",
+										message: "Parent category not found",
+									});
+								}
+								if (wouldCreateCycle(categories, id, data.parentId)) {
+									throw new TRPCError({
+										code: "BAD_REQUEST",
+										message:
+											"A category cannot be moved under itself or one of its subcategories",
+									});
+								}
+							}
+
+							const category = await tx.category.update({
+								where: { id },
+								data,
+								select: categorySelect,
+							});
+							await recordAudit(tx, {
+								...staffActionFrom(ctx),
+								action: AuditAction.CATEGORY_UPDATED,
+								targetType: AuditTargetType.CATEGORY,
+								targetId: id,
+								metadata: {
+									before: {
+										name: existing.name,
+										slug: existing.slug,
+										parentId: existing.parentId,
+									},
+								},
+							});
+							if (category.name !== existing.name) {
+								await enqueueJob(tx, {
+									name: CATEGORY_REINDEX_JOB,
+									payload: { categoryId: id },
+								});
+							}
+							return category;
+						},
+						{ isolationLevel: Prisma.TransactionIsolationLevel.Serializable },
+					),
+				);
+			} catch (error) {
+				if (isSerializationFailure(error)) {
+					throw new TRPCError({
+						code: "CONFLICT",
+						message: "The categories changed while saving; try again",
+						cause: error,
+					});
+				}
+				throw error;
+			}
+		}),
+
+	/** Deletes an empty category. Its subcategories and services must be moved elsewhere first. */
+	delete: adminProcedure
+		.input(z.object({ id: z.string() }))
+		.mutation(async ({ ctx, input }) => {
+			const category = await ctx.db.category.findUnique({
+				where: { id: input.id },
+				select: {
+					...categorySelect,
+					_count: { select: { children: true, services: true } },
+				},
+			});
+			if (!category) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Category not found",
+				});
+			}
+			if (category._count.children > 0 || category._count.services > 0) {
+				throw new TRPCError({
+					code: "PRECONDITION_FAILED",
+					message:
+						"Move this category's subcategories and services before deleting it",
+				});
+			}
+
+			await ctx.db.$transaction(async (tx) => {
+				await tx.category.delete({ where: { id: category.id } });
+				await recordAudit(tx, {
+					...staffActionFrom(ctx),
+					action: AuditAction.CATEGORY_DELETED,
+					targetType: AuditTargetType.CATEGORY,
+					targetId: category.id,
+					metadata: { name: category.name, slug: category.slug },
+				});
+			});
+			return { id: category.id };
+		}),
+});
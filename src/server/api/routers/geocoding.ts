@@ -0,0 +1,21 @@
+import { z } from "zod";
+
+import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
+import { geocoder } from "~/server/geocoding";
+
+export const geocodingRouter = createTRPCRouter({
+	/** Resolves a typed address, e.g. to preview where a distance search will start. */
+	geocode: publicProcedure
+		.input(z.object({ address: z.string().trim().min(1).max(200) }))
+		.query(({ input }) => geocoder.geocode(input.address)),
+
+	/** Labels a point, e.g. the position the browser reported for the customer. */
+	reverseGeocode: publicProcedure
+		.input(
+			z.object({
+				latitude: z.number().min(-90).max(90),
+				longitude: z.number().min(-180).max(180),
+			}),
+		)
+		.query(({ input }) => geocoder.reverseGeocode(input)),
+});
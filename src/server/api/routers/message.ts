@@ -0,0 +1,721 @@
+import { MessageCardStatus, MessageType, Prisma } from "@prisma/client";
+import { TRPCError, tracked } from "@trpc/server";
+import { z } from "zod";
+
+import {
+	createTRPCRouter,
+	professionalProcedure,
+	protectedProcedure,
+} from "~/server/api/trpc";
+import { findRescheduleSlot } from "~/server/domain/booking-slots";
+import { bookingActorFor } from "~/server/domain/booking-status";
+import {
+	assertUserCanSend,
+	conversationPartnerIds,
+	findOrCreateDirectConversation,
+	getCounterpart,
+	markConversationRead,
+	messageSelect,
+	sendMessage,
+	toMessageView,
+} from "~/server/domain/conversations";
+import {
+	MAX_ATTACHMENTS_PER_MESSAGE,
+	claimAttachments,
+	createAttachmentUpload,
+} from "~/server/domain/message-attachments";
+import {
+	CARD_MESSAGE_TYPES,
+	type MessageCard,
+	rescheduleCard,
+	respondToCard,
+} from "~/server/domain/message-cards";
+import {
+	type RealtimeEvent,
+	presence,
+	publishMessage,
+	publishToUsers,
+	realtimeBus,
+} from "~/server/realtime";
+import { fileStorage } from "~/server/storage";
+import { TIME_OF_DAY_REGEX } from "~/utils/time";
+
+/** How many messages a reconnecting stream replays at most; older ones come from `history`. */
+const MAX_REPLAYED_MESSAGES = 100;
+
+/** How long a typing indicator lasts without a fresh `typing` call; clients resend sooner. */
+const TYPING_INDICATOR_MS = 6_000;
+
+const userSelect = { id: true, name: true, image: true } as const;
+
+/** Notification changes have their own stream, `notification.onUnreadCount`. */
+type MessageStreamEvent = Exclude<RealtimeEvent, { type: "notifications" }>;
+
+/**
+ * Event ids let a reconnecting client resume after the last message it saw. The other events
+ * are not replayed, so theirs only need to be distinct.
+ */
+function eventId(event: MessageStreamEvent) {
+	switch (event.type) {
+		case "message":
+			return event.message.id;
+		case "card":
+			return `card:${event.message.id}:${event.message.respondedAt?.getTime()}`;
+		case "read":
+			return `read:${event.conversationId}:${event.readAt.getTime()}`;
+		case "typing":
+			return `typing:${event.conversationId}:${event.userId}:${event.expiresAt.getTime()}`;
+		case "presence":
+			return `presence:${event.userId}:${Date.now()}`;
+	}
+}
+
+/** Which conversation an event belongs to; presence belongs to all of them. */
+function eventConversationId(event: MessageStreamEvent) {
+	switch (event.type) {
+		case "message":
+		case "card":
+			return event.message.conversationId;
+		case "presence":
+			return null;
+		default:
+			return event.conversationId;
+	}
+}
+
+/** A booking between the two participants, which is all a message may refer to. */
+async function assertSharedBooking(
+	db: Prisma.TransactionClient,
+	bookingId: string,
+	userId: string,
+	otherUserId: string,
+) {
+	const booking = await db.booking.findFirst({
+		where: {
+			id: bookingId,
+			OR: [
+				{ customerId: userId, providerId: otherUserId },
+				{ customerId: otherUserId, providerId: userId },
+			],
+		},
+		select: { id: true },
+	});
+	if (!booking) {
+		throw new TRPCError({ code: "NOT_FOUND", message: "Booking not found" });
+	}
+}
+
+function isSerializationFailure(error: unknown) {
+	return (
+		error instanceof Prisma.PrismaClientKnownRequestError &&
+		error.code === "P2034"
+	);
+}
+
+/** Tells everyone the user has a conversation with that they came online or went away. */
+async function announcePresence(
+	db: Prisma.TransactionClient,
+	userId: string,
+	online: boolean,
+	lastSeenAt: Date | null,
+) {
+	const partnerIds = await conversationPartnerIds(db, userId);
+	await publishToUsers(partnerIds, {
+		type: "presence",
+		userId,
+		online,
+		lastSeenAt,
+	});
+}
+
+export const messageRouter = createTRPCRouter({
+	/**
+	 * Finds or starts the 1:1 conversation with another user, given directly or as the other side
+	 * of one of the caller's bookings. A booking does not get a conversation of its own: two users
+	 * keep one thread across all their bookings, and each message about a booking carries its id
+	 * (`Message.bookingId`), which is what booking updates and cards are checked against.
+	 */
+	start: protectedProcedure
+		.input(
+			z
+				.object({
+					userId: z.string().optional(),
+					bookingId: z.string().optional(),
+				})
+				.refine((input) => !input.userId !== !input.bookingId, {
+					message: "Name either a user or a booking",
+				}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			const userId = ctx.session.user.id;
+
+			let otherUserId = input.userId;
+			if (input.bookingId) {
+				const booking = await ctx.db.booking.findUnique({
+					where: { id: input.bookingId },
+					select: { customerId: true, providerId: true },
+				});
+				const actor = booking && bookingActorFor(booking, userId);
+				if (!booking || !actor) {
+					throw new TRPCError({
+						code: "NOT_FOUND",
+						message: "Booking not found",
+					});
+				}
+				otherUserId =
+					actor === "customer" ? booking.providerId : booking.customerId;
+			}
+			if (!otherUserId || otherUserId === userId) {
+				throw new TRPCError({
+					code: "BAD_REQUEST",
+					message: "You cannot message yourself",
+				});
+			}
+
+			const otherUser = await ctx.db.user.findUnique({
+				where: { id: otherUserId },
+				select: { ...userSelect, isActive: true },
+			});
+			if (!otherUser?.isActive) {
+				throw new TRPCError({ code: "NOT_FOUND", message: "User not found" });
+			}
+
+			const conversation = await ctx.db.$transaction((tx) =>
+				findOrCreateDirectConversation(tx, userId, otherUser.id),
+			);
+			return {
+				id: conversation.id,
+				otherUser: {
+					id: otherUser.id,
+					name: otherUser.name,
+					image: otherUser.image,
+				},
+			};
+		}),
+
+	/** The caller's conversations, most recently active first, with their latest message. */
+	list: protectedProcedure
+		.input(
+			z
+				.object({
+					limit: z.number().int().min(1).max(50).default(20),
+					cursor: z.string().nullish(),
+				})
+				.default({}),
+		)
+		.query(async ({ ctx, input }) => {
+			const userId = ctx.session.user.id;
+			const memberships = await ctx.db.conversationUser.findMany({
+				where: { userId },
+				include: {
+					conversation: {
+						select: {
+							lastMessageAt: true,
+							participants: {
+								where: { userId: { not: userId } },
+								select: {
+									lastReadAt: true,
+									user: { select: { ...userSelect, lastSeenAt: true } },
+								},
+							},
+							messages: {
+								select: messageSelect,
+								orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+								take: 1,
+							},
+						},
+					},
+				},
+				orderBy: [
+					{ conversation: { lastMessageAt: { sort: "desc", nulls: "last" } } },
+					{ id: "desc" },
+				],
+				take: input.limit + 1,
+				cursor: input.cursor ? { id: input.cursor } : undefined,
+			});
+
+			let nextCursor: string | undefined = undefined;
+			if (memberships.length > input.limit) {
+				nextCursor = memberships.pop()?.id;
+			}
+
+			const online = await presence.onlineAmong(
+				memberships.flatMap((m) =>
+					m.conversation.participants.map((p) => p.user.id),
+				),
+			);
+			return {
+				conversations: await Promise.all(
+					memberships.map(async ({ conversation, ...membership }) => {
+						const other = conversation.participants[0];
+						const lastMessage = conversation.messages[0];
+						return {
+							id: membership.conversationId,
+							unreadCount: membership.unreadCount,
+							lastReadAt: membership.lastReadAt,
+							lastMessageAt: conversation.lastMessageAt,
+							otherUser: other
+								? { ...other.user, online: online.has(other.user.id) }
+								: null,
+							// Up to when the other side has read, for "Seen" marks.
+							otherLastReadAt: other?.lastReadAt ?? null,
+							lastMessage: lastMessage
+								? await toMessageView(fileStorage, lastMessage)
+								: null,
+						};
+					}),
+				),
+				nextCursor,
+			};
+		}),
+
+	/**
+	 * A page of a conversation's messages, newest first; the cursor walks back in time. Messages
+	 * sent up to `otherLastReadAt` have been seen by the other side.
+	 */
+	history: protectedProcedure
+		.input(
+			z.object({
+				conversationId: z.string(),
+				limit: z.number().int().min(1).max(100).default(50),
+				cursor: z.string().nullish(),
+			}),
+		)
+		.query(async ({ ctx, input }) => {
+			const otherUserId = await getCounterpart(
+				ctx.db,
+				input.conversationId,
+				ctx.session.user.id,
+			);
+
+			const [messages, other] = await Promise.all([
+				ctx.db.message.findMany({
+					where: { conversationId: input.conversationId },
+					select: messageSelect,
+					orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+					take: input.limit + 1,
+					cursor: input.cursor ? { id: input.cursor } : undefined,
+				}),
+				ctx.db.conversationUser.findUnique({
+					where: {
+						conversationId_userId: {
+							conversationId: input.conversationId,
+							userId: otherUserId,
+						},
+					},
+					select: { lastReadAt: true },
+				}),
+			]);
+
+			let nextCursor: string | undefined = undefined;
+			if (messages.length > input.limit) {
+				nextCursor = messages.pop()?.id;
+			}
+			return {
+				messages: await Promise.all(
+					messages.map((message) => toMessageView(fileStorage, message)),
+				),
+				nextCursor,
+				otherLastReadAt: other?.lastReadAt ?? null,
+			};
+		}),
+
+	/**
+	 * Reserves an image or file attachment in a conversation and returns a signed URL to upload
+	 * it to. Pass the returned id to `send` once the upload has finished.
+	 */
+	createAttachmentUpload: protectedProcedure
+		.input(
+			z.object({
+				conversationId: z.string(),
+				fileName: z.string().trim().min(1).max(255),
+				contentType: z.string().max(255),
+				size: z.number().int().positive(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			const uploaderId = ctx.session.user.id;
+			await getCounterpart(ctx.db, input.conversationId, uploaderId);
+			return createAttachmentUpload(ctx.db, fileStorage, {
+				...input,
+				uploaderId,
+			});
+		}),
+
+	/**
+	 * Sends a message to the other participant and pushes it to both sides. A message needs text,
+	 * uploaded attachments, or both.
+	 */
+	send: protectedProcedure
+		.input(
+			z
+				.object({
+					conversationId: z.string(),
+					content: z.string().trim().max(5000).default(""),
+					type: z.nativeEnum(MessageType).default(MessageType.TEXT),
+					bookingId: z.string().nullish(),
+					attachmentIds: z
+						.array(z.string())
+						.max(MAX_ATTACHMENTS_PER_MESSAGE)
+						.default([]),
+				})
+				.refine((i) => i.content || i.attachmentIds.length > 0, {
+					message: "Write something or attach a file",
+				}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			const senderId = ctx.session.user.id;
+			assertUserCanSend(input.type, input.bookingId);
+
+			const message = await ctx.db.$transaction(async (tx) => {
+				const recipientId = await getCounterpart(
+					tx,
+					input.conversationId,
+					senderId,
+				);
+				if (input.bookingId) {
+					await assertSharedBooking(tx, input.bookingId, senderId, recipientId);
+				}
+				const attachmentIds = await claimAttachments(tx, fileStorage, {
+					attachmentIds: input.attachmentIds,
+					conversationId: input.conversationId,
+					uploaderId: senderId,
+				});
+
+				return sendMessage(tx, {
+					conversationId: input.conversationId,
+					senderId,
+					recipientId,
+					content: input.content,
+					type: input.type,
+					bookingId: input.bookingId,
+					attachmentIds,
+				});
+			});
+
+			const view = await toMessageView(fileStorage, message);
+			await publishMessage(view);
+			return view;
+		}),
+
+	/**
+	 * Proposes moving a shared upcoming booking to another open slot. The other side accepts or
+	 * declines the card with `respondToCard`; the slot is checked again then.
+	 */
+	proposeReschedule: protectedProcedure
+		.input(
+			z.object({
+				conversationId: z.string(),
+				bookingId: z.string(),
+				date: z.date(),
+				startTime: z.string().regex(TIME_OF_DAY_REGEX, "Use HH:MM"),
+				note: z.string().trim().max(1000).nullish(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			const senderId = ctx.session.user.id;
+			const message = await ctx.db.$transaction(async (tx) => {
+				const recipientId = await getCounterpart(
+					tx,
+					input.conversationId,
+					senderId,
+				);
+				await assertSharedBooking(tx, input.bookingId, senderId, recipientId);
+				const slot = await findRescheduleSlot(
+					tx,
+					input.bookingId,
+					input.date,
+					input.startTime,
+				);
+				const card = rescheduleCard(input.bookingId, slot, input.note);
+
+				return sendMessage(tx, {
+					conversationId: input.conversationId,
+					senderId,
+					recipientId,
+					type: CARD_MESSAGE_TYPES.reschedule,
+					bookingId: input.bookingId,
+					content: `Proposed moving the booking to ${card.date} at ${card.startTime}.`,
+					payload: card,
+					cardStatus: MessageCardStatus.PENDING,
+				});
+			});
+
+			const view = await toMessageView(fileStorage, message);
+			await publishMessage(view);
+			return view;
+		}),
+
+	/** Sends the other participant a custom quote they can accept until `validUntil`. */
+	sendQuote: professionalProcedure
+		.input(
+			z.object({
+				conversationId: z.string(),
+				title: z.string().trim().min(1).max(120),
+				description: z.string().trim().max(2000).nullish(),
+				amount: z.number().positive().max(1_000_000),
+				currency: z.string().length(3).toUpperCase().default("USD"),
+				validUntil: z.date(),
+				serviceId: z.string().nullish(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			const senderId = ctx.session.user.id;
+			if (input.validUntil <= new Date()) {
+				throw new TRPCError({
+					code: "BAD_REQUEST",
+					message: "A quote must be valid for some time",
+				});
+			}
+
+			const message = await ctx.db.$transaction(async (tx) => {
+				const recipientId = await getCounterpart(
+					tx,
+					input.conversationId,
+					senderId,
+				);
+				if (input.serviceId) {
+					const service = await tx.service.findFirst({
+						where: { id: input.serviceId, providerId: senderId },
+						select: { id: true },
+					});
+					if (!service) {
+						throw new TRPCError({
+							code: "NOT_FOUND",
+							message: "Service not found",
+						});
+					}
+				}
+
+				const card = {
+					kind: "quote",
+					title: input.title,
+					description: input.description ?? null,
+					amount: new Prisma.Decimal(input.amount).toFixed(2),
+					currency: input.currency,
+					validUntil: input.validUntil.toISOString(),
+					serviceId: input.serviceId ?? null,
+				} satisfies MessageCard;
+				return sendMessage(tx, {
+					conversationId: input.conversationId,
+					senderId,
+					recipientId,
+					type: CARD_MESSAGE_TYPES.quote,
+					content: `Quote: ${card.title}, ${card.amount} ${card.currency}.`,
+					payload: card,
+					cardStatus: MessageCardStatus.PENDING,
+				});
+			});
+
+			const view = await toMessageView(fileStorage, message);
+			await publishMessage(view);
+			return view;
+		}),
+
+	/**
+	 * Accepts or declines a card sent to the caller: confirms or declines a booking request, moves
+	 * the booking for a reschedule proposal, or answers a quote. Both sides see the card update
+	 * and a line recording the answer.
+	 */
+	respondToCard: protectedProcedure
+		.input(
+			z.object({
+				messageId: z.string(),
+				accept: z.boolean(),
+				reason: z.string().trim().max(1000).optional(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			let result: Awaited<ReturnType<typeof respondToCard>>;
+			try {
+				result = await ctx.db.$transaction(
+					(tx) =>
+						respondToCard(tx, input.messageId, ctx.session.user.id, {
+							accept: input.accept,
+							reason: input.reason,
+						}),
+					{ isolationLevel: Prisma.TransactionIsolationLevel.Serializable },
+				);
+			} catch (error) {
+				if (isSerializationFailure(error)) {
+					throw new TRPCError({
+						code: "CONFLICT",
+						message: "Something changed meanwhile, please try again",
+						cause: error,
+					});
+				}
+				throw error;
+			}
+
+			const [message, reply] = await Promise.all([
+				toMessageView(fileStorage, result.message),
+				toMessageView(fileStorage, result.reply),
+			]);
+			await publishToUsers([message.senderId, message.recipientId], {
+				type: "card",
+				message,
+			});
+			await publishMessage(reply);
+			return { message, reply };
+		}),
+
+	/** Marks the conversation read for the caller; the other side sees a read receipt. */
+	markRead: protectedProcedure
+		.input(z.object({ conversationId: z.string() }))
+		.mutation(async ({ ctx, input }) => {
+			const userId = ctx.session.user.id;
+			const { otherUserId, readAt } = await ctx.db.$transaction(async (tx) => {
+				const otherUserId = await getCounterpart(
+					tx,
+					input.conversationId,
+					userId,
+				);
+				const readAt = await markConversationRead(
+					tx,
+					input.conversationId,
+					userId,
+				);
+				return { otherUserId, readAt };
+			});
+
+			await publishToUsers([otherUserId, userId], {
+				type: "read",
+				conversationId: input.conversationId,
+				userId,
+				readAt,
+			});
+			return { readAt };
+		}),
+
+	/**
+	 * Shows or clears the "is typing" indicator on the other side. Nothing is stored; while the
+	 * user keeps typing, clients call this again before the indicator expires.
+	 */
+	typing: protectedProcedure
+		.input(z.object({ conversationId: z.string(), isTyping: z.boolean() }))
+		.mutation(async ({ ctx, input }) => {
+			const userId = ctx.session.user.id;
+			const otherUserId = await getCounterpart(
+				ctx.db,
+				input.conversationId,
+				userId,
+			);
+			const expiresAt = new Date(Date.now() + TYPING_INDICATOR_MS);
+			await realtimeBus.publish(otherUserId, {
+				type: "typing",
+				conversationId: input.conversationId,
+				userId,
+				isTyping: input.isTyping,
+				expiresAt,
+			});
+			return { expiresAt };
+		}),
+
+	/** Whether the other participant is online right now, or when they were last seen. */
+	presence: protectedProcedure
+		.input(z.object({ conversationId: z.string() }))
+		.query(async ({ ctx, input }) => {
+			const otherUserId = await getCounterpart(
+				ctx.db,
+				input.conversationId,
+				ctx.session.user.id,
+			);
+			const [user, online] = await Promise.all([
+				ctx.db.user.findUniqueOrThrow({
+					where: { id: otherUserId },
+					select: { id: true, lastSeenAt: true },
+				}),
+				presence.onlineAmong([otherUserId]),
+			]);
+			return { ...user, online: online.has(otherUserId) };
+		}),
+
+	/** Unread messages across all of the caller's conversations, for the header badge. */
+	unreadCount: protectedProcedure.query(async ({ ctx }) => {
+		const { _sum } = await ctx.db.conversationUser.aggregate({
+			where: { userId: ctx.session.user.id },
+			_sum: { unreadCount: true },
+		});
+		return _sum.unreadCount ?? 0;
+	}),
+
+	/**
+	 * Live stream of new messages, read receipts, typing indicators and presence changes in the
+	 * caller's conversations, optionally narrowed to one. Served over SSE; a client that
+	 * reconnects sends the id of the last event it saw and first gets the messages it missed
+	 * meanwhile. An open stream is what makes the caller count as online.
+	 */
+	onEvent: protectedProcedure
+		.input(
+			z
+				.object({
+					conversationId: z.string().optional(),
+					lastEventId: z.string().nullish(),
+				})
+				.default({}),
+		)
+		.subscription(async function* ({ ctx, input, signal }) {
+			const userId = ctx.session.user.id;
+			// Listen before replaying, so nothing sent in between falls through the gap.
+			const events = realtimeBus.subscribe(userId, signal);
+			const inScope = (event: MessageStreamEvent) => {
+				const conversationId = eventConversationId(event);
+				return (
+					!input.conversationId ||
+					!conversationId ||
+					input.conversationId === conversationId
+				);
+			};
+
+			if (await presence.connect(userId)) {
+				await announcePresence(ctx.db, userId, true, null);
+			}
+			try {
+				const replayed = new Set<string>();
+				const last = input.lastEventId
+					? await ctx.db.message.findUnique({
+							where: { id: input.lastEventId },
+							select: { createdAt: true },
+						})
+					: null;
+				if (last) {
+					const missed = await ctx.db.message.findMany({
+						where: {
+							OR: [{ senderId: userId }, { recipientId: userId }],
+							conversationId: input.conversationId,
+							createdAt: { gt: last.createdAt },
+						},
+						select: messageSelect,
+						orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+						take: MAX_REPLAYED_MESSAGES,
+					});
+					for (const message of missed) {
+						replayed.add(message.id);
+						const event: RealtimeEvent = {
+							type: "message",
+							message: await toMessageView(fileStorage, message),
+						};
+						yield tracked(eventId(event), event);
+					}
+				}
+
+				for await (const event of events) {
+					if (event.type === "notifications") continue;
+					if (event.type === "message" && replayed.has(event.message.id)) {
+						continue;
+					}
+					if (!inScope(event)) continue;
+					yield tracked(eventId(event), event);
+				}
+			} finally {
+				if (await presence.disconnect(userId)) {
+					const { lastSeenAt } = await ctx.db.user.update({
+						where: { id: userId },
+						data: { lastSeenAt: new Date() },
+						select: { lastSeenAt: true },
+					});
+					await announcePresence(ctx.db, userId, false, lastSeenAt);
+				}
+			}
+		}),
+});
@@ -0,0 +1,194 @@
+import {
+	NotificationChannel,
+	NotificationFrequency,
+	NotificationType,
+} from "@prisma/client";
+import { z } from "zod";
+
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import {
+	countUnreadNotifications,
+	getNotificationPreferences,
+	markNotificationsRead,
+	notificationHref,
+	setNotificationPreference,
+	setQuietHours,
+} from "~/server/domain/notifications";
+import { realtimeBus } from "~/server/realtime";
+import { TIME_OF_DAY_REGEX, isValidTimeZone } from "~/utils/time";
+
+export const notificationRouter = createTRPCRouter({
+	/** The caller's notifications, newest first, each with where it leads in the app. */
+	list: protectedProcedure
+		.input(
+			z.object({
+				type: z.nativeEnum(NotificationType).optional(),
+				unreadOnly: z.boolean().default(false),
+				limit: z.number().int().min(1).max(50).default(20),
+				cursor: z.string().nullish(),
+			}),
+		)
+		.query(async ({ ctx, input }) => {
+			const notifications = await ctx.db.notification.findMany({
+				where: {
+					userId: ctx.session.user.id,
+					type: input.type,
+					isRead: input.unreadOnly ? false : undefined,
+				},
+				select: {
+					id: true,
+					type: true,
+					title: true,
+					message: true,
+					data: true,
+					isRead: true,
+					readAt: true,
+					createdAt: true,
+				},
+				orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+				take: input.limit + 1,
+				cursor: input.cursor ? { id: input.cursor } : undefined,
+			});
+
+			let nextCursor: string | undefined = undefined;
+			if (notifications.length > input.limit) {
+				nextCursor = notifications.pop()?.id;
+			}
+			return {
+				notifications: notifications.map((notification) => ({
+					...notification,
+					href: notificationHref(notification.data),
+				})),
+				nextCursor,
+			};
+		}),
+
+	unreadCount: protectedProcedure.query(({ ctx }) => {
+		return countUnreadNotifications(ctx.db, ctx.session.user.id);
+	}),
+
+	/** Marks one notification read, e.g. when it is opened. Already read ones keep their `readAt`. */
+	markRead: protectedProcedure
+		.input(z.object({ id: z.string() }))
+		.mutation(async ({ ctx, input }) => {
+			await markNotificationsRead(ctx.db, ctx.session.user.id, {
+				ids: [input.id],
+			});
+			return {
+				unreadCount: await countUnreadNotifications(
+					ctx.db,
+					ctx.session.user.id,
+				),
+			};
+		}),
+
+	/** Marks everything read, or only the notifications of `type`. */
+	markAllRead: protectedProcedure
+		.input(z.object({ type: z.nativeEnum(NotificationType).optional() }))
+		.mutation(async ({ ctx, input }) => {
+			const marked = await markNotificationsRead(ctx.db, ctx.session.user.id, {
+				type: input.type,
+			});
+			return {
+				marked,
+				unreadCount: await countUnreadNotifications(
+					ctx.db,
+					ctx.session.user.id,
+				),
+			};
+		}),
+
+	/**
+	 * Streams the caller's unread count: once on connect, then whenever their notifications change,
+	 * including from their other tabs.
+	 */
+	onUnreadCount: protectedProcedure.subscription(async function* ({
+		ctx,
+		signal,
+	}) {
+		const userId = ctx.session.user.id;
+		// Listen before the first count, so nothing arriving in between is missed.
+		const events = realtimeBus.subscribe(userId, signal);
+		let last = await countUnreadNotifications(ctx.db, userId);
+		yield last;
+
+		for await (const event of events) {
+			if (event.type !== "notifications") continue;
+			const count = await countUnreadNotifications(ctx.db, userId);
+			if (count !== last) {
+				last = count;
+				yield count;
+			}
+		}
+	}),
+
+	/** Every notification type with the channels it reaches the caller on besides in-app. */
+	preferences: protectedProcedure.query(({ ctx }) => {
+		return getNotificationPreferences(ctx.db, ctx.session.user.id);
+	}),
+
+	/**
+	 * Chooses the channels for one type, and whether it is sent as it happens or collected into an
+	 * hourly or daily email digest. An empty list keeps it in-app only. Digests only go out by
+	 * email, so one without EMAIL would silently send nothing and is refused.
+	 */
+	updatePreference: protectedProcedure
+		.input(
+			z
+				.object({
+					type: z.nativeEnum(NotificationType),
+					channels: z.array(z.nativeEnum(NotificationChannel)),
+					frequency: z
+						.nativeEnum(NotificationFrequency)
+						.default(NotificationFrequency.INSTANT),
+				})
+				.refine(
+					(input) =>
+						input.frequency === NotificationFrequency.INSTANT ||
+						input.channels.includes(NotificationChannel.EMAIL),
+					{
+						message: "Digests are sent by email; choose email to get one",
+						path: ["channels"],
+					},
+				),
+		)
+		.mutation(({ ctx, input }) => {
+			return setNotificationPreference(
+				ctx.db,
+				ctx.session.user.id,
+				input.type,
+				{
+					channels: input.channels,
+					frequency: input.frequency,
+				},
+			);
+		}),
+
+	/** Sets the caller's time zone and the daily window in it when email and push wait. */
+	updateQuietHours: protectedProcedure
+		.input(
+			z.object({
+				timeZone: z.string().refine(isValidTimeZone, "Unknown time zone"),
+				quietHours: z
+					.object({
+						start: z.string().regex(TIME_OF_DAY_REGEX, "Use HH:MM"),
+						end: z.string().regex(TIME_OF_DAY_REGEX, "Use HH:MM"),
+					})
+					.refine((q) => q.start !== q.end, "Quiet hours cannot be empty")
+					.nullable(),
+			}),
+		)
+		.mutation(({ ctx, input }) => {
+			return setQuietHours(ctx.db, ctx.session.user.id, input);
+		}),
+
+	/** Goes back to the default channels for one type, sent as it happens. */
+	resetPreference: protectedProcedure
+		.input(z.object({ type: z.nativeEnum(NotificationType) }))
+		.mutation(async ({ ctx, input }) => {
+			await ctx.db.notificationPreference.deleteMany({
+				where: { userId: ctx.session.user.id, type: input.type },
+			});
+			return getNotificationPreferences(ctx.db, ctx.session.user.id);
+		}),
+});
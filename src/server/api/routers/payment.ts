@@ -0,0 +1,59 @@
+import { PaymentMethod } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { bookingActorFor } from "~/server/domain/booking-status";
+import { chargeBooking } from "~/server/domain/payments";
+import { paymentGateway } from "~/server/payments";
+
+export const paymentRouter = createTRPCRouter({
+	/** Charges the booking's total to the signed-in customer. Failed payments can be retried. */
+	pay: protectedProcedure
+		.input(
+			z.object({
+				bookingId: z.string(),
+				method: z.nativeEnum(PaymentMethod),
+				paymentToken: z.string().min(1),
+			}),
+		)
+		.mutation(({ ctx, input }) => {
+			return chargeBooking(ctx.db, paymentGateway, {
+				bookingId: input.bookingId,
+				customerId: ctx.session.user.id,
+				method: input.method,
+				paymentToken: input.paymentToken,
+			});
+		}),
+
+	getByBooking: protectedProcedure
+		.input(z.object({ bookingId: z.string() }))
+		.query(async ({ ctx, input }) => {
+			const booking = await ctx.db.booking.findUnique({
+				where: { id: input.bookingId },
+				select: {
+					customerId: true,
+					providerId: true,
+					payment: {
+						select: {
+							id: true,
+							amount: true,
+							currency: true,
+							status: true,
+							method: true,
+							refundedAmount: true,
+							paidAt: true,
+							refundedAt: true,
+						},
+					},
+				},
+			});
+			if (!booking || !bookingActorFor(booking, ctx.session.user.id)) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Booking not found",
+				});
+			}
+			return booking.payment;
+		}),
+});
@@ -0,0 +1,321 @@
+import { BookingStatus, Prisma, ReviewDirection } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import { env } from "~/env";
+import {
+	createTRPCRouter,
+	protectedProcedure,
+	publicProcedure,
+} from "~/server/api/trpc";
+import {
+	PUBLISHED_REVIEW,
+	createReview,
+	deleteReply,
+	deleteReview,
+	replyToReview,
+	reviewDeadline,
+	updateReview,
+	voteOnReview,
+} from "~/server/domain/reviews";
+import { addUtcDays } from "~/utils/time";
+
+const score = z.number().int().min(1).max(5);
+
+const reviewFields = {
+	rating: score,
+	quality: score.nullish(),
+	value: score.nullish(),
+	communication: score.nullish(),
+	punctuality: score.nullish(),
+	respectfulness: score.nullish(),
+	requestAccuracy: score.nullish(),
+	title: z.string().trim().max(120).nullish(),
+	comment: z.string().trim().max(5000).nullish(),
+};
+
+const REVIEW_SORT_ORDER = {
+	helpful: [{ helpfulCount: "desc" }, { createdAt: "desc" }, { id: "desc" }],
+	newest: [{ createdAt: "desc" }, { id: "desc" }],
+	rating_desc: [{ rating: "desc" }, { createdAt: "desc" }, { id: "desc" }],
+	rating_asc: [{ rating: "asc" }, { createdAt: "desc" }, { id: "desc" }],
+} satisfies Record<string, Prisma.ReviewOrderByWithRelationInput[]>;
+
+const listInput = {
+	sort: z
+		.enum(["helpful", "newest", "rating_desc", "rating_asc"])
+		.default("newest"),
+	limit: z.number().int().min(1).max(50).default(20),
+	cursor: z.string().nullish(),
+};
+
+/** Lets someone who is both a customer and a provider look at one side of their reviews. */
+const directionInput = z.nativeEnum(ReviewDirection).optional();
+
+/** What a review card shows. */
+const reviewCardInclude = {
+	reviewer: { select: { id: true, name: true, image: true } },
+	reviewee: { select: { id: true, name: true, image: true } },
+	service: { select: { id: true, title: true } },
+} satisfies Prisma.ReviewInclude;
+
+/** One page of reviews in the requested order, with the signed-in user's own vote as `myVote`. */
+async function listReviews(
+	db: Prisma.TransactionClient,
+	where: Prisma.ReviewWhereInput,
+	input: {
+		sort: keyof typeof REVIEW_SORT_ORDER;
+		limit: number;
+		cursor?: string | null;
+	},
+	userId: string | undefined,
+) {
+	const reviews = await db.review.findMany({
+		where,
+		include: reviewCardInclude,
+		orderBy: REVIEW_SORT_ORDER[input.sort],
+		take: input.limit + 1,
+		cursor: input.cursor ? { id: input.cursor } : undefined,
+	});
+
+	let nextCursor: string | undefined = undefined;
+	if (reviews.length > input.limit) {
+		nextCursor = reviews.pop()?.id;
+	}
+
+	const votes = userId
+		? await db.reviewVote.findMany({
+				where: { userId, reviewId: { in: reviews.map((r) => r.id) } },
+				select: { reviewId: true, helpful: true },
+			})
+		: [];
+	const myVotes = new Map(votes.map((v) => [v.reviewId, v.helpful]));
+
+	return {
+		reviews: reviews.map((review) => ({
+			...review,
+			myVote: myVotes.get(review.id) ?? null,
+		})),
+		nextCursor,
+	};
+}
+
+function isUniqueViolation(error: unknown) {
+	return (
+		error instanceof Prisma.PrismaClientKnownRequestError &&
+		error.code === "P2002"
+	);
+}
+
+export const reviewRouter = createTRPCRouter({
+	/**
+	 * One review per side of a completed booking: the customer rates the provider and the
+	 * provider rates the customer. It stays hidden from the other side until both have reviewed
+	 * or the review window closes.
+	 */
+	create: protectedProcedure
+		.input(z.object({ bookingId: z.string(), ...reviewFields }))
+		.mutation(async ({ ctx, input }) => {
+			const { bookingId, ...review } = input;
+			try {
+				return await ctx.db.$transaction((tx) =>
+					createReview(tx, bookingId, ctx.session.user.id, review),
+				);
+			} catch (error) {
+				// Two submissions raced past the check; one review per booking and direction.
+				if (isUniqueViolation(error)) {
+					throw new TRPCError({
+						code: "CONFLICT",
+						message: "You have already reviewed this booking",
+					});
+				}
+				throw error;
+			}
+		}),
+
+	/** Changes the caller's own review while it is still hidden. */
+	update: protectedProcedure
+		.input(
+			z.object({
+				id: z.string(),
+				rating: score.optional(),
+				quality: reviewFields.quality,
+				value: reviewFields.value,
+				communication: reviewFields.communication,
+				punctuality: reviewFields.punctuality,
+				respectfulness: reviewFields.respectfulness,
+				requestAccuracy: reviewFields.requestAccuracy,
+				title: reviewFields.title,
+				comment: reviewFields.comment,
+			}),
+		)
+		.mutation(({ ctx, input }) => {
+			const { id, ...review } = input;
+			return ctx.db.$transaction((tx) =>
+				updateReview(tx, id, ctx.session.user.id, review),
+			);
+		}),
+
+	/** Withdraws the caller's own review while it is still hidden. */
+	delete: protectedProcedure
+		.input(z.object({ id: z.string() }))
+		.mutation(({ ctx, input }) => {
+			return ctx.db.$transaction((tx) =>
+				deleteReview(tx, input.id, ctx.session.user.id),
+			);
+		}),
+
+	/** Published customer reviews of a service in the chosen order, with each sub-score's average. */
+	listByService: publicProcedure
+		.input(z.object({ serviceId: z.string(), ...listInput }))
+		.query(async ({ ctx, input }) => {
+			const where = {
+				serviceId: input.serviceId,
+				direction: ReviewDirection.CUSTOMER_TO_PROVIDER,
+				...PUBLISHED_REVIEW,
+			};
+			const [page, averages] = await Promise.all([
+				listReviews(ctx.db, where, input, ctx.session?.user.id),
+				ctx.db.review.aggregate({
+					where,
+					_avg: {
+						rating: true,
+						quality: true,
+						value: true,
+						communication: true,
+						punctuality: true,
+					},
+				}),
+			]);
+
+			return { ...page, averages: averages._avg };
+		}),
+
+	/** Published reviews the signed-in user received, for the "Reviews Received" tab. */
+	listReceived: protectedProcedure
+		.input(z.object({ ...listInput, direction: directionInput }).default({}))
+		.query(({ ctx, input }) => {
+			return listReviews(
+				ctx.db,
+				{
+					revieweeId: ctx.session.user.id,
+					direction: input.direction,
+					...PUBLISHED_REVIEW,
+				},
+				input,
+				ctx.session.user.id,
+			);
+		}),
+
+	/**
+	 * Every review the signed-in user wrote, for the "Reviews Given" tab, including ones still
+	 * hidden from the other side (`revealedAt` is null).
+	 */
+	listGiven: protectedProcedure
+		.input(z.object({ ...listInput, direction: directionInput }).default({}))
+		.query(({ ctx, input }) => {
+			return listReviews(
+				ctx.db,
+				{ reviewerId: ctx.session.user.id, direction: input.direction },
+				input,
+				ctx.session.user.id,
+			);
+		}),
+
+	/**
+	 * A customer's reputation: the published reviews providers left them, with their overall
+	 * score and the average of each sub-score. Providers check it before accepting a booking.
+	 */
+	listByCustomer: protectedProcedure
+		.input(z.object({ customerId: z.string(), ...listInput }))
+		.query(async ({ ctx, input }) => {
+			const where = {
+				revieweeId: input.customerId,
+				direction: ReviewDirection.PROVIDER_TO_CUSTOMER,
+				...PUBLISHED_REVIEW,
+			};
+			const [customer, page, averages] = await Promise.all([
+				ctx.db.user.findUnique({
+					where: { id: input.customerId },
+					select: {
+						id: true,
+						name: true,
+						image: true,
+						customerRating: true,
+						customerReviewCount: true,
+					},
+				}),
+				listReviews(ctx.db, where, input, ctx.session.user.id),
+				ctx.db.review.aggregate({
+					where,
+					_avg: {
+						rating: true,
+						punctuality: true,
+						respectfulness: true,
+						requestAccuracy: true,
+					},
+				}),
+			]);
+			if (!customer) {
+				throw new TRPCError({ code: "NOT_FOUND", message: "User not found" });
+			}
+
+			return { customer, ...page, averages: averages._avg };
+		}),
+
+	/** The reviewed user's public answer; posting again replaces it. */
+	reply: protectedProcedure
+		.input(
+			z.object({ id: z.string(), reply: z.string().trim().min(1).max(2000) }),
+		)
+		.mutation(({ ctx, input }) => {
+			return ctx.db.$transaction((tx) =>
+				replyToReview(tx, input.id, ctx.session.user.id, input.reply),
+			);
+		}),
+
+	deleteReply: protectedProcedure
+		.input(z.object({ id: z.string() }))
+		.mutation(({ ctx, input }) => {
+			return deleteReply(ctx.db, input.id, ctx.session.user.id);
+		}),
+
+	/** Marks a review helpful or unhelpful; null takes the vote back. */
+	vote: protectedProcedure
+		.input(z.object({ id: z.string(), helpful: z.boolean().nullable() }))
+		.mutation(({ ctx, input }) => {
+			return ctx.db.$transaction((tx) =>
+				voteOnReview(tx, input.id, ctx.session.user.id, input.helpful),
+			);
+		}),
+
+	/**
+	 * Completed bookings, on either side, that the signed-in user can still review, with the
+	 * deadline for doing so.
+	 */
+	pending: protectedProcedure.query(async ({ ctx }) => {
+		const userId = ctx.session.user.id;
+		const windowDays = env.REVIEW_WINDOW_DAYS;
+		const bookings = await ctx.db.booking.findMany({
+			where: {
+				OR: [{ customerId: userId }, { providerId: userId }],
+				status: BookingStatus.COMPLETED,
+				completedAt: { gt: addUtcDays(new Date(), -windowDays) },
+				reviews: { none: { reviewerId: userId } },
+			},
+			include: {
+				service: { select: { id: true, title: true } },
+				customer: { select: { id: true, name: true, image: true } },
+				provider: { select: { id: true, name: true, image: true } },
+			},
+			orderBy: { completedAt: "desc" },
+		});
+
+		return bookings.map((booking) => ({
+			...booking,
+			reviewDeadline: booking.completedAt
+				? reviewDeadline(booking.completedAt, windowDays)
+				: null,
+		}));
+	}),
+});
@@ -0,0 +1,498 @@
+import {
+	CancellationPolicy,
+	MediaType,
+	PriceType,
+	type Prisma,
+	type PrismaClient,
+	ServiceStatus,
+	ServiceType,
+} from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import {
+	createTRPCRouter,
+	professionalProcedure,
+	publicProcedure,
+} from "~/server/api/trpc";
+import { syncServiceEmbedding } from "~/server/domain/service-embeddings";
+import { searchServices } from "~/server/domain/service-search";
+import {
+	editNeedsReview,
+	transitionService,
+} from "~/server/domain/service-status";
+import { embeddingProvider } from "~/server/embeddings";
+import { coordinatesFor, geocoder } from "~/server/geocoding";
+import type { GeoPoint } from "~/utils/geo";
+import { TIME_OF_DAY_REGEX, timeToMinutes } from "~/utils/time";
+
+const mediaInput = z.object({
+	url: z.string().url(),
+	type: z.nativeEnum(MediaType),
+	caption: z.string().max(200).optional(),
+	order: z.number().int().min(0).default(0),
+});
+
+const availabilityInput = z
+	.object({
+		dayOfWeek: z.number().int().min(0).max(6),
+		startTime: z.string().regex(TIME_OF_DAY_REGEX, "Use HH:MM"),
+		endTime: z.string().regex(TIME_OF_DAY_REGEX, "Use HH:MM"),
+		isActive: z.boolean().default(true),
+	})
+	.refine((a) => timeToMinutes(a.startTime) < timeToMinutes(a.endTime), {
+		message: "startTime must be before endTime",
+		path: ["endTime"],
+	});
+
+const serviceFields = {
+	title: z.string().min(3).max(120),
+	description: z.string().min(1),
+	shortDescription: z.string().max(160).optional(),
+	categoryId: z.string(),
+	priceType: z.nativeEnum(PriceType).default(PriceType.FIXED),
+	price: z.number().positive(),
+	priceUnit: z.string().max(40).optional(),
+	currency: z.string().length(3).default("USD"),
+	duration: z.number().int().positive().optional(),
+	location: z.string().max(200).optional(),
+	serviceRadiusKm: z.number().positive().max(500).optional(),
+	serviceType: z.nativeEnum(ServiceType).default(ServiceType.IN_PERSON),
+	maxBookingsPerDay: z.number().int().positive().optional(),
+	advanceBookingDays: z.number().int().min(1).max(365).default(30),
+	cancellationPolicy: z
+		.nativeEnum(CancellationPolicy)
+		.default(CancellationPolicy.MODERATE),
+	tags: z.array(z.string().min(1).max(40)).max(20).default([]),
+	features: z.array(z.string().min(1).max(120)).max(20).default([]),
+	requirements: z.string().optional(),
+	media: z.array(mediaInput).max(20).default([]),
+	availability: z.array(availabilityInput).max(50).default([]),
+};
+
+const createServiceInput = z.object(serviceFields);
+
+const updateServiceInput = z.object({
+	id: z.string(),
+	title: serviceFields.title.optional(),
+	description: serviceFields.description.optional(),
+	shortDescription: serviceFields.shortDescription.nullish(),
+	categoryId: serviceFields.categoryId.optional(),
+	priceType: z.nativeEnum(PriceType).optional(),
+	price: serviceFields.price.optional(),
+	priceUnit: serviceFields.priceUnit.nullish(),
+	currency: z.string().length(3).optional(),
+	duration: serviceFields.duration.nullish(),
+	location: serviceFields.location.nullish(),
+	serviceRadiusKm: serviceFields.serviceRadiusKm.nullish(),
+	serviceType: z.nativeEnum(ServiceType).optional(),
+	maxBookingsPerDay: serviceFields.maxBookingsPerDay.nullish(),
+	advanceBookingDays: z.number().int().min(1).max(365).optional(),
+	cancellationPolicy: z.nativeEnum(CancellationPolicy).optional(),
+	tags: z.array(z.string().min(1).max(40)).max(20).optional(),
+	features: z.array(z.string().min(1).max(120)).max(20).optional(),
+	requirements: serviceFields.requirements.nullish(),
+	// When given, media and availability replace the existing rows wholesale.
+	media: z.array(mediaInput).max(20).optional(),
+	availability: z.array(availabilityInput).max(50).optional(),
+});
+
+type AvailabilityInput = z.infer<typeof availabilityInput>;
+
+function assertNoOverlappingAvailability(windows: AvailabilityInput[]) {
+	const byDay = new Map<number, AvailabilityInput[]>();
+	for (const window of windows) {
+		byDay.set(window.dayOfWeek, [
+			...(byDay.get(window.dayOfWeek) ?? []),
+			window,
+		]);
+	}
+
+	for (const [dayOfWeek, dayWindows] of byDay) {
+		const sorted = [...dayWindows].sort(
+			(a, b) => timeToMinutes(a.startTime) - timeToMinutes(b.startTime),
+		);
+		for (let i = 1; i < sorted.length; i++) {
+			const previous = sorted[i - 1];
+			const current = sorted[i];
+			if (
+				previous &&
+				current &&
+				timeToMinutes(current.startTime) < timeToMinutes(previous.endTime)
+			) {
+				throw new TRPCError({
+					code: "BAD_REQUEST",
+					message: `Availability windows overlap on day ${dayOfWeek}`,
+				});
+			}
+		}
+	}
+}
+
+async function assertCategoryExists(db: PrismaClient, categoryId: string) {
+	const category = await db.category.findUnique({
+		where: { id: categoryId },
+		select: { id: true },
+	});
+	if (!category) {
+		throw new TRPCError({ code: "NOT_FOUND", message: "Category not found" });
+	}
+}
+
+/**
+ * Loads a service and checks that `userId` is its provider. Only the owner may edit, change the
+ * status of or delete a listing.
+ */
+async function getOwnedService(
+	db: PrismaClient,
+	serviceId: string,
+	userId: string,
+) {
+	const service = await db.service.findUnique({ where: { id: serviceId } });
+	if (!service) {
+		throw new TRPCError({ code: "NOT_FOUND", message: "Service not found" });
+	}
+	if (service.providerId !== userId) {
+		throw new TRPCError({
+			code: "FORBIDDEN",
+			message: "Only the provider can manage this service",
+		});
+	}
+	return service;
+}
+
+/**
+ * The point distance searches are measured from: the coordinates or address the customer asked
+ * for, or else where their profile says they are.
+ */
+async function resolveSearchOrigin(
+	db: PrismaClient,
+	near: GeoPoint | { address: string } | undefined,
+	userId: string | undefined,
+): Promise<GeoPoint | undefined> {
+	if (near && "address" in near) {
+		const result = await geocoder.geocode(near.address);
+		if (!result) {
+			throw new TRPCError({
+				code: "BAD_REQUEST",
+				message: "Could not find that location",
+			});
+		}
+		return { latitude: result.latitude, longitude: result.longitude };
+	}
+	if (near) return near;
+	if (!userId) return undefined;
+
+	const user = await db.user.findUnique({
+		where: { id: userId },
+		select: { latitude: true, longitude: true },
+	});
+	return user?.latitude != null && user.longitude != null
+		? { latitude: user.latitude, longitude: user.longitude }
+		: undefined;
+}
+
+const serviceDetailInclude = {
+	category: true,
+	provider: {
+		select: {
+			id: true,
+			name: true,
+			image: true,
+			location: true,
+			bio: true,
+			averageRating: true,
+			totalReviews: true,
+		},
+	},
+	media: { orderBy: { order: "asc" } },
+	availability: {
+		where: { isActive: true },
+		orderBy: [{ dayOfWeek: "asc" }, { startTime: "asc" }],
+	},
+} satisfies Prisma.ServiceInclude;
+
+export const serviceRouter = createTRPCRouter({
+	create: professionalProcedure
+		.input(createServiceInput)
+		.mutation(async ({ ctx, input }) => {
+			await assertCategoryExists(ctx.db, input.categoryId);
+			assertNoOverlappingAvailability(input.availability);
+
+			const { media, availability, ...fields } = input;
+
+			const service = await ctx.db.service.create({
+				data: {
+					...fields,
+					...(await coordinatesFor(geocoder, fields.location ?? null)),
+					status: ServiceStatus.DRAFT,
+					providerId: ctx.session.user.id,
+					media: { create: media },
+					availability: { create: availability },
+				},
+				include: serviceDetailInclude,
+			});
+
+			await syncServiceEmbedding(ctx.db, embeddingProvider, service);
+			return service;
+		}),
+
+	/**
+	 * Edits a listing. Changing what reviewers approved takes an ACTIVE or PAUSED listing off the
+	 * marketplace until it is approved again.
+	 */
+	update: professionalProcedure
+		.input(updateServiceInput)
+		.mutation(async ({ ctx, input }) => {
+			const { id, media, availability, ...fields } = input;
+			const service = await getOwnedService(ctx.db, id, ctx.session.user.id);
+
+			if (service.status === ServiceStatus.ARCHIVED) {
+				throw new TRPCError({
+					code: "PRECONDITION_FAILED",
+					message: "Archived services cannot be edited",
+				});
+			}
+			if (fields.categoryId) {
+				await assertCategoryExists(ctx.db, fields.categoryId);
+			}
+			if (availability) {
+				assertNoOverlappingAvailability(availability);
+			}
+			const coordinates =
+				fields.location !== undefined
+					? await coordinatesFor(geocoder, fields.location)
+					: undefined;
+
+			const updated = await ctx.db.$transaction(async (tx) => {
+				if (media) {
+					await tx.serviceMedia.deleteMany({ where: { serviceId: id } });
+				}
+				if (availability) {
+					await tx.availability.deleteMany({ where: { serviceId: id } });
+				}
+
+				const edited = await tx.service.update({
+					where: { id },
+					data: {
+						...fields,
+						...coordinates,
+						...(media && { media: { create: media } }),
+						...(availability && { availability: { create: availability } }),
+					},
+					include: serviceDetailInclude,
+				});
+				if (!editNeedsReview(service, { ...fields, media })) return edited;
+
+				await transitionService(tx, {
+					serviceId: id,
+					to: ServiceStatus.PENDING_REVIEW,
+					actor: "owner",
+				});
+				return tx.service.findUniqueOrThrow({
+					where: { id },
+					include: serviceDetailInclude,
+				});
+			});
+
+			await syncServiceEmbedding(ctx.db, embeddingProvider, updated);
+			return updated;
+		}),
+
+	getById: publicProcedure
+		.input(z.object({ id: z.string() }))
+		.query(async ({ ctx, input }) => {
+			const service = await ctx.db.service.findUnique({
+				where: { id: input.id },
+				include: serviceDetailInclude,
+			});
+
+			// Non-active listings are only visible to their provider.
+			const isOwner = service?.providerId === ctx.session?.user.id;
+			if (!service || (service.status !== ServiceStatus.ACTIVE && !isOwner)) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Service not found",
+				});
+			}
+
+			return service;
+		}),
+
+	list: publicProcedure
+		.input(
+			z.object({
+				categoryId: z.string().optional(),
+				providerId: z.string().optional(),
+				serviceType: z.nativeEnum(ServiceType).optional(),
+				featured: z.boolean().optional(),
+				limit: z.number().int().min(1).max(50).default(20),
+				cursor: z.string().nullish(),
+			}),
+		)
+		.query(async ({ ctx, input }) => {
+			const services = await ctx.db.service.findMany({
+				where: {
+					status: ServiceStatus.ACTIVE,
+					isActive: true,
+					provider: { isActive: true },
+					categoryId: input.categoryId,
+					providerId: input.providerId,
+					serviceType: input.serviceType,
+					isFeatured: input.featured,
+				},
+				include: {
+					category: { select: { id: true, name: true, slug: true } },
+					provider: { select: { id: true, name: true, image: true } },
+					media: { orderBy: { order: "asc" }, take: 1 },
+				},
+				orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+				take: input.limit + 1,
+				cursor: input.cursor ? { id: input.cursor } : undefined,
+			});
+
+			let nextCursor: string | undefined = undefined;
+			if (services.length > input.limit) {
+				nextCursor = services.pop()?.id;
+			}
+
+			return { services, nextCursor };
+		}),
+
+	search: publicProcedure
+		.input(
+			z
+				.object({
+					query: z.string().trim().max(200).optional(),
+					// "hybrid" also matches services by meaning, not just by shared keywords.
+					mode: z.enum(["keyword", "hybrid"]).default("keyword"),
+					categoryId: z.string().optional(),
+					serviceType: z.nativeEnum(ServiceType).optional(),
+					priceType: z.nativeEnum(PriceType).optional(),
+					minPrice: z.number().nonnegative().optional(),
+					maxPrice: z.number().nonnegative().optional(),
+					minRating: z.number().min(0).max(5).optional(),
+					location: z.string().trim().max(100).optional(),
+					// Defaults to the signed-in user's own location when they have one.
+					near: z
+						.union([
+							z.object({
+								latitude: z.number().min(-90).max(90),
+								longitude: z.number().min(-180).max(180),
+							}),
+							z.object({ address: z.string().trim().min(1).max(200) }),
+						])
+						.optional(),
+					radiusKm: z.number().positive().max(500).optional(),
+					sort: z
+						.enum([
+							"relevance",
+							"price_asc",
+							"price_desc",
+							"rating",
+							"distance",
+						])
+						.default("relevance"),
+					page: z.number().int().min(1).default(1),
+					limit: z.number().int().min(1).max(50).default(20),
+				})
+				.refine(
+					(input) =>
+						input.minPrice === undefined ||
+						input.maxPrice === undefined ||
+						input.minPrice <= input.maxPrice,
+					{ message: "minPrice must not exceed maxPrice", path: ["minPrice"] },
+				),
+		)
+		.query(async ({ ctx, input }) => {
+			const { near, mode, ...filters } = input;
+			const origin = await resolveSearchOrigin(
+				ctx.db,
+				near,
+				ctx.session?.user.id,
+			);
+			if (
+				!origin &&
+				(input.radiusKm !== undefined || input.sort === "distance")
+			) {
+				throw new TRPCError({
+					code: "BAD_REQUEST",
+					message: "Choose a location to search by distance",
+				});
+			}
+
+			const query = input.query || undefined;
+			const [vector] =
+				query && mode === "hybrid"
+					? await embeddingProvider.embed([query])
+					: [];
+
+			return searchServices(ctx.db, {
+				...filters,
+				origin,
+				semantic: vector && {
+					provider: embeddingProvider.name,
+					vector,
+					threshold: embeddingProvider.similarityThreshold,
+				},
+				query,
+				location: input.location || undefined,
+			});
+		}),
+
+	listMine: professionalProcedure
+		.input(
+			z.object({ status: z.nativeEnum(ServiceStatus).optional() }).default({}),
+		)
+		.query(({ ctx, input }) => {
+			return ctx.db.service.findMany({
+				where: { providerId: ctx.session.user.id, status: input.status },
+				include: {
+					category: { select: { id: true, name: true, slug: true } },
+					media: { orderBy: { order: "asc" }, take: 1 },
+				},
+				orderBy: { updatedAt: "desc" },
+			});
+		}),
+
+	updateStatus: professionalProcedure
+		.input(z.object({ id: z.string(), status: z.nativeEnum(ServiceStatus) }))
+		.mutation(async ({ ctx, input }) => {
+			const service = await getOwnedService(
+				ctx.db,
+				input.id,
+				ctx.session.user.id,
+			);
+
+			return transitionService(ctx.db, {
+				serviceId: service.id,
+				to: input.status,
+				actor: "owner",
+			});
+		}),
+
+	delete: professionalProcedure
+		.input(z.object({ id: z.string() }))
+		.mutation(async ({ ctx, input }) => {
+			const service = await getOwnedService(
+				ctx.db,
+				input.id,
+				ctx.session.user.id,
+			);
+
+			// Bookings reference the service without a cascade, and their history must survive.
+			const bookingCount = await ctx.db.booking.count({
+				where: { serviceId: service.id },
+			});
+			if (bookingCount > 0) {
+				throw new TRPCError({
+					code: "PRECONDITION_FAILED",
+					message:
+						"Services with bookings cannot be deleted; archive it instead",
+				});
+			}
+
+			await ctx.db.service.delete({ where: { id: service.id } });
+			return { id: service.id };
+		}),
+});
@@ -0,0 +1,61 @@
+import { UserRole } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { coordinatesFor, geocoder } from "~/server/geocoding";
+
+export const userRouter = createTRPCRouter({
+	me: protectedProcedure.query(({ ctx }) => {
+		return ctx.db.user.findUniqueOrThrow({
+			where: { id: ctx.session.user.id },
+			select: {
+				id: true,
+				name: true,
+				email: true,
+				image: true,
+				phone: true,
+				bio: true,
+				location: true,
+				latitude: true,
+				longitude: true,
+				role: true,
+				professionalSince: true,
+				createdAt: true,
+			},
+		});
+	}),
+
+	/** Sets where the user is; distance searches start from here unless told otherwise. */
+	updateLocation: protectedProcedure
+		.input(z.object({ location: z.string().trim().min(1).max(200).nullable() }))
+		.mutation(async ({ ctx, input }) => {
+			return ctx.db.user.update({
+				where: { id: ctx.session.user.id },
+				data: {
+					location: input.location,
+					...(await coordinatesFor(geocoder, input.location)),
+				},
+				select: { id: true, location: true, latitude: true, longitude: true },
+			});
+		}),
+
+	/** Lets a customer start offering services. Staff accounts keep their role. */
+	becomeProfessional: protectedProcedure.mutation(async ({ ctx }) => {
+		const { count } = await ctx.db.user.updateMany({
+			where: { id: ctx.session.user.id, role: UserRole.CUSTOMER },
+			data: { role: UserRole.PROFESSIONAL, professionalSince: new Date() },
+		});
+		if (count === 0 && ctx.session.user.role !== UserRole.PROFESSIONAL) {
+			throw new TRPCError({
+				code: "PRECONDITION_FAILED",
+				message: "Only customers can become professionals",
+			});
+		}
+
+		return ctx.db.user.findUniqueOrThrow({
+			where: { id: ctx.session.user.id },
+			select: { id: true, role: true, professionalSince: true },
+		});
+	}),
+});
@@ -0,0 +1,158 @@
+import {
+	AuditAction,
+	AuditTargetType,
+	EarningStatus,
+	PaymentMethod,
+	Prisma,
+	type PrismaClient,
+	WithdrawalStatus,
+} from "@prisma/client";
+import { z } from "zod";
+
+import {
+	adminProcedure,
+	createTRPCRouter,
+	professionalProcedure,
+	supportProcedure,
+} from "~/server/api/trpc";
+import { recordAudit, staffActionFrom } from "~/server/domain/audit";
+import {
+	type UpdateWithdrawalInput,
+	requestWithdrawal,
+	updateWithdrawalStatus,
+} from "~/server/domain/withdrawals";
+
+const WITHDRAWAL_AUDIT_ACTIONS = {
+	PROCESSING: AuditAction.WITHDRAWAL_PROCESSING,
+	COMPLETED: AuditAction.WITHDRAWAL_COMPLETED,
+	REJECTED: AuditAction.WITHDRAWAL_REJECTED,
+} satisfies Record<UpdateWithdrawalInput["to"], AuditAction>;
+
+/** Applies an admin's payout decision and records it in the audit trail. */
+function processWithdrawal(
+	ctx: Parameters<typeof staffActionFrom>[0] & { db: PrismaClient },
+	input: UpdateWithdrawalInput,
+) {
+	return ctx.db.$transaction(async (tx) => {
+		const withdrawal = await updateWithdrawalStatus(tx, input);
+		await recordAudit(tx, {
+			...staffActionFrom(ctx, input.rejectionReason),
+			action: WITHDRAWAL_AUDIT_ACTIONS[input.to],
+			targetType: AuditTargetType.WITHDRAWAL,
+			targetId: withdrawal.id,
+			metadata: input.transactionId
+				? { transactionId: input.transactionId }
+				: undefined,
+		});
+		return withdrawal;
+	});
+}
+
+const adminWithdrawalRouter = createTRPCRouter({
+	list: supportProcedure
+		.input(
+			z.object({
+				status: z.nativeEnum(WithdrawalStatus).optional(),
+				limit: z.number().int().min(1).max(100).default(50),
+				cursor: z.string().nullish(),
+			}),
+		)
+		.query(async ({ ctx, input }) => {
+			const withdrawals = await ctx.db.withdrawal.findMany({
+				where: { status: input.status },
+				include: { user: { select: { id: true, name: true, email: true } } },
+				orderBy: [{ requestedAt: "asc" }, { id: "asc" }],
+				take: input.limit + 1,
+				cursor: input.cursor ? { id: input.cursor } : undefined,
+			});
+
+			let nextCursor: string | undefined = undefined;
+			if (withdrawals.length > input.limit) {
+				nextCursor = withdrawals.pop()?.id;
+			}
+
+			return { withdrawals, nextCursor };
+		}),
+
+	process: adminProcedure
+		.input(z.object({ id: z.string() }))
+		.mutation(({ ctx, input }) => {
+			return processWithdrawal(ctx, {
+				withdrawalId: input.id,
+				to: WithdrawalStatus.PROCESSING,
+			});
+		}),
+
+	complete: adminProcedure
+		.input(z.object({ id: z.string(), transactionId: z.string().optional() }))
+		.mutation(({ ctx, input }) => {
+			return processWithdrawal(ctx, {
+				withdrawalId: input.id,
+				to: WithdrawalStatus.COMPLETED,
+				transactionId: input.transactionId,
+			});
+		}),
+
+	reject: adminProcedure
+		.input(z.object({ id: z.string(), reason: z.string().min(1).max(500) }))
+		.mutation(({ ctx, input }) => {
+			return processWithdrawal(ctx, {
+				withdrawalId: input.id,
+				to: WithdrawalStatus.REJECTED,
+				rejectionReason: input.reason,
+			});
+		}),
+});
+
+export const withdrawalRouter = createTRPCRouter({
+	/** Earnings totals per status, for the earnings screen. */
+	balance: professionalProcedure.query(async ({ ctx }) => {
+		const groups = await ctx.db.earning.groupBy({
+			by: ["status", "currency"],
+			where: { userId: ctx.session.user.id },
+			_sum: { netAmount: true },
+		});
+
+		const totals = (status: EarningStatus) =>
+			groups
+				.filter((g) => g.status === status)
+				.map((g) => ({
+					currency: g.currency,
+					amount: g._sum.netAmount ?? new Prisma.Decimal(0),
+				}));
+
+		return {
+			pending: totals(EarningStatus.PENDING),
+			available: totals(EarningStatus.AVAILABLE),
+			withdrawn: totals(EarningStatus.WITHDRAWN),
+		};
+	}),
+
+	request: professionalProcedure
+		.input(
+			z.object({
+				method: z.nativeEnum(PaymentMethod),
+				accountDetails: z.record(z.string()).optional(),
+				earningIds: z.array(z.string()).min(1).optional(),
+			}),
+		)
+		.mutation(({ ctx, input }) => {
+			return ctx.db.$transaction((tx) =>
+				requestWithdrawal(tx, {
+					userId: ctx.session.user.id,
+					method: input.method,
+					accountDetails: input.accountDetails,
+					earningIds: input.earningIds,
+				}),
+			);
+		}),
+
+	listMine: professionalProcedure.query(({ ctx }) => {
+		return ctx.db.withdrawal.findMany({
+			where: { userId: ctx.session.user.id },
+			orderBy: { requestedAt: "desc" },
+		});
+	}),
+
+	admin: adminWithdrawalRouter,
+});
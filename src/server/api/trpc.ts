@@ -7,12 +7,14 @@
  * need to use are documented accordingly near the end.
  */
 
+import { UserRole } from "@prisma/client";
 import { TRPCError, initTRPC } from "@trpc/server";
 import superjson from "superjson";
 import { ZodError } from "zod";
 
 import { auth } from "~/server/auth";
 import { db } from "~/server/db";
+import { withSettledEvents } from "~/server/realtime";
 
 /**
  * 1. CONTEXT
@@ -45,6 +47,11 @@ export const createTRPCContext = async (opts: { headers: Headers }) => {
  */
 const t = initTRPC.context<typeof createTRPCContext>().create({
 	transformer: superjson,
+	// Pings idle subscription streams, so proxies keep them open and clients notice dead ones.
+	sse: {
+		ping: { enabled: true, intervalMs: 15_000 },
+		client: { reconnectAfterInactivityMs: 20_000 },
+	},
 	errorFormatter({ shape, error }) {
 		return {
 			...shape,
@@ -101,6 +108,15 @@ const timingMiddleware = t.middleware(async ({ next, path }) => {
 	return result;
 });
 
+/**
+ * Holds back realtime events raised while a query or mutation runs (see `publishWhenSettled`)
+ * until it has finished, so listeners never hear about writes that are not committed yet.
+ * Subscriptions outlive the middleware, so they publish directly.
+ */
+const settledEventsMiddleware = t.middleware(({ type, next }) =>
+	type === "subscription" ? next() : withSettledEvents(() => next()),
+);
+
 /**
  * Public (unauthenticated) procedure
  *
@@ -108,7 +124,9 @@ const timingMiddleware = t.middleware(async ({ next, path }) => {
  * guarantee that a user querying is authorized, but you can still access user session data if they
  * are logged in.
  */
-export const publicProcedure = t.procedure.use(timingMiddleware);
+export const publicProcedure = t.procedure
+	.use(timingMiddleware)
+	.use(settledEventsMiddleware);
 
 /**
  * Protected (authenticated) procedure
@@ -120,6 +138,7 @@ export const publicProcedure = t.procedure.use(timingMiddleware);
  */
 export const protectedProcedure = t.procedure
 	.use(timingMiddleware)
+	.use(settledEventsMiddleware)
 	.use(({ ctx, next }) => {
 		if (!ctx.session?.user) {
 			throw new TRPCError({ code: "UNAUTHORIZED" });
@@ -131,3 +150,32 @@ export const protectedProcedure = t.procedure
 			},
 		});
 	});
+
+/**
+ * Role-gated procedures
+ *
+ * Each router declares who may call it by picking one of these. They build on `protectedProcedure`
+ * and reject signed-in users whose `session.user.role` is not allowed with FORBIDDEN.
+ */
+const enforceUserRole = (allowed: readonly UserRole[]) =>
+	t.middleware(({ ctx, next }) => {
+		if (!ctx.session?.user || !allowed.includes(ctx.session.user.role)) {
+			throw new TRPCError({ code: "FORBIDDEN" });
+		}
+		return next();
+	});
+
+/** Providers offering services on the marketplace. */
+export const professionalProcedure = protectedProcedure.use(
+	enforceUserRole([UserRole.PROFESSIONAL]),
+);
+
+/** Platform staff handling support cases; admins can do everything support can. */
+export const supportProcedure = protectedProcedure.use(
+	enforceUserRole([UserRole.SUPPORT, UserRole.ADMIN]),
+);
+
+/** Platform administrators, for anything that moves money or changes other users' accounts. */
+export const adminProcedure = protectedProcedure.use(
+	enforceUserRole([UserRole.ADMIN]),
+);
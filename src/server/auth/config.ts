@@ -1,4 +1,5 @@
 import { PrismaAdapter } from "@auth/prisma-adapter";
+import { UserRole } from "@prisma/client";
 import type { DefaultSession, NextAuthConfig } from "next-auth";
 import GoogleProvider from "next-auth/providers/google";
 import { env } from "~/env";
@@ -15,15 +16,15 @@ declare module "next-auth" {
 	interface Session extends DefaultSession {
 		user: {
 			id: string;
-			// ...other properties
-			// role: UserRole;
+			role: UserRole;
 		} & DefaultSession["user"];
 	}
 
-	// interface User {
-	//   // ...other properties
-	//   // role: UserRole;
-	// }
+	// Optional so the Prisma adapter's user type still fits; every stored user has a role.
+	interface User {
+		role?: UserRole;
+		isActive?: boolean;
+	}
 }
 
 /**
@@ -49,11 +50,14 @@ export const authConfig = {
 	],
 	adapter: PrismaAdapter(db),
 	callbacks: {
+		// Suspended accounts cannot sign in; suspending one also ends its existing sessions.
+		signIn: ({ user }) => user.isActive !== false,
 		session: ({ session, user }) => ({
 			...session,
 			user: {
 				...session.user,
 				id: user.id,
+				role: user.role ?? UserRole.CUSTOMER,
 			},
 		}),
 	},
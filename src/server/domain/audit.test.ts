@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+
+import { clientIpFrom, staffActionFrom } from "./audit";
+
+describe("audit", () => {
+	it("should take the client address from the first forwarded hop", () => {
+		const headers = new Headers({
+			"x-forwarded-for": "203.0.113.7, 10.0.0.2",
+			"x-real-ip": "10.0.0.2",
+		});
+		expect(clientIpFrom(headers)).toBe("203.0.113.7");
+	});
+
+	it("should fall back to x-real-ip, then to no address", () => {
+		expect(clientIpFrom(new Headers({ "x-real-ip": "198.51.100.4" }))).toBe(
+			"198.51.100.4",
+		);
+		expect(clientIpFrom(new Headers())).toBeNull();
+	});
+
+	it("should attribute a staff action to the signed-in user", () => {
+		const action = staffActionFrom(
+			{
+				session: { user: { id: "admin_1" } },
+				headers: new Headers({ "x-forwarded-for": "203.0.113.7" }),
+			},
+			"Terms of Service violation",
+		);
+		expect(action).toEqual({
+			actorId: "admin_1",
+			reason: "Terms of Service violation",
+			ipAddress: "203.0.113.7",
+		});
+	});
+});
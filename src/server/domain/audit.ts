@@ -0,0 +1,44 @@
+import type { AuditAction, AuditTargetType, Prisma } from "@prisma/client";
+
+/** The staff member taking an action, and why. */
+export interface StaffAction {
+	actorId: string;
+	reason?: string;
+	ipAddress?: string | null;
+}
+
+export interface AuditEntry extends StaffAction {
+	action: AuditAction;
+	targetType: AuditTargetType;
+	targetId: string;
+	metadata?: Prisma.InputJsonObject;
+}
+
+/**
+ * The client address of a request, as reported by the proxy in front of the app. Only the first
+ * hop of `x-forwarded-for` is the client; the rest are proxies.
+ */
+export function clientIpFrom(headers: Headers): string | null {
+	const forwarded = headers.get("x-forwarded-for")?.split(",")[0]?.trim();
+	return forwarded || headers.get("x-real-ip") || null;
+}
+
+/** Builds the audit fields of a staff action from the tRPC context of the request. */
+export function staffActionFrom(
+	ctx: { session: { user: { id: string } }; headers: Headers },
+	reason?: string,
+): StaffAction {
+	return {
+		actorId: ctx.session.user.id,
+		reason,
+		ipAddress: clientIpFrom(ctx.headers),
+	};
+}
+
+/**
+ * Records a staff action in the audit trail. Call it in the same transaction as the change it
+ * describes, so the trail never mentions a change that was rolled back.
+ */
+export function recordAudit(db: Prisma.TransactionClient, entry: AuditEntry) {
+	return db.auditLog.create({ data: entry });
+}
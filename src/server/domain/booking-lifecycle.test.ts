@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+
+import {
+	bookingEndsAt,
+	isAutoCompleteDue,
+	isUnpaidBookingExpired,
+	noShowContestClosesAt,
+	noShowReportableAt,
+} from "./booking-lifecycle";
+
+describe("bookingEndsAt", () => {
+	it("should add the duration to the start time", () => {
+		const endsAt = bookingEndsAt({
+			bookingDate: new Date("2030-01-10T00:00:00.000Z"),
+			startTime: "23:00",
+			timeZone: "UTC",
+			duration: 120,
+		});
+
+		expect(endsAt.toISOString()).toBe("2030-01-11T01:00:00.000Z");
+	});
+
+	it("should read the start on the provider's wall clock", () => {
+		const endsAt = bookingEndsAt({
+			bookingDate: new Date("2030-07-10T00:00:00.000Z"),
+			startTime: "09:00",
+			timeZone: "Europe/Paris",
+			duration: 60,
+		});
+
+		expect(endsAt.toISOString()).toBe("2030-07-10T08:00:00.000Z");
+	});
+});
+
+describe("isAutoCompleteDue", () => {
+	const booking = {
+		bookingDate: new Date("2030-01-10T00:00:00.000Z"),
+		startTime: "10:00",
+		timeZone: "UTC",
+		duration: 60,
+	};
+
+	it("should wait for the grace period after the booking ends", () => {
+		expect(
+			isAutoCompleteDue(booking, new Date("2030-01-11T10:59:00.000Z"), 24),
+		).toBe(false);
+		expect(
+			isAutoCompleteDue(booking, new Date("2030-01-11T11:00:00.000Z"), 24),
+		).toBe(true);
+	});
+});
+
+describe("isUnpaidBookingExpired", () => {
+	const booking = {
+		bookingDate: new Date("2030-01-20T00:00:00.000Z"),
+		startTime: "09:00",
+		timeZone: "UTC",
+		createdAt: new Date("2030-01-10T12:00:00.000Z"),
+	};
+
+	it("should expire once the payment window has passed", () => {
+		expect(
+			isUnpaidBookingExpired(booking, new Date("2030-01-11T11:59:00.000Z"), 24),
+		).toBe(false);
+		expect(
+			isUnpaidBookingExpired(booking, new Date("2030-01-11T12:00:00.000Z"), 24),
+		).toBe(true);
+	});
+
+	it("should expire a booking that would already have started", () => {
+		const lastMinute = {
+			...booking,
+			createdAt: new Date("2030-01-20T08:30:00.000Z"),
+		};
+
+		expect(
+			isUnpaidBookingExpired(
+				lastMinute,
+				new Date("2030-01-20T09:00:00.000Z"),
+				24,
+			),
+		).toBe(true);
+	});
+});
+
+describe("noShowReportableAt", () => {
+	it("should open reports once the grace window after the start is over", () => {
+		const reportableAt = noShowReportableAt(
+			{
+				bookingDate: new Date("2030-01-10T00:00:00.000Z"),
+				startTime: "14:00",
+				timeZone: "UTC",
+			},
+			30,
+		);
+
+		expect(reportableAt.toISOString()).toBe("2030-01-10T14:30:00.000Z");
+	});
+});
+
+describe("noShowContestClosesAt", () => {
+	it("should give the absent side the contest window after the report", () => {
+		const closesAt = noShowContestClosesAt(
+			new Date("2030-01-10T15:00:00.000Z"),
+			48,
+		);
+
+		expect(closesAt.toISOString()).toBe("2030-01-12T15:00:00.000Z");
+	});
+});
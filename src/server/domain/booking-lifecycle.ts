@@ -0,0 +1,430 @@
+import {
+	type Booking,
+	BookingStatus,
+	NoShowParty,
+	NotificationType,
+	PaymentStatus,
+	type Prisma,
+	type PrismaClient,
+} from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import { env } from "~/env";
+import { enqueueJob } from "~/server/jobs/prisma-store";
+
+import { bookingActorFor, transitionBooking } from "./booking-status";
+import {
+	bookingStartsAt,
+	cancelBooking,
+	quoteCancellation,
+	settleCancellation,
+} from "./cancellation-policy";
+import { notify } from "./notifications";
+
+/** Most bookings one scheduled run looks at; the next run picks up the rest. */
+const BATCH_SIZE = 200;
+
+export const UNPAID_BOOKING_REASON = "Not paid in time";
+
+/** When a booking ends, as an instant. */
+export function bookingEndsAt(
+	booking: Pick<Booking, "bookingDate" | "startTime" | "timeZone" | "duration">,
+) {
+	return new Date(
+		bookingStartsAt(booking).getTime() + booking.duration * 60_000,
+	);
+}
+
+/**
+ * Whether an IN_PROGRESS booking has been over for `graceHours`, long enough that the provider
+ * has clearly forgotten to complete it and the customer has not raised a dispute.
+ */
+export function isAutoCompleteDue(
+	booking: Pick<Booking, "bookingDate" | "startTime" | "timeZone" | "duration">,
+	now: Date,
+	graceHours: number,
+) {
+	return (
+		bookingEndsAt(booking).getTime() + graceHours * 3_600_000 <= now.getTime()
+	);
+}
+
+/**
+ * Whether an unpaid PENDING booking has run out of time: it was requested more than
+ * `expiryHours` ago, or it would already have started.
+ */
+export function isUnpaidBookingExpired(
+	booking: Pick<
+		Booking,
+		"bookingDate" | "startTime" | "timeZone" | "createdAt"
+	>,
+	now: Date,
+	expiryHours: number,
+) {
+	return (
+		booking.createdAt.getTime() + expiryHours * 3_600_000 <= now.getTime() ||
+		bookingStartsAt(booking) <= now
+	);
+}
+
+/**
+ * The latest `bookingDate` of a booking that can have started by `now`. A day starts up to 14
+ * hours earlier in zones ahead of UTC, so this is a day ahead; callers check the exact start.
+ */
+function latestStartedBookingDate(now: Date) {
+	return new Date(now.getTime() + 24 * 3_600_000);
+}
+
+/**
+ * Completes, as the system, the IN_PROGRESS bookings that ended more than `graceHours` ago,
+ * which puts the provider's earning in escrow. Returns how many were completed.
+ */
+export async function autoCompleteBookings(
+	db: PrismaClient,
+	now = new Date(),
+	graceHours = env.BOOKING_AUTO_COMPLETE_HOURS,
+) {
+	const bookings = await db.booking.findMany({
+		where: {
+			status: BookingStatus.IN_PROGRESS,
+			bookingDate: { lte: latestStartedBookingDate(now) },
+		},
+		select: {
+			id: true,
+			bookingDate: true,
+			startTime: true,
+			timeZone: true,
+			duration: true,
+		},
+		orderBy: { bookingDate: "asc" },
+		take: BATCH_SIZE,
+	});
+	const due = bookings.filter((booking) =>
+		isAutoCompleteDue(booking, now, graceHours),
+	);
+
+	return settleEach(db, due, (tx, booking) =>
+		transitionBooking(tx, {
+			bookingId: booking.id,
+			to: BookingStatus.COMPLETED,
+			actor: "system",
+			now,
+		}),
+	);
+}
+
+/**
+ * Cancels, as the system, the PENDING bookings nobody has paid for in `expiryHours` or that
+ * would already have started, freeing their slots. A charge that is in flight (PROCESSING)
+ * keeps its booking. Returns how many were cancelled.
+ */
+export async function expireUnpaidBookings(
+	db: PrismaClient,
+	now = new Date(),
+	expiryHours = env.UNPAID_BOOKING_EXPIRY_HOURS,
+) {
+	const bookings = await db.booking.findMany({
+		where: {
+			status: BookingStatus.PENDING,
+			AND: [
+				{
+					OR: [
+						{
+							createdAt: {
+								lte: new Date(now.getTime() - expiryHours * 3_600_000),
+							},
+						},
+						{ bookingDate: { lte: latestStartedBookingDate(now) } },
+					],
+				},
+				{
+					OR: [
+						{ payment: null },
+						{
+							payment: {
+								status: { in: [PaymentStatus.PENDING, PaymentStatus.FAILED] },
+							},
+						},
+					],
+				},
+			],
+		},
+		select: {
+			id: true,
+			bookingDate: true,
+			startTime: true,
+			timeZone: true,
+			createdAt: true,
+		},
+		orderBy: { createdAt: "asc" },
+		take: BATCH_SIZE,
+	});
+	const expired = bookings.filter((booking) =>
+		isUnpaidBookingExpired(booking, now, expiryHours),
+	);
+
+	return settleEach(db, expired, (tx, booking) =>
+		cancelBooking(tx, {
+			bookingId: booking.id,
+			actor: "system",
+			reason: UNPAID_BOOKING_REASON,
+			now,
+		}),
+	);
+}
+
+/** The earliest a no-show can be reported: once the grace window after the start is over. */
+export function noShowReportableAt(
+	booking: Pick<Booking, "bookingDate" | "startTime" | "timeZone">,
+	graceMinutes: number,
+) {
+	return new Date(bookingStartsAt(booking).getTime() + graceMinutes * 60_000);
+}
+
+/** Until when the absent side can contest a no-show report before it is settled. */
+export function noShowContestClosesAt(reportedAt: Date, contestHours: number) {
+	return new Date(reportedAt.getTime() + contestHours * 3_600_000);
+}
+
+const absentActor = (party: NoShowParty) =>
+	party === NoShowParty.CUSTOMER ? "customer" : "provider";
+
+export const NO_SHOW_SETTLE_JOB = "bookings.settleNoShow";
+
+const settleNoShowPayload = z.object({
+	bookingId: z.string(),
+	reason: z.string().optional(),
+});
+
+export interface ReportNoShowInput {
+	bookingId: string;
+	/** The side that turned up and is reporting the other. */
+	userId: string;
+	reason?: string;
+	now?: Date;
+	graceMinutes?: number;
+	contestHours?: number;
+}
+
+/**
+ * Reports that the other side of a confirmed booking did not turn up, once the grace window
+ * after its start has passed without anyone marking it as started. The report does not move
+ * the booking: the absent side is told and has `contestHours` to contest it (see
+ * `contestNoShow`), after which `settleNoShow` cancels it. Only one report per booking stands.
+ */
+export async function reportNoShow(
+	db: Prisma.TransactionClient,
+	{
+		bookingId,
+		userId,
+		reason,
+		now = new Date(),
+		graceMinutes = env.NO_SHOW_GRACE_MINUTES,
+		contestHours = env.NO_SHOW_CONTEST_HOURS,
+	}: ReportNoShowInput,
+) {
+	const booking = await db.booking.findUnique({
+		where: { id: bookingId },
+		include: { service: { select: { title: true } } },
+	});
+	const reporter = booking && bookingActorFor(booking, userId);
+	if (!booking || !reporter) {
+		throw new TRPCError({ code: "NOT_FOUND", message: "Booking not found" });
+	}
+	if (booking.status !== BookingStatus.CONFIRMED) {
+		throw new TRPCError({
+			code: "PRECONDITION_FAILED",
+			message: "Only a confirmed booking that has not started can be reported",
+		});
+	}
+	if (now < noShowReportableAt(booking, graceMinutes)) {
+		throw new TRPCError({
+			code: "PRECONDITION_FAILED",
+			message: `A no-show can be reported from ${graceMinutes} minutes after the start time`,
+		});
+	}
+
+	const absent = reporter === "customer" ? "provider" : "customer";
+	const { count } = await db.booking.updateMany({
+		where: {
+			id: booking.id,
+			status: BookingStatus.CONFIRMED,
+			noShowParty: null,
+		},
+		data: {
+			noShowParty:
+				absent === "customer" ? NoShowParty.CUSTOMER : NoShowParty.PROVIDER,
+			noShowReportedAt: now,
+		},
+	});
+	if (count === 0) {
+		throw new TRPCError({
+			code: "CONFLICT",
+			message: "A no-show has already been reported for this booking",
+		});
+	}
+
+	const contestClosesAt = noShowContestClosesAt(now, contestHours);
+	await notify(
+		db,
+		{
+			userId: absent === "customer" ? booking.customerId : booking.providerId,
+			type: NotificationType.SYSTEM,
+			title: `No-show reported: ${booking.service.title}`,
+			message: `The ${reporter} reported that you did not turn up. If that is wrong, contest it before ${contestClosesAt.toISOString()}; otherwise the booking is cancelled under its cancellation policy.`,
+			data: { bookingId: booking.id, serviceId: booking.serviceId },
+		},
+		now,
+	);
+	await enqueueJob(
+		db,
+		{
+			name: NO_SHOW_SETTLE_JOB,
+			payload: { bookingId: booking.id, reason },
+			runAt: contestClosesAt,
+			idempotencyKey: `${NO_SHOW_SETTLE_JOB}:${booking.id}`,
+		},
+		now,
+	);
+
+	const updated = await db.booking.findUniqueOrThrow({
+		where: { id: booking.id },
+	});
+	return { booking: updated, contestClosesAt };
+}
+
+export interface ContestNoShowInput {
+	bookingId: string;
+	/** The side that was reported absent. */
+	userId: string;
+	reason: string;
+	now?: Date;
+	contestHours?: number;
+}
+
+/**
+ * Contests a no-show report against the caller while its window is open. The booking is
+ * disputed as the system, so support staff settle it (see `resolveDispute`) instead of the
+ * report standing on the reporter's word.
+ */
+export async function contestNoShow(
+	db: Prisma.TransactionClient,
+	{
+		bookingId,
+		userId,
+		reason,
+		now = new Date(),
+		contestHours = env.NO_SHOW_CONTEST_HOURS,
+	}: ContestNoShowInput,
+) {
+	const booking = await db.booking.findUnique({ where: { id: bookingId } });
+	const actor = booking && bookingActorFor(booking, userId);
+	if (!booking || !actor) {
+		throw new TRPCError({ code: "NOT_FOUND", message: "Booking not found" });
+	}
+	if (
+		booking.status !== BookingStatus.CONFIRMED ||
+		!booking.noShowParty ||
+		!booking.noShowReportedAt ||
+		absentActor(booking.noShowParty) !== actor
+	) {
+		throw new TRPCError({
+			code: "PRECONDITION_FAILED",
+			message: "There is no no-show report against you to contest",
+		});
+	}
+	if (now >= noShowContestClosesAt(booking.noShowReportedAt, contestHours)) {
+		throw new TRPCError({
+			code: "PRECONDITION_FAILED",
+			message: `A no-show report can only be contested within ${contestHours} hours`,
+		});
+	}
+
+	return transitionBooking(db, {
+		bookingId: booking.id,
+		to: BookingStatus.DISPUTED,
+		actor: "system",
+		reason: `The ${actor} contests the no-show report: ${reason}`,
+		now,
+	});
+}
+
+/**
+ * Job handler: settles an uncontested no-show report once its window has closed. The system
+ * cancels the booking under the service's cancellation policy as if the absent side had
+ * cancelled at the start time: a provider no-show refunds the customer in full, a customer
+ * no-show refunds only what the policy allows that late and pays the rest out to the provider.
+ * Returns whether it did; a report that was contested, or a booking that started anyway, is
+ * left alone.
+ */
+export async function settleNoShow(
+	db: PrismaClient,
+	payload: Prisma.JsonValue,
+	now = new Date(),
+) {
+	const { bookingId, reason } = settleNoShowPayload.parse(payload);
+
+	return db.$transaction(async (tx) => {
+		await tx.$queryRaw`SELECT 1 FROM "Booking" WHERE "id" = ${bookingId} FOR UPDATE`;
+		const booking = await tx.booking.findUnique({ where: { id: bookingId } });
+		if (booking?.status !== BookingStatus.CONFIRMED || !booking.noShowParty) {
+			return false;
+		}
+
+		const absent = absentActor(booking.noShowParty);
+		const quote = await quoteCancellation(
+			tx,
+			booking.id,
+			absent,
+			bookingStartsAt(booking),
+		);
+		await transitionBooking(tx, {
+			bookingId: booking.id,
+			to: BookingStatus.CANCELLED,
+			actor: "system",
+			reason: reason
+				? `No-show by the ${absent}: ${reason}`
+				: `No-show by the ${absent}`,
+			now,
+		});
+		await settleCancellation(tx, quote.booking, quote, now);
+		return true;
+	});
+}
+
+/**
+ * Runs `fn` for each booking in its own transaction, so one bad booking does not hold back the
+ * others. Bookings someone else moved in the meantime are skipped; any other failure is thrown
+ * once the rest are done, so the job is retried.
+ */
+async function settleEach<T extends { id: string }>(
+	db: PrismaClient,
+	bookings: T[],
+	fn: (tx: Prisma.TransactionClient, booking: T) => Promise<unknown>,
+) {
+	let settled = 0;
+	const errors: string[] = [];
+	for (const booking of bookings) {
+		try {
+			await db.$transaction((tx) => fn(tx, booking));
+			settled++;
+		} catch (error) {
+			if (
+				error instanceof TRPCError &&
+				(error.code === "CONFLICT" || error.code === "PRECONDITION_FAILED")
+			) {
+				continue;
+			}
+			errors.push(
+				`${booking.id}: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	}
+	if (errors.length > 0) {
+		throw new Error(
+			`${errors.length} of ${bookings.length} bookings failed: ${errors.join("; ")}`,
+		);
+	}
+	return settled;
+}
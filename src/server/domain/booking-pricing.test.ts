@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+
+import { computeBookingPricing } from "./booking-pricing";
+
+describe("computeBookingPricing", () => {
+	it("should charge fixed prices once and add the commission on top", () => {
+		const pricing = computeBookingPricing({
+			priceType: "FIXED",
+			price: 80,
+			duration: 120,
+			commissionRate: 0.1,
+		});
+
+		expect(pricing.price.toNumber()).toBe(80);
+		expect(pricing.serviceFee.toNumber()).toBe(8);
+		expect(pricing.totalAmount.toNumber()).toBe(88);
+	});
+
+	it("should charge hourly prices for the booked hours", () => {
+		const pricing = computeBookingPricing({
+			priceType: "HOURLY",
+			price: 150,
+			duration: 180,
+			commissionRate: 0.1,
+		});
+
+		expect(pricing.price.toNumber()).toBe(450);
+		expect(pricing.totalAmount.toNumber()).toBe(495);
+	});
+
+	it("should round the fee to cents", () => {
+		const pricing = computeBookingPricing({
+			priceType: "HOURLY",
+			price: 45,
+			duration: 50,
+			commissionRate: 0.125,
+		});
+
+		expect(pricing.price.toString()).toBe("37.5");
+		expect(pricing.serviceFee.toString()).toBe("4.69");
+		expect(pricing.totalAmount.toString()).toBe("42.19");
+	});
+
+	it("should reject commission rates outside 0..1", () => {
+		expect(() =>
+			computeBookingPricing({
+				priceType: "FIXED",
+				price: 10,
+				duration: 60,
+				commissionRate: 1.5,
+			}),
+		).toThrow();
+	});
+});
@@ -0,0 +1,54 @@
+import { type PriceType, Prisma } from "@prisma/client";
+
+/** Platform commission used when `PLATFORM_COMMISSION_RATE` is not configured. */
+export const DEFAULT_COMMISSION_RATE = 0.1;
+
+export interface BookingPricingInput {
+	priceType: PriceType;
+	/** `Service.price`: per hour for HOURLY services, per booking otherwise. */
+	price: Prisma.Decimal | number;
+	/** Booked length in minutes. */
+	duration: number;
+	/** Platform commission as a fraction of the price, e.g. 0.1 for 10%. */
+	commissionRate: number;
+}
+
+export interface BookingPricing {
+	price: Prisma.Decimal;
+	serviceFee: Prisma.Decimal;
+	totalAmount: Prisma.Decimal;
+}
+
+function toMoney(value: Prisma.Decimal) {
+	return value.toDecimalPlaces(2, Prisma.Decimal.ROUND_HALF_UP);
+}
+
+/**
+ * Snapshots what a booking costs at the moment it is made.
+ *
+ * HOURLY services are charged for the booked hours; every other price type charges the listed
+ * price once. The platform commission is added on top as `serviceFee`, so the customer pays
+ * `totalAmount = price + serviceFee`.
+ */
+export function computeBookingPricing({
+	priceType,
+	price,
+	duration,
+	commissionRate,
+}: BookingPricingInput): BookingPricing {
+	if (commissionRate < 0 || commissionRate > 1) {
+		throw new Error(`Invalid commission rate: ${commissionRate}`);
+	}
+
+	const unitPrice = new Prisma.Decimal(price);
+	const bookingPrice = toMoney(
+		priceType === "HOURLY" ? unitPrice.mul(duration).div(60) : unitPrice,
+	);
+	const serviceFee = toMoney(bookingPrice.mul(commissionRate));
+
+	return {
+		price: bookingPrice,
+		serviceFee,
+		totalAmount: bookingPrice.add(serviceFee),
+	};
+}
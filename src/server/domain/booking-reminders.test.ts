@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+
+import {
+	describeLeadTime,
+	parseReminderOffsets,
+	planBookingReminders,
+} from "./booking-reminders";
+
+describe("parseReminderOffsets", () => {
+	it("should read offsets as minutes, largest first", () => {
+		expect(parseReminderOffsets("1h, 30m,2d")).toEqual([2880, 60, 30]);
+	});
+
+	it("should drop repeats", () => {
+		expect(parseReminderOffsets("24h,1d,1h")).toEqual([1440, 60]);
+	});
+
+	it("should reject anything else", () => {
+		expect(() => parseReminderOffsets("24 hours")).toThrow(
+			/Invalid reminder offsets/,
+		);
+		expect(() => parseReminderOffsets("")).toThrow(/Invalid reminder offsets/);
+	});
+});
+
+describe("describeLeadTime", () => {
+	it("should round to the unit that reads best", () => {
+		expect(describeLeadTime(1)).toBe("1 minute");
+		expect(describeLeadTime(45)).toBe("45 minutes");
+		expect(describeLeadTime(60)).toBe("1 hour");
+		expect(describeLeadTime(24 * 60 - 5)).toBe("24 hours");
+		expect(describeLeadTime(3 * 24 * 60)).toBe("3 days");
+	});
+});
+
+describe("planBookingReminders", () => {
+	const startsAt = new Date("2030-01-10T10:00:00.000Z");
+
+	it("should send each reminder its offset before the start", () => {
+		expect(
+			planBookingReminders(
+				startsAt,
+				[1440, 60],
+				new Date("2030-01-01T00:00:00.000Z"),
+			),
+		).toEqual([
+			{ offset: 1440, runAt: new Date("2030-01-09T10:00:00.000Z") },
+			{ offset: 60, runAt: new Date("2030-01-10T09:00:00.000Z") },
+		]);
+	});
+
+	it("should skip reminders whose time has passed for a late confirmation", () => {
+		expect(
+			planBookingReminders(
+				startsAt,
+				[1440, 60],
+				new Date("2030-01-10T03:00:00.000Z"),
+			),
+		).toEqual([{ offset: 60, runAt: new Date("2030-01-10T09:00:00.000Z") }]);
+	});
+});
@@ -0,0 +1,203 @@
+import {
+	type Booking,
+	BookingStatus,
+	NotificationType,
+	type Prisma,
+	type PrismaClient,
+} from "@prisma/client";
+import { z } from "zod";
+
+import { REMINDER_OFFSETS_REGEX, env } from "~/env";
+import { enqueueJob } from "~/server/jobs/prisma-store";
+import { atTimeOfDay, toDateKey } from "~/utils/time";
+
+import { notify } from "./notifications";
+
+export const BOOKING_REMINDER_JOB = "bookings.remind";
+export const NO_SHOW_CHECK_JOB = "bookings.noShowCheck";
+
+const OFFSET_MINUTES = { m: 1, h: 60, d: 24 * 60 } as const;
+
+/**
+ * Reads offsets like "24h,1h" as minutes before the start, largest first and without repeats.
+ * Env validation already checks `BOOKING_REMINDER_OFFSETS` against the same pattern; this check
+ * is for when validation is skipped (`SKIP_ENV_VALIDATION`).
+ */
+export function parseReminderOffsets(value: string): number[] {
+	if (!REMINDER_OFFSETS_REGEX.test(value)) {
+		throw new Error(
+			`Invalid reminder offsets "${value}", expected e.g. "24h,1h"`,
+		);
+	}
+	const minutes = value.split(",").map((part) => {
+		const trimmed = part.trim();
+		const unit = trimmed.slice(-1) as keyof typeof OFFSET_MINUTES;
+		return Number(trimmed.slice(0, -1)) * OFFSET_MINUTES[unit];
+	});
+	return [...new Set(minutes)]
+		.filter((offset) => offset > 0)
+		.sort((a, b) => b - a);
+}
+
+/** How far away something is, the way a reminder says it: "45 minutes", "3 hours", "2 days". */
+export function describeLeadTime(minutes: number) {
+	const plural = (count: number, unit: string) =>
+		`${count} ${unit}${count === 1 ? "" : "s"}`;
+	if (minutes < 60) return plural(Math.max(1, Math.round(minutes)), "minute");
+	if (minutes < 48 * 60) return plural(Math.round(minutes / 60), "hour");
+	return plural(Math.round(minutes / (24 * 60)), "day");
+}
+
+/** When each reminder goes out. Those whose time has already passed are left out. */
+export function planBookingReminders(
+	startsAt: Date,
+	offsets: number[],
+	now: Date,
+) {
+	return offsets
+		.map((offset) => ({
+			offset,
+			runAt: new Date(startsAt.getTime() - offset * 60_000),
+		}))
+		.filter(({ runAt }) => runAt > now);
+}
+
+/**
+ * Queues the reminders to both sides and the no-show check for a confirmed booking, at its
+ * current time. Run it again when the booking moves; jobs queued for the old time find the
+ * booking gone from under them and do nothing.
+ */
+export async function scheduleBookingFollowUps(
+	db: Prisma.TransactionClient,
+	booking: Pick<Booking, "id" | "bookingDate" | "startTime" | "timeZone">,
+	now = new Date(),
+	{
+		offsets = parseReminderOffsets(env.BOOKING_REMINDER_OFFSETS),
+		graceMinutes = env.NO_SHOW_GRACE_MINUTES,
+	}: { offsets?: number[]; graceMinutes?: number } = {},
+) {
+	const startsAt = atTimeOfDay(
+		booking.bookingDate,
+		booking.startTime,
+		booking.timeZone,
+	);
+	const key = `${booking.id}@${startsAt.toISOString()}`;
+
+	for (const { offset, runAt } of planBookingReminders(
+		startsAt,
+		offsets,
+		now,
+	)) {
+		await enqueueJob(
+			db,
+			{
+				name: BOOKING_REMINDER_JOB,
+				payload: { bookingId: booking.id, startsAt: startsAt.toISOString() },
+				runAt,
+				idempotencyKey: `${BOOKING_REMINDER_JOB}:${key}-${offset}m`,
+			},
+			now,
+		);
+	}
+	await enqueueJob(
+		db,
+		{
+			name: NO_SHOW_CHECK_JOB,
+			payload: { bookingId: booking.id, startsAt: startsAt.toISOString() },
+			runAt: new Date(startsAt.getTime() + graceMinutes * 60_000),
+			idempotencyKey: `${NO_SHOW_CHECK_JOB}:${key}`,
+		},
+		now,
+	);
+}
+
+const followUpPayload = z.object({
+	bookingId: z.string(),
+	startsAt: z.string().datetime(),
+});
+
+/**
+ * The booking a follow-up job is about, or null when it no longer applies: the booking was
+ * cancelled, has started, or was moved to another time.
+ */
+async function bookingToFollowUp(db: PrismaClient, payload: Prisma.JsonValue) {
+	const { bookingId, startsAt } = followUpPayload.parse(payload);
+	const booking = await db.booking.findUnique({
+		where: { id: bookingId },
+		select: {
+			id: true,
+			status: true,
+			bookingDate: true,
+			startTime: true,
+			timeZone: true,
+			customerId: true,
+			providerId: true,
+			serviceId: true,
+			service: { select: { title: true } },
+		},
+	});
+	if (
+		booking?.status !== BookingStatus.CONFIRMED ||
+		atTimeOfDay(
+			booking.bookingDate,
+			booking.startTime,
+			booking.timeZone,
+		).toISOString() !== startsAt
+	) {
+		return null;
+	}
+	return { ...booking, startsAt: new Date(startsAt) };
+}
+
+/** Job handler: reminds both sides of an upcoming booking. Returns whether it was sent. */
+export async function sendBookingReminder(
+	db: PrismaClient,
+	payload: Prisma.JsonValue,
+	now = new Date(),
+) {
+	const booking = await bookingToFollowUp(db, payload);
+	if (!booking || booking.startsAt <= now) return false;
+
+	const leadTime = describeLeadTime(
+		(booking.startsAt.getTime() - now.getTime()) / 60_000,
+	);
+	await notify(
+		db,
+		[booking.customerId, booking.providerId].map((userId) => ({
+			userId,
+			type: NotificationType.BOOKING_REMINDER,
+			title: `Coming up: ${booking.service.title}`,
+			message: `Your booking starts in ${leadTime}, on ${toDateKey(booking.bookingDate)} at ${booking.startTime}.`,
+			data: { bookingId: booking.id, serviceId: booking.serviceId },
+		})),
+		now,
+	);
+	return true;
+}
+
+/**
+ * Job handler: starts the no-show flow for a booking nobody has marked as started by the end of
+ * the grace window, asking both sides to start it or report that the other did not turn up.
+ * Returns whether it did.
+ */
+export async function startNoShowCheck(
+	db: PrismaClient,
+	payload: Prisma.JsonValue,
+	now = new Date(),
+) {
+	const booking = await bookingToFollowUp(db, payload);
+	if (!booking) return false;
+
+	await notify(
+		db,
+		[booking.customerId, booking.providerId].map((userId) => ({
+			userId,
+			type: NotificationType.BOOKING_REMINDER,
+			title: `Has ${booking.service.title} started?`,
+			message: `The booking was due to start at ${booking.startTime} but nobody has marked it as started. Mark it as started, or report a no-show if the other side did not turn up.`,
+			data: { bookingId: booking.id, serviceId: booking.serviceId },
+		})),
+		now,
+	);
+	return true;
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+
+import {
+	type ComputeOpenSlotsInput,
+	computeOpenSlots,
+	isSlotOpen,
+} from "./booking-slots";
+
+// 2030-01-07 is a Monday.
+const monday = new Date("2030-01-07T00:00:00.000Z");
+
+const base: ComputeOpenSlotsInput = {
+	rules: {
+		serviceId: "svc",
+		duration: 60,
+		maxBookingsPerDay: null,
+		advanceBookingDays: 30,
+		timeZone: "UTC",
+	},
+	availability: [
+		{ dayOfWeek: 1, startTime: "09:00", endTime: "12:00", isActive: true },
+	],
+	bookings: [],
+	from: monday,
+	to: monday,
+	now: new Date("2030-01-01T00:00:00.000Z"),
+};
+
+describe("computeOpenSlots", () => {
+	it("should cut availability windows into duration-sized slots", () => {
+		expect(computeOpenSlots(base)).toEqual([
+			{
+				date: "2030-01-07",
+				slots: [
+					{ startTime: "09:00", endTime: "10:00" },
+					{ startTime: "10:00", endTime: "11:00" },
+					{ startTime: "11:00", endTime: "12:00" },
+				],
+			},
+		]);
+	});
+
+	it("should skip slots overlapping any booking of the provider", () => {
+		const [day] = computeOpenSlots({
+			...base,
+			bookings: [
+				{
+					serviceId: "other-service",
+					bookingDate: monday,
+					startTime: "09:30",
+					endTime: "10:30",
+				},
+			],
+		});
+		expect(day?.slots).toEqual([{ startTime: "11:00", endTime: "12:00" }]);
+	});
+
+	it("should close the day once maxBookingsPerDay is reached", () => {
+		const result = computeOpenSlots({
+			...base,
+			rules: { ...base.rules, maxBookingsPerDay: 1 },
+			bookings: [
+				{
+					serviceId: "svc",
+					bookingDate: monday,
+					startTime: "11:00",
+					endTime: "12:00",
+				},
+			],
+		});
+		expect(result).toEqual([]);
+	});
+
+	it("should hide past slots and days beyond the advance booking window", () => {
+		const [today] = computeOpenSlots({
+			...base,
+			now: new Date("2030-01-07T10:15:00.000Z"),
+		});
+		expect(today?.slots).toEqual([{ startTime: "11:00", endTime: "12:00" }]);
+
+		const tooFar = computeOpenSlots({
+			...base,
+			rules: { ...base.rules, advanceBookingDays: 3 },
+		});
+		expect(tooFar).toEqual([]);
+	});
+
+	it("should read availability on the provider's wall clock", () => {
+		const inNewYork = {
+			...base,
+			rules: { ...base.rules, timeZone: "America/New_York" },
+		};
+
+		// 10:15 in London is 05:15 in New York: the whole morning is still open there.
+		const [today] = computeOpenSlots({
+			...inNewYork,
+			now: new Date("2030-01-07T10:15:00.000Z"),
+		});
+		expect(today?.slots).toHaveLength(3);
+
+		// 14:15 UTC is 09:15 in New York.
+		const [later] = computeOpenSlots({
+			...inNewYork,
+			now: new Date("2030-01-07T14:15:00.000Z"),
+		});
+		expect(later?.slots.map((slot) => slot.startTime)).toEqual([
+			"10:00",
+			"11:00",
+		]);
+	});
+
+	it("should only match open slot starts in isSlotOpen", () => {
+		expect(isSlotOpen({ ...base, date: monday, startTime: "10:00" })).toEqual({
+			startTime: "10:00",
+			endTime: "11:00",
+		});
+		expect(
+			isSlotOpen({ ...base, date: monday, startTime: "10:30" }),
+		).toBeUndefined();
+	});
+});
@@ -0,0 +1,309 @@
+import { BookingStatus, type Prisma, ServiceStatus } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+import {
+	addUtcDays,
+	atTimeOfDay,
+	minutesToTime,
+	startOfLocalDay,
+	startOfUtcDay,
+	timeToMinutes,
+	toDateKey,
+} from "~/utils/time";
+
+import { scheduleBookingFollowUps } from "./booking-reminders";
+
+export interface SlotAvailability {
+	dayOfWeek: number;
+	startTime: string;
+	endTime: string;
+	isActive: boolean;
+}
+
+/** A non-cancelled booking that blocks the provider's time. */
+export interface SlotBooking {
+	serviceId: string;
+	bookingDate: Date;
+	startTime: string;
+	endTime: string;
+}
+
+export interface SlotRules {
+	serviceId: string;
+	/** Length of one booking in minutes. */
+	duration: number;
+	maxBookingsPerDay: number | null;
+	advanceBookingDays: number;
+	/** The provider's time zone; availability windows and slots are on its wall clock. */
+	timeZone: string;
+}
+
+export interface OpenSlot {
+	startTime: string;
+	endTime: string;
+}
+
+export interface DaySlots {
+	/** The provider's calendar day as "YYYY-MM-DD". */
+	date: string;
+	slots: OpenSlot[];
+}
+
+export interface ComputeOpenSlotsInput {
+	rules: SlotRules;
+	availability: SlotAvailability[];
+	/** Every non-cancelled booking of the provider in the range, across all of their services. */
+	bookings: SlotBooking[];
+	from: Date;
+	to: Date;
+	now: Date;
+}
+
+function overlaps(startA: number, endA: number, startB: number, endB: number) {
+	return startA < endB && startB < endA;
+}
+
+/**
+ * Expands weekly `Availability` windows into concrete bookable slots between `from` and `to`
+ * (inclusive, by calendar day). Days and times are on the provider's wall clock.
+ *
+ * Each window is cut into back-to-back slots of `duration` minutes. A slot is dropped when it
+ * starts in the past, falls beyond `advanceBookingDays`, overlaps any other booking of the same
+ * provider (so a provider is never double-booked across services) or when the service already
+ * reached `maxBookingsPerDay` that day. Days without open slots are omitted.
+ */
+export function computeOpenSlots({
+	rules,
+	availability,
+	bookings,
+	from,
+	to,
+	now,
+}: ComputeOpenSlotsInput): DaySlots[] {
+	if (rules.duration <= 0) return [];
+
+	const today = startOfLocalDay(now, rules.timeZone);
+	const lastBookableDay = addUtcDays(today, rules.advanceBookingDays);
+	const firstDay = startOfUtcDay(from) < today ? today : startOfUtcDay(from);
+	const lastDay =
+		startOfUtcDay(to) > lastBookableDay ? lastBookableDay : startOfUtcDay(to);
+
+	const bookingsByDay = new Map<string, SlotBooking[]>();
+	for (const booking of bookings) {
+		const key = toDateKey(booking.bookingDate);
+		bookingsByDay.set(key, [...(bookingsByDay.get(key) ?? []), booking]);
+	}
+
+	const days: DaySlots[] = [];
+	for (let day = firstDay; day <= lastDay; day = addUtcDays(day, 1)) {
+		const key = toDateKey(day);
+		const dayBookings = bookingsByDay.get(key) ?? [];
+
+		const serviceBookingCount = dayBookings.filter(
+			(b) => b.serviceId === rules.serviceId,
+		).length;
+		if (
+			rules.maxBookingsPerDay !== null &&
+			serviceBookingCount >= rules.maxBookingsPerDay
+		) {
+			continue;
+		}
+
+		const windows = availability
+			.filter((a) => a.isActive && a.dayOfWeek === day.getUTCDay())
+			.sort((a, b) => timeToMinutes(a.startTime) - timeToMinutes(b.startTime));
+
+		const slots: OpenSlot[] = [];
+		for (const window of windows) {
+			const windowEnd = timeToMinutes(window.endTime);
+			for (
+				let start = timeToMinutes(window.startTime);
+				start + rules.duration <= windowEnd;
+				start += rules.duration
+			) {
+				const end = start + rules.duration;
+				if (atTimeOfDay(day, minutesToTime(start), rules.timeZone) <= now) {
+					continue;
+				}
+
+				const taken = dayBookings.some((b) =>
+					overlaps(
+						start,
+						end,
+						timeToMinutes(b.startTime),
+						timeToMinutes(b.endTime),
+					),
+				);
+				if (taken) continue;
+
+				slots.push({
+					startTime: minutesToTime(start),
+					endTime: minutesToTime(end),
+				});
+			}
+		}
+
+		if (slots.length > 0) {
+			days.push({ date: key, slots });
+		}
+	}
+
+	return days;
+}
+
+/** Whether `startTime` on `date` is one of the open slots computed for that day. */
+export function isSlotOpen(
+	input: Omit<ComputeOpenSlotsInput, "from" | "to"> & {
+		date: Date;
+		startTime: string;
+	},
+): OpenSlot | undefined {
+	const [day] = computeOpenSlots({
+		...input,
+		from: input.date,
+		to: input.date,
+	});
+	return day?.slots.find((slot) => slot.startTime === input.startTime);
+}
+
+/**
+ * Loads everything `computeOpenSlots` needs for one service: its booking rules, weekly
+ * availability and every non-cancelled booking of its provider between `from` and `to`.
+ *
+ * Accepts a transaction client so booking creation can re-check a slot inside its transaction.
+ */
+export async function loadSlotContext(
+	db: Prisma.TransactionClient,
+	serviceId: string,
+	from: Date,
+	to: Date,
+) {
+	const service = await db.service.findUnique({
+		where: { id: serviceId },
+		include: {
+			availability: { where: { isActive: true } },
+			provider: { select: { isActive: true, timeZone: true } },
+		},
+	});
+	if (
+		!service ||
+		service.status !== ServiceStatus.ACTIVE ||
+		!service.isActive ||
+		!service.provider.isActive
+	) {
+		throw new TRPCError({ code: "NOT_FOUND", message: "Service not found" });
+	}
+	if (!service.duration) {
+		throw new TRPCError({
+			code: "PRECONDITION_FAILED",
+			message: "This service has no fixed duration to schedule",
+		});
+	}
+
+	const bookings = await db.booking.findMany({
+		where: {
+			providerId: service.providerId,
+			status: { not: BookingStatus.CANCELLED },
+			bookingDate: {
+				gte: startOfUtcDay(from),
+				lt: addUtcDays(startOfUtcDay(to), 1),
+			},
+		},
+		select: {
+			id: true,
+			serviceId: true,
+			bookingDate: true,
+			startTime: true,
+			endTime: true,
+		},
+	});
+
+	return {
+		service,
+		rules: {
+			serviceId: service.id,
+			duration: service.duration,
+			maxBookingsPerDay: service.maxBookingsPerDay,
+			advanceBookingDays: service.advanceBookingDays,
+			timeZone: service.provider.timeZone ?? "UTC",
+		},
+		availability: service.availability,
+		bookings,
+	};
+}
+
+/**
+ * The slot an upcoming booking would move to, checked against the provider's availability and
+ * other bookings but not against the booking itself. Throws when the booking cannot move there.
+ */
+export async function findRescheduleSlot(
+	db: Prisma.TransactionClient,
+	bookingId: string,
+	date: Date,
+	startTime: string,
+	now = new Date(),
+) {
+	const booking = await db.booking.findUnique({ where: { id: bookingId } });
+	if (!booking) {
+		throw new TRPCError({ code: "NOT_FOUND", message: "Booking not found" });
+	}
+	if (
+		booking.status !== BookingStatus.PENDING &&
+		booking.status !== BookingStatus.CONFIRMED
+	) {
+		throw new TRPCError({
+			code: "PRECONDITION_FAILED",
+			message: "Only upcoming bookings can be rescheduled",
+		});
+	}
+
+	const day = startOfUtcDay(date);
+	const { rules, availability, bookings } = await loadSlotContext(
+		db,
+		booking.serviceId,
+		day,
+		day,
+	);
+	const slot = isSlotOpen({
+		rules,
+		availability,
+		bookings: bookings.filter((b) => b.id !== booking.id),
+		date: day,
+		startTime,
+		now,
+	});
+	if (!slot) {
+		throw new TRPCError({
+			code: "CONFLICT",
+			message: "This time slot is not available",
+		});
+	}
+	return { booking, date: day, ...slot };
+}
+
+/**
+ * Moves an upcoming booking to another open slot of its service. Run it in a serializable
+ * transaction, like booking creation, so two moves cannot take the same slot. A confirmed
+ * booking gets its reminders and no-show check again for the new time.
+ */
+export async function rescheduleBooking(
+	db: Prisma.TransactionClient,
+	bookingId: string,
+	date: Date,
+	startTime: string,
+	now = new Date(),
+) {
+	const slot = await findRescheduleSlot(db, bookingId, date, startTime, now);
+	const booking = await db.booking.update({
+		where: { id: bookingId },
+		data: {
+			bookingDate: slot.date,
+			startTime: slot.startTime,
+			endTime: slot.endTime,
+		},
+	});
+	if (booking.status === BookingStatus.CONFIRMED) {
+		await scheduleBookingFollowUps(db, booking, now);
+	}
+	return booking;
+}
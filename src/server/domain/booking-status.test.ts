@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+
+import {
+	bookingActorFor,
+	canTransitionBooking,
+	planBookingTransition,
+} from "./booking-status";
+
+const booking = {
+	id: "booking-1",
+	status: "PENDING" as const,
+	customerId: "customer-1",
+	providerId: "provider-1",
+	serviceId: "service-1",
+};
+const now = new Date("2030-01-01T12:00:00.000Z");
+
+describe("booking status transitions", () => {
+	it("should only let the provider confirm a pending booking", () => {
+		expect(canTransitionBooking("PENDING", "CONFIRMED", "provider")).toBe(true);
+		expect(canTransitionBooking("PENDING", "CONFIRMED", "customer")).toBe(
+			false,
+		);
+	});
+
+	it("should make invalid jumps impossible for every actor", () => {
+		for (const actor of ["customer", "provider", "system"] as const) {
+			expect(canTransitionBooking("COMPLETED", "PENDING", actor)).toBe(false);
+			expect(canTransitionBooking("CANCELLED", "CONFIRMED", actor)).toBe(false);
+			expect(canTransitionBooking("PENDING", "COMPLETED", actor)).toBe(false);
+		}
+	});
+
+	it("should stamp confirmedAt and notify the customer on confirmation", () => {
+		const plan = planBookingTransition(booking, "CONFIRMED", "provider", {
+			now,
+		});
+
+		expect(plan.data).toEqual({ status: "CONFIRMED", confirmedAt: now });
+		expect(plan.notifications).toHaveLength(1);
+		expect(plan.notifications[0]).toMatchObject({
+			userId: "customer-1",
+			type: "BOOKING_CONFIRMED",
+		});
+	});
+
+	it("should record the reason and notify the other side on cancellation", () => {
+		const plan = planBookingTransition(booking, "CANCELLED", "customer", {
+			now,
+			reason: "Travelling",
+		});
+
+		expect(plan.data).toMatchObject({
+			status: "CANCELLED",
+			cancelledAt: now,
+			cancellationReason: "Travelling",
+		});
+		expect(plan.notifications.map((n) => n.userId)).toEqual(["provider-1"]);
+	});
+
+	it("should notify both sides when the system cancels", () => {
+		const plan = planBookingTransition(booking, "CANCELLED", "system", { now });
+		expect(plan.notifications.map((n) => n.userId)).toEqual([
+			"customer-1",
+			"provider-1",
+		]);
+	});
+
+	it("should throw when the actor may not make the move", () => {
+		expect(() =>
+			planBookingTransition(booking, "CONFIRMED", "customer", { now }),
+		).toThrow("A customer cannot move a booking from PENDING to CONFIRMED");
+	});
+
+	it("should only let the reporting side start a booking with a pending no-show report", () => {
+		const reported = {
+			...booking,
+			status: "CONFIRMED" as const,
+			noShowParty: "PROVIDER" as const,
+		};
+
+		expect(() =>
+			planBookingTransition(reported, "IN_PROGRESS", "provider", { now }),
+		).toThrow(/contest the report/);
+		expect(
+			planBookingTransition(reported, "IN_PROGRESS", "customer", { now }).data,
+		).toEqual({
+			status: "IN_PROGRESS",
+			noShowParty: null,
+			noShowReportedAt: null,
+		});
+	});
+
+	it("should resolve which side a user is on", () => {
+		expect(bookingActorFor(booking, "provider-1")).toBe("provider");
+		expect(bookingActorFor(booking, "customer-1")).toBe("customer");
+		expect(bookingActorFor(booking, "stranger")).toBeNull();
+	});
+});
@@ -0,0 +1,241 @@
+import {
+	type Booking,
+	BookingStatus,
+	NotificationType,
+	type Prisma,
+} from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+import { scheduleBookingFollowUps } from "./booking-reminders";
+import {
+	assertDisputeWindowOpen,
+	createEarningForBooking,
+	voidPendingEarning,
+} from "./escrow";
+import { type NotificationInput, notify } from "./notifications";
+
+/**
+ * Who is asking for a status change. "system" is used by scheduled jobs and platform staff, never
+ * by a request coming straight from a customer or provider.
+ */
+export type BookingActor = "customer" | "provider" | "system";
+
+/**
+ * Every allowed move of `Booking.status`, keyed by current status, with the actors allowed to
+ * make it. Anything not listed (e.g. COMPLETED → PENDING) is impossible.
+ */
+export const BOOKING_STATUS_TRANSITIONS: Record<
+	BookingStatus,
+	Partial<Record<BookingStatus, readonly BookingActor[]>>
+> = {
+	PENDING: {
+		CONFIRMED: ["provider"],
+		CANCELLED: ["customer", "provider", "system"],
+	},
+	CONFIRMED: {
+		IN_PROGRESS: ["customer", "provider"],
+		CANCELLED: ["customer", "provider", "system"],
+		// A contested no-show report
+		DISPUTED: ["system"],
+	},
+	IN_PROGRESS: {
+		COMPLETED: ["provider", "system"],
+		DISPUTED: ["customer", "provider"],
+	},
+	COMPLETED: {
+		DISPUTED: ["customer"],
+	},
+	DISPUTED: {
+		COMPLETED: ["system"],
+		CANCELLED: ["system"],
+	},
+	CANCELLED: {},
+};
+
+export function canTransitionBooking(
+	from: BookingStatus,
+	to: BookingStatus,
+	actor: BookingActor,
+): boolean {
+	return BOOKING_STATUS_TRANSITIONS[from][to]?.includes(actor) ?? false;
+}
+
+type TransitionBooking = Pick<
+	Booking,
+	"id" | "status" | "customerId" | "providerId" | "serviceId"
+> &
+	Partial<Pick<Booking, "noShowParty">>;
+
+export interface BookingTransitionPlan {
+	data: Prisma.BookingUpdateManyMutationInput;
+	notifications: NotificationInput[];
+}
+
+/**
+ * Works out the update and the notifications for one status change, without touching the
+ * database. Throws when the move or the actor is not allowed.
+ */
+export function planBookingTransition(
+	booking: TransitionBooking,
+	to: BookingStatus,
+	actor: BookingActor,
+	options: { now: Date; reason?: string },
+): BookingTransitionPlan {
+	if (!canTransitionBooking(booking.status, to, actor)) {
+		throw new TRPCError({
+			code: "PRECONDITION_FAILED",
+			message: `A ${actor} cannot move a booking from ${booking.status} to ${to}`,
+		});
+	}
+
+	// Starting the booking withdraws a pending no-show report, so only the reporter may do it.
+	if (
+		booking.noShowParty &&
+		to === BookingStatus.IN_PROGRESS &&
+		actor === booking.noShowParty.toLowerCase()
+	) {
+		throw new TRPCError({
+			code: "PRECONDITION_FAILED",
+			message:
+				"A no-show was reported against you; contest the report instead of starting the booking",
+		});
+	}
+
+	const { now, reason } = options;
+	const data: Prisma.BookingUpdateManyMutationInput = { status: to };
+	if (booking.noShowParty && to === BookingStatus.IN_PROGRESS) {
+		data.noShowParty = null;
+		data.noShowReportedAt = null;
+	}
+	const payload = { bookingId: booking.id, serviceId: booking.serviceId };
+	// The counterpart of whoever acted; system actions concern both sides.
+	const others =
+		actor === "customer"
+			? [booking.providerId]
+			: actor === "provider"
+				? [booking.customerId]
+				: [booking.customerId, booking.providerId];
+
+	const notifications: NotificationInput[] = [];
+	switch (to) {
+		case BookingStatus.CONFIRMED:
+			data.confirmedAt = now;
+			notifications.push({
+				userId: booking.customerId,
+				type: NotificationType.BOOKING_CONFIRMED,
+				title: "Booking confirmed",
+				message: "Your booking has been confirmed by the provider.",
+				data: payload,
+			});
+			break;
+		case BookingStatus.COMPLETED:
+			data.completedAt = now;
+			for (const userId of [booking.customerId, booking.providerId]) {
+				notifications.push({
+					userId,
+					type: NotificationType.BOOKING_COMPLETED,
+					title: "Booking completed",
+					message: "The booking has been marked as completed.",
+					data: payload,
+				});
+			}
+			break;
+		case BookingStatus.CANCELLED:
+			data.cancelledAt = now;
+			data.cancellationReason = reason ?? null;
+			for (const userId of others) {
+				notifications.push({
+					userId,
+					type: NotificationType.BOOKING_CANCELLED,
+					title: "Booking cancelled",
+					message: reason
+						? `The booking was cancelled: ${reason}`
+						: "The booking was cancelled.",
+					data: payload,
+				});
+			}
+			break;
+		case BookingStatus.DISPUTED:
+			for (const userId of others) {
+				notifications.push({
+					userId,
+					type: NotificationType.SYSTEM,
+					title: "Booking disputed",
+					message: reason
+						? `The booking was disputed: ${reason}`
+						: "The booking was disputed.",
+					data: payload,
+				});
+			}
+			break;
+	}
+
+	return { data, notifications };
+}
+
+/** Resolves which side of the booking `userId` is on, if any. */
+export function bookingActorFor(
+	booking: Pick<Booking, "customerId" | "providerId">,
+	userId: string,
+): Exclude<BookingActor, "system"> | null {
+	if (booking.providerId === userId) return "provider";
+	if (booking.customerId === userId) return "customer";
+	return null;
+}
+
+export interface TransitionBookingInput {
+	bookingId: string;
+	to: BookingStatus;
+	actor: BookingActor;
+	reason?: string;
+	now?: Date;
+}
+
+/**
+ * The only way to change `Booking.status` after creation.
+ *
+ * Applies the plan with a compare-and-set on the current status, so two concurrent transitions
+ * cannot both succeed, and sends the planned notifications from the same transaction. Confirming
+ * a booking queues its reminders and no-show check; completing it puts the provider's earning in
+ * escrow; cancelling it drops any escrowed earning.
+ */
+export async function transitionBooking(
+	db: Prisma.TransactionClient,
+	{ bookingId, to, actor, reason, now = new Date() }: TransitionBookingInput,
+) {
+	const booking = await db.booking.findUnique({ where: { id: bookingId } });
+	if (!booking) {
+		throw new TRPCError({ code: "NOT_FOUND", message: "Booking not found" });
+	}
+
+	const plan = planBookingTransition(booking, to, actor, { now, reason });
+	if (
+		booking.status === BookingStatus.COMPLETED &&
+		to === BookingStatus.DISPUTED
+	) {
+		await assertDisputeWindowOpen(db, booking.id, now);
+	}
+
+	const { count } = await db.booking.updateMany({
+		where: { id: booking.id, status: booking.status },
+		data: plan.data,
+	});
+	if (count === 0) {
+		throw new TRPCError({
+			code: "CONFLICT",
+			message: "The booking was changed by someone else, please retry",
+		});
+	}
+
+	await notify(db, plan.notifications);
+
+	if (to === BookingStatus.CONFIRMED) {
+		await scheduleBookingFollowUps(db, booking, now);
+	} else if (to === BookingStatus.COMPLETED) {
+		await createEarningForBooking(db, booking, now);
+	} else if (to === BookingStatus.CANCELLED) {
+		await voidPendingEarning(db, booking.id);
+	}
+
+	return db.booking.findUniqueOrThrow({ where: { id: booking.id } });
+}
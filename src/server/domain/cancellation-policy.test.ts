@@ -0,0 +1,142 @@
+import { Prisma } from "@prisma/client";
+import { describe, expect, it, vi } from "vitest";
+
+import { computeRefund, settleCancellation } from "./cancellation-policy";
+import { createEarningForBooking } from "./escrow";
+import { scheduleRefund } from "./payments";
+
+vi.mock("./payments", async (importOriginal) => ({
+	...(await importOriginal<typeof import("./payments")>()),
+	scheduleRefund: vi.fn(async () => {}),
+}));
+vi.mock("./escrow", async (importOriginal) => ({
+	...(await importOriginal<typeof import("./escrow")>()),
+	createEarningForBooking: vi.fn(async () => {}),
+}));
+
+const startsAt = new Date("2030-01-10T10:00:00.000Z");
+const hoursBefore = (hours: number) =>
+	new Date(startsAt.getTime() - hours * 60 * 60 * 1000);
+
+describe("computeRefund", () => {
+	it("should refund in full before the full refund window closes", () => {
+		const quote = computeRefund({
+			policy: "FLEXIBLE",
+			amount: 88,
+			startsAt,
+			cancelledAt: hoursBefore(30),
+			cancelledBy: "customer",
+		});
+
+		expect(quote.refundPercent).toBe(100);
+		expect(quote.refundAmount.toNumber()).toBe(88);
+		expect(quote.retainedAmount.toNumber()).toBe(0);
+	});
+
+	it("should refund half inside the partial window", () => {
+		const quote = computeRefund({
+			policy: "MODERATE",
+			amount: 99.99,
+			startsAt,
+			cancelledAt: hoursBefore(30),
+			cancelledBy: "customer",
+		});
+
+		expect(quote.refundPercent).toBe(50);
+		expect(quote.refundAmount.toString()).toBe("50");
+		expect(quote.retainedAmount.toString()).toBe("49.99");
+	});
+
+	it("should refund nothing close to the start", () => {
+		const quote = computeRefund({
+			policy: "STRICT",
+			amount: 330,
+			startsAt,
+			cancelledAt: hoursBefore(47),
+			cancelledBy: "customer",
+		});
+
+		expect(quote.refundPercent).toBe(0);
+		expect(quote.refundAmount.toNumber()).toBe(0);
+	});
+
+	it("should apply the strict seven day window", () => {
+		const refund = (hours: number) =>
+			computeRefund({
+				policy: "STRICT",
+				amount: 100,
+				startsAt,
+				cancelledAt: hoursBefore(hours),
+				cancelledBy: "customer",
+			}).refundPercent;
+
+		expect(refund(7 * 24)).toBe(100);
+		expect(refund(7 * 24 - 1)).toBe(50);
+	});
+
+	it("should always refund in full when the provider cancels", () => {
+		const quote = computeRefund({
+			policy: "STRICT",
+			amount: 330,
+			startsAt,
+			cancelledAt: hoursBefore(1),
+			cancelledBy: "provider",
+		});
+
+		expect(quote.refundPercent).toBe(100);
+	});
+});
+
+describe("settleCancellation", () => {
+	const db = {} as Prisma.TransactionClient;
+	const booking = {
+		id: "booking-1",
+		providerId: "provider-1",
+		price: new Prisma.Decimal(80),
+		serviceFee: new Prisma.Decimal(8),
+		currency: "USD",
+	};
+	const settle = (hours: number) =>
+		settleCancellation(
+			db,
+			booking,
+			computeRefund({
+				policy: "MODERATE",
+				amount: new Prisma.Decimal(88),
+				startsAt,
+				cancelledAt: hoursBefore(hours),
+				cancelledBy: "customer",
+			}),
+			startsAt,
+		);
+
+	it("should refund everything and pay nothing out on an early cancellation", async () => {
+		await settle(72);
+
+		expect(scheduleRefund).toHaveBeenCalledWith(
+			db,
+			"booking-1",
+			new Prisma.Decimal(88),
+			startsAt,
+		);
+		expect(createEarningForBooking).not.toHaveBeenCalled();
+	});
+
+	it("should pay the provider the share the customer does not get back", async () => {
+		await settle(30);
+
+		expect(scheduleRefund).toHaveBeenCalledWith(
+			db,
+			"booking-1",
+			new Prisma.Decimal(44),
+			startsAt,
+		);
+		expect(createEarningForBooking).toHaveBeenCalledWith(
+			db,
+			booking,
+			startsAt,
+			undefined,
+			50,
+		);
+	});
+});
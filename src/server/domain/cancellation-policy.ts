@@ -0,0 +1,208 @@
+import {
+	type Booking,
+	BookingStatus,
+	type CancellationPolicy,
+	PaymentStatus,
+	Prisma,
+} from "@prisma/client";
+
+import { atTimeOfDay } from "~/utils/time";
+import { type BookingActor, transitionBooking } from "./booking-status";
+import { createEarningForBooking } from "./escrow";
+import { scheduleRefund } from "./payments";
+
+export interface CancellationTier {
+	/** Cancelling at least this many hours before the start refunds everything. */
+	fullRefundHours: number;
+	/** Cancelling at least this many hours before the start refunds `partialRefundPercent`. */
+	partialRefundHours: number;
+	partialRefundPercent: number;
+}
+
+/** The Flexible/Moderate/Strict tiers providers pick from for their services. */
+export const CANCELLATION_TIERS: Record<CancellationPolicy, CancellationTier> =
+	{
+		FLEXIBLE: {
+			fullRefundHours: 24,
+			partialRefundHours: 12,
+			partialRefundPercent: 50,
+		},
+		MODERATE: {
+			fullRefundHours: 48,
+			partialRefundHours: 24,
+			partialRefundPercent: 50,
+		},
+		STRICT: {
+			fullRefundHours: 7 * 24,
+			partialRefundHours: 48,
+			partialRefundPercent: 50,
+		},
+	};
+
+export interface RefundInput {
+	policy: CancellationPolicy;
+	/** What the customer paid. */
+	amount: Prisma.Decimal | number;
+	startsAt: Date;
+	cancelledAt: Date;
+	cancelledBy: BookingActor;
+}
+
+export interface RefundQuote {
+	refundPercent: number;
+	refundAmount: Prisma.Decimal;
+	retainedAmount: Prisma.Decimal;
+	hoursUntilStart: number;
+}
+
+/**
+ * Computes how much of a payment goes back to the customer when a booking is cancelled.
+ *
+ * The tier only applies when the customer cancels; a cancellation by the provider or by the
+ * platform is never the customer's fault and always refunds in full.
+ */
+export function computeRefund({
+	policy,
+	amount,
+	startsAt,
+	cancelledAt,
+	cancelledBy,
+}: RefundInput): RefundQuote {
+	const hoursUntilStart =
+		(startsAt.getTime() - cancelledAt.getTime()) / (60 * 60 * 1000);
+	const tier = CANCELLATION_TIERS[policy];
+
+	let refundPercent = 0;
+	if (cancelledBy !== "customer" || hoursUntilStart >= tier.fullRefundHours) {
+		refundPercent = 100;
+	} else if (hoursUntilStart >= tier.partialRefundHours) {
+		refundPercent = tier.partialRefundPercent;
+	}
+
+	return { ...splitRefund(amount, refundPercent), hoursUntilStart };
+}
+
+/** Splits what the customer paid into the `refundPercent` they get back and the rest. */
+export function splitRefund(
+	amount: Prisma.Decimal | number,
+	refundPercent: number,
+): Omit<RefundQuote, "hoursUntilStart"> {
+	const total = new Prisma.Decimal(amount);
+	const refundAmount = total
+		.mul(refundPercent)
+		.div(100)
+		.toDecimalPlaces(2, Prisma.Decimal.ROUND_HALF_UP);
+	return {
+		refundPercent,
+		refundAmount,
+		retainedAmount: total.sub(refundAmount),
+	};
+}
+
+/** When a booking starts, as an instant, reading its time on the provider's wall clock. */
+export function bookingStartsAt(
+	booking: Pick<Booking, "bookingDate" | "startTime" | "timeZone">,
+) {
+	return atTimeOfDay(booking.bookingDate, booking.startTime, booking.timeZone);
+}
+
+/**
+ * Quotes the refund a cancellation by `actor` would produce right now. Bookings without a
+ * completed payment have nothing to refund.
+ */
+export async function quoteCancellation(
+	db: Prisma.TransactionClient,
+	bookingId: string,
+	actor: BookingActor,
+	now = new Date(),
+) {
+	const booking = await db.booking.findUniqueOrThrow({
+		where: { id: bookingId },
+		include: {
+			service: { select: { cancellationPolicy: true } },
+			payment: true,
+		},
+	});
+
+	const paid =
+		booking.payment?.status === PaymentStatus.COMPLETED
+			? booking.payment.amount
+			: new Prisma.Decimal(0);
+
+	return {
+		booking,
+		policy: booking.service.cancellationPolicy,
+		...computeRefund({
+			policy: booking.service.cancellationPolicy,
+			amount: paid,
+			startsAt: bookingStartsAt(booking),
+			cancelledAt: now,
+			cancelledBy: actor,
+		}),
+	};
+}
+
+export interface CancelBookingInput {
+	bookingId: string;
+	actor: BookingActor;
+	reason: string;
+	now?: Date;
+}
+
+/**
+ * Carries out a cancellation quote. The refund is queued for the payment gateway, which runs it
+ * once this transaction has committed and moves the payment to REFUNDED or PARTIALLY_REFUNDED.
+ * Whatever the customer paid and does not get back is the provider's earning, held in escrow
+ * like the earning of a completed booking.
+ */
+export async function settleCancellation(
+	db: Prisma.TransactionClient,
+	booking: Pick<
+		Booking,
+		"id" | "providerId" | "price" | "serviceFee" | "currency"
+	>,
+	quote: Pick<RefundQuote, "refundPercent" | "refundAmount" | "retainedAmount">,
+	now: Date,
+) {
+	if (quote.refundAmount.gt(0)) {
+		await scheduleRefund(db, booking.id, quote.refundAmount, now);
+	}
+	if (quote.retainedAmount.gt(0)) {
+		await createEarningForBooking(
+			db,
+			booking,
+			now,
+			undefined,
+			100 - quote.refundPercent,
+		);
+	}
+}
+
+/**
+ * Cancels a booking through the status state machine and settles the refund owed under the
+ * service's cancellation tier (see `settleCancellation`). The booking is locked first, so a
+ * charge completing at the same time either counts in the quote or sees the cancellation and
+ * refunds itself.
+ */
+export async function cancelBooking(
+	db: Prisma.TransactionClient,
+	{ bookingId, actor, reason, now = new Date() }: CancelBookingInput,
+) {
+	await db.$queryRaw`SELECT 1 FROM "Booking" WHERE "id" = ${bookingId} FOR UPDATE`;
+	const quote = await quoteCancellation(db, bookingId, actor, now);
+
+	const booking = await transitionBooking(db, {
+		bookingId,
+		to: BookingStatus.CANCELLED,
+		actor,
+		reason,
+		now,
+	});
+	await settleCancellation(db, quote.booking, quote, now);
+
+	return {
+		booking,
+		refundPercent: quote.refundPercent,
+		refundAmount: quote.refundAmount,
+	};
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+
+import {
+	buildCategoryTree,
+	descendantCategoryIds,
+	resolveCategoryPath,
+	rollUpCategoryCounts,
+	wouldCreateCycle,
+} from "./categories";
+
+const categories = [
+	{ id: "home", parentId: null },
+	{ id: "cleaning", parentId: "home" },
+	{ id: "deep-cleaning", parentId: "cleaning" },
+	{ id: "plumbing", parentId: "home" },
+	{ id: "tech", parentId: null },
+];
+
+describe("categories", () => {
+	it("should include a category and everything below it", () => {
+		expect(descendantCategoryIds(categories, "home").sort()).toEqual([
+			"cleaning",
+			"deep-cleaning",
+			"home",
+			"plumbing",
+		]);
+		expect(descendantCategoryIds(categories, "tech")).toEqual(["tech"]);
+	});
+
+	it("should add service counts up to every ancestor", () => {
+		const totals = rollUpCategoryCounts(
+			categories,
+			new Map([
+				["deep-cleaning", 2],
+				["plumbing", 3],
+				["tech", 1],
+			]),
+		);
+
+		expect(totals.get("home")).toBe(5);
+		expect(totals.get("cleaning")).toBe(2);
+		expect(totals.get("tech")).toBe(1);
+		expect(totals.has("deep-cleaning")).toBe(true);
+	});
+
+	it("should stop on a cycle instead of looping forever", () => {
+		const cyclic = [
+			{ id: "a", parentId: "b" },
+			{ id: "b", parentId: "a" },
+		];
+
+		expect(descendantCategoryIds(cyclic, "a").sort()).toEqual(["a", "b"]);
+		expect(rollUpCategoryCounts(cyclic, new Map([["a", 1]])).get("b")).toBe(1);
+	});
+
+	it("should nest the tree with subtree service counts", () => {
+		const tree = buildCategoryTree(
+			categories,
+			new Map([
+				["deep-cleaning", 2],
+				["plumbing", 3],
+			]),
+		);
+
+		expect(tree.map((root) => [root.id, root.serviceCount])).toEqual([
+			["home", 5],
+			["tech", 0],
+		]);
+		expect(tree[0]?.children.map((child) => child.id)).toEqual([
+			"cleaning",
+			"plumbing",
+		]);
+		expect(tree[0]?.children[0]?.children[0]).toMatchObject({
+			id: "deep-cleaning",
+			serviceCount: 2,
+			children: [],
+		});
+	});
+
+	it("should resolve a slug path only along parent links", () => {
+		const withSlugs = categories.map((c) => ({ ...c, slug: c.id }));
+
+		expect(
+			resolveCategoryPath(withSlugs, [
+				"home",
+				"cleaning",
+				"deep-cleaning",
+			])?.map((c) => c.id),
+		).toEqual(["home", "cleaning", "deep-cleaning"]);
+		expect(
+			resolveCategoryPath(withSlugs, ["home", "deep-cleaning"]),
+		).toBeNull();
+		expect(resolveCategoryPath(withSlugs, ["cleaning"])).toBeNull();
+		expect(resolveCategoryPath(withSlugs, [])).toBeNull();
+	});
+
+	it("should refuse to move a category under its own subtree", () => {
+		expect(wouldCreateCycle(categories, "home", "deep-cleaning")).toBe(true);
+		expect(wouldCreateCycle(categories, "home", "home")).toBe(true);
+		expect(wouldCreateCycle(categories, "cleaning", "tech")).toBe(false);
+	});
+});
@@ -0,0 +1,116 @@
+import type { Category } from "@prisma/client";
+
+type CategoryNode = Pick<Category, "id" | "parentId">;
+
+/** Groups categories by parent, so a subtree can be walked without going back to the database. */
+function childrenByParent<T extends CategoryNode>(categories: T[]) {
+	const children = new Map<string | null, T[]>();
+	for (const category of categories) {
+		const siblings = children.get(category.parentId) ?? [];
+		siblings.push(category);
+		children.set(category.parentId, siblings);
+	}
+	return children;
+}
+
+/**
+ * The id of `rootId` and of every category below it, at any depth. Filtering by a category
+ * should also match services filed under its subcategories.
+ */
+export function descendantCategoryIds(
+	categories: CategoryNode[],
+	rootId: string,
+): string[] {
+	const children = childrenByParent(categories);
+	const ids: string[] = [];
+	const visit = (id: string) => {
+		// Guards against a cycle in bad data turning this into an endless loop.
+		if (ids.includes(id)) return;
+		ids.push(id);
+		for (const child of children.get(id) ?? []) visit(child.id);
+	};
+	visit(rootId);
+	return ids;
+}
+
+/**
+ * Adds the count of every category to all of its ancestors, so a parent category shows how many
+ * services sit anywhere below it.
+ */
+export function rollUpCategoryCounts(
+	categories: CategoryNode[],
+	counts: ReadonlyMap<string, number>,
+): Map<string, number> {
+	const byId = new Map(categories.map((c) => [c.id, c]));
+	const totals = new Map<string, number>();
+	for (const [categoryId, count] of counts) {
+		const seen = new Set<string>();
+		let current = byId.get(categoryId);
+		while (current && !seen.has(current.id)) {
+			seen.add(current.id);
+			totals.set(current.id, (totals.get(current.id) ?? 0) + count);
+			current = current.parentId ? byId.get(current.parentId) : undefined;
+		}
+	}
+	return totals;
+}
+
+export type CategoryTreeNode<T> = T & {
+	/** Active services in this category and all of its descendants. */
+	serviceCount: number;
+	children: CategoryTreeNode<T>[];
+};
+
+/**
+ * Nests categories under their parents, with every node counting the services of its whole
+ * subtree. Categories whose parent is missing become roots; siblings keep the input order.
+ */
+export function buildCategoryTree<T extends CategoryNode>(
+	categories: T[],
+	counts: ReadonlyMap<string, number>,
+): CategoryTreeNode<T>[] {
+	const ids = new Set(categories.map((c) => c.id));
+	const children = childrenByParent(categories);
+	const totals = rollUpCategoryCounts(categories, counts);
+
+	const build = (category: T, path: Set<string>): CategoryTreeNode<T> => ({
+		...category,
+		serviceCount: totals.get(category.id) ?? 0,
+		children: (children.get(category.id) ?? [])
+			.filter((child) => !path.has(child.id))
+			.map((child) => build(child, new Set([...path, child.id]))),
+	});
+
+	return categories
+		.filter((c) => c.parentId === null || !ids.has(c.parentId))
+		.map((root) => build(root, new Set([root.id])));
+}
+
+/**
+ * Follows a slug path such as `["home", "cleaning", "deep-clean"]` from a root category down,
+ * returning the trail it walked, or null when any step is not a child of the previous one.
+ */
+export function resolveCategoryPath<T extends CategoryNode & { slug: string }>(
+	categories: T[],
+	slugs: string[],
+): T[] | null {
+	const trail: T[] = [];
+	for (const slug of slugs) {
+		const parentId = trail.at(-1)?.id ?? null;
+		const next = categories.find(
+			(c) => c.slug === slug && c.parentId === parentId,
+		);
+		if (!next) return null;
+		trail.push(next);
+	}
+	return trail.length > 0 ? trail : null;
+}
+
+/** Whether moving `categoryId` under `parentId` would make it its own ancestor. */
+export function wouldCreateCycle(
+	categories: CategoryNode[],
+	categoryId: string,
+	parentId: string,
+) {
+	return descendantCategoryIds(categories, categoryId).includes(parentId);
+}
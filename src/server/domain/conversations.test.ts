@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+
+import {
+	assertUserCanSend,
+	directConversationKey,
+	messageExcerpt,
+} from "./conversations";
+
+describe("conversations", () => {
+	it("should key a direct conversation the same whoever starts it", () => {
+		expect(directConversationKey("u2", "u1")).toBe("u1:u2");
+		expect(directConversationKey("u1", "u2")).toBe("u1:u2");
+	});
+
+	it("should let users send text, with or without a booking", () => {
+		expect(() => assertUserCanSend("TEXT")).not.toThrow();
+		expect(() => assertUserCanSend("TEXT", "b1")).not.toThrow();
+	});
+
+	it("should require a booking for booking updates", () => {
+		expect(() => assertUserCanSend("BOOKING_UPDATE", "b1")).not.toThrow();
+		expect(() => assertUserCanSend("BOOKING_UPDATE", null)).toThrow(
+			expect.objectContaining({ code: "BAD_REQUEST" }),
+		);
+	});
+
+	it("should keep platform messages and cards out of plain sends", () => {
+		for (const type of ["SYSTEM", "BOOKING_REQUEST", "QUOTE"] as const) {
+			expect(() => assertUserCanSend(type, "b1")).toThrow(
+				expect.objectContaining({ code: "FORBIDDEN" }),
+			);
+		}
+	});
+
+	it("should describe messages in notifications by text or attachments", () => {
+		const attachment = { id: "a1" } as never;
+		expect(messageExcerpt({ content: "Hi", attachments: [] })).toBe("Hi");
+		expect(messageExcerpt({ content: "", attachments: [attachment] })).toBe(
+			"Sent an attachment",
+		);
+		expect(
+			messageExcerpt({ content: "", attachments: [attachment, attachment] }),
+		).toBe("Sent 2 attachments");
+		expect(
+			messageExcerpt({ content: "x".repeat(200), attachments: [] }),
+		).toHaveLength(140);
+	});
+});
@@ -0,0 +1,294 @@
+import {
+	type MessageCardStatus,
+	MessageType,
+	NotificationType,
+	type Prisma,
+} from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+import type { FileStorage } from "~/server/storage";
+
+import { notify } from "./notifications";
+
+/**
+ * Messages that need no MESSAGE_RECEIVED notification: booking requests come with their own, and
+ * system lines only echo something already notified.
+ */
+const UNNOTIFIED_MESSAGE_TYPES: MessageType[] = [
+	MessageType.BOOKING_REQUEST,
+	MessageType.SYSTEM,
+];
+
+/** Longest message excerpt shown in a notification. */
+const NOTIFICATION_EXCERPT_LENGTH = 140;
+
+/** How long the download links handed out with a message keep working. */
+const ATTACHMENT_URL_TTL_SECONDS = 60 * 60;
+
+/** What a message shows and what is pushed to the conversation live. */
+export const messageSelect = {
+	id: true,
+	conversationId: true,
+	senderId: true,
+	recipientId: true,
+	content: true,
+	type: true,
+	bookingId: true,
+	payload: true,
+	cardStatus: true,
+	respondedAt: true,
+	isRead: true,
+	readAt: true,
+	createdAt: true,
+	sender: { select: { id: true, name: true, image: true } },
+	// Booking cards show the booking's live status next to their buttons.
+	booking: { select: { id: true, status: true } },
+	attachments: {
+		select: {
+			id: true,
+			key: true,
+			fileName: true,
+			contentType: true,
+			size: true,
+			kind: true,
+		},
+		orderBy: { createdAt: "asc" },
+	},
+} satisfies Prisma.MessageSelect;
+
+type SelectedMessage = Prisma.MessageGetPayload<{
+	select: typeof messageSelect;
+}>;
+
+/**
+ * A message as clients get it: attachments carry short-lived download URLs instead of their
+ * storage keys.
+ */
+export async function toMessageView(
+	storage: FileStorage,
+	{ attachments, ...message }: SelectedMessage,
+) {
+	return {
+		...message,
+		attachments: await Promise.all(
+			attachments.map(async ({ key, ...attachment }) => ({
+				...attachment,
+				url: await storage.createDownloadUrl(key, {
+					fileName: attachment.fileName,
+					expiresInSeconds: ATTACHMENT_URL_TTL_SECONDS,
+				}),
+			})),
+		),
+	};
+}
+
+export type MessageView = Awaited<ReturnType<typeof toMessageView>>;
+
+/** Identifies the 1:1 conversation between two users, whichever of them starts it. */
+export function directConversationKey(userId: string, otherUserId: string) {
+	return [userId, otherUserId].sort().join(":");
+}
+
+/**
+ * Returns the 1:1 conversation between two users, creating it (with both participants) when they
+ * have never talked before. Both writes are upserts on unique keys, so two first messages sent at
+ * once end up in the same conversation.
+ */
+export async function findOrCreateDirectConversation(
+	db: Prisma.TransactionClient,
+	userId: string,
+	otherUserId: string,
+) {
+	const participantKey = directConversationKey(userId, otherUserId);
+	const conversation = await db.conversation.upsert({
+		where: { participantKey },
+		create: { participantKey },
+		update: {},
+	});
+	await db.conversationUser.createMany({
+		data: [
+			{ conversationId: conversation.id, userId },
+			{ conversationId: conversation.id, userId: otherUserId },
+		],
+		skipDuplicates: true,
+	});
+	return conversation;
+}
+
+/**
+ * Users write TEXT messages, and BOOKING_UPDATE ones about a booking they share. Booking requests
+ * and system messages are only ever sent by the platform itself, and quotes carry a card that
+ * only `message.sendQuote` builds.
+ */
+export function assertUserCanSend(
+	type: MessageType,
+	bookingId?: string | null,
+) {
+	if (
+		type === MessageType.SYSTEM ||
+		type === MessageType.BOOKING_REQUEST ||
+		type === MessageType.QUOTE
+	) {
+		throw new TRPCError({
+			code: "FORBIDDEN",
+			message: "This kind of message cannot be sent as plain text",
+		});
+	}
+	if (type === MessageType.BOOKING_UPDATE && !bookingId) {
+		throw new TRPCError({
+			code: "BAD_REQUEST",
+			message: "A booking update must name its booking",
+		});
+	}
+}
+
+/**
+ * Resolves the other participant of a conversation `userId` takes part in. Conversations the
+ * user is not part of are reported as missing rather than forbidden.
+ */
+export async function getCounterpart(
+	db: Prisma.TransactionClient,
+	conversationId: string,
+	userId: string,
+) {
+	const participants = await db.conversationUser.findMany({
+		where: { conversationId },
+		select: { userId: true },
+	});
+	const other = participants.find((p) => p.userId !== userId);
+	if (!other || !participants.some((p) => p.userId === userId)) {
+		throw new TRPCError({
+			code: "NOT_FOUND",
+			message: "Conversation not found",
+		});
+	}
+	return other.userId;
+}
+
+/** Everyone `userId` has a conversation with: the people who get to see their presence. */
+export async function conversationPartnerIds(
+	db: Prisma.TransactionClient,
+	userId: string,
+) {
+	const partners = await db.conversationUser.findMany({
+		where: {
+			userId: { not: userId },
+			conversation: { participants: { some: { userId } } },
+		},
+		select: { userId: true },
+		distinct: ["userId"],
+	});
+	return partners.map((p) => p.userId);
+}
+
+/**
+ * Adds a message to a conversation and keeps the conversation's bookkeeping in step: its
+ * `lastMessageAt` and the recipient's unread count, and notifies the recipient. Cards come with a
+ * `payload` and start out PENDING; `attachmentIds` must already be claimed (see
+ * `claimAttachments`), and are linked only if no other message took them in the meantime. Call it in a transaction, and push the returned message to both sides once
+ * that transaction commits.
+ */
+export async function sendMessage(
+	db: Prisma.TransactionClient,
+	{
+		conversationId,
+		senderId,
+		recipientId,
+		content,
+		type = MessageType.TEXT,
+		bookingId,
+		payload,
+		cardStatus,
+		attachmentIds = [],
+	}: {
+		conversationId: string;
+		senderId: string;
+		recipientId: string;
+		content: string;
+		type?: MessageType;
+		bookingId?: string | null;
+		payload?: Prisma.InputJsonObject;
+		cardStatus?: MessageCardStatus;
+		attachmentIds?: string[];
+	},
+) {
+	const { id } = await db.message.create({
+		data: {
+			conversationId,
+			senderId,
+			recipientId,
+			content,
+			type,
+			bookingId,
+			payload,
+			cardStatus,
+		},
+		select: { id: true },
+	});
+	if (attachmentIds.length > 0) {
+		// Compare-and-set on `messageId`, so two messages sent at once cannot both take a file.
+		const { count } = await db.messageAttachment.updateMany({
+			where: { id: { in: attachmentIds }, messageId: null },
+			data: { messageId: id },
+		});
+		if (count !== attachmentIds.length) {
+			throw new TRPCError({
+				code: "CONFLICT",
+				message: "Attachment not found or already sent",
+			});
+		}
+	}
+	const message = await db.message.findUniqueOrThrow({
+		where: { id },
+		select: messageSelect,
+	});
+	await db.conversation.update({
+		where: { id: conversationId },
+		data: { lastMessageAt: message.createdAt },
+	});
+	await db.conversationUser.update({
+		where: { conversationId_userId: { conversationId, userId: recipientId } },
+		data: { unreadCount: { increment: 1 } },
+	});
+	if (!UNNOTIFIED_MESSAGE_TYPES.includes(type)) {
+		await notify(db, {
+			userId: recipientId,
+			type: NotificationType.MESSAGE_RECEIVED,
+			title: `New message from ${message.sender.name ?? "a user"}`,
+			message: messageExcerpt(message),
+			data: { conversationId, messageId: message.id },
+		});
+	}
+	return message;
+}
+
+/** What a notification shows of a message: its text, or what it carries when it has none. */
+export function messageExcerpt(
+	message: Pick<SelectedMessage, "content" | "attachments">,
+) {
+	if (!message.content) {
+		const count = message.attachments.length;
+		return count === 1 ? "Sent an attachment" : `Sent ${count} attachments`;
+	}
+	return message.content.length > NOTIFICATION_EXCERPT_LENGTH
+		? `${message.content.slice(0, NOTIFICATION_EXCERPT_LENGTH - 1)}…`
+		: message.content;
+}
+
+/** Marks everything `userId` received in a conversation as read and resets their unread count. */
+export async function markConversationRead(
+	db: Prisma.TransactionClient,
+	conversationId: string,
+	userId: string,
+	now = new Date(),
+) {
+	await db.message.updateMany({
+		where: { conversationId, recipientId: userId, isRead: false },
+		data: { isRead: true, readAt: now },
+	});
+	await db.conversationUser.update({
+		where: { conversationId_userId: { conversationId, userId } },
+		data: { unreadCount: 0, lastReadAt: now },
+	});
+	return now;
+}
@@ -0,0 +1,52 @@
+import {
+	AuditAction,
+	AuditTargetType,
+	JobStatus,
+	type Prisma,
+} from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+import { type StaffAction, recordAudit } from "./audit";
+
+/**
+ * Deals with a job that ran out of attempts: "retry" queues it to run right away with a fresh
+ * set of attempts, "discard" gives up on it for good. The last error stays on the job either way.
+ */
+export async function resolveDeadJob(
+	db: Prisma.TransactionClient,
+	jobId: string,
+	decision: "retry" | "discard",
+	{ actorId, reason, ipAddress }: StaffAction,
+	now = new Date(),
+) {
+	const job = await db.job.findUnique({ where: { id: jobId } });
+	if (!job) {
+		throw new TRPCError({ code: "NOT_FOUND", message: "Job not found" });
+	}
+
+	const retry = decision === "retry";
+	const { count } = await db.job.updateMany({
+		where: { id: job.id, status: JobStatus.DEAD },
+		data: retry
+			? { status: JobStatus.PENDING, runAt: now, attempts: 0, finishedAt: null }
+			: { status: JobStatus.DISCARDED, finishedAt: now },
+	});
+	if (count === 0) {
+		throw new TRPCError({
+			code: "PRECONDITION_FAILED",
+			message: "This job is not in the dead letters",
+		});
+	}
+
+	await recordAudit(db, {
+		actorId,
+		action: retry ? AuditAction.JOB_RETRIED : AuditAction.JOB_DISCARDED,
+		targetType: AuditTargetType.JOB,
+		targetId: job.id,
+		reason,
+		ipAddress,
+		metadata: { name: job.name, lastError: job.lastError },
+	});
+
+	return db.job.findUniqueOrThrow({ where: { id: job.id } });
+}
@@ -0,0 +1,86 @@
+import {
+	AuditAction,
+	AuditTargetType,
+	BookingStatus,
+	PaymentStatus,
+	Prisma,
+} from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+import { type StaffAction, recordAudit } from "./audit";
+import { transitionBooking } from "./booking-status";
+import { settleCancellation, splitRefund } from "./cancellation-policy";
+
+/**
+ * How staff settle a dispute: "complete" stands by the booking and pays the provider in full,
+ * "cancel" gives the customer back `refundPercent` of what they paid and pays the provider the
+ * rest.
+ */
+export type DisputeResolution =
+	| { outcome: "complete" }
+	| { outcome: "cancel"; refundPercent: number };
+
+/**
+ * Ends a dispute on behalf of the platform. The booking moves on through the status state
+ * machine as "system", so both sides are told with the staff member's reason, and a refund is
+ * queued for the gateway the way a cancellation's would be.
+ */
+export async function resolveDispute(
+	db: Prisma.TransactionClient,
+	bookingId: string,
+	resolution: DisputeResolution,
+	{ actorId, reason, ipAddress }: StaffAction,
+	now = new Date(),
+) {
+	const booking = await db.booking.findUnique({
+		where: { id: bookingId },
+		include: { payment: true },
+	});
+	if (!booking) {
+		throw new TRPCError({ code: "NOT_FOUND", message: "Booking not found" });
+	}
+	if (booking.status !== BookingStatus.DISPUTED) {
+		throw new TRPCError({
+			code: "PRECONDITION_FAILED",
+			message: "Only a disputed booking can be resolved",
+		});
+	}
+
+	let refundAmount = new Prisma.Decimal(0);
+	if (resolution.outcome === "complete") {
+		await transitionBooking(db, {
+			bookingId,
+			to: BookingStatus.COMPLETED,
+			actor: "system",
+			now,
+		});
+	} else {
+		const paid =
+			booking.payment?.status === PaymentStatus.COMPLETED
+				? booking.payment.amount
+				: new Prisma.Decimal(0);
+		const split = splitRefund(paid, resolution.refundPercent);
+		refundAmount = split.refundAmount;
+
+		await transitionBooking(db, {
+			bookingId,
+			to: BookingStatus.CANCELLED,
+			actor: "system",
+			reason,
+			now,
+		});
+		await settleCancellation(db, booking, split, now);
+	}
+
+	await recordAudit(db, {
+		actorId,
+		action: AuditAction.DISPUTE_RESOLVED,
+		targetType: AuditTargetType.BOOKING,
+		targetId: bookingId,
+		reason,
+		ipAddress,
+		metadata: { ...resolution, refundAmount: refundAmount.toFixed(2) },
+	});
+
+	return db.booking.findUniqueOrThrow({ where: { id: bookingId } });
+}
@@ -0,0 +1,37 @@
+import { Prisma } from "@prisma/client";
+import { describe, expect, it } from "vitest";
+
+import { computeEarning } from "./escrow";
+
+describe("computeEarning", () => {
+	const booking = {
+		price: new Prisma.Decimal(450),
+		serviceFee: new Prisma.Decimal(45),
+		currency: "USD",
+	};
+	const completedAt = new Date("2030-01-01T15:00:00.000Z");
+
+	it("should deduct the platform fee from the provider's earning", () => {
+		const earning = computeEarning(booking, completedAt, 15);
+
+		expect(earning.amount.toNumber()).toBe(450);
+		expect(earning.serviceFee.toNumber()).toBe(45);
+		expect(earning.netAmount.toNumber()).toBe(405);
+		expect(earning.currency).toBe("USD");
+	});
+
+	it("should hold the earning for the escrow window after completion", () => {
+		const earning = computeEarning(booking, completedAt, 15);
+
+		expect(earning.earnedAt).toBe(completedAt);
+		expect(earning.availableAt.toISOString()).toBe("2030-01-16T15:00:00.000Z");
+	});
+
+	it("should pay out a share of a booking cancelled late", () => {
+		const earning = computeEarning(booking, completedAt, 15, 50);
+
+		expect(earning.amount.toNumber()).toBe(225);
+		expect(earning.serviceFee.toNumber()).toBe(22.5);
+		expect(earning.netAmount.toNumber()).toBe(202.5);
+	});
+});
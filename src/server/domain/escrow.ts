@@ -0,0 +1,114 @@
+import {
+	type Booking,
+	BookingStatus,
+	EarningStatus,
+	Prisma,
+} from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+import { env } from "~/env";
+import { addUtcDays } from "~/utils/time";
+
+/**
+ * What the provider earns from a completed booking. The platform fee is deducted from the
+ * provider's side as well, and the money stays in escrow for `holdDays` so the customer can still
+ * dispute the booking. A booking cancelled late earns the provider `percent` of it, the part the
+ * cancellation policy did not refund.
+ */
+export function computeEarning(
+	booking: Pick<Booking, "price" | "serviceFee" | "currency">,
+	completedAt: Date,
+	holdDays: number,
+	percent = 100,
+) {
+	const share = (value: Prisma.Decimal) =>
+		value
+			.mul(percent)
+			.div(100)
+			.toDecimalPlaces(2, Prisma.Decimal.ROUND_HALF_UP);
+	const amount = share(booking.price);
+	const serviceFee = share(booking.serviceFee);
+	return {
+		amount,
+		serviceFee,
+		netAmount: amount.sub(serviceFee),
+		currency: booking.currency,
+		earnedAt: completedAt,
+		availableAt: addUtcDays(completedAt, holdDays),
+	};
+}
+
+/**
+ * Records the provider's earning for a completed booking. Idempotent: a booking that completes
+ * again after a dispute keeps its original earning and escrow date.
+ */
+export async function createEarningForBooking(
+	db: Prisma.TransactionClient,
+	booking: Pick<
+		Booking,
+		"id" | "providerId" | "price" | "serviceFee" | "currency"
+	>,
+	completedAt: Date,
+	holdDays = env.ESCROW_HOLD_DAYS,
+	percent = 100,
+) {
+	return db.earning.upsert({
+		where: { bookingId: booking.id },
+		create: {
+			userId: booking.providerId,
+			bookingId: booking.id,
+			...computeEarning(booking, completedAt, holdDays, percent),
+		},
+		update: {},
+	});
+}
+
+/**
+ * A completed booking can only be disputed while its earning is still in escrow; once released
+ * the provider may already have withdrawn the money.
+ */
+export async function assertDisputeWindowOpen(
+	db: Prisma.TransactionClient,
+	bookingId: string,
+	now: Date,
+) {
+	const earning = await db.earning.findUnique({ where: { bookingId } });
+	if (
+		earning &&
+		(earning.status !== EarningStatus.PENDING || earning.availableAt <= now)
+	) {
+		throw new TRPCError({
+			code: "PRECONDITION_FAILED",
+			message: "The dispute window for this booking has closed",
+		});
+	}
+}
+
+/** Drops the still-escrowed earning of a booking that ended up cancelled. */
+export async function voidPendingEarning(
+	db: Prisma.TransactionClient,
+	bookingId: string,
+) {
+	await db.earning.deleteMany({
+		where: { bookingId, status: EarningStatus.PENDING },
+	});
+}
+
+/**
+ * Scheduled job: makes every escrowed earning whose hold period is over available for
+ * withdrawal, unless its booking is under dispute. Returns how many earnings were released.
+ */
+export async function releaseEscrowedEarnings(
+	db: Prisma.TransactionClient,
+	now = new Date(),
+) {
+	const { count } = await db.earning.updateMany({
+		where: {
+			status: EarningStatus.PENDING,
+			availableAt: { lte: now },
+			booking: { status: { not: BookingStatus.DISPUTED } },
+		},
+		data: { status: EarningStatus.AVAILABLE },
+	});
+	return count;
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+
+import { attachmentKindFor, safeFileName } from "./message-attachments";
+
+describe("message attachments", () => {
+	it("should tell images from files and refuse other types", () => {
+		expect(attachmentKindFor("image/PNG")).toBe("IMAGE");
+		expect(attachmentKindFor("application/pdf")).toBe("FILE");
+		expect(attachmentKindFor("application/x-msdownload")).toBeNull();
+	});
+
+	it("should keep only the last path segment of a file name", () => {
+		expect(safeFileName("../../etc/passwd")).toBe("passwd");
+		expect(safeFileName("C:\\Users\\me\\quote.pdf")).toBe("quote.pdf");
+	});
+
+	it("should replace unsafe characters and never return an empty name", () => {
+		expect(safeFileName('invoice<"1">.pdf')).toBe("invoice-1-.pdf");
+		expect(safeFileName(".hidden")).toBe("hidden");
+		expect(safeFileName("...")).toBe("file");
+	});
+});
@@ -0,0 +1,159 @@
+import { randomUUID } from "node:crypto";
+
+import { AttachmentKind, type Prisma } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+import type { FileStorage } from "~/server/storage";
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+
+/** How long a client has to finish an upload it asked for. */
+const UPLOAD_URL_TTL_SECONDS = 10 * 60;
+
+/** What can be shared in chat: photos of the job, and the usual documents. */
+const ATTACHMENT_KINDS: Record<string, AttachmentKind> = {
+	"image/jpeg": AttachmentKind.IMAGE,
+	"image/png": AttachmentKind.IMAGE,
+	"image/webp": AttachmentKind.IMAGE,
+	"image/gif": AttachmentKind.IMAGE,
+	"application/pdf": AttachmentKind.FILE,
+	"text/plain": AttachmentKind.FILE,
+	"application/msword": AttachmentKind.FILE,
+	"application/vnd.openxmlformats-officedocument.wordprocessingml.document":
+		AttachmentKind.FILE,
+	"application/vnd.ms-excel": AttachmentKind.FILE,
+	"application/vnd.openxmlformats-officedocument.spreadsheetml.sheet":
+		AttachmentKind.FILE,
+};
+
+/** How a content type is shown in the thread, or null when it may not be uploaded at all. */
+export function attachmentKindFor(contentType: string) {
+	return ATTACHMENT_KINDS[contentType.toLowerCase()] ?? null;
+}
+
+/** Keeps a file name safe to use as the last segment of a storage key and in headers. */
+export function safeFileName(fileName: string) {
+	const base = fileName.split(/[\\/]/).pop() ?? "";
+	const cleaned = base
+		.normalize("NFKC")
+		.replace(/[^\p{L}\p{N}._ -]+/gu, "-")
+		.replace(/^[.\s-]+/, "")
+		.trim()
+		.slice(-100);
+	return cleaned || "file";
+}
+
+/**
+ * Reserves an attachment in a conversation and returns where to upload it. The attachment stays
+ * unattached until a message claims it; the upload URL only accepts the declared type and size.
+ */
+export async function createAttachmentUpload(
+	db: Prisma.TransactionClient,
+	storage: FileStorage,
+	{
+		conversationId,
+		uploaderId,
+		fileName,
+		contentType,
+		size,
+	}: {
+		conversationId: string;
+		uploaderId: string;
+		fileName: string;
+		contentType: string;
+		size: number;
+	},
+) {
+	const kind = attachmentKindFor(contentType);
+	if (!kind) {
+		throw new TRPCError({
+			code: "BAD_REQUEST",
+			message: "This type of file cannot be attached",
+		});
+	}
+	if (size > MAX_ATTACHMENT_BYTES) {
+		throw new TRPCError({
+			code: "BAD_REQUEST",
+			message: `Attachments are limited to ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`,
+		});
+	}
+
+	const name = safeFileName(fileName);
+	const key = `messages/${conversationId}/${randomUUID()}/${name}`;
+	const attachment = await db.messageAttachment.create({
+		data: {
+			conversationId,
+			uploaderId,
+			key,
+			fileName: name,
+			contentType: contentType.toLowerCase(),
+			size,
+			kind,
+		},
+		select: {
+			id: true,
+			fileName: true,
+			contentType: true,
+			size: true,
+			kind: true,
+		},
+	});
+	const upload = await storage.createUpload(key, {
+		contentType: attachment.contentType,
+		maxBytes: Math.min(size, MAX_ATTACHMENT_BYTES),
+		expiresInSeconds: UPLOAD_URL_TTL_SECONDS,
+	});
+
+	return { attachment, upload };
+}
+
+/**
+ * Checks that the uploader's attachments in this conversation are unsent and fully uploaded,
+ * and records their actual size, so `sendMessage` can link them to the new message.
+ */
+export async function claimAttachments(
+	db: Prisma.TransactionClient,
+	storage: FileStorage,
+	{
+		attachmentIds,
+		conversationId,
+		uploaderId,
+	}: { attachmentIds: string[]; conversationId: string; uploaderId: string },
+) {
+	const ids = [...new Set(attachmentIds)];
+	if (ids.length === 0) return [];
+	if (ids.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+		throw new TRPCError({
+			code: "BAD_REQUEST",
+			message: `A message can carry at most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments`,
+		});
+	}
+
+	const attachments = await db.messageAttachment.findMany({
+		where: { id: { in: ids }, conversationId, uploaderId, messageId: null },
+	});
+	if (attachments.length !== ids.length) {
+		throw new TRPCError({
+			code: "NOT_FOUND",
+			message: "Attachment not found or already sent",
+		});
+	}
+
+	for (const attachment of attachments) {
+		const stored = await storage.stat(attachment.key);
+		if (!stored) {
+			throw new TRPCError({
+				code: "PRECONDITION_FAILED",
+				message: `${attachment.fileName} has not finished uploading`,
+			});
+		}
+		if (stored.size !== attachment.size) {
+			await db.messageAttachment.update({
+				where: { id: attachment.id },
+				data: { size: stored.size },
+			});
+		}
+	}
+	return ids;
+}
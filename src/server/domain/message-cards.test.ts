@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+
+import {
+	assertCanRespond,
+	cardResponseText,
+	parseMessageCard,
+	rescheduleCard,
+} from "./message-cards";
+
+const now = new Date("2025-03-05T12:00:00Z");
+const quote = {
+	kind: "quote",
+	title: "Deep clean",
+	amount: "120.00",
+	currency: "USD",
+	validUntil: "2025-03-10T00:00:00.000Z",
+} as const;
+const message = {
+	recipientId: "r1",
+	cardStatus: "PENDING" as const,
+	payload: quote,
+};
+
+describe("message cards", () => {
+	it("should read cards and ignore anything else", () => {
+		expect(
+			parseMessageCard({ kind: "booking_request", bookingId: "b1" }),
+		).toEqual({ kind: "booking_request", bookingId: "b1" });
+		expect(parseMessageCard({ kind: "unknown" })).toBeNull();
+		expect(parseMessageCard(null)).toBeNull();
+	});
+
+	it("should let only the recipient answer a pending card", () => {
+		expect(assertCanRespond(message, "r1", true, now)).toEqual(quote);
+		expect(() => assertCanRespond(message, "s1", true, now)).toThrow(
+			expect.objectContaining({ code: "FORBIDDEN" }),
+		);
+		expect(() =>
+			assertCanRespond(
+				{ ...message, cardStatus: "ACCEPTED" },
+				"r1",
+				false,
+				now,
+			),
+		).toThrow(expect.objectContaining({ code: "PRECONDITION_FAILED" }));
+		expect(() =>
+			assertCanRespond({ ...message, payload: null }, "r1", true, now),
+		).toThrow(expect.objectContaining({ code: "BAD_REQUEST" }));
+	});
+
+	it("should refuse accepting an expired quote but allow declining it", () => {
+		const later = new Date("2025-03-10T00:00:00Z");
+		expect(() => assertCanRespond(message, "r1", true, later)).toThrow(
+			expect.objectContaining({ code: "PRECONDITION_FAILED" }),
+		);
+		expect(() => assertCanRespond(message, "r1", false, later)).not.toThrow();
+	});
+
+	it("should describe the answer in the thread", () => {
+		const card = rescheduleCard("b1", {
+			date: new Date("2025-03-12T00:00:00Z"),
+			startTime: "09:00",
+			endTime: "10:00",
+		});
+		expect(cardResponseText(card, true)).toBe(
+			"Accepted moving the booking to 2025-03-12 at 09:00.",
+		);
+		expect(cardResponseText(quote, false)).toBe(
+			'Declined the quote "Deep clean" (120.00 USD).',
+		);
+	});
+});
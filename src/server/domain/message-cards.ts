@@ -0,0 +1,202 @@
+import {
+	BookingStatus,
+	type Message,
+	MessageCardStatus,
+	MessageType,
+	type Prisma,
+} from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import { toDateKey } from "~/utils/time";
+
+import { rescheduleBooking } from "./booking-slots";
+import { bookingActorFor, transitionBooking } from "./booking-status";
+import { cancelBooking } from "./cancellation-policy";
+import { messageSelect, sendMessage } from "./conversations";
+
+/**
+ * The structured part of a message that renders as a card with accept/decline buttons, stored
+ * in `Message.payload`. Each kind goes with one `MessageType`, see `CARD_MESSAGE_TYPES`.
+ */
+export const messageCardSchema = z.discriminatedUnion("kind", [
+	z.object({ kind: z.literal("booking_request"), bookingId: z.string() }),
+	z.object({
+		kind: z.literal("reschedule"),
+		bookingId: z.string(),
+		/** UTC calendar day as "YYYY-MM-DD". */
+		date: z.string(),
+		startTime: z.string(),
+		endTime: z.string(),
+		note: z.string().nullish(),
+	}),
+	z.object({
+		kind: z.literal("quote"),
+		title: z.string(),
+		description: z.string().nullish(),
+		/** Decimal string, e.g. "120.00". */
+		amount: z.string(),
+		currency: z.string(),
+		/** ISO timestamp after which the quote can no longer be accepted. */
+		validUntil: z.string(),
+		serviceId: z.string().nullish(),
+	}),
+]);
+
+export type MessageCard = z.infer<typeof messageCardSchema>;
+
+export const CARD_MESSAGE_TYPES = {
+	booking_request: MessageType.BOOKING_REQUEST,
+	reschedule: MessageType.BOOKING_UPDATE,
+	quote: MessageType.QUOTE,
+} as const satisfies Record<MessageCard["kind"], MessageType>;
+
+/** The card in a message's payload, or null for plain messages and payloads we cannot read. */
+export function parseMessageCard(payload: Prisma.JsonValue | null) {
+	const parsed = messageCardSchema.safeParse(payload);
+	return parsed.success ? parsed.data : null;
+}
+
+/**
+ * Only the recipient answers a card, and only once. Quotes cannot be accepted after they
+ * expire, though they can still be declined. Returns the parsed card.
+ */
+export function assertCanRespond(
+	message: Pick<Message, "recipientId" | "cardStatus" | "payload">,
+	userId: string,
+	accept: boolean,
+	now: Date,
+) {
+	const card = parseMessageCard(message.payload);
+	if (!card || !message.cardStatus) {
+		throw new TRPCError({
+			code: "BAD_REQUEST",
+			message: "This message has nothing to answer",
+		});
+	}
+	if (message.recipientId !== userId) {
+		throw new TRPCError({
+			code: "FORBIDDEN",
+			message: "Only the recipient can answer this",
+		});
+	}
+	if (message.cardStatus !== MessageCardStatus.PENDING) {
+		throw new TRPCError({
+			code: "PRECONDITION_FAILED",
+			message: "This has already been answered",
+		});
+	}
+	if (accept && card.kind === "quote" && new Date(card.validUntil) <= now) {
+		throw new TRPCError({
+			code: "PRECONDITION_FAILED",
+			message: "This quote has expired",
+		});
+	}
+	return card;
+}
+
+/** The line posted back into the thread once a card is answered. */
+export function cardResponseText(card: MessageCard, accept: boolean) {
+	const verb = accept ? "Accepted" : "Declined";
+	switch (card.kind) {
+		case "booking_request":
+			return `${verb} the booking request.`;
+		case "reschedule":
+			return `${verb} moving the booking to ${card.date} at ${card.startTime}.`;
+		case "quote":
+			return `${verb} the quote "${card.title}" (${card.amount} ${card.currency}).`;
+	}
+}
+
+/**
+ * Answers a card on behalf of its recipient and carries out what accepting means: a booking
+ * request is confirmed (or declining cancels it), a reschedule moves the booking, and a quote
+ * is simply marked accepted. A SYSTEM message records the answer in the thread. Run it in a
+ * serializable transaction, since a reschedule takes a slot.
+ */
+export async function respondToCard(
+	db: Prisma.TransactionClient,
+	messageId: string,
+	userId: string,
+	{ accept, reason }: { accept: boolean; reason?: string },
+	now = new Date(),
+) {
+	await db.$queryRaw`SELECT 1 FROM "Message" WHERE "id" = ${messageId} FOR UPDATE`;
+	const message = await db.message.findUnique({ where: { id: messageId } });
+	if (!message) {
+		throw new TRPCError({ code: "NOT_FOUND", message: "Message not found" });
+	}
+	const card = assertCanRespond(message, userId, accept, now);
+
+	if (card.kind === "booking_request") {
+		const booking = await db.booking.findUnique({
+			where: { id: card.bookingId },
+			select: { customerId: true, providerId: true, status: true },
+		});
+		if (!booking || bookingActorFor(booking, userId) !== "provider") {
+			throw new TRPCError({ code: "NOT_FOUND", message: "Booking not found" });
+		}
+		if (accept) {
+			await transitionBooking(db, {
+				bookingId: card.bookingId,
+				to: BookingStatus.CONFIRMED,
+				actor: "provider",
+				now,
+			});
+		} else {
+			await cancelBooking(db, {
+				bookingId: card.bookingId,
+				actor: "provider",
+				reason: reason ?? "Declined by the provider",
+				now,
+			});
+		}
+	} else if (card.kind === "reschedule" && accept) {
+		await rescheduleBooking(
+			db,
+			card.bookingId,
+			new Date(`${card.date}T00:00:00Z`),
+			card.startTime,
+			now,
+		);
+	}
+
+	const updated = await db.message.update({
+		where: { id: message.id },
+		data: {
+			cardStatus: accept
+				? MessageCardStatus.ACCEPTED
+				: MessageCardStatus.DECLINED,
+			respondedAt: now,
+		},
+		select: messageSelect,
+	});
+	const reply = await sendMessage(db, {
+		conversationId: message.conversationId,
+		senderId: userId,
+		recipientId: message.senderId,
+		type: MessageType.SYSTEM,
+		bookingId: message.bookingId,
+		content: reason
+			? `${cardResponseText(card, accept)} ${reason}`
+			: cardResponseText(card, accept),
+	});
+
+	return { message: updated, reply };
+}
+
+/** The reschedule card for moving a booking to `date` at the given slot. */
+export function rescheduleCard(
+	bookingId: string,
+	slot: { date: Date; startTime: string; endTime: string },
+	note?: string | null,
+): Extract<MessageCard, { kind: "reschedule" }> {
+	return {
+		kind: "reschedule",
+		bookingId,
+		date: toDateKey(slot.date),
+		startTime: slot.startTime,
+		endTime: slot.endTime,
+		note: note ?? null,
+	};
+}
@@ -0,0 +1,200 @@
+import {
+	AuditAction,
+	AuditTargetType,
+	type Prisma,
+	ServiceStatus,
+	UserRole,
+} from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+import { type StaffAction, recordAudit } from "./audit";
+import { refreshRatingsFor } from "./reviews";
+import { transitionService } from "./service-status";
+
+/**
+ * Suspends or reactivates a user account through `User.isActive`. Suspending also ends every
+ * session of the user, so they are signed out right away rather than when their session expires.
+ */
+export async function setUserActive(
+	db: Prisma.TransactionClient,
+	userId: string,
+	isActive: boolean,
+	{ actorId, reason, ipAddress }: StaffAction,
+) {
+	const user = await db.user.findUnique({ where: { id: userId } });
+	if (!user) {
+		throw new TRPCError({ code: "NOT_FOUND", message: "User not found" });
+	}
+	if (!isActive && user.id === actorId) {
+		throw new TRPCError({
+			code: "BAD_REQUEST",
+			message: "You cannot suspend your own account",
+		});
+	}
+	if (!isActive && user.role === UserRole.ADMIN) {
+		throw new TRPCError({
+			code: "FORBIDDEN",
+			message: "Admin accounts cannot be suspended",
+		});
+	}
+
+	const { count } = await db.user.updateMany({
+		where: { id: user.id, isActive: !isActive },
+		data: { isActive },
+	});
+	if (count === 0) {
+		throw new TRPCError({
+			code: "PRECONDITION_FAILED",
+			message: isActive
+				? "This account is not suspended"
+				: "This account is already suspended",
+		});
+	}
+	if (!isActive) {
+		await db.session.deleteMany({ where: { userId: user.id } });
+	}
+
+	await recordAudit(db, {
+		actorId,
+		action: isActive
+			? AuditAction.USER_REACTIVATED
+			: AuditAction.USER_SUSPENDED,
+		targetType: AuditTargetType.USER,
+		targetId: user.id,
+		reason,
+		ipAddress,
+	});
+
+	return db.user.findUniqueOrThrow({ where: { id: user.id } });
+}
+
+/** Approves a listing waiting for review, or sends it back to its provider as a DRAFT. */
+export async function reviewServiceListing(
+	db: Prisma.TransactionClient,
+	serviceId: string,
+	decision: "approve" | "reject",
+	{ actorId, reason, ipAddress }: StaffAction,
+) {
+	const approve = decision === "approve";
+	const service = await transitionService(db, {
+		serviceId,
+		to: approve ? ServiceStatus.ACTIVE : ServiceStatus.DRAFT,
+		actor: "admin",
+		rejectionReason: approve ? undefined : reason,
+	});
+
+	await recordAudit(db, {
+		actorId,
+		action: approve
+			? AuditAction.SERVICE_APPROVED
+			: AuditAction.SERVICE_REJECTED,
+		targetType: AuditTargetType.SERVICE,
+		targetId: service.id,
+		reason,
+		ipAddress,
+	});
+
+	return service;
+}
+
+/**
+ * Takes a live or paused listing off the marketplace, back to DRAFT with the reason shown to its
+ * provider, who has to fix it and submit it for review again. Bookings already made stand.
+ */
+export async function takeDownServiceListing(
+	db: Prisma.TransactionClient,
+	serviceId: string,
+	{ actorId, reason, ipAddress }: StaffAction,
+) {
+	const service = await transitionService(db, {
+		serviceId,
+		to: ServiceStatus.DRAFT,
+		actor: "admin",
+		rejectionReason: reason,
+	});
+	const updated = service.isFeatured
+		? await db.service.update({
+				where: { id: service.id },
+				data: { isFeatured: false },
+			})
+		: service;
+
+	await recordAudit(db, {
+		actorId,
+		action: AuditAction.SERVICE_TAKEN_DOWN,
+		targetType: AuditTargetType.SERVICE,
+		targetId: service.id,
+		reason,
+		ipAddress,
+	});
+
+	return updated;
+}
+
+/** Features or unfeatures a service on the home page. Only live listings can be featured. */
+export async function setServiceFeatured(
+	db: Prisma.TransactionClient,
+	serviceId: string,
+	isFeatured: boolean,
+	{ actorId, reason, ipAddress }: StaffAction,
+) {
+	const service = await db.service.findUnique({ where: { id: serviceId } });
+	if (!service) {
+		throw new TRPCError({ code: "NOT_FOUND", message: "Service not found" });
+	}
+	if (isFeatured && service.status !== ServiceStatus.ACTIVE) {
+		throw new TRPCError({
+			code: "PRECONDITION_FAILED",
+			message: "Only active services can be featured",
+		});
+	}
+
+	const updated = await db.service.update({
+		where: { id: service.id },
+		data: { isFeatured },
+	});
+
+	await recordAudit(db, {
+		actorId,
+		action: isFeatured
+			? AuditAction.SERVICE_FEATURED
+			: AuditAction.SERVICE_UNFEATURED,
+		targetType: AuditTargetType.SERVICE,
+		targetId: service.id,
+		reason,
+		ipAddress,
+	});
+
+	return updated;
+}
+
+/** Hides an abusive review from everyone but staff, or restores it. */
+export async function setReviewPublic(
+	db: Prisma.TransactionClient,
+	reviewId: string,
+	isPublic: boolean,
+	{ actorId, reason, ipAddress }: StaffAction,
+) {
+	const review = await db.review.findUnique({ where: { id: reviewId } });
+	if (!review) {
+		throw new TRPCError({ code: "NOT_FOUND", message: "Review not found" });
+	}
+
+	const updated = await db.review.update({
+		where: { id: review.id },
+		data: { isPublic },
+	});
+	// Hidden reviews no longer count towards the ratings shown on the listing or profile.
+	await refreshRatingsFor(db, review);
+
+	await recordAudit(db, {
+		actorId,
+		action: isPublic ? AuditAction.REVIEW_RESTORED : AuditAction.REVIEW_HIDDEN,
+		targetType: AuditTargetType.REVIEW,
+		targetId: review.id,
+		reason,
+		ipAddress,
+	});
+
+	return updated;
+}
@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+
+import {
+	DEFAULT_NOTIFICATION_CHANNELS,
+	digestSendAt,
+	notificationHref,
+	planDeliveries,
+	preferenceFor,
+	quietHoursEnd,
+} from "./notifications";
+
+describe("notifications", () => {
+	it("should use the defaults for types the user has not set", () => {
+		expect(preferenceFor([], "BOOKING_REQUEST")).toEqual({
+			channels: ["EMAIL", "SMS", "PUSH"],
+			frequency: "INSTANT",
+		});
+		expect(
+			preferenceFor(
+				[{ type: "MESSAGE_RECEIVED", channels: [], frequency: "DAILY" }],
+				"REVIEW_RECEIVED",
+			).channels,
+		).toEqual(DEFAULT_NOTIFICATION_CHANNELS.REVIEW_RECEIVED);
+	});
+
+	it("should follow the user's choice, including turning every channel off", () => {
+		const preferences = [
+			{
+				type: "MESSAGE_RECEIVED" as const,
+				channels: [],
+				frequency: "INSTANT" as const,
+			},
+			{
+				type: "BOOKING_COMPLETED" as const,
+				channels: ["SMS" as const],
+				frequency: "INSTANT" as const,
+			},
+		];
+		expect(preferenceFor(preferences, "MESSAGE_RECEIVED").channels).toEqual([]);
+		expect(preferenceFor(preferences, "BOOKING_COMPLETED").channels).toEqual([
+			"SMS",
+		]);
+	});
+
+	it("should send instant types on every chosen channel right away", () => {
+		const now = new Date("2025-06-01T10:20:00Z");
+		expect(
+			planDeliveries(
+				{ channels: ["EMAIL", "PUSH", "EMAIL"], frequency: "INSTANT" },
+				null,
+				now,
+			),
+		).toEqual([
+			{ channel: "EMAIL", digest: null, notBefore: null },
+			{ channel: "PUSH", digest: null, notBefore: null },
+		]);
+	});
+
+	it("should collect digested types into the next email digest only", () => {
+		const now = new Date("2025-06-01T10:20:00Z");
+		expect(
+			planDeliveries(
+				{ channels: ["EMAIL", "SMS", "PUSH"], frequency: "HOURLY" },
+				null,
+				now,
+			),
+		).toEqual([
+			{
+				channel: "EMAIL",
+				digest: "HOURLY",
+				notBefore: new Date("2025-06-01T11:00:00Z"),
+			},
+		]);
+		expect(
+			planDeliveries({ channels: ["PUSH"], frequency: "DAILY" }, null, now),
+		).toEqual([]);
+	});
+
+	it("should send daily digests in the morning on the recipient's clock", () => {
+		const now = new Date("2025-06-01T10:20:00Z");
+		expect(digestSendAt("DAILY", null, now)).toEqual(
+			new Date("2025-06-02T08:00:00Z"),
+		);
+		// 06:20 in New York, so the same day's 08:00.
+		expect(digestSendAt("DAILY", "America/New_York", now)).toEqual(
+			new Date("2025-06-01T12:00:00Z"),
+		);
+		expect(
+			digestSendAt("HOURLY", null, new Date("2025-06-01T11:00:00Z")),
+		).toEqual(new Date("2025-06-01T12:00:00Z"));
+	});
+
+	it("should hold until the end of quiet hours that cross midnight", () => {
+		const user = {
+			timeZone: "Europe/Paris",
+			quietHoursStart: "22:00",
+			quietHoursEnd: "07:00",
+		};
+		// 23:30 and 06:59 in Paris are quiet; 07:00 and 12:00 are not.
+		expect(quietHoursEnd(user, new Date("2025-06-01T21:30:00Z"))).toEqual(
+			new Date("2025-06-02T05:00:00Z"),
+		);
+		expect(quietHoursEnd(user, new Date("2025-06-02T04:59:00Z"))).toEqual(
+			new Date("2025-06-02T05:00:00Z"),
+		);
+		expect(quietHoursEnd(user, new Date("2025-06-02T05:00:00Z"))).toBeNull();
+		expect(quietHoursEnd(user, new Date("2025-06-02T10:00:00Z"))).toBeNull();
+	});
+
+	it("should handle quiet hours within a day and users without any", () => {
+		const user = {
+			timeZone: null,
+			quietHoursStart: "13:00",
+			quietHoursEnd: "14:00",
+		};
+		expect(quietHoursEnd(user, new Date("2025-06-01T13:30:00Z"))).toEqual(
+			new Date("2025-06-01T14:00:00Z"),
+		);
+		expect(
+			quietHoursEnd(
+				{ ...user, quietHoursStart: null, quietHoursEnd: null },
+				new Date("2025-06-01T13:30:00Z"),
+			),
+		).toBeNull();
+	});
+
+	it("should link to the most specific thing a notification is about", () => {
+		expect(notificationHref({ conversationId: "c1", messageId: "m1" })).toBe(
+			"/messages/c1",
+		);
+		expect(
+			notificationHref({ reviewId: "r1", bookingId: "b1", serviceId: "s1" }),
+		).toBe("/reviews?review=r1");
+		expect(notificationHref({ bookingId: "b1", paymentId: "p1" })).toBe(
+			"/bookings/b1",
+		);
+		expect(notificationHref({ withdrawalId: "w 1" })).toBe(
+			"/earnings?withdrawal=w%201",
+		);
+		expect(notificationHref({ serviceId: "s1" })).toBe("/services/s1");
+	});
+
+	it("should not link anywhere without a known id", () => {
+		expect(notificationHref(null)).toBeNull();
+		expect(notificationHref(["b1"])).toBeNull();
+		expect(notificationHref({ bookingId: 42 })).toBeNull();
+	});
+});
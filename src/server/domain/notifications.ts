@@ -0,0 +1,527 @@
+import {
+	DeliveryStatus,
+	NotificationChannel,
+	NotificationFrequency,
+	NotificationType,
+	type Prisma,
+	type PrismaClient,
+} from "@prisma/client";
+
+import type {
+	EmailChannelAdapter,
+	NotificationChannels,
+} from "~/server/notifications";
+import { publishWhenSettled } from "~/server/realtime/settled";
+import {
+	minutesIntoLocalDay,
+	nextLocalTime,
+	timeToMinutes,
+} from "~/utils/time";
+
+export interface NotificationInput {
+	userId: string;
+	type: NotificationType;
+	title: string;
+	message: string;
+	data?: Prisma.InputJsonObject;
+}
+
+/** Attempts per channel before a delivery is given up as FAILED. */
+export const MAX_DELIVERY_ATTEMPTS = 5;
+
+/** When daily digests go out, on the recipient's clock. */
+export const DAILY_DIGEST_TIME = "08:00";
+
+const { EMAIL, SMS, PUSH } = NotificationChannel;
+
+/**
+ * Channels used for a type until the user sets their own. In-app notifications are always
+ * written; SMS is kept for what needs a reaction soon. Every type is sent as it happens until
+ * the user picks a digest.
+ */
+export const DEFAULT_NOTIFICATION_CHANNELS: Record<
+	NotificationType,
+	NotificationChannel[]
+> = {
+	BOOKING_REQUEST: [EMAIL, SMS, PUSH],
+	BOOKING_CONFIRMED: [EMAIL, PUSH],
+	BOOKING_CANCELLED: [EMAIL, SMS, PUSH],
+	BOOKING_COMPLETED: [EMAIL],
+	BOOKING_REMINDER: [EMAIL, SMS, PUSH],
+	PAYMENT_RECEIVED: [EMAIL, PUSH],
+	MESSAGE_RECEIVED: [PUSH],
+	REVIEW_RECEIVED: [EMAIL],
+	REVIEW_REPLIED: [EMAIL],
+	WITHDRAWAL_COMPLETED: [EMAIL],
+	SYSTEM: [EMAIL],
+};
+
+/**
+ * Channels that wait for the end of the recipient's quiet hours. SMS is the urgent channel and
+ * goes out regardless; users who do not want it at night turn it off for the type.
+ */
+export const QUIET_HOURS_HELD_CHANNELS: NotificationChannel[] = [EMAIL, PUSH];
+
+export interface NotificationPreferenceValue {
+	channels: NotificationChannel[];
+	frequency: NotificationFrequency;
+}
+
+/** How `type` reaches a user, given their saved preferences. */
+export function preferenceFor(
+	preferences: ({ type: NotificationType } & NotificationPreferenceValue)[],
+	type: NotificationType,
+): NotificationPreferenceValue {
+	const saved = preferences.find((p) => p.type === type);
+	return saved
+		? { channels: saved.channels, frequency: saved.frequency }
+		: {
+				channels: DEFAULT_NOTIFICATION_CHANNELS[type],
+				frequency: NotificationFrequency.INSTANT,
+			};
+}
+
+export interface QuietHours {
+	timeZone: string | null;
+	quietHoursStart: string | null;
+	quietHoursEnd: string | null;
+}
+
+/**
+ * When the user's quiet hours end, if they are in them at `now`. The window may cross midnight,
+ * e.g. 22:00 to 07:00.
+ */
+export function quietHoursEnd(user: QuietHours, now: Date) {
+	if (!user.quietHoursStart || !user.quietHoursEnd) return null;
+	const timeZone = user.timeZone ?? "UTC";
+	const start = timeToMinutes(user.quietHoursStart);
+	const end = timeToMinutes(user.quietHoursEnd);
+	const current = minutesIntoLocalDay(now, timeZone);
+	const quiet =
+		start <= end
+			? current >= start && current < end
+			: current >= start || current < end;
+	return quiet ? nextLocalTime(now, user.quietHoursEnd, timeZone) : null;
+}
+
+/**
+ * When a digest collecting a notification from `now` goes out: at the top of the next hour (in
+ * UTC, which only differs from local time in the few half-hour zones), or at
+ * `DAILY_DIGEST_TIME` on the recipient's clock.
+ */
+export function digestSendAt(
+	frequency: Exclude<NotificationFrequency, "INSTANT">,
+	timeZone: string | null,
+	now: Date,
+) {
+	if (frequency === NotificationFrequency.HOURLY) {
+		const hour = 60 * 60 * 1000;
+		return new Date((Math.floor(now.getTime() / hour) + 1) * hour);
+	}
+	return nextLocalTime(now, DAILY_DIGEST_TIME, timeZone ?? "UTC");
+}
+
+/**
+ * The deliveries one notification gets. Digested types only go out by email, in the digest;
+ * their push and SMS stay quiet, since batching is the point.
+ */
+export function planDeliveries(
+	{ channels, frequency }: NotificationPreferenceValue,
+	timeZone: string | null,
+	now: Date,
+) {
+	if (frequency === NotificationFrequency.INSTANT) {
+		return [...new Set(channels)].map((channel) => ({
+			channel,
+			digest: null,
+			notBefore: null,
+		}));
+	}
+	return channels.includes(EMAIL)
+		? [
+				{
+					channel: EMAIL,
+					digest: frequency,
+					notBefore: digestSendAt(frequency, timeZone, now),
+				},
+			]
+		: [];
+}
+
+/** Every type with how it currently reaches the user, and their quiet hours, for settings. */
+export async function getNotificationPreferences(
+	db: Prisma.TransactionClient,
+	userId: string,
+) {
+	const user = await db.user.findUniqueOrThrow({
+		where: { id: userId },
+		select: {
+			timeZone: true,
+			quietHoursStart: true,
+			quietHoursEnd: true,
+			notificationPreferences: {
+				select: { type: true, channels: true, frequency: true },
+			},
+		},
+	});
+	return {
+		types: Object.values(NotificationType).map((type) => ({
+			type,
+			...preferenceFor(user.notificationPreferences, type),
+			isDefault: !user.notificationPreferences.some((p) => p.type === type),
+		})),
+		timeZone: user.timeZone,
+		quietHours:
+			user.quietHoursStart && user.quietHoursEnd
+				? { start: user.quietHoursStart, end: user.quietHoursEnd }
+				: null,
+	};
+}
+
+export async function setNotificationPreference(
+	db: Prisma.TransactionClient,
+	userId: string,
+	type: NotificationType,
+	{ channels, frequency }: NotificationPreferenceValue,
+) {
+	const unique = [...new Set(channels)];
+	return db.notificationPreference.upsert({
+		where: { userId_type: { userId, type } },
+		create: { userId, type, channels: unique, frequency },
+		update: { channels: unique, frequency },
+		select: { type: true, channels: true, frequency: true },
+	});
+}
+
+/** Sets the user's time zone and quiet hours; null turns quiet hours off. */
+export function setQuietHours(
+	db: Prisma.TransactionClient,
+	userId: string,
+	{
+		timeZone,
+		quietHours,
+	}: { timeZone: string; quietHours: { start: string; end: string } | null },
+) {
+	return db.user.update({
+		where: { id: userId },
+		data: {
+			timeZone,
+			quietHoursStart: quietHours?.start ?? null,
+			quietHoursEnd: quietHours?.end ?? null,
+		},
+		select: { timeZone: true, quietHoursStart: true, quietHoursEnd: true },
+	});
+}
+
+/**
+ * The one way to notify users. Writes the in-app notifications and queues their deliveries as
+ * the recipients' preferences say, all in the caller's transaction; nothing leaves the platform
+ * until `deliverPendingNotifications` or `sendNotificationDigests` runs after it commits.
+ */
+export async function notify(
+	db: Prisma.TransactionClient,
+	input: NotificationInput | NotificationInput[],
+	now = new Date(),
+) {
+	const inputs = Array.isArray(input) ? input : [input];
+	if (inputs.length === 0) return [];
+
+	const userIds = [...new Set(inputs.map((i) => i.userId))];
+	const users = await db.user.findMany({
+		where: { id: { in: userIds } },
+		select: {
+			id: true,
+			timeZone: true,
+			notificationPreferences: {
+				select: { type: true, channels: true, frequency: true },
+			},
+		},
+	});
+	const notifications = await db.notification.createManyAndReturn({
+		data: inputs,
+		select: { id: true, userId: true, type: true },
+	});
+
+	const deliveries = notifications.flatMap((notification) => {
+		const user = users.find((u) => u.id === notification.userId);
+		if (!user) return [];
+		return planDeliveries(
+			preferenceFor(user.notificationPreferences, notification.type),
+			user.timeZone,
+			now,
+		).map((delivery) => ({ ...delivery, notificationId: notification.id }));
+	});
+	if (deliveries.length > 0) {
+		await db.notificationDelivery.createMany({ data: deliveries });
+	}
+	await publishWhenSettled(userIds, { type: "notifications" });
+	return notifications;
+}
+
+/**
+ * Where a notification leads in the app, from the ids in its `data`. The most specific id wins:
+ * a conversation, then a review, a booking, a payout and finally a service.
+ */
+export function notificationHref(data: Prisma.JsonValue | null) {
+	if (!data || typeof data !== "object" || Array.isArray(data)) return null;
+	const id = (key: string) => {
+		const value = data[key];
+		return typeof value === "string" ? encodeURIComponent(value) : null;
+	};
+
+	const conversationId = id("conversationId");
+	if (conversationId) return `/messages/${conversationId}`;
+	const reviewId = id("reviewId");
+	if (reviewId) return `/reviews?review=${reviewId}`;
+	const bookingId = id("bookingId");
+	if (bookingId) return `/bookings/${bookingId}`;
+	const withdrawalId = id("withdrawalId");
+	if (withdrawalId) return `/earnings?withdrawal=${withdrawalId}`;
+	const serviceId = id("serviceId");
+	if (serviceId) return `/services/${serviceId}`;
+	return null;
+}
+
+export function countUnreadNotifications(
+	db: Prisma.TransactionClient,
+	userId: string,
+) {
+	return db.notification.count({ where: { userId, isRead: false } });
+}
+
+/**
+ * Marks the user's unread notifications read, all of them or those of one type or with the given
+ * ids, and tells their open tabs. Returns how many changed.
+ */
+export async function markNotificationsRead(
+	db: Prisma.TransactionClient,
+	userId: string,
+	{
+		ids,
+		type,
+		now = new Date(),
+	}: { ids?: string[]; type?: NotificationType; now?: Date } = {},
+) {
+	const { count } = await db.notification.updateMany({
+		where: { userId, isRead: false, id: ids && { in: ids }, type },
+		data: { isRead: true, readAt: now },
+	});
+	if (count > 0) {
+		await publishWhenSettled([userId], { type: "notifications" });
+	}
+	return count;
+}
+
+const recipientSelect = {
+	id: true,
+	name: true,
+	email: true,
+	phone: true,
+	isActive: true,
+	timeZone: true,
+	quietHoursStart: true,
+	quietHoursEnd: true,
+} satisfies Prisma.UserSelect;
+
+const deliveryInclude = {
+	notification: { include: { user: { select: recipientSelect } } },
+} satisfies Prisma.NotificationDeliveryInclude;
+
+type QueuedDelivery = Prisma.NotificationDeliveryGetPayload<{
+	include: typeof deliveryInclude;
+}>;
+
+/** Queued deliveries due at `now`, sent on their own or in digests. */
+function dueDeliveries(digested: boolean, now: Date) {
+	return {
+		status: DeliveryStatus.PENDING,
+		digest: digested ? { not: null } : null,
+		OR: [{ notBefore: null }, { notBefore: { lte: now } }],
+	} satisfies Prisma.NotificationDeliveryWhereInput;
+}
+
+function outgoing({ notification }: QueuedDelivery) {
+	const { user, ...rest } = notification;
+	return { ...rest, href: notificationHref(rest.data) };
+}
+
+/**
+ * Claims one attempt at a delivery with a compare-and-set on its attempt count, so overlapping
+ * runs never send the same delivery twice.
+ */
+async function claimDelivery(db: PrismaClient, delivery: QueuedDelivery) {
+	const { count } = await db.notificationDelivery.updateMany({
+		where: {
+			id: delivery.id,
+			status: DeliveryStatus.PENDING,
+			attempts: delivery.attempts,
+		},
+		data: { attempts: { increment: 1 } },
+	});
+	return count === 1;
+}
+
+/** Puts deliveries back for another try, or gives up on them after `MAX_DELIVERY_ATTEMPTS`. */
+async function recordFailure(
+	db: PrismaClient,
+	deliveries: QueuedDelivery[],
+	error: unknown,
+) {
+	const lastError = error instanceof Error ? error.message : String(error);
+	let failed = 0;
+	for (const delivery of deliveries) {
+		const givenUp = delivery.attempts + 1 >= MAX_DELIVERY_ATTEMPTS;
+		await db.notificationDelivery.update({
+			where: { id: delivery.id },
+			data: {
+				status: givenUp ? DeliveryStatus.FAILED : DeliveryStatus.PENDING,
+				lastError,
+			},
+		});
+		if (givenUp) failed++;
+	}
+	return failed;
+}
+
+/** Moves deliveries held by quiet hours to when they end. */
+async function holdUntil(
+	db: PrismaClient,
+	deliveries: QueuedDelivery[],
+	notBefore: Date,
+) {
+	await db.notificationDelivery.updateMany({
+		where: {
+			id: { in: deliveries.map((d) => d.id) },
+			status: DeliveryStatus.PENDING,
+		},
+		data: { notBefore },
+	});
+}
+
+/**
+ * Sends the due deliveries that are not part of a digest, oldest first. Failures stay PENDING
+ * for the next run until `MAX_DELIVERY_ATTEMPTS`; recipients the channel cannot reach (or who
+ * deactivated their account) are SKIPPED, and email and push wait out quiet hours.
+ */
+export async function deliverPendingNotifications(
+	db: PrismaClient,
+	channels: NotificationChannels,
+	{ now = new Date(), limit = 100 }: { now?: Date; limit?: number } = {},
+) {
+	const pending = await db.notificationDelivery.findMany({
+		where: dueDeliveries(false, now),
+		orderBy: { createdAt: "asc" },
+		take: limit,
+		include: deliveryInclude,
+	});
+
+	const result = { sent: 0, skipped: 0, held: 0, failed: 0 };
+	for (const delivery of pending) {
+		const recipient = delivery.notification.user;
+		const quietUntil = QUIET_HOURS_HELD_CHANNELS.includes(delivery.channel)
+			? quietHoursEnd(recipient, now)
+			: null;
+		if (quietUntil) {
+			await holdUntil(db, [delivery], quietUntil);
+			result.held++;
+			continue;
+		}
+		if (!(await claimDelivery(db, delivery))) continue;
+
+		const adapter = channels[delivery.channel];
+		const address = recipient.isActive ? adapter.addressOf(recipient) : null;
+		if (!address) {
+			await db.notificationDelivery.update({
+				where: { id: delivery.id },
+				data: { status: DeliveryStatus.SKIPPED },
+			});
+			result.skipped++;
+			continue;
+		}
+
+		try {
+			await adapter.send(address, outgoing(delivery), recipient);
+			await db.notificationDelivery.update({
+				where: { id: delivery.id },
+				data: { status: DeliveryStatus.SENT, sentAt: now, lastError: null },
+			});
+			result.sent++;
+		} catch (error) {
+			result.failed += await recordFailure(db, [delivery], error);
+		}
+	}
+	return result;
+}
+
+/**
+ * Sends each recipient one email with everything their due digest deliveries hold, oldest
+ * first. Quiet hours hold digests like any other email. Meant to run at least hourly.
+ */
+export async function sendNotificationDigests(
+	db: PrismaClient,
+	email: EmailChannelAdapter,
+	{ now = new Date(), limit = 1000 }: { now?: Date; limit?: number } = {},
+) {
+	const due = await db.notificationDelivery.findMany({
+		where: dueDeliveries(true, now),
+		orderBy: { createdAt: "asc" },
+		take: limit,
+		include: deliveryInclude,
+	});
+	const byRecipient = new Map<string, QueuedDelivery[]>();
+	for (const delivery of due) {
+		const userId = delivery.notification.userId;
+		byRecipient.set(userId, [...(byRecipient.get(userId) ?? []), delivery]);
+	}
+
+	const result = { sent: 0, skipped: 0, held: 0, failed: 0 };
+	for (const deliveries of byRecipient.values()) {
+		const recipient = deliveries[0]?.notification.user;
+		if (!recipient) continue;
+		const quietUntil = quietHoursEnd(recipient, now);
+		if (quietUntil) {
+			await holdUntil(db, deliveries, quietUntil);
+			result.held++;
+			continue;
+		}
+
+		const claimed: QueuedDelivery[] = [];
+		for (const delivery of deliveries) {
+			if (await claimDelivery(db, delivery)) claimed.push(delivery);
+		}
+		if (claimed.length === 0) continue;
+		const ids = { id: { in: claimed.map((d) => d.id) } };
+
+		const address = recipient.isActive ? email.addressOf(recipient) : null;
+		if (!address) {
+			await db.notificationDelivery.updateMany({
+				where: ids,
+				data: { status: DeliveryStatus.SKIPPED },
+			});
+			result.skipped++;
+			continue;
+		}
+
+		// Hourly notifications caught up by a daily digest go out with it.
+		const frequency = claimed.some(
+			(d) => d.digest === NotificationFrequency.DAILY,
+		)
+			? NotificationFrequency.DAILY
+			: NotificationFrequency.HOURLY;
+		try {
+			await email.sendDigest(address, {
+				recipient,
+				frequency,
+				notifications: claimed.map(outgoing),
+			});
+			await db.notificationDelivery.updateMany({
+				where: ids,
+				data: { status: DeliveryStatus.SENT, sentAt: now, lastError: null },
+			});
+			result.sent++;
+		} catch (error) {
+			if ((await recordFailure(db, claimed, error)) > 0) result.failed++;
+		}
+	}
+	return result;
+}
@@ -0,0 +1,387 @@
+import {
+	BookingStatus,
+	type Payment,
+	PaymentStatus,
+	Prisma,
+	type PrismaClient,
+	type Refund,
+	RefundStatus,
+} from "@prisma/client";
+import { describe, expect, it, vi } from "vitest";
+
+import {
+	FAKE_PAYMENT_TOKENS,
+	createFakePaymentGateway,
+} from "~/server/payments/fake-gateway";
+
+import { applyGatewayWebhook, chargeBooking, refundPayment } from "./payments";
+
+vi.mock("./notifications", () => ({ notify: vi.fn(async () => {}) }));
+
+const now = new Date("2030-01-10T12:00:00.000Z");
+
+const booking = {
+	id: "booking-1",
+	customerId: "customer-1",
+	providerId: "provider-1",
+	status: BookingStatus.CONFIRMED,
+	totalAmount: new Prisma.Decimal(88),
+	currency: "USD",
+	service: { title: "Guitar lesson" },
+};
+
+/**
+ * Just enough of Prisma for payments.ts, kept in memory. Transactions run straight through and
+ * row locks are no-ops, which is fine for tests that do one thing at a time.
+ */
+function createPaymentsDb() {
+	const bookingRow = { ...booking };
+	const payments: Payment[] = [];
+	const refunds: Refund[] = [];
+	const jobs: { name: string; payload: unknown; idempotencyKey: string }[] = [];
+	let clock = now.getTime();
+	const tick = () => new Date(++clock);
+
+	const matches = (row: object, where: object) =>
+		Object.entries(where).every(
+			([key, value]) => (row as Record<string, unknown>)[key] === value,
+		);
+	const update = <T extends object>(
+		rows: T[],
+		{ where, data }: { where: object; data: object },
+		touch = {},
+	) => {
+		const matched = rows.filter((row) => matches(row, where));
+		for (const row of matched) Object.assign(row, data, touch);
+		return { count: matched.length };
+	};
+
+	const db = {
+		$transaction: <T>(fn: (tx: unknown) => Promise<T>) => fn(db),
+		$queryRaw: async () => [],
+		booking: {
+			findUnique: async () => ({
+				...bookingRow,
+				payment: payments[0] ?? null,
+			}),
+			findUniqueOrThrow: async () => ({ ...bookingRow }),
+		},
+		job: {
+			async createMany({ data }: { data: (typeof jobs)[number][] }) {
+				for (const job of data) {
+					if (!jobs.some((j) => j.idempotencyKey === job.idempotencyKey)) {
+						jobs.push(job);
+					}
+				}
+				return { count: data.length };
+			},
+			findUniqueOrThrow: async ({
+				where,
+			}: { where: { idempotencyKey: string } }) =>
+				jobs.find((job) => job.idempotencyKey === where.idempotencyKey),
+		},
+		payment: {
+			async create({ data }: { data: Partial<Payment> }) {
+				const payment = {
+					id: `payment-${payments.length + 1}`,
+					status: PaymentStatus.PENDING,
+					transactionId: null,
+					gatewayResponse: null,
+					refundedAmount: null,
+					paidAt: null,
+					refundedAt: null,
+					createdAt: now,
+					updatedAt: tick(),
+					...data,
+				} as Payment;
+				payments.push(payment);
+				return { ...payment };
+			},
+			async findUnique({
+				where,
+				include,
+			}: { where: object; include?: { refunds?: unknown } }) {
+				const payment = payments.find((row) => matches(row, where));
+				if (!payment) return null;
+				return include?.refunds
+					? {
+							...payment,
+							refunds: refunds.filter((r) => r.paymentId === payment.id),
+						}
+					: { ...payment };
+			},
+			async findUniqueOrThrow(args: { where: object }) {
+				const payment = await db.payment.findUnique(args);
+				if (!payment) throw new Error("No payment found");
+				return payment;
+			},
+			updateMany: async (args: { where: object; data: object }) =>
+				update(payments, args, { updatedAt: tick() }),
+		},
+		refund: {
+			findUnique: async ({ where }: { where: object }) =>
+				refunds.find((row) => matches(row, where)) ?? null,
+			async create({ data }: { data: Partial<Refund> }) {
+				const refund = {
+					id: `refund-${refunds.length + 1}`,
+					status: RefundStatus.PENDING,
+					gatewayResponse: null,
+					createdAt: now,
+					completedAt: null,
+					...data,
+				} as Refund;
+				refunds.push(refund);
+				return { ...refund };
+			},
+			updateMany: async (args: { where: object; data: object }) =>
+				update(refunds, args),
+			async deleteMany({ where }: { where: object }) {
+				const kept = refunds.filter((row) => !matches(row, where));
+				const count = refunds.length - kept.length;
+				refunds.splice(0, refunds.length, ...kept);
+				return { count };
+			},
+			aggregate: async ({ where }: { where: object }) => ({
+				_sum: {
+					amount: refunds
+						.filter((row) => matches(row, where))
+						.reduce((sum, row) => sum.add(row.amount), new Prisma.Decimal(0)),
+				},
+			}),
+		},
+	};
+
+	return {
+		db: db as unknown as PrismaClient,
+		booking: bookingRow,
+		payments,
+		refunds,
+		jobs,
+	};
+}
+
+const charge = (
+	db: PrismaClient,
+	gateway: Parameters<typeof chargeBooking>[1],
+	paymentToken: string = FAKE_PAYMENT_TOKENS.approved,
+) =>
+	chargeBooking(db, gateway, {
+		bookingId: booking.id,
+		customerId: booking.customerId,
+		method: "CREDIT_CARD",
+		paymentToken,
+		now,
+	});
+
+async function paidBooking() {
+	const { db, payments, refunds } = createPaymentsDb();
+	const gateway = createFakePaymentGateway({ webhookSecret: "secret" });
+	const payment = await charge(db, gateway);
+	return { db, payments, refunds, gateway, payment };
+}
+
+describe("chargeBooking", () => {
+	it("should capture the booking's total and keep the transaction id", async () => {
+		const { payment } = await paidBooking();
+
+		expect(payment.status).toBe(PaymentStatus.COMPLETED);
+		expect(payment.amount.toNumber()).toBe(88);
+		expect(payment.transactionId).toMatch(/^fake_txn_/);
+		expect(payment.paidAt).toEqual(now);
+	});
+
+	it("should let a declined payment be retried", async () => {
+		const { db } = createPaymentsDb();
+		const gateway = createFakePaymentGateway({ webhookSecret: "secret" });
+
+		await expect(
+			charge(db, gateway, FAKE_PAYMENT_TOKENS.declined),
+		).rejects.toThrow(/declined/);
+		const retried = await charge(db, gateway);
+
+		expect(retried.status).toBe(PaymentStatus.COMPLETED);
+	});
+
+	it("should fail the payment when the gateway throws, so it can be retried", async () => {
+		const { db, payments } = createPaymentsDb();
+		const gateway = createFakePaymentGateway({ webhookSecret: "secret" });
+
+		await expect(
+			charge(db, {
+				...gateway,
+				capture: async () => {
+					throw new Error("Gateway timed out");
+				},
+			}),
+		).rejects.toThrow(/timed out/);
+		expect(payments[0]?.status).toBe(PaymentStatus.FAILED);
+
+		expect((await charge(db, gateway)).status).toBe(PaymentStatus.COMPLETED);
+	});
+
+	it("should refund a charge whose booking was cancelled before the capture", async () => {
+		const { db, booking: row, payments, jobs } = createPaymentsDb();
+		const gateway = createFakePaymentGateway({ webhookSecret: "secret" });
+
+		await expect(
+			charge(db, {
+				...gateway,
+				async capture(transactionId, amountMinor) {
+					// Cancelled, or expired unpaid, while the charge was in flight.
+					row.status = BookingStatus.CANCELLED;
+					return gateway.capture(transactionId, amountMinor);
+				},
+			}),
+		).rejects.toThrow(/will be refunded/);
+
+		expect(payments[0]?.status).toBe(PaymentStatus.COMPLETED);
+		expect(jobs).toEqual([
+			expect.objectContaining({
+				name: "payments.refund",
+				payload: { bookingId: booking.id, amount: "88.00" },
+			}),
+		]);
+	});
+});
+
+describe("applyGatewayWebhook", () => {
+	it("should capture a payment the gateway has authorized", async () => {
+		const { db } = createPaymentsDb();
+		const gateway = createFakePaymentGateway({ webhookSecret: "secret" });
+		let applied: boolean | undefined;
+
+		const payment = await charge(db, {
+			...gateway,
+			async capture(transactionId, amountMinor) {
+				// The webhook overtakes the capture call's own response.
+				applied = await applyGatewayWebhook(
+					db,
+					{
+						id: "evt_1",
+						type: "payment.captured",
+						transactionId,
+						amountMinor,
+					},
+					now,
+				);
+				return gateway.capture(transactionId, amountMinor);
+			},
+		});
+
+		expect(applied).toBe(true);
+		expect(payment.status).toBe(PaymentStatus.COMPLETED);
+	});
+
+	it("should ignore events for unknown transactions", async () => {
+		const { db } = createPaymentsDb();
+
+		expect(
+			await applyGatewayWebhook(db, {
+				id: "evt_1",
+				type: "payment.captured",
+				transactionId: "fake_txn_unknown",
+				amountMinor: 8800,
+			}),
+		).toBe(false);
+	});
+});
+
+describe("refundPayment", () => {
+	it("should refund once when retried after the gateway call", async () => {
+		const { db, gateway, refunds } = await paidBooking();
+		const refund = vi.spyOn(gateway, "refund");
+		const input = {
+			bookingId: booking.id,
+			amount: new Prisma.Decimal(88),
+			idempotencyKey: "payments.refund:booking-1",
+			now,
+		};
+
+		await expect(
+			refundPayment(
+				db,
+				{
+					...gateway,
+					async refund(...args) {
+						await gateway.refund(...args);
+						throw new Error("Connection reset");
+					},
+				},
+				input,
+			),
+		).rejects.toThrow(/reset/);
+		expect(refunds).toMatchObject([{ status: RefundStatus.PENDING }]);
+
+		const payment = await refundPayment(db, gateway, input);
+		expect(payment?.status).toBe(PaymentStatus.REFUNDED);
+		expect(payment?.refundedAmount?.toNumber()).toBe(88);
+
+		await refundPayment(db, gateway, input);
+		expect(refund).toHaveBeenCalledTimes(2);
+		await expect(refund.mock.results[1]?.value).resolves.toMatchObject({
+			raw: { refundedMinor: 8800 },
+		});
+	});
+
+	it("should keep a partial refund's total when its webhook arrives", async () => {
+		const { db, gateway, payment: paid } = await paidBooking();
+		const transactionId = paid.transactionId as string;
+		const refund = (amount: number, idempotencyKey: string) =>
+			refundPayment(db, gateway, {
+				bookingId: booking.id,
+				amount: new Prisma.Decimal(amount),
+				idempotencyKey,
+				now,
+			});
+		const webhook = (amountMinor: number) =>
+			applyGatewayWebhook(db, {
+				id: `evt_${amountMinor}`,
+				type: "payment.refunded",
+				transactionId,
+				amountMinor,
+			});
+
+		const partial = await refund(30, "refund-1");
+		expect(partial?.status).toBe(PaymentStatus.PARTIALLY_REFUNDED);
+		expect(await webhook(3000)).toBe(false);
+
+		const rest = await refund(88, "refund-2");
+		expect(rest?.status).toBe(PaymentStatus.REFUNDED);
+		expect(rest?.refundedAmount?.toNumber()).toBe(88);
+		expect(await webhook(8800)).toBe(false);
+	});
+
+	it("should not count a refund twice when its webhook comes first", async () => {
+		const { db, gateway } = await paidBooking();
+
+		const payment = await refundPayment(
+			db,
+			{
+				...gateway,
+				async refund(transactionId, amountMinor, idempotencyKey) {
+					const result = await gateway.refund(
+						transactionId,
+						amountMinor,
+						idempotencyKey,
+					);
+					await applyGatewayWebhook(db, {
+						id: "evt_1",
+						type: "payment.refunded",
+						transactionId,
+						amountMinor,
+					});
+					return result;
+				},
+			},
+			{
+				bookingId: booking.id,
+				amount: new Prisma.Decimal(30),
+				idempotencyKey: "refund-1",
+				now,
+			},
+		);
+
+		expect(payment?.status).toBe(PaymentStatus.PARTIALLY_REFUNDED);
+		expect(payment?.refundedAmount?.toNumber()).toBe(30);
+	});
+});
@@ -0,0 +1,479 @@
+import {
+	BookingStatus,
+	NotificationType,
+	type Payment,
+	type PaymentMethod,
+	PaymentStatus,
+	Prisma,
+	type PrismaClient,
+	RefundStatus,
+} from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import { enqueueJob } from "~/server/jobs/prisma-store";
+import {
+	type GatewayResult,
+	type GatewayWebhookEvent,
+	type PaymentGateway,
+	fromMinorUnits,
+	toMinorUnits,
+} from "~/server/payments/gateway";
+
+import { notify } from "./notifications";
+
+/**
+ * Allowed moves of `Payment.status`. A FAILED payment may be retried, which puts it back to
+ * PENDING; refunds can be issued in several partial steps until the payment is fully REFUNDED.
+ */
+export const PAYMENT_STATUS_TRANSITIONS: Record<
+	PaymentStatus,
+	readonly PaymentStatus[]
+> = {
+	PENDING: ["PROCESSING"],
+	PROCESSING: ["COMPLETED", "FAILED"],
+	COMPLETED: ["PARTIALLY_REFUNDED", "REFUNDED"],
+	FAILED: ["PENDING"],
+	PARTIALLY_REFUNDED: ["PARTIALLY_REFUNDED", "REFUNDED"],
+	REFUNDED: [],
+};
+
+export function canTransitionPayment(
+	from: PaymentStatus,
+	to: PaymentStatus,
+): boolean {
+	return PAYMENT_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/** Compare-and-set on `Payment.status`, so concurrent updates cannot both win. */
+async function setPaymentStatus(
+	db: Prisma.TransactionClient,
+	payment: Pick<Payment, "id" | "status">,
+	to: PaymentStatus,
+	data: Omit<Prisma.PaymentUpdateManyMutationInput, "status"> = {},
+) {
+	if (!canTransitionPayment(payment.status, to)) {
+		throw new TRPCError({
+			code: "PRECONDITION_FAILED",
+			message: `Cannot move a payment from ${payment.status} to ${to}`,
+		});
+	}
+
+	const { count } = await db.payment.updateMany({
+		where: { id: payment.id, status: payment.status },
+		data: { ...data, status: to },
+	});
+	if (count === 0) {
+		throw new TRPCError({
+			code: "CONFLICT",
+			message: "The payment is already being processed",
+		});
+	}
+
+	return db.payment.findUniqueOrThrow({ where: { id: payment.id } });
+}
+
+export interface ChargeBookingInput {
+	bookingId: string;
+	customerId: string;
+	method: PaymentMethod;
+	paymentToken: string;
+	now?: Date;
+}
+
+/**
+ * Charges the customer for a booking's `totalAmount`, driving its payment through
+ * PENDING → PROCESSING → COMPLETED or FAILED.
+ *
+ * The gateway is called between two short transactions rather than inside one, so a slow
+ * gateway never holds database locks. The PROCESSING compare-and-set keeps a second concurrent
+ * charge for the same booking from reaching the gateway. The transaction id is saved as soon as
+ * the gateway authorizes, and a gateway that throws leaves the payment FAILED so it can be retried.
+ */
+export async function chargeBooking(
+	db: PrismaClient,
+	gateway: PaymentGateway,
+	{
+		bookingId,
+		customerId,
+		method,
+		paymentToken,
+		now = new Date(),
+	}: ChargeBookingInput,
+) {
+	const { payment, booking } = await db.$transaction(async (tx) => {
+		const booking = await tx.booking.findUnique({
+			where: { id: bookingId },
+			include: { payment: true, service: { select: { title: true } } },
+		});
+		if (!booking || booking.customerId !== customerId) {
+			throw new TRPCError({ code: "NOT_FOUND", message: "Booking not found" });
+		}
+		if (
+			booking.status !== BookingStatus.PENDING &&
+			booking.status !== BookingStatus.CONFIRMED
+		) {
+			throw new TRPCError({
+				code: "PRECONDITION_FAILED",
+				message: `A ${booking.status} booking cannot be paid`,
+			});
+		}
+
+		let payment = booking.payment;
+		if (!payment) {
+			payment = await tx.payment.create({
+				data: {
+					bookingId: booking.id,
+					userId: customerId,
+					amount: booking.totalAmount,
+					currency: booking.currency,
+					method,
+				},
+			});
+		} else if (payment.status === PaymentStatus.FAILED) {
+			payment = await setPaymentStatus(tx, payment, PaymentStatus.PENDING, {
+				method,
+				amount: booking.totalAmount,
+			});
+		}
+
+		payment = await setPaymentStatus(tx, payment, PaymentStatus.PROCESSING, {
+			method,
+		});
+		return { payment, booking };
+	});
+
+	const request = {
+		amountMinor: toMinorUnits(payment.amount),
+		currency: payment.currency,
+		method,
+		paymentToken,
+		// Each attempt gets its own key, retries of the same attempt replay the same result.
+		idempotencyKey: `${payment.id}:${payment.updatedAt.getTime()}`,
+	};
+	let outcome: GatewayResult;
+	try {
+		const authorization = await gateway.authorize(request);
+		if (authorization.ok) {
+			// Stored before capturing, so webhooks for the transaction can find the payment.
+			await db.payment.updateMany({
+				where: { id: payment.id, status: PaymentStatus.PROCESSING },
+				data: { transactionId: authorization.transactionId },
+			});
+		}
+		outcome = authorization.ok
+			? await gateway.capture(authorization.transactionId, request.amountMinor)
+			: authorization;
+	} catch (error) {
+		// Left PROCESSING, the payment could never be retried and would hold the booking's slot.
+		await setPaymentStatus(db, payment, PaymentStatus.FAILED, {
+			gatewayResponse: {
+				error: error instanceof Error ? error.message : String(error),
+			},
+		});
+		throw error;
+	}
+
+	if (!outcome.ok) {
+		await setPaymentStatus(db, payment, PaymentStatus.FAILED, {
+			gatewayResponse: outcome.raw,
+		});
+		throw new TRPCError({ code: "BAD_REQUEST", message: outcome.message });
+	}
+
+	const { payment: completed, stands } = await db.$transaction(async (tx) => {
+		const capture = await completeCapture(
+			tx,
+			booking.id,
+			payment.id,
+			{
+				transactionId: outcome.transactionId,
+				gatewayResponse: outcome.raw,
+				paidAt: now,
+			},
+			now,
+		);
+		if (capture.stands) {
+			await notify(tx, {
+				userId: booking.providerId,
+				type: NotificationType.PAYMENT_RECEIVED,
+				title: "Payment received",
+				message: `The customer paid for "${booking.service.title}".`,
+				data: { bookingId: booking.id, paymentId: capture.payment.id },
+			});
+		}
+		return capture;
+	});
+	if (!stands) {
+		throw new TRPCError({
+			code: "PRECONDITION_FAILED",
+			message:
+				"The booking was cancelled while it was being paid for; the payment will be refunded",
+		});
+	}
+	return completed;
+}
+
+/**
+ * Marks a captured payment COMPLETED, unless a `payment.captured` webhook already has. The booking
+ * is locked and read again first, the way `cancelBooking` locks it: a booking cancelled or
+ * expired while its charge was in flight was settled as unpaid, so the whole amount is queued
+ * for a refund. Returns the payment and whether its booking still stands.
+ */
+async function completeCapture(
+	db: Prisma.TransactionClient,
+	bookingId: string,
+	paymentId: string,
+	data: Omit<Prisma.PaymentUpdateManyMutationInput, "status">,
+	now: Date,
+) {
+	await db.$queryRaw`SELECT 1 FROM "Booking" WHERE "id" = ${bookingId} FOR UPDATE`;
+	const booking = await db.booking.findUniqueOrThrow({
+		where: { id: bookingId },
+		select: { status: true },
+	});
+	const stands =
+		booking.status === BookingStatus.PENDING ||
+		booking.status === BookingStatus.CONFIRMED;
+
+	let payment = await db.payment.findUniqueOrThrow({
+		where: { id: paymentId },
+	});
+	if (payment.status !== PaymentStatus.PROCESSING) return { payment, stands };
+
+	payment = await setPaymentStatus(db, payment, PaymentStatus.COMPLETED, data);
+	if (!stands) await scheduleRefund(db, bookingId, payment.amount, now);
+	return { payment, stands };
+}
+
+/**
+ * Raises a payment's recorded refund total to `refundedAmount`, moving it to PARTIALLY_REFUNDED
+ * or REFUNDED. Totals never go down, so a webhook and the refund that caused it can arrive in
+ * either order. Returns whether anything changed.
+ */
+async function recordRefundedAmount(
+	db: Prisma.TransactionClient,
+	payment: Payment,
+	refundedAmount: Prisma.Decimal,
+	data: Omit<Prisma.PaymentUpdateManyMutationInput, "status">,
+) {
+	if (
+		!canTransitionPayment(payment.status, PaymentStatus.REFUNDED) ||
+		refundedAmount.lte(payment.refundedAmount ?? 0)
+	) {
+		return false;
+	}
+	await setPaymentStatus(
+		db,
+		payment,
+		refundedAmount.gte(payment.amount)
+			? PaymentStatus.REFUNDED
+			: PaymentStatus.PARTIALLY_REFUNDED,
+		{ ...data, refundedAmount },
+	);
+	return true;
+}
+
+/**
+ * Refunds `amount` of a booking's captured payment through the gateway and records it. Several
+ * partial refunds add up; the payment becomes REFUNDED once everything has been returned.
+ *
+ * The refund is recorded as PENDING under `idempotencyKey` before the gateway is called, and the
+ * gateway gets the same key. Calling this again with the key resumes that refund rather than
+ * sending a second one, however far the first call got. Returns null when the booking has no
+ * captured payment or nothing left to refund.
+ */
+export async function refundPayment(
+	db: PrismaClient,
+	gateway: PaymentGateway,
+	{
+		bookingId,
+		amount,
+		idempotencyKey,
+		now = new Date(),
+	}: {
+		bookingId: string;
+		amount: Prisma.Decimal;
+		idempotencyKey: string;
+		now?: Date;
+	},
+) {
+	const refund = await db.$transaction(async (tx) => {
+		await tx.$queryRaw`SELECT 1 FROM "Payment" WHERE "bookingId" = ${bookingId} FOR UPDATE`;
+		const existing = await tx.refund.findUnique({ where: { idempotencyKey } });
+		if (existing) return existing;
+
+		const payment = await tx.payment.findUnique({
+			where: { bookingId },
+			include: { refunds: { select: { amount: true } } },
+		});
+		if (
+			!payment?.transactionId ||
+			amount.lte(0) ||
+			!canTransitionPayment(payment.status, PaymentStatus.REFUNDED)
+		) {
+			return null;
+		}
+
+		// Refunds still in flight count too, so two refunds can never add up to more than was paid.
+		const committed = Prisma.Decimal.max(
+			payment.refundedAmount ?? 0,
+			payment.refunds.reduce(
+				(sum, { amount }) => sum.add(amount),
+				new Prisma.Decimal(0),
+			),
+		);
+		const refundable = Prisma.Decimal.min(
+			amount,
+			payment.amount.sub(committed),
+		);
+		if (refundable.lte(0)) return null;
+
+		return tx.refund.create({
+			data: { paymentId: payment.id, amount: refundable, idempotencyKey },
+		});
+	});
+	if (!refund) return null;
+	if (refund.status === RefundStatus.COMPLETED) {
+		return db.payment.findUniqueOrThrow({ where: { id: refund.paymentId } });
+	}
+
+	const payment = await db.payment.findUniqueOrThrow({
+		where: { id: refund.paymentId },
+	});
+	const result = await gateway.refund(
+		payment.transactionId as string,
+		toMinorUnits(refund.amount),
+		refund.idempotencyKey,
+	);
+	if (!result.ok) {
+		// Nothing was refunded; drop the record so a retry can start over.
+		await db.refund.deleteMany({
+			where: { id: refund.id, status: RefundStatus.PENDING },
+		});
+		throw new TRPCError({
+			code: "INTERNAL_SERVER_ERROR",
+			message: `Refund failed: ${result.message}`,
+		});
+	}
+
+	return db.$transaction(async (tx) => {
+		await tx.$queryRaw`SELECT 1 FROM "Payment" WHERE "id" = ${refund.paymentId} FOR UPDATE`;
+		await tx.refund.updateMany({
+			where: { id: refund.id, status: RefundStatus.PENDING },
+			data: {
+				status: RefundStatus.COMPLETED,
+				gatewayResponse: result.raw,
+				completedAt: now,
+			},
+		});
+		const { _sum } = await tx.refund.aggregate({
+			where: { paymentId: refund.paymentId, status: RefundStatus.COMPLETED },
+			_sum: { amount: true },
+		});
+		const current = await tx.payment.findUniqueOrThrow({
+			where: { id: refund.paymentId },
+		});
+		await recordRefundedAmount(
+			tx,
+			current,
+			_sum.amount ?? new Prisma.Decimal(0),
+			{ refundedAt: now, gatewayResponse: result.raw },
+		);
+		return tx.payment.findUniqueOrThrow({ where: { id: refund.paymentId } });
+	});
+}
+
+export const REFUND_JOB = "payments.refund";
+
+const refundJobPayload = z.object({
+	bookingId: z.string(),
+	amount: z.string(),
+});
+
+/**
+ * Queues a refund of `amount` for a booking. The gateway is only called once the transaction
+ * that decided on the refund has committed, and a failing gateway is retried by the job runner.
+ * One refund per booking: queueing it again does nothing.
+ */
+export function scheduleRefund(
+	db: Prisma.TransactionClient,
+	bookingId: string,
+	amount: Prisma.Decimal,
+	now = new Date(),
+) {
+	return enqueueJob(
+		db,
+		{
+			name: REFUND_JOB,
+			payload: { bookingId, amount: amount.toFixed(2) },
+			idempotencyKey: refundKey(bookingId),
+		},
+		now,
+	);
+}
+
+/** The one key a booking's queued refund goes by, in the job queue and at the gateway. */
+function refundKey(bookingId: string) {
+	return `${REFUND_JOB}:${bookingId}`;
+}
+
+/** Runs a refund queued by `scheduleRefund`. */
+export function runRefundJob(
+	db: PrismaClient,
+	gateway: PaymentGateway,
+	payload: Prisma.JsonValue,
+	now = new Date(),
+) {
+	const { bookingId, amount } = refundJobPayload.parse(payload);
+	return refundPayment(db, gateway, {
+		bookingId,
+		amount: new Prisma.Decimal(amount),
+		idempotencyKey: refundKey(bookingId),
+		now,
+	});
+}
+
+/**
+ * Applies an asynchronous gateway notification. Events that no longer change anything (already
+ * applied, or for an unknown transaction) are ignored so gateways can safely redeliver them.
+ */
+export async function applyGatewayWebhook(
+	db: PrismaClient,
+	event: GatewayWebhookEvent,
+	now = new Date(),
+): Promise<boolean> {
+	const payment = await db.payment.findUnique({
+		where: { transactionId: event.transactionId },
+	});
+	if (!payment) return false;
+
+	const eventResponse = { webhookEventId: event.id, type: event.type };
+	switch (event.type) {
+		case "payment.captured":
+			if (payment.status !== PaymentStatus.PROCESSING) return false;
+			await db.$transaction((tx) =>
+				completeCapture(
+					tx,
+					payment.bookingId,
+					payment.id,
+					{ paidAt: now, gatewayResponse: eventResponse },
+					now,
+				),
+			);
+			return true;
+		case "payment.failed":
+			if (payment.status !== PaymentStatus.PROCESSING) return false;
+			await setPaymentStatus(db, payment, PaymentStatus.FAILED, {
+				gatewayResponse: eventResponse,
+			});
+			return true;
+		case "payment.refunded":
+			return recordRefundedAmount(
+				db,
+				payment,
+				fromMinorUnits(event.amountMinor),
+				{ refundedAt: now, gatewayResponse: eventResponse },
+			);
+	}
+}
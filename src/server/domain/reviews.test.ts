@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+
+import {
+	assertCanReview,
+	assertScoresFit,
+	reviewDeadline,
+	roundedAverage,
+} from "./reviews";
+
+const completedAt = new Date("2025-03-01T12:00:00Z");
+const booking = {
+	customerId: "c1",
+	providerId: "p1",
+	status: "COMPLETED" as const,
+	completedAt,
+};
+const now = new Date("2025-03-05T12:00:00Z");
+
+describe("reviews", () => {
+	it("should let the customer review the provider of a completed booking", () => {
+		expect(assertCanReview(booking, "c1", now, 14)).toBe(
+			"CUSTOMER_TO_PROVIDER",
+		);
+	});
+
+	it("should let the provider review the customer of a completed booking", () => {
+		expect(assertCanReview(booking, "p1", now, 14)).toBe(
+			"PROVIDER_TO_CUSTOMER",
+		);
+	});
+
+	it("should refuse anyone outside the booking", () => {
+		expect(() => assertCanReview(booking, "x1", now, 14)).toThrow(
+			expect.objectContaining({ code: "FORBIDDEN" }),
+		);
+	});
+
+	it("should refuse bookings that are not completed", () => {
+		for (const status of ["PENDING", "IN_PROGRESS", "DISPUTED"] as const) {
+			expect(() =>
+				assertCanReview({ ...booking, status }, "c1", now, 14),
+			).toThrow(expect.objectContaining({ code: "PRECONDITION_FAILED" }));
+		}
+	});
+
+	it("should close the review window after the configured days", () => {
+		const deadline = reviewDeadline(completedAt, 14);
+		expect(deadline.toISOString()).toBe("2025-03-15T12:00:00.000Z");
+		expect(() => assertCanReview(booking, "p1", deadline, 14)).toThrow(
+			expect.objectContaining({ code: "PRECONDITION_FAILED" }),
+		);
+	});
+
+	it("should refuse sub-scores meant for the other direction", () => {
+		expect(() =>
+			assertScoresFit("CUSTOMER_TO_PROVIDER", { rating: 4, quality: 5 }),
+		).not.toThrow();
+		expect(() =>
+			assertScoresFit("CUSTOMER_TO_PROVIDER", { respectfulness: 5 }),
+		).toThrow(expect.objectContaining({ code: "BAD_REQUEST" }));
+		expect(() =>
+			assertScoresFit("PROVIDER_TO_CUSTOMER", {
+				punctuality: 4,
+				requestAccuracy: 3,
+			}),
+		).not.toThrow();
+		expect(() =>
+			assertScoresFit("PROVIDER_TO_CUSTOMER", { value: 2, quality: null }),
+		).toThrow(expect.objectContaining({ code: "BAD_REQUEST" }));
+	});
+
+	it("should round averages to the stored precision", () => {
+		expect(roundedAverage(4.666666)?.toString()).toBe("4.67");
+		expect(roundedAverage(5)?.toString()).toBe("5");
+		expect(roundedAverage(null)).toBeNull();
+	});
+});
@@ -0,0 +1,484 @@
+import {
+	type Booking,
+	BookingStatus,
+	NotificationType,
+	Prisma,
+	type PrismaClient,
+	type Review,
+	ReviewDirection,
+} from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+import { env } from "~/env";
+import { addUtcDays } from "~/utils/time";
+
+import { notify } from "./notifications";
+
+export interface ReviewScores {
+	rating: number;
+	quality?: number | null;
+	value?: number | null;
+	communication?: number | null;
+	punctuality?: number | null;
+	respectfulness?: number | null;
+	requestAccuracy?: number | null;
+}
+
+export interface ReviewInput extends ReviewScores {
+	title?: string | null;
+	comment?: string | null;
+}
+
+/** Sub-scores that only make sense in one direction: how the service went, or how the customer behaved. */
+const DIRECTION_ONLY_SCORES = {
+	[ReviewDirection.CUSTOMER_TO_PROVIDER]: ["quality", "value", "communication"],
+	[ReviewDirection.PROVIDER_TO_CUSTOMER]: ["respectfulness", "requestAccuracy"],
+} as const satisfies Record<ReviewDirection, readonly (keyof ReviewScores)[]>;
+
+/** Reviews anyone but their author and staff may see: not hidden by moderation, and revealed. */
+export const PUBLISHED_REVIEW = {
+	isPublic: true,
+	revealedAt: { not: null },
+} satisfies Prisma.ReviewWhereInput;
+
+/** The last moment either side may review a booking completed at `completedAt`. */
+export function reviewDeadline(completedAt: Date, windowDays: number) {
+	return addUtcDays(completedAt, windowDays);
+}
+
+/**
+ * Only the two sides of a completed booking may review it, each the other, which is what makes
+ * every review a verified one. A booking disputed after completion cannot be reviewed until it
+ * settles, and neither side can once the review window has closed. Returns which way `userId`
+ * would be reviewing.
+ */
+export function assertCanReview(
+	booking: Pick<
+		Booking,
+		"customerId" | "providerId" | "status" | "completedAt"
+	>,
+	userId: string,
+	now = new Date(),
+	windowDays = env.REVIEW_WINDOW_DAYS,
+) {
+	let direction: ReviewDirection;
+	if (booking.customerId === userId) {
+		direction = ReviewDirection.CUSTOMER_TO_PROVIDER;
+	} else if (booking.providerId === userId) {
+		direction = ReviewDirection.PROVIDER_TO_CUSTOMER;
+	} else {
+		throw new TRPCError({
+			code: "FORBIDDEN",
+			message: "Only the customer or provider of a booking can review it",
+		});
+	}
+	if (booking.status !== BookingStatus.COMPLETED) {
+		throw new TRPCError({
+			code: "PRECONDITION_FAILED",
+			message: "Only completed bookings can be reviewed",
+		});
+	}
+	if (
+		booking.completedAt &&
+		reviewDeadline(booking.completedAt, windowDays) <= now
+	) {
+		throw new TRPCError({
+			code: "PRECONDITION_FAILED",
+			message: "The review window for this booking has closed",
+		});
+	}
+	return direction;
+}
+
+/** Refuses sub-scores that belong to the other direction, e.g. a customer rating "respectfulness". */
+export function assertScoresFit(
+	direction: ReviewDirection,
+	scores: Partial<ReviewScores>,
+) {
+	const other =
+		direction === ReviewDirection.CUSTOMER_TO_PROVIDER
+			? ReviewDirection.PROVIDER_TO_CUSTOMER
+			: ReviewDirection.CUSTOMER_TO_PROVIDER;
+	const misplaced = DIRECTION_ONLY_SCORES[other].filter(
+		(key) => scores[key] != null,
+	);
+	if (misplaced.length > 0) {
+		throw new TRPCError({
+			code: "BAD_REQUEST",
+			message: `Not rated in this kind of review: ${misplaced.join(", ")}`,
+		});
+	}
+}
+
+/** An average rating as stored in `Decimal(3, 2)` columns; null when nothing was rated. */
+export function roundedAverage(average: number | null) {
+	return average === null
+		? null
+		: new Prisma.Decimal(average).toDecimalPlaces(2);
+}
+
+/**
+ * Recomputes `averageRating` and `totalReviews` of a service and of its provider from their
+ * published reviews by customers. Both rows are locked first, so concurrent reviews of the same
+ * service or provider cannot each overwrite the other's count. Call it in the transaction that
+ * changed a review.
+ */
+export async function refreshRatings(
+	db: Prisma.TransactionClient,
+	{ serviceId, providerId }: { serviceId: string; providerId: string },
+) {
+	await db.$queryRaw`SELECT 1 FROM "Service" WHERE "id" = ${serviceId} FOR UPDATE`;
+	await db.$queryRaw`SELECT 1 FROM "User" WHERE "id" = ${providerId} FOR UPDATE`;
+
+	const direction = ReviewDirection.CUSTOMER_TO_PROVIDER;
+	const [forService, forProvider] = await Promise.all([
+		db.review.aggregate({
+			where: { serviceId, direction, ...PUBLISHED_REVIEW },
+			_avg: { rating: true },
+			_count: { _all: true },
+		}),
+		db.review.aggregate({
+			where: { revieweeId: providerId, direction, ...PUBLISHED_REVIEW },
+			_avg: { rating: true },
+			_count: { _all: true },
+		}),
+	]);
+
+	await db.service.update({
+		where: { id: serviceId },
+		data: {
+			averageRating: roundedAverage(forService._avg.rating),
+			totalReviews: forService._count._all,
+		},
+	});
+	await db.user.update({
+		where: { id: providerId },
+		data: {
+			averageRating: roundedAverage(forProvider._avg.rating),
+			totalReviews: forProvider._count._all,
+		},
+	});
+}
+
+/** Recomputes a customer's reputation from the published reviews their providers left them. */
+export async function refreshCustomerRating(
+	db: Prisma.TransactionClient,
+	customerId: string,
+) {
+	await db.$queryRaw`SELECT 1 FROM "User" WHERE "id" = ${customerId} FOR UPDATE`;
+
+	const forCustomer = await db.review.aggregate({
+		where: {
+			revieweeId: customerId,
+			direction: ReviewDirection.PROVIDER_TO_CUSTOMER,
+			...PUBLISHED_REVIEW,
+		},
+		_avg: { rating: true },
+		_count: { _all: true },
+	});
+	await db.user.update({
+		where: { id: customerId },
+		data: {
+			customerRating: roundedAverage(forCustomer._avg.rating),
+			customerReviewCount: forCustomer._count._all,
+		},
+	});
+}
+
+/** Refreshes whichever aggregates `review` counts towards. */
+export async function refreshRatingsFor(
+	db: Prisma.TransactionClient,
+	review: Pick<Review, "direction" | "serviceId" | "revieweeId">,
+) {
+	if (review.direction === ReviewDirection.PROVIDER_TO_CUSTOMER) {
+		await refreshCustomerRating(db, review.revieweeId);
+	} else {
+		await refreshRatings(db, {
+			serviceId: review.serviceId,
+			providerId: review.revieweeId,
+		});
+	}
+}
+
+/** Reveals a booking's hidden reviews and counts them into the ratings. Returns how many. */
+async function revealBookingReviews(
+	db: Prisma.TransactionClient,
+	bookingId: string,
+	now: Date,
+) {
+	const hidden = await db.review.findMany({
+		where: { bookingId, revealedAt: null },
+		select: { id: true, direction: true, serviceId: true, revieweeId: true },
+	});
+	if (hidden.length === 0) return 0;
+
+	await db.review.updateMany({
+		where: { id: { in: hidden.map((r) => r.id) } },
+		data: { revealedAt: now },
+	});
+	for (const review of hidden) {
+		await refreshRatingsFor(db, review);
+	}
+	return hidden.length;
+}
+
+/**
+ * Records one side's review of a completed booking. Reviews are double-blind: this one stays
+ * hidden from the other side until they have reviewed too, at which point both are revealed, or
+ * until the review window closes (see `revealExpiredReviews`). The booking row is locked so two
+ * sides submitting at once still reveal each other.
+ */
+export async function createReview(
+	db: Prisma.TransactionClient,
+	bookingId: string,
+	userId: string,
+	input: ReviewInput,
+	now = new Date(),
+	windowDays = env.REVIEW_WINDOW_DAYS,
+) {
+	await db.$queryRaw`SELECT 1 FROM "Booking" WHERE "id" = ${bookingId} FOR UPDATE`;
+	const booking = await db.booking.findUnique({
+		where: { id: bookingId },
+		include: {
+			reviews: { select: { direction: true } },
+			service: { select: { title: true } },
+		},
+	});
+	if (!booking) {
+		throw new TRPCError({ code: "NOT_FOUND", message: "Booking not found" });
+	}
+	const direction = assertCanReview(booking, userId, now, windowDays);
+	if (booking.reviews.some((r) => r.direction === direction)) {
+		throw new TRPCError({
+			code: "CONFLICT",
+			message: "You have already reviewed this booking",
+		});
+	}
+	assertScoresFit(direction, input);
+
+	const toProvider = direction === ReviewDirection.CUSTOMER_TO_PROVIDER;
+	const review = await db.review.create({
+		data: {
+			...input,
+			direction,
+			bookingId: booking.id,
+			serviceId: booking.serviceId,
+			reviewerId: userId,
+			revieweeId: toProvider ? booking.providerId : booking.customerId,
+		},
+	});
+
+	const bothReviewed = booking.reviews.length > 0;
+	if (bothReviewed) {
+		await revealBookingReviews(db, booking.id, now);
+	}
+	const deadline = booking.completedAt
+		? reviewDeadline(booking.completedAt, windowDays)
+		: null;
+	await notify(db, {
+		userId: review.revieweeId,
+		type: NotificationType.REVIEW_RECEIVED,
+		title: "New review",
+		message: bothReviewed
+			? `Your reviews for ${booking.service.title} are now visible to each other.`
+			: `You were reviewed for ${booking.service.title}. Leave your own review to see it${
+					deadline ? `; both are revealed on ${deadline.toDateString()}` : ""
+				}.`,
+		data: {
+			reviewId: review.id,
+			bookingId: booking.id,
+			serviceId: booking.serviceId,
+		},
+	});
+
+	return bothReviewed ? { ...review, revealedAt: now } : review;
+}
+
+/**
+ * Scheduled job: reveals the hidden reviews of bookings whose review window has closed, so a
+ * review is published even if the other side never writes theirs. Each booking is revealed in
+ * its own transaction. Returns how many reviews were revealed.
+ */
+export async function revealExpiredReviews(
+	db: PrismaClient,
+	now = new Date(),
+	windowDays = env.REVIEW_WINDOW_DAYS,
+) {
+	const bookings = await db.booking.findMany({
+		where: {
+			completedAt: { lte: addUtcDays(now, -windowDays) },
+			reviews: { some: { revealedAt: null } },
+		},
+		select: { id: true },
+	});
+
+	let revealed = 0;
+	for (const booking of bookings) {
+		revealed += await db.$transaction((tx) =>
+			revealBookingReviews(tx, booking.id, now),
+		);
+	}
+	return revealed;
+}
+
+/**
+ * Loads a review and checks that `userId` wrote it and that it is still hidden: only the reviewer
+ * may edit or delete it, and only until it is revealed, so nobody can retaliate after reading the
+ * other side's review. The row is locked so a reveal cannot slip in between.
+ */
+export async function getOwnReview(
+	db: Prisma.TransactionClient,
+	reviewId: string,
+	userId: string,
+) {
+	await db.$queryRaw`SELECT 1 FROM "Review" WHERE "id" = ${reviewId} FOR UPDATE`;
+	const review = await db.review.findUnique({ where: { id: reviewId } });
+	if (!review) {
+		throw new TRPCError({ code: "NOT_FOUND", message: "Review not found" });
+	}
+	if (review.reviewerId !== userId) {
+		throw new TRPCError({
+			code: "FORBIDDEN",
+			message: "Only the author can change this review",
+		});
+	}
+	if (review.revealedAt) {
+		throw new TRPCError({
+			code: "PRECONDITION_FAILED",
+			message: "A review can no longer be changed once it is revealed",
+		});
+	}
+	return review;
+}
+
+/** Hidden reviews count towards no rating yet, so changing one needs no refresh. */
+export async function updateReview(
+	db: Prisma.TransactionClient,
+	reviewId: string,
+	userId: string,
+	input: Partial<ReviewInput>,
+) {
+	const review = await getOwnReview(db, reviewId, userId);
+	assertScoresFit(review.direction, input);
+	return db.review.update({
+		where: { id: review.id },
+		data: input,
+	});
+}
+
+export async function deleteReview(
+	db: Prisma.TransactionClient,
+	reviewId: string,
+	userId: string,
+) {
+	const review = await getOwnReview(db, reviewId, userId);
+	await db.review.delete({ where: { id: review.id } });
+	return { id: review.id };
+}
+
+/**
+ * Sets the reviewee's public reply to a published review, replacing an earlier one, and lets the
+ * reviewer know the first time. Only the provider or customer who was reviewed may reply.
+ */
+export async function replyToReview(
+	db: Prisma.TransactionClient,
+	reviewId: string,
+	userId: string,
+	reply: string,
+	now = new Date(),
+) {
+	const review = await db.review.findUnique({
+		where: { id: reviewId },
+		include: { service: { select: { title: true } } },
+	});
+	if (!review || !review.isPublic || !review.revealedAt) {
+		throw new TRPCError({ code: "NOT_FOUND", message: "Review not found" });
+	}
+	if (review.revieweeId !== userId) {
+		throw new TRPCError({
+			code: "FORBIDDEN",
+			message: "Only the reviewed user can reply",
+		});
+	}
+
+	const updated = await db.review.update({
+		where: { id: review.id },
+		data: { reply, repliedAt: now },
+	});
+	if (!review.reply) {
+		await notify(db, {
+			userId: review.reviewerId,
+			type: NotificationType.REVIEW_REPLIED,
+			title: "Your review got a reply",
+			message: `Your review for ${review.service.title} got a reply.`,
+			data: { reviewId: review.id, serviceId: review.serviceId },
+		});
+	}
+	return updated;
+}
+
+export async function deleteReply(
+	db: Prisma.TransactionClient,
+	reviewId: string,
+	userId: string,
+) {
+	const review = await db.review.findUnique({ where: { id: reviewId } });
+	if (!review) {
+		throw new TRPCError({ code: "NOT_FOUND", message: "Review not found" });
+	}
+	if (review.revieweeId !== userId) {
+		throw new TRPCError({
+			code: "FORBIDDEN",
+			message: "Only the reviewed user can remove the reply",
+		});
+	}
+	return db.review.update({
+		where: { id: review.id },
+		data: { reply: null, repliedAt: null },
+	});
+}
+
+/**
+ * Records whether `userId` found a review helpful, or withdraws their vote when `helpful` is
+ * null, then recounts the review's votes. The review row is locked so concurrent votes cannot
+ * lose each other's counts. Neither side of the review may vote on it.
+ */
+export async function voteOnReview(
+	db: Prisma.TransactionClient,
+	reviewId: string,
+	userId: string,
+	helpful: boolean | null,
+) {
+	await db.$queryRaw`SELECT 1 FROM "Review" WHERE "id" = ${reviewId} FOR UPDATE`;
+	const review = await db.review.findUnique({ where: { id: reviewId } });
+	if (!review || !review.isPublic || !review.revealedAt) {
+		throw new TRPCError({ code: "NOT_FOUND", message: "Review not found" });
+	}
+	if (review.reviewerId === userId || review.revieweeId === userId) {
+		throw new TRPCError({
+			code: "FORBIDDEN",
+			message: "You cannot vote on a review you wrote or received",
+		});
+	}
+
+	const key = { reviewId_userId: { reviewId, userId } };
+	if (helpful === null) {
+		await db.reviewVote.deleteMany({ where: { reviewId, userId } });
+	} else {
+		await db.reviewVote.upsert({
+			where: key,
+			create: { reviewId, userId, helpful },
+			update: { helpful },
+		});
+	}
+
+	const [helpfulCount, unhelpfulCount] = await Promise.all([
+		db.reviewVote.count({ where: { reviewId, helpful: true } }),
+		db.reviewVote.count({ where: { reviewId, helpful: false } }),
+	]);
+	return db.review.update({
+		where: { id: reviewId },
+		data: { helpfulCount, unhelpfulCount },
+		select: { id: true, helpfulCount: true, unhelpfulCount: true },
+	});
+}
@@ -0,0 +1,81 @@
+import type { PrismaClient } from "@prisma/client";
+import { describe, expect, it, vi } from "vitest";
+
+import { createHashedEmbeddingProvider } from "~/server/embeddings/hashed-provider";
+
+import {
+	embeddingContentHash,
+	embeddingText,
+	reindexCategoryEmbeddings,
+} from "./service-embeddings";
+
+const service = {
+	id: "service_1",
+	title: "Advanced Math Tutoring",
+	shortDescription: null,
+	description: "Personalized math tutoring.",
+	tags: ["algebra", "calculus"],
+	features: [],
+	category: { name: "Math Tutoring" },
+};
+
+describe("service embeddings", () => {
+	it("should embed the title, category, tags and description", () => {
+		expect(embeddingText(service)).toBe(
+			"Advanced Math Tutoring\nMath Tutoring\nalgebra, calculus\nPersonalized math tutoring.",
+		);
+	});
+
+	it("should change the content hash with the text or the provider", () => {
+		const small = createHashedEmbeddingProvider({ dimensions: 64 });
+		const large = createHashedEmbeddingProvider({ dimensions: 512 });
+		const text = embeddingText(service);
+
+		expect(embeddingContentHash(small, text)).toBe(
+			embeddingContentHash(small, text),
+		);
+		expect(embeddingContentHash(small, text)).not.toBe(
+			embeddingContentHash(large, text),
+		);
+		expect(
+			embeddingContentHash(
+				small,
+				embeddingText({ ...service, tags: ["algebra"] }),
+			),
+		).not.toBe(embeddingContentHash(small, text));
+	});
+});
+
+describe("reindexCategoryEmbeddings", () => {
+	it("should re-embed the services whose category name changed", async () => {
+		const provider = createHashedEmbeddingProvider({ dimensions: 64 });
+		const renamed = { ...service, category: { name: "Mathematics" } };
+		const unchanged = { ...service, id: "service_2" };
+		const hashes = new Map(
+			[service, unchanged].map((s) => [
+				s.id,
+				embeddingContentHash(provider, embeddingText(s)),
+			]),
+		);
+		const upsert = vi.fn(async () => ({}));
+		const db = {
+			service: {
+				findMany: async ({ where }: { where: { id: { gt: string } } }) =>
+					[renamed, unchanged].filter((s) => s.id > where.id.gt),
+			},
+			serviceEmbedding: {
+				findUnique: async ({ where }: { where: { serviceId: string } }) => ({
+					contentHash: hashes.get(where.serviceId),
+				}),
+				upsert,
+			},
+		} as unknown as PrismaClient;
+
+		expect(
+			await reindexCategoryEmbeddings(db, provider, { categoryId: "math" }),
+		).toBe(1);
+		expect(upsert).toHaveBeenCalledWith(
+			expect.objectContaining({ where: { serviceId: "service_1" } }),
+		);
+	});
+});
@@ -0,0 +1,153 @@
+import { createHash } from "node:crypto";
+
+import type { Prisma, Service } from "@prisma/client";
+import { z } from "zod";
+
+import type { EmbeddingProvider } from "~/server/embeddings";
+
+export const CATEGORY_REINDEX_JOB = "embeddings.reindexCategory";
+
+export type EmbeddableService = Pick<
+	Service,
+	"id" | "title" | "shortDescription" | "description" | "tags" | "features"
+> & { category: { name: string } };
+
+const embeddableSelect = {
+	id: true,
+	title: true,
+	shortDescription: true,
+	description: true,
+	tags: true,
+	features: true,
+	category: { select: { name: true } },
+} satisfies Prisma.ServiceSelect;
+
+/** The text a service is embedded from: what it is, what it covers and where it is listed. */
+export function embeddingText(service: EmbeddableService) {
+	return [
+		service.title,
+		service.category.name,
+		service.shortDescription,
+		service.tags.join(", "),
+		service.description,
+		service.features.join(", "),
+	]
+		.filter(Boolean)
+		.join("\n");
+}
+
+/** Changes with the text and with the provider, so either one going stale triggers a recompute. */
+export function embeddingContentHash(
+	provider: EmbeddingProvider,
+	text: string,
+) {
+	return createHash("sha256").update(`${provider.name}\n${text}`).digest("hex");
+}
+
+/**
+ * Recomputes a service's embedding if its searchable text changed since the last one. Called
+ * after every create and update, so only edits to the embedded fields cost a provider call.
+ */
+export async function syncServiceEmbedding(
+	db: Prisma.TransactionClient,
+	provider: EmbeddingProvider,
+	service: EmbeddableService,
+) {
+	const text = embeddingText(service);
+	const contentHash = embeddingContentHash(provider, text);
+
+	const existing = await db.serviceEmbedding.findUnique({
+		where: { serviceId: service.id },
+		select: { contentHash: true },
+	});
+	if (existing?.contentHash === contentHash) return false;
+
+	const [embedding = []] = await provider.embed([text]);
+	await db.serviceEmbedding.upsert({
+		where: { serviceId: service.id },
+		create: {
+			serviceId: service.id,
+			provider: provider.name,
+			embedding,
+			contentHash,
+		},
+		update: { provider: provider.name, embedding, contentHash },
+	});
+	return true;
+}
+
+/**
+ * Embeds services that have no vector from the current provider yet: ones created before
+ * semantic search existed, or all of them after switching providers. Works in batches of
+ * `batchSize` and returns how many it embedded.
+ */
+export async function reindexServiceEmbeddings(
+	db: Prisma.TransactionClient,
+	provider: EmbeddingProvider,
+	{ batchSize = 100 }: { batchSize?: number } = {},
+) {
+	let embedded = 0;
+	for (;;) {
+		const services = await db.service.findMany({
+			where: {
+				OR: [
+					{ embedding: { is: null } },
+					{ embedding: { provider: { not: provider.name } } },
+				],
+			},
+			select: embeddableSelect,
+			orderBy: { id: "asc" },
+			take: batchSize,
+		});
+		if (services.length === 0) return embedded;
+
+		const texts = services.map(embeddingText);
+		const vectors = await provider.embed(texts);
+		await Promise.all(
+			services.map((service, i) => {
+				const data = {
+					provider: provider.name,
+					embedding: vectors[i] ?? [],
+					contentHash: embeddingContentHash(provider, texts[i] ?? ""),
+				};
+				return db.serviceEmbedding.upsert({
+					where: { serviceId: service.id },
+					create: { serviceId: service.id, ...data },
+					update: data,
+				});
+			}),
+		);
+		embedded += services.length;
+	}
+}
+
+const categoryReindexPayload = z.object({ categoryId: z.string() });
+
+/**
+ * Job handler: brings the embeddings of a category's services up to date after the category was
+ * renamed, since its name is part of their embedded text. Returns how many it re-embedded.
+ */
+export async function reindexCategoryEmbeddings(
+	db: Prisma.TransactionClient,
+	provider: EmbeddingProvider,
+	payload: Prisma.JsonValue,
+	{ batchSize = 100 }: { batchSize?: number } = {},
+) {
+	const { categoryId } = categoryReindexPayload.parse(payload);
+	let embedded = 0;
+	let after = "";
+	for (;;) {
+		const services = await db.service.findMany({
+			where: { categoryId, id: { gt: after } },
+			select: embeddableSelect,
+			orderBy: { id: "asc" },
+			take: batchSize,
+		});
+		if (services.length === 0) return embedded;
+
+		for (const service of services) {
+			if (await syncServiceEmbedding(db, provider, service)) embedded++;
+		}
+		after = services.at(-1)?.id ?? after;
+	}
+}
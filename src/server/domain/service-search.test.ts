@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+
+import { buildSearchWhere, escapeLikePattern } from "./service-search";
+
+describe("service search", () => {
+	it("should only search live listings of active providers", () => {
+		const where = buildSearchWhere({});
+
+		expect(where.sql).toContain(`s."status" = 'ACTIVE'`);
+		expect(where.sql).toContain(`u."isActive" = true`);
+		expect(where.values).toEqual([]);
+	});
+
+	it("should bind every filter value as a parameter", () => {
+		const where = buildSearchWhere({
+			query: "deep clean",
+			categoryIds: ["home", "cleaning"],
+			serviceType: "IN_PERSON",
+			minPrice: 50,
+			maxPrice: 150,
+			minRating: 4,
+			location: "Seattle",
+		});
+
+		expect(where.values).toEqual([
+			"deep clean",
+			"home",
+			"cleaning",
+			"IN_PERSON",
+			50,
+			150,
+			4,
+			"%Seattle%",
+		]);
+	});
+
+	it("should match queries against the indexed search vector", () => {
+		const where = buildSearchWhere({ query: "deep clean" });
+
+		expect(where.sql).toContain(`s."searchVector" @@ websearch_to_tsquery`);
+		expect(where.sql).not.toContain("to_tsvector");
+	});
+
+	it("should leave a facet's own filter out when counting it", () => {
+		const filters = { serviceType: "ONLINE" as const, minRating: 4 };
+
+		expect(buildSearchWhere(filters, "serviceType").values).toEqual([4]);
+		expect(buildSearchWhere(filters, "rating").values).toEqual(["ONLINE"]);
+	});
+
+	it("should only apply service areas and radius when an origin is known", () => {
+		const origin = { latitude: 47.6062, longitude: -122.3321 };
+
+		expect(buildSearchWhere({ radiusKm: 10 }).sql).not.toContain(
+			"serviceRadiusKm",
+		);
+		expect(buildSearchWhere({ origin }).sql).toContain(
+			`s."serviceRadiusKm" IS NULL`,
+		);
+		expect(buildSearchWhere({ origin }).sql).not.toContain("BETWEEN");
+		expect(buildSearchWhere({ origin, radiusKm: 10 }).values).toContain(10);
+	});
+
+	it("should wrap the radius box across the antimeridian", () => {
+		const where = buildSearchWhere({
+			origin: { latitude: 0, longitude: 179.95 },
+			radiusKm: 50,
+		});
+
+		expect(where.sql).toContain(`s."longitude" >= ? OR s."longitude" <= ?`);
+	});
+
+	it("should also match the semantic matches in a hybrid search", () => {
+		const where = buildSearchWhere({
+			query: "calculus homework",
+			semanticMatches: [{ serviceId: "service_1", similarity: 0.4 }],
+		});
+
+		expect(where.sql).toContain(`OR m."serviceId" IS NOT NULL`);
+		expect(where.values).toEqual(["calculus homework"]);
+	});
+
+	it("should match location wildcards literally", () => {
+		expect(escapeLikePattern("100%_off\\")).toBe("100\\%\\_off\\\\");
+	});
+});
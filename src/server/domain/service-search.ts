@@ -0,0 +1,445 @@
+import {
+	type PriceType,
+	Prisma,
+	type PrismaClient,
+	type ServiceType,
+} from "@prisma/client";
+
+import { EARTH_RADIUS_KM, type GeoPoint, boundingBox } from "~/utils/geo";
+
+import { descendantCategoryIds, rollUpCategoryCounts } from "./categories";
+
+/**
+ * How much each signal weighs in the "recommended" order. Every signal is scaled to 0–1 first:
+ * text relevance through `ts_rank_cd`'s rank/(rank+1) normalisation, rating out of 5 and
+ * popularity as log-scaled bookings, saturating at 100.
+ */
+export const SEARCH_RANK_WEIGHTS = {
+	relevance: 0.6,
+	rating: 0.25,
+	popularity: 0.15,
+} as const;
+
+/**
+ * How a hybrid search splits relevance between keyword and semantic matching: the `ts_rank_cd`
+ * score as above, and the cosine similarity of the service's embedding to the query's.
+ */
+export const HYBRID_RELEVANCE_WEIGHTS = {
+	keyword: 0.5,
+	semantic: 0.5,
+} as const;
+
+/** Most services a semantic query matches; the closest ones above its threshold are kept. */
+export const MAX_SEMANTIC_MATCHES = 200;
+
+/** Price ranges offered in the filter sidebar; `max` is exclusive. */
+export const PRICE_BUCKETS: readonly { min: number; max: number | null }[] = [
+	{ min: 0, max: 50 },
+	{ min: 50, max: 100 },
+	{ min: 100, max: 250 },
+	{ min: 250, max: 500 },
+	{ min: 500, max: null },
+];
+
+/** "N stars & up" options offered in the filter sidebar. */
+export const RATING_THRESHOLDS: readonly number[] = [4.5, 4, 3];
+
+const LOCATION_FACET_SIZE = 10;
+
+export type ServiceSearchSort =
+	| "relevance"
+	| "price_asc"
+	| "price_desc"
+	| "rating"
+	| "distance";
+
+export interface ServiceSearchFilters {
+	query?: string;
+	/** The selected category and all of its descendants. */
+	categoryIds?: string[];
+	serviceType?: ServiceType;
+	priceType?: PriceType;
+	minPrice?: number;
+	maxPrice?: number;
+	minRating?: number;
+	location?: string;
+	/**
+	 * Where the customer is. IN_PERSON services whose provider-defined service area does not reach
+	 * it are hidden, and results carry their distance from it.
+	 */
+	origin?: GeoPoint;
+	/** Only services located within this many kilometres of `origin`. */
+	radiusKm?: number;
+	/**
+	 * The services closest to the query's embedding, for a hybrid search: they match even when
+	 * they share no keywords with `query`. See `findSemanticMatches`.
+	 */
+	semanticMatches?: SemanticMatch[];
+}
+
+export interface SemanticQuery {
+	/** Only embeddings from this provider are comparable to `vector`. */
+	provider: string;
+	vector: number[];
+	threshold: number;
+}
+
+export interface SemanticMatch {
+	serviceId: string;
+	/** Cosine similarity of the service's embedding to the query's. */
+	similarity: number;
+}
+
+/** Each filter that has a facet; a facet is counted with every filter applied but its own. */
+export type SearchFacet =
+	| "category"
+	| "serviceType"
+	| "priceType"
+	| "price"
+	| "rating"
+	| "location";
+
+/**
+ * The searchable text of a service, weighted so title matches count most, then the short
+ * description and tags, then the full description and features. A stored column generated by
+ * Postgres (see prisma/service-search.sql) with a GIN index, so neither matching nor ranking
+ * parses every row's text again.
+ */
+const SEARCH_DOCUMENT = Prisma.sql`s."searchVector"`;
+
+const SEARCH_FROM = Prisma.sql`"Service" s
+	JOIN "User" u ON u."id" = s."providerId"`;
+
+/** Live, bookable listings of active providers: all that a search ever shows. */
+const LIVE_SERVICE = [
+	Prisma.sql`s."status" = 'ACTIVE'::"ServiceStatus"`,
+	Prisma.sql`s."isActive" = true`,
+	Prisma.sql`u."isActive" = true`,
+];
+
+/** The services a search reads, joined to the semantic matches as `m` in a hybrid search. */
+function searchFrom({ semanticMatches }: ServiceSearchFilters) {
+	if (!semanticMatches) return SEARCH_FROM;
+	return Prisma.sql`${SEARCH_FROM}
+	LEFT JOIN unnest(
+		${semanticMatches.map((m) => m.serviceId)}::text[],
+		${semanticMatches.map((m) => m.similarity)}::float8[]
+	) AS m("serviceId", "similarity") ON m."serviceId" = s."id"`;
+}
+
+/**
+ * The live services closest to a semantic query, at most `MAX_SEMANTIC_MATCHES` of them, above
+ * its threshold.
+ *
+ * This compares the query with every live embedding from the provider, once per search; the
+ * rest of the search joins the result instead of comparing per row and per facet. A scan is fine
+ * at the marketplace's size: vectors are a few hundred floats (512 for the local provider), so
+ * thousands of listings take milliseconds. Past that, move `ServiceEmbedding.embedding` to a
+ * pgvector column with an HNSW index; the docker-compose database already has the extension.
+ */
+async function findSemanticMatches(db: PrismaClient, semantic: SemanticQuery) {
+	return db.$queryRaw<SemanticMatch[]>`
+		SELECT c."serviceId", c."similarity"
+		FROM (
+			SELECT e."serviceId", (
+				SELECT sum(a * b) FROM unnest(e."embedding", ${semantic.vector}::float8[]) AS v(a, b)
+			) AS "similarity"
+			FROM "ServiceEmbedding" e
+			JOIN "Service" s ON s."id" = e."serviceId"
+			JOIN "User" u ON u."id" = s."providerId"
+			WHERE e."provider" = ${semantic.provider} AND ${Prisma.join(LIVE_SERVICE, " AND ")}
+		) c
+		WHERE c."similarity" >= ${semantic.threshold}
+		ORDER BY c."similarity" DESC, c."serviceId"
+		LIMIT ${MAX_SEMANTIC_MATCHES}`;
+}
+
+/** Great-circle distance in kilometres from a service to `origin`; null for unlocated services. */
+function distanceExpression(origin: GeoPoint) {
+	return Prisma.sql`(2 * ${EARTH_RADIUS_KM}::float8 * asin(least(1, sqrt(
+		power(sin(radians(s."latitude" - ${origin.latitude}::float8) / 2), 2)
+		+ cos(radians(${origin.latitude}::float8)) * cos(radians(s."latitude"))
+		* power(sin(radians(s."longitude" - ${origin.longitude}::float8) / 2), 2)
+	))))`;
+}
+
+/**
+ * Services inside the box around the search radius. Cheap to check against the coordinate index
+ * before the exact distance; a box that crosses the antimeridian wraps round to the other side.
+ */
+function withinBoundingBox(origin: GeoPoint, radiusKm: number) {
+	const box = boundingBox(origin, radiusKm);
+	const latitude = Prisma.sql`s."latitude" BETWEEN ${box.minLatitude} AND ${box.maxLatitude}`;
+
+	if (box.maxLongitude - box.minLongitude >= 360) return latitude;
+	if (box.minLongitude < -180) {
+		return Prisma.sql`${latitude} AND (s."longitude" >= ${box.minLongitude + 360} OR s."longitude" <= ${box.maxLongitude})`;
+	}
+	if (box.maxLongitude > 180) {
+		return Prisma.sql`${latitude} AND (s."longitude" >= ${box.minLongitude} OR s."longitude" <= ${box.maxLongitude - 360})`;
+	}
+	return Prisma.sql`${latitude} AND s."longitude" BETWEEN ${box.minLongitude} AND ${box.maxLongitude}`;
+}
+
+/** Escapes `%`, `_` and `\` so user input is matched literally by ILIKE. */
+export function escapeLikePattern(value: string) {
+	return value.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+function textQuery(query: string) {
+	return Prisma.sql`websearch_to_tsquery('english', ${query})`;
+}
+
+/**
+ * The WHERE clause for a search: only live, bookable listings of active providers, narrowed by
+ * the filters. Pass `except` to leave one filter out when counting its own facet, so the sidebar
+ * shows how many results each alternative option would give.
+ */
+export function buildSearchWhere(
+	filters: ServiceSearchFilters,
+	except?: SearchFacet,
+): Prisma.Sql {
+	const conditions = [...LIVE_SERVICE];
+
+	if (filters.query && filters.semanticMatches) {
+		conditions.push(
+			Prisma.sql`(${SEARCH_DOCUMENT} @@ ${textQuery(filters.query)} OR m."serviceId" IS NOT NULL)`,
+		);
+	} else if (filters.query) {
+		conditions.push(
+			Prisma.sql`${SEARCH_DOCUMENT} @@ ${textQuery(filters.query)}`,
+		);
+	}
+	if (filters.categoryIds && except !== "category") {
+		conditions.push(
+			Prisma.sql`s."categoryId" IN (${Prisma.join(filters.categoryIds)})`,
+		);
+	}
+	if (filters.serviceType && except !== "serviceType") {
+		conditions.push(
+			Prisma.sql`s."serviceType" = ${filters.serviceType}::"ServiceType"`,
+		);
+	}
+	if (filters.priceType && except !== "priceType") {
+		conditions.push(
+			Prisma.sql`s."priceType" = ${filters.priceType}::"PriceType"`,
+		);
+	}
+	if (except !== "price") {
+		if (filters.minPrice !== undefined) {
+			conditions.push(Prisma.sql`s."price" >= ${filters.minPrice}`);
+		}
+		if (filters.maxPrice !== undefined) {
+			conditions.push(Prisma.sql`s."price" <= ${filters.maxPrice}`);
+		}
+	}
+	if (filters.minRating !== undefined && except !== "rating") {
+		conditions.push(Prisma.sql`s."averageRating" >= ${filters.minRating}`);
+	}
+	if (filters.location && except !== "location") {
+		conditions.push(
+			Prisma.sql`s."location" ILIKE ${`%${escapeLikePattern(filters.location)}%`}`,
+		);
+	}
+	if (filters.origin) {
+		const distance = distanceExpression(filters.origin);
+		// Unlocated services and those without a service area are shown everywhere.
+		conditions.push(
+			Prisma.sql`(s."serviceType" <> 'IN_PERSON'::"ServiceType" OR s."serviceRadiusKm" IS NULL OR s."latitude" IS NULL OR ${distance} <= s."serviceRadiusKm")`,
+		);
+		if (filters.radiusKm !== undefined) {
+			conditions.push(
+				withinBoundingBox(filters.origin, filters.radiusKm),
+				Prisma.sql`${distance} <= ${filters.radiusKm}`,
+			);
+		}
+	}
+
+	return Prisma.join(conditions, " AND ");
+}
+
+function rankExpression({ query, semanticMatches }: ServiceSearchFilters) {
+	const keyword = query
+		? Prisma.sql`ts_rank_cd(${SEARCH_DOCUMENT}, ${textQuery(query)}, 32)`
+		: Prisma.sql`0`;
+	const relevance =
+		query && semanticMatches
+			? Prisma.sql`(${HYBRID_RELEVANCE_WEIGHTS.keyword}::float8 * ${keyword} + ${HYBRID_RELEVANCE_WEIGHTS.semantic}::float8 * coalesce(m."similarity", 0))`
+			: keyword;
+	return Prisma.sql`(
+		${SEARCH_RANK_WEIGHTS.relevance}::float8 * ${relevance}
+		+ ${SEARCH_RANK_WEIGHTS.rating}::float8 * coalesce(s."averageRating", 0)::float8 / 5
+		+ ${SEARCH_RANK_WEIGHTS.popularity}::float8 * least(ln(1 + s."bookingCount") / ln(101), 1)
+	)`;
+}
+
+const SORT_ORDER: Record<ServiceSearchSort, Prisma.Sql> = {
+	relevance: Prisma.sql`"score" DESC, s."id"`,
+	price_asc: Prisma.sql`s."price" ASC, "score" DESC, s."id"`,
+	price_desc: Prisma.sql`s."price" DESC, "score" DESC, s."id"`,
+	rating: Prisma.sql`s."averageRating" DESC NULLS LAST, "score" DESC, s."id"`,
+	distance: Prisma.sql`"distanceKm" ASC NULLS LAST, "score" DESC, s."id"`,
+};
+
+type CountRow = { value: string; count: number };
+
+function groupCounts(
+	db: PrismaClient,
+	filters: ServiceSearchFilters,
+	facet: SearchFacet,
+	column: Prisma.Sql,
+) {
+	return db.$queryRaw<CountRow[]>`
+		SELECT ${column}::text AS "value", count(*)::int AS "count"
+		FROM ${searchFrom(filters)}
+		WHERE ${buildSearchWhere(filters, facet)} AND ${column} IS NOT NULL
+		GROUP BY 1
+		ORDER BY 2 DESC, 1`;
+}
+
+async function searchFacets(
+	db: PrismaClient,
+	filters: ServiceSearchFilters,
+	categories: {
+		id: string;
+		name: string;
+		slug: string;
+		parentId: string | null;
+	}[],
+) {
+	const priceColumns = PRICE_BUCKETS.map((bucket, i) => {
+		const upper =
+			bucket.max === null
+				? Prisma.empty
+				: Prisma.sql` AND s."price" < ${bucket.max}`;
+		return Prisma.sql`count(*) FILTER (WHERE s."price" >= ${bucket.min}${upper})::int AS ${Prisma.raw(`"p${i}"`)}`;
+	});
+	const ratingColumns = RATING_THRESHOLDS.map(
+		(min, i) =>
+			Prisma.sql`count(*) FILTER (WHERE s."averageRating" >= ${min})::int AS ${Prisma.raw(`"r${i}"`)}`,
+	);
+
+	const [
+		byCategory,
+		byServiceType,
+		byPriceType,
+		[prices],
+		[ratings],
+		byLocation,
+	] = await Promise.all([
+		groupCounts(db, filters, "category", Prisma.sql`s."categoryId"`),
+		groupCounts(db, filters, "serviceType", Prisma.sql`s."serviceType"`),
+		groupCounts(db, filters, "priceType", Prisma.sql`s."priceType"`),
+		db.$queryRaw<Record<string, number>[]>`
+				SELECT ${Prisma.join(priceColumns)}
+				FROM ${searchFrom(filters)}
+				WHERE ${buildSearchWhere(filters, "price")}`,
+		db.$queryRaw<Record<string, number>[]>`
+				SELECT ${Prisma.join(ratingColumns)}
+				FROM ${searchFrom(filters)}
+				WHERE ${buildSearchWhere(filters, "rating")}`,
+		db.$queryRaw<CountRow[]>`
+				SELECT s."location" AS "value", count(*)::int AS "count"
+				FROM ${searchFrom(filters)}
+				WHERE ${buildSearchWhere(filters, "location")} AND s."location" IS NOT NULL
+				GROUP BY 1
+				ORDER BY 2 DESC, 1
+				LIMIT ${LOCATION_FACET_SIZE}`,
+	]);
+
+	const categoryTotals = rollUpCategoryCounts(
+		categories,
+		new Map(byCategory.map((row) => [row.value, row.count])),
+	);
+
+	return {
+		categories: categories
+			.filter((c) => categoryTotals.has(c.id))
+			.map((c) => ({ ...c, count: categoryTotals.get(c.id) ?? 0 })),
+		serviceTypes: byServiceType as { value: ServiceType; count: number }[],
+		priceTypes: byPriceType as { value: PriceType; count: number }[],
+		priceRanges: PRICE_BUCKETS.map((bucket, i) => ({
+			...bucket,
+			count: prices?.[`p${i}`] ?? 0,
+		})),
+		ratings: RATING_THRESHOLDS.map((min, i) => ({
+			min,
+			count: ratings?.[`r${i}`] ?? 0,
+		})),
+		locations: byLocation,
+	};
+}
+
+export interface SearchServicesInput
+	extends Omit<ServiceSearchFilters, "categoryIds" | "semanticMatches"> {
+	categoryId?: string;
+	/** The query's embedding, which turns it into a hybrid search. */
+	semantic?: SemanticQuery;
+	sort: ServiceSearchSort;
+	page: number;
+	limit: number;
+}
+
+/**
+ * Full-text search over live services, with facet counts for every filter. Results are ranked by
+ * a blend of text relevance, rating and popularity unless another sort is asked for, and paged by
+ * number since a ranked order has no stable cursor. Sorting by distance needs an `origin`; a
+ * `semantic` query turns it into a hybrid search that also finds services by meaning.
+ */
+export async function searchServices(
+	db: PrismaClient,
+	{ categoryId, semantic, sort, page, limit, ...rest }: SearchServicesInput,
+) {
+	const [categories, semanticMatches] = await Promise.all([
+		db.category.findMany({
+			select: { id: true, name: true, slug: true, parentId: true },
+			orderBy: { name: "asc" },
+		}),
+		rest.query && semantic ? findSemanticMatches(db, semantic) : undefined,
+	]);
+	const filters: ServiceSearchFilters = {
+		...rest,
+		categoryIds: categoryId
+			? descendantCategoryIds(categories, categoryId)
+			: undefined,
+		semanticMatches,
+	};
+	const where = buildSearchWhere(filters);
+	const from = searchFrom(filters);
+
+	const [ranked, [total], facets] = await Promise.all([
+		db.$queryRaw<{ id: string; score: number; distanceKm: number | null }[]>`
+			SELECT s."id", ${rankExpression(filters)} AS "score",
+				${filters.origin ? distanceExpression(filters.origin) : Prisma.sql`NULL::float8`} AS "distanceKm"
+			FROM ${from}
+			WHERE ${where}
+			ORDER BY ${SORT_ORDER[sort]}
+			LIMIT ${limit} OFFSET ${(page - 1) * limit}`,
+		db.$queryRaw<{ count: number }[]>`
+			SELECT count(*)::int AS "count" FROM ${from} WHERE ${where}`,
+		searchFacets(db, filters, categories),
+	]);
+
+	const services = await db.service.findMany({
+		where: { id: { in: ranked.map((r) => r.id) } },
+		include: {
+			category: { select: { id: true, name: true, slug: true } },
+			provider: { select: { id: true, name: true, image: true } },
+			media: { orderBy: { order: "asc" }, take: 1 },
+		},
+	});
+	const byId = new Map(services.map((s) => [s.id, s]));
+
+	return {
+		services: ranked.flatMap((r) => {
+			const service = byId.get(r.id);
+			return service
+				? [{ ...service, score: r.score, distanceKm: r.distanceKm }]
+				: [];
+		}),
+		total: total?.count ?? 0,
+		page,
+		pageCount: Math.ceil((total?.count ?? 0) / limit),
+		facets,
+	};
+}
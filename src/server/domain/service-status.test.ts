@@ -0,0 +1,130 @@
+import { Prisma } from "@prisma/client";
+import { describe, expect, it } from "vitest";
+
+import {
+	type ServiceTransitionFacts,
+	canTransitionService,
+	checkServiceTransition,
+	editNeedsReview,
+} from "./service-status";
+
+const bookable: ServiceTransitionFacts = {
+	price: 80,
+	duration: 60,
+	activeAvailabilityCount: 2,
+	openBookingCount: 0,
+};
+
+describe("service status transitions", () => {
+	it("should follow the DRAFT → PENDING_REVIEW → ACTIVE → PAUSED → ARCHIVED lifecycle", () => {
+		expect(canTransitionService("DRAFT", "PENDING_REVIEW", "owner")).toBe(true);
+		expect(canTransitionService("PENDING_REVIEW", "ACTIVE", "admin")).toBe(
+			true,
+		);
+		expect(canTransitionService("ACTIVE", "PAUSED", "owner")).toBe(true);
+		expect(canTransitionService("PAUSED", "ACTIVE", "owner")).toBe(true);
+		expect(canTransitionService("PAUSED", "ARCHIVED", "owner")).toBe(true);
+	});
+
+	it("should only let an admin approve a listing", () => {
+		expect(canTransitionService("DRAFT", "ACTIVE", "owner")).toBe(false);
+		expect(canTransitionService("PENDING_REVIEW", "ACTIVE", "owner")).toBe(
+			false,
+		);
+		expect(canTransitionService("PENDING_REVIEW", "DRAFT", "admin")).toBe(true);
+	});
+
+	it("should never leave ARCHIVED or go back to DRAFT", () => {
+		expect(canTransitionService("ARCHIVED", "ACTIVE", "owner")).toBe(false);
+		expect(canTransitionService("ACTIVE", "DRAFT", "owner")).toBe(false);
+		expect(canTransitionService("DRAFT", "PAUSED", "owner")).toBe(false);
+	});
+
+	it("should require availability before submitting for review", () => {
+		const result = checkServiceTransition("DRAFT", "PENDING_REVIEW", "owner", {
+			...bookable,
+			activeAvailabilityCount: 0,
+		});
+		expect(result.ok).toBe(false);
+		expect(
+			checkServiceTransition("DRAFT", "PENDING_REVIEW", "owner", bookable).ok,
+		).toBe(true);
+	});
+
+	it("should require a duration before going ACTIVE", () => {
+		const result = checkServiceTransition("PAUSED", "ACTIVE", "owner", {
+			...bookable,
+			duration: null,
+		});
+		expect(result.ok).toBe(false);
+	});
+
+	it("should refuse to archive with open bookings", () => {
+		const result = checkServiceTransition("ACTIVE", "ARCHIVED", "owner", {
+			...bookable,
+			openBookingCount: 1,
+		});
+		expect(result).toEqual({
+			ok: false,
+			reason: "Settle or cancel open bookings before archiving the service",
+		});
+	});
+});
+
+describe("editNeedsReview", () => {
+	const live = {
+		status: "ACTIVE" as const,
+		title: "Deep clean",
+		shortDescription: "Every room, top to bottom",
+		description: "Top to bottom",
+		price: new Prisma.Decimal(80),
+		tags: ["cleaning", "home"],
+		features: ["Supplies included"],
+		categoryId: "cleaning",
+		location: "Seattle",
+	};
+
+	it("should send changes to approved content back to review", () => {
+		expect(editNeedsReview(live, { title: "Deeper clean" })).toBe(true);
+		expect(editNeedsReview(live, { price: 60 })).toBe(true);
+		expect(editNeedsReview(live, { media: [] })).toBe(true);
+		expect(
+			editNeedsReview({ ...live, status: "PAUSED" }, { description: "New" }),
+		).toBe(true);
+	});
+
+	it("should review what search results and cards show as well", () => {
+		expect(editNeedsReview(live, { shortDescription: "Anything" })).toBe(true);
+		expect(editNeedsReview(live, { shortDescription: null })).toBe(true);
+		expect(editNeedsReview(live, { tags: ["cleaning"] })).toBe(true);
+		expect(editNeedsReview(live, { features: [] })).toBe(true);
+		expect(editNeedsReview(live, { categoryId: "moving" })).toBe(true);
+		expect(editNeedsReview(live, { location: "Tacoma" })).toBe(true);
+	});
+
+	it("should leave other edits and unchanged values alone", () => {
+		expect(
+			editNeedsReview(live, {
+				title: "Deep clean",
+				price: 80,
+				tags: ["cleaning", "home"],
+				location: "Seattle",
+			}),
+		).toBe(false);
+		expect(editNeedsReview(live, {})).toBe(false);
+	});
+
+	it("should not touch listings that are not live", () => {
+		expect(editNeedsReview({ ...live, status: "DRAFT" }, { price: 60 })).toBe(
+			false,
+		);
+	});
+});
+
+describe("staff take-downs", () => {
+	it("should let only an admin take a live or paused listing back to DRAFT", () => {
+		expect(canTransitionService("ACTIVE", "DRAFT", "admin")).toBe(true);
+		expect(canTransitionService("PAUSED", "DRAFT", "admin")).toBe(true);
+		expect(canTransitionService("PAUSED", "DRAFT", "owner")).toBe(false);
+	});
+});
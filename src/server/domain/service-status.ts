@@ -0,0 +1,279 @@
+import {
+	BookingStatus,
+	NotificationType,
+	type Prisma,
+	type Service,
+	ServiceStatus,
+} from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+import { notify } from "./notifications";
+
+/** Who is changing a listing's status: its provider, or platform staff moderating it. */
+export type ServiceActor = "owner" | "admin";
+
+/**
+ * Allowed lifecycle moves for a `Service`, with the actors allowed to make them.
+ *
+ * A listing starts as a DRAFT and is submitted to PENDING_REVIEW; only an admin can approve it to
+ * ACTIVE, or reject it back to DRAFT. Once approved it can be PAUSED and resumed any number of
+ * times; editing what reviewers approved sends it back to PENDING_REVIEW (see
+ * `editNeedsReview`), and an admin can take it down to DRAFT. ARCHIVED is terminal: an archived
+ * listing is kept for booking history but can never be reopened.
+ */
+export const SERVICE_STATUS_TRANSITIONS: Record<
+	ServiceStatus,
+	Partial<Record<ServiceStatus, readonly ServiceActor[]>>
+> = {
+	DRAFT: { PENDING_REVIEW: ["owner"], ARCHIVED: ["owner"] },
+	PENDING_REVIEW: {
+		ACTIVE: ["admin"],
+		DRAFT: ["owner", "admin"],
+		ARCHIVED: ["owner"],
+	},
+	ACTIVE: {
+		PAUSED: ["owner"],
+		PENDING_REVIEW: ["owner"],
+		DRAFT: ["admin"],
+		ARCHIVED: ["owner"],
+	},
+	PAUSED: {
+		ACTIVE: ["owner"],
+		PENDING_REVIEW: ["owner"],
+		DRAFT: ["admin"],
+		ARCHIVED: ["owner"],
+	},
+	ARCHIVED: {},
+};
+
+/**
+ * The facts about a service that the transition rules depend on. Kept as a plain object so the
+ * rules can be checked without a database.
+ */
+export interface ServiceTransitionFacts {
+	price: number;
+	duration: number | null;
+	activeAvailabilityCount: number;
+	openBookingCount: number;
+}
+
+export type ServiceTransitionCheck =
+	| { ok: true }
+	| { ok: false; reason: string };
+
+export function canTransitionService(
+	from: ServiceStatus,
+	to: ServiceStatus,
+	actor: ServiceActor,
+): boolean {
+	return SERVICE_STATUS_TRANSITIONS[from][to]?.includes(actor) ?? false;
+}
+
+/**
+ * Validates a status change against the lifecycle and the per-target rules:
+ * - going to review or ACTIVE needs a positive price, a duration and at least one active
+ *   availability window, otherwise customers would see a listing they cannot book;
+ * - going ARCHIVED needs every pending, confirmed or in-progress booking to be settled first.
+ */
+export function checkServiceTransition(
+	from: ServiceStatus,
+	to: ServiceStatus,
+	actor: ServiceActor,
+	facts: ServiceTransitionFacts,
+): ServiceTransitionCheck {
+	if (!canTransitionService(from, to, actor)) {
+		return {
+			ok: false,
+			reason: `Cannot change service status from ${from} to ${to}`,
+		};
+	}
+
+	if (to === ServiceStatus.PENDING_REVIEW || to === ServiceStatus.ACTIVE) {
+		if (facts.price <= 0) {
+			return { ok: false, reason: "An active service needs a price" };
+		}
+		if (!facts.duration || facts.duration <= 0) {
+			return { ok: false, reason: "An active service needs a duration" };
+		}
+		if (facts.activeAvailabilityCount === 0) {
+			return {
+				ok: false,
+				reason: "An active service needs at least one availability window",
+			};
+		}
+	}
+
+	if (to === ServiceStatus.ARCHIVED && facts.openBookingCount > 0) {
+		return {
+			ok: false,
+			reason: "Settle or cancel open bookings before archiving the service",
+		};
+	}
+
+	return { ok: true };
+}
+
+/** The fields reviewers approve: everything a listing shows customers about what it offers. */
+type ReviewedService = Pick<
+	Service,
+	| "title"
+	| "shortDescription"
+	| "description"
+	| "price"
+	| "tags"
+	| "features"
+	| "categoryId"
+	| "location"
+>;
+
+/** An owner's edit to the reviewed fields; undefined leaves a field as it is. */
+export interface ServiceContentEdit {
+	title?: string;
+	shortDescription?: string | null;
+	description?: string;
+	price?: number;
+	tags?: string[];
+	features?: string[];
+	categoryId?: string;
+	location?: string | null;
+	/** Replaces the listing's photos, which are always treated as a change. */
+	media?: unknown[];
+}
+
+const sameList = (a: string[], b: string[]) =>
+	a.length === b.length && a.every((item, i) => item === b[i]);
+
+/**
+ * Whether an edit has to go back through review: it changes what customers see of a listing
+ * that was approved, in search results, cards or the listing page. Drafts and listings already
+ * waiting for review are looked at as they are when the admin gets to them.
+ */
+export function editNeedsReview(
+	service: Pick<Service, "status"> & ReviewedService,
+	edit: ServiceContentEdit,
+) {
+	if (
+		service.status !== ServiceStatus.ACTIVE &&
+		service.status !== ServiceStatus.PAUSED
+	) {
+		return false;
+	}
+	const changed = (
+		field:
+			| "title"
+			| "shortDescription"
+			| "description"
+			| "categoryId"
+			| "location",
+	) => edit[field] !== undefined && edit[field] !== service[field];
+	return (
+		changed("title") ||
+		changed("shortDescription") ||
+		changed("description") ||
+		changed("categoryId") ||
+		changed("location") ||
+		(edit.price !== undefined && !service.price.equals(edit.price)) ||
+		(edit.tags !== undefined && !sameList(edit.tags, service.tags)) ||
+		(edit.features !== undefined &&
+			!sameList(edit.features, service.features)) ||
+		edit.media !== undefined
+	);
+}
+
+export interface TransitionServiceInput {
+	serviceId: string;
+	to: ServiceStatus;
+	actor: ServiceActor;
+	/** Why an admin rejected or took down the listing; shown to the provider. */
+	rejectionReason?: string;
+	now?: Date;
+}
+
+/**
+ * The only way to change `Service.status` after creation. Checks the move against the lifecycle
+ * and the listing's current facts, then applies it with a compare-and-set on the current status.
+ * Moderation decisions are stamped on the listing and sent to the provider as a notification.
+ */
+export async function transitionService(
+	db: Prisma.TransactionClient,
+	{
+		serviceId,
+		to,
+		actor,
+		rejectionReason,
+		now = new Date(),
+	}: TransitionServiceInput,
+) {
+	const service = await db.service.findUnique({ where: { id: serviceId } });
+	if (!service) {
+		throw new TRPCError({ code: "NOT_FOUND", message: "Service not found" });
+	}
+
+	const [activeAvailabilityCount, openBookingCount] = await Promise.all([
+		db.availability.count({
+			where: { serviceId: service.id, isActive: true },
+		}),
+		db.booking.count({
+			where: {
+				serviceId: service.id,
+				status: {
+					in: [
+						BookingStatus.PENDING,
+						BookingStatus.CONFIRMED,
+						BookingStatus.IN_PROGRESS,
+					],
+				},
+			},
+		}),
+	]);
+
+	const check = checkServiceTransition(service.status, to, actor, {
+		price: service.price.toNumber(),
+		duration: service.duration,
+		activeAvailabilityCount,
+		openBookingCount,
+	});
+	if (!check.ok) {
+		throw new TRPCError({ code: "PRECONDITION_FAILED", message: check.reason });
+	}
+
+	const data: Prisma.ServiceUpdateManyMutationInput = { status: to };
+	if (to === ServiceStatus.PENDING_REVIEW) data.rejectionReason = null;
+	if (actor === "admin") {
+		data.reviewedAt = now;
+		data.rejectionReason =
+			to === ServiceStatus.DRAFT ? (rejectionReason ?? null) : null;
+	}
+
+	const { count } = await db.service.updateMany({
+		where: { id: service.id, status: service.status },
+		data,
+	});
+	if (count === 0) {
+		throw new TRPCError({
+			code: "CONFLICT",
+			message: "The service was changed by someone else, please retry",
+		});
+	}
+
+	if (actor === "admin") {
+		const [title, verdict] =
+			to === ServiceStatus.ACTIVE
+				? ["Service approved", "is now live"]
+				: service.status === ServiceStatus.PENDING_REVIEW
+					? ["Service not approved", "was not approved"]
+					: ["Service taken down", "was taken down"];
+		await notify(db, {
+			userId: service.providerId,
+			type: NotificationType.SYSTEM,
+			title,
+			message:
+				to !== ServiceStatus.ACTIVE && rejectionReason
+					? `"${service.title}" ${verdict}: ${rejectionReason}`
+					: `"${service.title}" ${verdict}.`,
+			data: { serviceId: service.id },
+		});
+	}
+
+	return db.service.findUniqueOrThrow({ where: { id: service.id } });
+}
@@ -0,0 +1,45 @@
+import { Prisma } from "@prisma/client";
+import { describe, expect, it } from "vitest";
+
+import {
+	canTransitionWithdrawal,
+	sumWithdrawableEarnings,
+} from "./withdrawals";
+
+const earning = (netAmount: number, currency = "USD") => ({
+	netAmount: new Prisma.Decimal(netAmount),
+	currency,
+});
+
+describe("withdrawals", () => {
+	it("should add up the net amount of the withdrawn earnings", () => {
+		const { amount, currency } = sumWithdrawableEarnings([
+			earning(72),
+			earning(54.5),
+			earning(405),
+		]);
+
+		expect(amount.toString()).toBe("531.5");
+		expect(currency).toBe("USD");
+	});
+
+	it("should refuse an empty or mixed-currency withdrawal", () => {
+		expect(() => sumWithdrawableEarnings([])).toThrow(
+			"There are no available earnings to withdraw",
+		);
+		expect(() =>
+			sumWithdrawableEarnings([earning(10), earning(10, "EUR")]),
+		).toThrow("Withdraw earnings of one currency at a time");
+	});
+
+	it("should go through PROCESSING before COMPLETED", () => {
+		expect(canTransitionWithdrawal("PENDING", "PROCESSING")).toBe(true);
+		expect(canTransitionWithdrawal("PROCESSING", "COMPLETED")).toBe(true);
+		expect(canTransitionWithdrawal("PENDING", "COMPLETED")).toBe(false);
+	});
+
+	it("should keep completed and rejected withdrawals final", () => {
+		expect(canTransitionWithdrawal("COMPLETED", "REJECTED")).toBe(false);
+		expect(canTransitionWithdrawal("REJECTED", "PROCESSING")).toBe(false);
+	});
+});
@@ -0,0 +1,199 @@
+import {
+	type Earning,
+	EarningStatus,
+	NotificationType,
+	type PaymentMethod,
+	Prisma,
+	type Withdrawal,
+	WithdrawalStatus,
+} from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+import { notify } from "./notifications";
+
+/**
+ * Allowed moves of `Withdrawal.status`. Payouts are rejected before money leaves the platform,
+ * so a COMPLETED withdrawal is final.
+ */
+export const WITHDRAWAL_STATUS_TRANSITIONS: Record<
+	WithdrawalStatus,
+	readonly WithdrawalStatus[]
+> = {
+	PENDING: ["PROCESSING", "REJECTED"],
+	PROCESSING: ["COMPLETED", "REJECTED"],
+	COMPLETED: [],
+	REJECTED: [],
+};
+
+export function canTransitionWithdrawal(
+	from: WithdrawalStatus,
+	to: WithdrawalStatus,
+): boolean {
+	return WITHDRAWAL_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/** Adds up the earnings being withdrawn; a withdrawal is paid out in a single currency. */
+export function sumWithdrawableEarnings(
+	earnings: Pick<Earning, "netAmount" | "currency">[],
+) {
+	const [first] = earnings;
+	if (!first) {
+		throw new TRPCError({
+			code: "PRECONDITION_FAILED",
+			message: "There are no available earnings to withdraw",
+		});
+	}
+	if (earnings.some((e) => e.currency !== first.currency)) {
+		throw new TRPCError({
+			code: "BAD_REQUEST",
+			message: "Withdraw earnings of one currency at a time",
+		});
+	}
+
+	return {
+		amount: earnings.reduce(
+			(sum, e) => sum.add(e.netAmount),
+			new Prisma.Decimal(0),
+		),
+		currency: first.currency,
+	};
+}
+
+export interface RequestWithdrawalInput {
+	userId: string;
+	method: PaymentMethod;
+	accountDetails?: Prisma.InputJsonObject;
+	/** Specific earnings to withdraw; all available earnings when omitted. */
+	earningIds?: string[];
+}
+
+/**
+ * Creates a withdrawal for the user's AVAILABLE earnings and marks them WITHDRAWN in the same
+ * transaction.
+ *
+ * Earnings are claimed with a compare-and-set on their status: if a concurrent request already
+ * claimed any of them, fewer rows match, the transaction rolls back and nothing is overdrawn.
+ */
+export async function requestWithdrawal(
+	db: Prisma.TransactionClient,
+	{ userId, method, accountDetails, earningIds }: RequestWithdrawalInput,
+) {
+	const earnings = await db.earning.findMany({
+		where: {
+			userId,
+			status: EarningStatus.AVAILABLE,
+			...(earningIds && { id: { in: earningIds } }),
+		},
+	});
+	if (earningIds && earnings.length !== new Set(earningIds).size) {
+		throw new TRPCError({
+			code: "PRECONDITION_FAILED",
+			message: "Some of these earnings are not available for withdrawal",
+		});
+	}
+
+	const { amount, currency } = sumWithdrawableEarnings(earnings);
+	const withdrawal = await db.withdrawal.create({
+		data: { userId, amount, currency, method, accountDetails },
+	});
+
+	const ids = earnings.map((e) => e.id);
+	const { count } = await db.earning.updateMany({
+		where: { id: { in: ids }, status: EarningStatus.AVAILABLE },
+		data: { status: EarningStatus.WITHDRAWN, withdrawalId: withdrawal.id },
+	});
+	if (count !== ids.length) {
+		throw new TRPCError({
+			code: "CONFLICT",
+			message: "Your balance changed while requesting, please retry",
+		});
+	}
+
+	return withdrawal;
+}
+
+export interface UpdateWithdrawalInput {
+	withdrawalId: string;
+	to: Exclude<WithdrawalStatus, "PENDING">;
+	transactionId?: string;
+	rejectionReason?: string;
+	now?: Date;
+}
+
+/**
+ * Moves a withdrawal through PROCESSING to COMPLETED or REJECTED on behalf of an admin. Rejecting
+ * gives the claimed earnings back to the provider's available balance.
+ */
+export async function updateWithdrawalStatus(
+	db: Prisma.TransactionClient,
+	{
+		withdrawalId,
+		to,
+		transactionId,
+		rejectionReason,
+		now = new Date(),
+	}: UpdateWithdrawalInput,
+): Promise<Withdrawal> {
+	const withdrawal = await db.withdrawal.findUnique({
+		where: { id: withdrawalId },
+	});
+	if (!withdrawal) {
+		throw new TRPCError({ code: "NOT_FOUND", message: "Withdrawal not found" });
+	}
+	if (!canTransitionWithdrawal(withdrawal.status, to)) {
+		throw new TRPCError({
+			code: "PRECONDITION_FAILED",
+			message: `Cannot move a withdrawal from ${withdrawal.status} to ${to}`,
+		});
+	}
+
+	const data: Prisma.WithdrawalUpdateManyMutationInput = { status: to };
+	if (to === WithdrawalStatus.PROCESSING) data.processedAt = now;
+	if (to === WithdrawalStatus.COMPLETED) {
+		data.completedAt = now;
+		data.transactionId = transactionId;
+	}
+	if (to === WithdrawalStatus.REJECTED) {
+		data.rejectedAt = now;
+		data.rejectionReason = rejectionReason;
+	}
+
+	const { count } = await db.withdrawal.updateMany({
+		where: { id: withdrawal.id, status: withdrawal.status },
+		data,
+	});
+	if (count === 0) {
+		throw new TRPCError({
+			code: "CONFLICT",
+			message: "The withdrawal was changed by someone else, please retry",
+		});
+	}
+
+	const payload = { withdrawalId: withdrawal.id };
+	if (to === WithdrawalStatus.COMPLETED) {
+		await notify(db, {
+			userId: withdrawal.userId,
+			type: NotificationType.WITHDRAWAL_COMPLETED,
+			title: "Withdrawal completed",
+			message: `Your withdrawal of ${withdrawal.amount.toFixed(2)} ${withdrawal.currency} has been paid out.`,
+			data: payload,
+		});
+	}
+	if (to === WithdrawalStatus.REJECTED) {
+		await db.earning.updateMany({
+			where: { withdrawalId: withdrawal.id },
+			data: { status: EarningStatus.AVAILABLE, withdrawalId: null },
+		});
+		await notify(db, {
+			userId: withdrawal.userId,
+			type: NotificationType.SYSTEM,
+			title: "Withdrawal rejected",
+			message: rejectionReason
+				? `Your withdrawal was rejected: ${rejectionReason}`
+				: "Your withdrawal was rejected.",
+			data: payload,
+		});
+	}
+
+	return db.withdrawal.findUniqueOrThrow({ where: { id: withdrawal.id } });
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+
+import { createHashedEmbeddingProvider, tokenize } from "./hashed-provider";
+import { dotProduct } from "./provider";
+
+describe("hashed embedding provider", () => {
+	const provider = createHashedEmbeddingProvider();
+
+	it("should drop filler words and trim common suffixes", () => {
+		expect(tokenize("Help with my Calculus homework!")).toEqual([
+			"calculus",
+			"homework",
+		]);
+		expect(tokenize("Tutoring classes, studies")).toEqual([
+			"tutor",
+			"classe",
+			"study",
+		]);
+	});
+
+	it("should embed the same text the same way, at unit length", async () => {
+		const [a = [], b = []] = await provider.embed([
+			"math tutoring",
+			"math tutoring",
+		]);
+
+		expect(a).toHaveLength(provider.dimensions);
+		expect(a).toEqual(b);
+		expect(dotProduct(a, a)).toBeCloseTo(1, 6);
+	});
+
+	it("should rank texts that share words above ones that do not", async () => {
+		const [query = [], tutoring = [], plumbing = []] = await provider.embed([
+			"help with my calculus homework",
+			"Advanced Math Tutoring\nalgebra, calculus, statistics\nPersonalized math tutoring for high school and college students.",
+			"Emergency Plumbing Services\n24/7 plumbing repairs, leaks and clogged drains.",
+		]);
+
+		expect(dotProduct(query, tutoring)).toBeGreaterThan(
+			provider.similarityThreshold,
+		);
+		expect(dotProduct(query, plumbing)).toBeLessThan(
+			provider.similarityThreshold,
+		);
+	});
+});
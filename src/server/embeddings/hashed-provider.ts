@@ -0,0 +1,66 @@
+import { createHash } from "node:crypto";
+
+import { type EmbeddingProvider, normalizeVector } from "./provider";
+
+/** Words too common to say anything about what a text is about. */
+const STOP_WORDS = new Set(
+	`a about an and are as at be but by for from get have help i in is it me my need of on or our
+	so that the their this to us we with you your`.split(/\s+/),
+);
+
+/** Lowercased, accent-free words with the commonest English suffixes trimmed off. */
+export function tokenize(text: string): string[] {
+	return text
+		.normalize("NFD")
+		.replace(/\p{M}/gu, "")
+		.toLowerCase()
+		.split(/[^a-z0-9]+/)
+		.filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+		.map((word) => {
+			if (word.length <= 4) return word;
+			if (word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+			if (word.endsWith("ing")) return word.slice(0, -3);
+			if (word.endsWith("ed")) return word.slice(0, -2);
+			if (word.endsWith("s") && !/(ss|us|is)$/.test(word)) {
+				return word.slice(0, -1);
+			}
+			return word;
+		});
+}
+
+/**
+ * Deterministic, offline embeddings for development and tests: a bag of words hashed into a
+ * fixed number of buckets, weighted by log term frequency. Texts only come out similar when they
+ * share words, but that is enough to exercise semantic search end to end without a model.
+ */
+export function createHashedEmbeddingProvider({
+	dimensions = 512,
+}: {
+	dimensions?: number;
+} = {}): EmbeddingProvider {
+	const embedOne = (text: string) => {
+		const counts = new Map<string, number>();
+		for (const token of tokenize(text)) {
+			counts.set(token, (counts.get(token) ?? 0) + 1);
+		}
+
+		const vector = new Array<number>(dimensions).fill(0);
+		for (const [token, count] of counts) {
+			const hash = createHash("sha256").update(token).digest();
+			const bucket = hash.readUInt32BE(0) % dimensions;
+			// A hashed sign keeps colliding words from adding up into false similarity.
+			const sign = (hash[4] ?? 0) & 1 ? -1 : 1;
+			vector[bucket] = (vector[bucket] ?? 0) + sign * (1 + Math.log(count));
+		}
+		return normalizeVector(vector);
+	};
+
+	return {
+		name: `hashed-bow-${dimensions}`,
+		dimensions,
+		similarityThreshold: 0.1,
+		async embed(texts) {
+			return texts.map(embedOne);
+		},
+	};
+}
@@ -0,0 +1,14 @@
+import { env } from "~/env";
+import { createHashedEmbeddingProvider } from "./hashed-provider";
+import type { EmbeddingProvider } from "./provider";
+
+export type { EmbeddingProvider } from "./provider";
+
+const createEmbeddingProvider = (): EmbeddingProvider => {
+	switch (env.EMBEDDING_PROVIDER) {
+		case "local":
+			return createHashedEmbeddingProvider();
+	}
+};
+
+export const embeddingProvider = createEmbeddingProvider();
@@ -0,0 +1,30 @@
+/**
+ * Contract every text embedding adapter implements. Vectors come back L2-normalised, so the
+ * cosine similarity of two of them is their dot product.
+ */
+export interface EmbeddingProvider {
+	/** Identifies the model and its vector size; vectors are only comparable under one name. */
+	readonly name: string;
+	readonly dimensions: number;
+	/**
+	 * Cosine similarity from which a service counts as related to a query. Models spread their
+	 * scores very differently, so each adapter brings its own.
+	 */
+	readonly similarityThreshold: number;
+	/** One vector per text, in order. */
+	embed(texts: string[]): Promise<number[][]>;
+}
+
+/** Scales a vector to unit length; the zero vector stays as it is. */
+export function normalizeVector(vector: number[]): number[] {
+	const length = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+	return length === 0 ? vector : vector.map((x) => x / length);
+}
+
+export function dotProduct(a: number[], b: number[]): number {
+	let sum = 0;
+	for (let i = 0; i < Math.min(a.length, b.length); i++) {
+		sum += (a[i] ?? 0) * (b[i] ?? 0);
+	}
+	return sum;
+}
@@ -0,0 +1,38 @@
+import type { GeoPoint } from "~/utils/geo";
+
+/**
+ * Contract every geocoding provider adapter implements. Addresses are free-form, as typed by
+ * users into `User.location` and `Service.location`; an address the provider cannot place comes
+ * back as null rather than throwing.
+ */
+export interface Geocoder {
+	readonly name: string;
+	geocode(address: string): Promise<GeocodeResult | null>;
+	/** The closest known place to a point, e.g. to label the customer's current position. */
+	reverseGeocode(point: GeoPoint): Promise<GeocodeResult | null>;
+}
+
+export interface GeocodeResult extends GeoPoint {
+	/** Display name of the matched place, e.g. "Seattle, WA, US". */
+	label: string;
+	city: string;
+	region: string | null;
+	postcode: string | null;
+	/** ISO 3166-1 alpha-2 country code. */
+	country: string;
+}
+
+/**
+ * Coordinates to store next to a free-form `location` column. Clearing the location clears them,
+ * and an address the geocoder cannot place stores nulls so stale coordinates never linger.
+ */
+export async function coordinatesFor(
+	geocoder: Geocoder,
+	location: string | null,
+): Promise<{ latitude: number | null; longitude: number | null }> {
+	const result = location ? await geocoder.geocode(location) : null;
+	return {
+		latitude: result?.latitude ?? null,
+		longitude: result?.longitude ?? null,
+	};
+}
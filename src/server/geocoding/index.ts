@@ -0,0 +1,14 @@
+import { env } from "~/env";
+import type { Geocoder } from "./geocoder";
+import { createLocalGeocoder } from "./local-geocoder";
+
+export { coordinatesFor, type Geocoder } from "./geocoder";
+
+const createGeocoder = (): Geocoder => {
+	switch (env.GEOCODING_PROVIDER) {
+		case "local":
+			return createLocalGeocoder();
+	}
+};
+
+export const geocoder = createGeocoder();
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+
+import { coordinatesFor } from "./geocoder";
+import { createLocalGeocoder } from "./local-geocoder";
+
+describe("local geocoder", () => {
+	const geocoder = createLocalGeocoder();
+
+	it("should place an address by the city it names", async () => {
+		const result = await geocoder.geocode("123 Pine St, Seattle, WA");
+
+		expect(result).toMatchObject({
+			city: "Seattle",
+			region: "WA",
+			country: "US",
+			label: "Seattle, WA, US",
+			postcode: null,
+		});
+	});
+
+	it("should ignore accents and prefer the city the region agrees with", async () => {
+		expect(
+			await geocoder.geocode("Av. Paulista, 1000, Sao Paulo - SP"),
+		).toMatchObject({ city: "São Paulo", country: "BR" });
+		expect(await geocoder.geocode("Seattle, Washington")).toMatchObject({
+			city: "Seattle",
+		});
+		expect(await geocoder.geocode("Brooklyn, New York")).toMatchObject({
+			city: "Brooklyn",
+		});
+	});
+
+	it("should place a postcode by its prefix", async () => {
+		expect(await geocoder.geocode("94103")).toMatchObject({
+			city: "San Francisco",
+			postcode: "94103",
+		});
+		expect(await geocoder.geocode("CEP 01310-100")).toMatchObject({
+			city: "São Paulo",
+			postcode: "01310100",
+		});
+	});
+
+	it("should trust a named city over a house number that looks like a postcode", async () => {
+		expect(await geocoder.geocode("10001 Main St, Austin, TX")).toMatchObject({
+			city: "Austin",
+			postcode: null,
+		});
+	});
+
+	it("should return null for places it does not know", async () => {
+		expect(await geocoder.geocode("Middle of nowhere")).toBeNull();
+		expect(await geocoder.geocode("  ")).toBeNull();
+	});
+
+	it("should reverse-geocode to the nearest city within range", async () => {
+		expect(
+			await geocoder.reverseGeocode({ latitude: 37.78, longitude: -122.41 }),
+		).toMatchObject({ city: "San Francisco" });
+		expect(
+			await geocoder.reverseGeocode({ latitude: 0, longitude: 0 }),
+		).toBeNull();
+	});
+
+	it("should store null coordinates for unknown or cleared locations", async () => {
+		expect(await coordinatesFor(geocoder, "Boston, MA")).toEqual({
+			latitude: 42.3601,
+			longitude: -71.0589,
+		});
+		expect(await coordinatesFor(geocoder, "Atlantis")).toEqual({
+			latitude: null,
+			longitude: null,
+		});
+		expect(await coordinatesFor(geocoder, null)).toEqual({
+			latitude: null,
+			longitude: null,
+		});
+	});
+});
@@ -0,0 +1,139 @@
+import { type GeoPoint, distanceKm } from "~/utils/geo";
+
+import type { GeocodeResult, Geocoder } from "./geocoder";
+import {
+	COUNTRY_NAMES,
+	PLACES,
+	POSTCODE_FORMATS,
+	type Place,
+	REGION_NAMES,
+} from "./places";
+
+/** Points farther than this from every known place reverse-geocode to nothing. */
+export const REVERSE_GEOCODE_MAX_KM = 50;
+
+/** Lowercases, drops accents and collapses punctuation, so "São Paulo," matches "sao paulo". */
+function normalize(text: string) {
+	return text
+		.normalize("NFD")
+		.replace(/\p{M}/gu, "")
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, " ")
+		.trim();
+}
+
+function toResult(place: Place, postcode: string | null): GeocodeResult {
+	return {
+		latitude: place.latitude,
+		longitude: place.longitude,
+		label: [place.city, place.region, place.country].filter(Boolean).join(", "),
+		city: place.city,
+		region: place.region,
+		postcode,
+		country: place.country,
+	};
+}
+
+/**
+ * Offline geocoder backed by a bundled table of cities (see `PLACES`). It resolves an address to
+ * the centre of the city it names, or of the city a postcode in it belongs to, which is precise
+ * enough for radius search in development, tests and regions no provider is configured for.
+ */
+export function createLocalGeocoder({
+	places = PLACES,
+}: {
+	places?: readonly Place[];
+} = {}): Geocoder {
+	/** How strongly the rest of the address agrees with `place`: its region and country named. */
+	function contextScore(place: Place, padded: string, matchedName: string) {
+		const mentions = (name: string) => padded.includes(` ${normalize(name)} `);
+		const regionNames = place.region
+			? [place.region, REGION_NAMES[`${place.country}-${place.region}`] ?? ""]
+			: [];
+		// "Brooklyn, New York" names the state, not the city of New York.
+		const regionMentioned = regionNames.some(
+			(name) => name && normalize(name) !== matchedName && mentions(name),
+		);
+		const countryMentioned = [
+			place.country,
+			...(COUNTRY_NAMES[place.country] ?? []),
+		].some(mentions);
+		return Number(regionMentioned) + Number(countryMentioned);
+	}
+
+	function byPostcode(address: string, padded: string) {
+		const tokens = address
+			.toUpperCase()
+			.split(/[\s,;/]+/)
+			.map((token) => token.replace(/[-.]/g, ""));
+
+		let best: { place: Place; postcode: string; score: number } | null = null;
+		for (const token of tokens) {
+			for (const place of places) {
+				const format = POSTCODE_FORMATS[place.country];
+				if (!format?.test(token)) continue;
+
+				const prefix = place.postcodePrefixes?.find((p) => token.startsWith(p));
+				if (!prefix) continue;
+
+				// Longer prefixes are more specific; the address's context breaks ties.
+				const score = prefix.length * 10 + contextScore(place, padded, "");
+				if (!best || score > best.score) {
+					best = { place, postcode: token, score };
+				}
+			}
+		}
+		return best;
+	}
+
+	function byName(padded: string) {
+		let best: { place: Place; score: number; length: number } | null = null;
+		for (const place of places) {
+			const matched = [place.city, ...(place.aliases ?? [])]
+				.map(normalize)
+				.filter((name) => padded.includes(` ${name} `))
+				.sort((a, b) => b.length - a.length)[0];
+			if (!matched) continue;
+
+			const score = contextScore(place, padded, matched);
+			if (
+				!best ||
+				score > best.score ||
+				(score === best.score && matched.length > best.length)
+			) {
+				best = { place, score, length: matched.length };
+			}
+		}
+		return best?.place ?? null;
+	}
+
+	return {
+		name: "local",
+
+		async geocode(address) {
+			const padded = ` ${normalize(address)} `;
+			if (!padded.trim()) return null;
+
+			const named = byName(padded);
+			const postcodeMatch = byPostcode(address, padded);
+			// A house number can look like a postcode, so a city named outright wins a disagreement.
+			if (postcodeMatch && (!named || named === postcodeMatch.place)) {
+				return toResult(postcodeMatch.place, postcodeMatch.postcode);
+			}
+			return named ? toResult(named, null) : null;
+		},
+
+		async reverseGeocode(point: GeoPoint) {
+			let nearest: { place: Place; distance: number } | null = null;
+			for (const place of places) {
+				const distance = distanceKm(point, place);
+				if (!nearest || distance < nearest.distance) {
+					nearest = { place, distance };
+				}
+			}
+			return nearest && nearest.distance <= REVERSE_GEOCODE_MAX_KM
+				? toResult(nearest.place, null)
+				: null;
+		},
+	};
+}
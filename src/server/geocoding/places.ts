@@ -0,0 +1,305 @@
+/**
+ * The place table bundled with the local geocoder: the cities the marketplace launched in, with
+ * city-centre coordinates and the postcode prefixes that belong to each. Ordered so that, when an
+ * address names a city ambiguously, the larger one comes first.
+ */
+
+export interface Place {
+	city: string;
+	/** State or province code, e.g. "WA" or "SP". */
+	region: string | null;
+	/** ISO 3166-1 alpha-2 country code. */
+	country: string;
+	latitude: number;
+	longitude: number;
+	/** Other names the city goes by, e.g. "NYC". */
+	aliases?: string[];
+	/** Postcodes starting with any of these belong to the city. */
+	postcodePrefixes?: string[];
+}
+
+/** Postcode shapes by country, after spaces and hyphens are stripped. */
+export const POSTCODE_FORMATS: Record<string, RegExp> = {
+	US: /^\d{5}(\d{4})?$/,
+	BR: /^\d{8}$/,
+};
+
+/** Names an address may use for a country, besides its code. */
+export const COUNTRY_NAMES: Record<string, string[]> = {
+	US: ["USA", "United States", "United States of America"],
+	BR: ["Brazil", "Brasil"],
+	GB: ["UK", "United Kingdom", "England"],
+	CA: ["Canada"],
+	PT: ["Portugal"],
+	MX: ["Mexico", "México"],
+};
+
+/** Full names an address may use for a region, keyed by `${country}-${region}`. */
+export const REGION_NAMES: Record<string, string> = {
+	"US-AZ": "Arizona",
+	"US-CA": "California",
+	"US-CO": "Colorado",
+	"US-DC": "District of Columbia",
+	"US-FL": "Florida",
+	"US-GA": "Georgia",
+	"US-IL": "Illinois",
+	"US-MA": "Massachusetts",
+	"US-NY": "New York",
+	"US-OR": "Oregon",
+	"US-PA": "Pennsylvania",
+	"US-TX": "Texas",
+	"US-WA": "Washington",
+	"BR-DF": "Distrito Federal",
+	"BR-MG": "Minas Gerais",
+	"BR-PR": "Paraná",
+	"BR-RJ": "Rio de Janeiro",
+	"BR-RS": "Rio Grande do Sul",
+	"BR-SP": "São Paulo",
+	"CA-ON": "Ontario",
+};
+
+export const PLACES: readonly Place[] = [
+	{
+		city: "New York",
+		region: "NY",
+		country: "US",
+		latitude: 40.7128,
+		longitude: -74.006,
+		aliases: ["New York City", "NYC", "Manhattan"],
+		postcodePrefixes: ["100", "101", "102"],
+	},
+	{
+		city: "Brooklyn",
+		region: "NY",
+		country: "US",
+		latitude: 40.6782,
+		longitude: -73.9442,
+		postcodePrefixes: ["112"],
+	},
+	{
+		city: "Los Angeles",
+		region: "CA",
+		country: "US",
+		latitude: 34.0522,
+		longitude: -118.2437,
+		postcodePrefixes: ["900"],
+	},
+	{
+		city: "Chicago",
+		region: "IL",
+		country: "US",
+		latitude: 41.8781,
+		longitude: -87.6298,
+		postcodePrefixes: ["606"],
+	},
+	{
+		city: "Houston",
+		region: "TX",
+		country: "US",
+		latitude: 29.7604,
+		longitude: -95.3698,
+		postcodePrefixes: ["770"],
+	},
+	{
+		city: "Phoenix",
+		region: "AZ",
+		country: "US",
+		latitude: 33.4484,
+		longitude: -112.074,
+		postcodePrefixes: ["850"],
+	},
+	{
+		city: "Philadelphia",
+		region: "PA",
+		country: "US",
+		latitude: 39.9526,
+		longitude: -75.1652,
+		postcodePrefixes: ["191"],
+	},
+	{
+		city: "San Diego",
+		region: "CA",
+		country: "US",
+		latitude: 32.7157,
+		longitude: -117.1611,
+		postcodePrefixes: ["921"],
+	},
+	{
+		city: "Dallas",
+		region: "TX",
+		country: "US",
+		latitude: 32.7767,
+		longitude: -96.797,
+		postcodePrefixes: ["752"],
+	},
+	{
+		city: "Austin",
+		region: "TX",
+		country: "US",
+		latitude: 30.2672,
+		longitude: -97.7431,
+		postcodePrefixes: ["787"],
+	},
+	{
+		city: "San Jose",
+		region: "CA",
+		country: "US",
+		latitude: 37.3382,
+		longitude: -121.8863,
+		postcodePrefixes: ["951"],
+	},
+	{
+		city: "San Francisco",
+		region: "CA",
+		country: "US",
+		latitude: 37.7749,
+		longitude: -122.4194,
+		aliases: ["SF"],
+		postcodePrefixes: ["941"],
+	},
+	{
+		city: "Oakland",
+		region: "CA",
+		country: "US",
+		latitude: 37.8044,
+		longitude: -122.2712,
+		postcodePrefixes: ["946"],
+	},
+	{
+		city: "Seattle",
+		region: "WA",
+		country: "US",
+		latitude: 47.6062,
+		longitude: -122.3321,
+		postcodePrefixes: ["981"],
+	},
+	{
+		city: "Denver",
+		region: "CO",
+		country: "US",
+		latitude: 39.7392,
+		longitude: -104.9903,
+		postcodePrefixes: ["802"],
+	},
+	{
+		city: "Washington",
+		region: "DC",
+		country: "US",
+		latitude: 38.9072,
+		longitude: -77.0369,
+		aliases: ["Washington DC"],
+		postcodePrefixes: ["200"],
+	},
+	{
+		city: "Boston",
+		region: "MA",
+		country: "US",
+		latitude: 42.3601,
+		longitude: -71.0589,
+		postcodePrefixes: ["021"],
+	},
+	{
+		city: "Portland",
+		region: "OR",
+		country: "US",
+		latitude: 45.5152,
+		longitude: -122.6784,
+		postcodePrefixes: ["972"],
+	},
+	{
+		city: "Atlanta",
+		region: "GA",
+		country: "US",
+		latitude: 33.749,
+		longitude: -84.388,
+		postcodePrefixes: ["303"],
+	},
+	{
+		city: "Miami",
+		region: "FL",
+		country: "US",
+		latitude: 25.7617,
+		longitude: -80.1918,
+		postcodePrefixes: ["331"],
+	},
+	{
+		city: "São Paulo",
+		region: "SP",
+		country: "BR",
+		latitude: -23.5505,
+		longitude: -46.6333,
+		aliases: ["Sao Paulo", "Sampa"],
+		postcodePrefixes: ["01", "02", "03", "04", "05", "08"],
+	},
+	{
+		city: "Rio de Janeiro",
+		region: "RJ",
+		country: "BR",
+		latitude: -22.9068,
+		longitude: -43.1729,
+		aliases: ["Rio"],
+		postcodePrefixes: ["20", "21", "22", "23"],
+	},
+	{
+		city: "Brasília",
+		region: "DF",
+		country: "BR",
+		latitude: -15.7939,
+		longitude: -47.8828,
+		postcodePrefixes: ["70", "71", "72", "73"],
+	},
+	{
+		city: "Belo Horizonte",
+		region: "MG",
+		country: "BR",
+		latitude: -19.9167,
+		longitude: -43.9345,
+		postcodePrefixes: ["30", "31"],
+	},
+	{
+		city: "Curitiba",
+		region: "PR",
+		country: "BR",
+		latitude: -25.4284,
+		longitude: -49.2733,
+		postcodePrefixes: ["80", "81", "82"],
+	},
+	{
+		city: "Porto Alegre",
+		region: "RS",
+		country: "BR",
+		latitude: -30.0346,
+		longitude: -51.2177,
+		postcodePrefixes: ["90", "91"],
+	},
+	{
+		city: "Mexico City",
+		region: null,
+		country: "MX",
+		latitude: 19.4326,
+		longitude: -99.1332,
+		aliases: ["Ciudad de México", "CDMX"],
+	},
+	{
+		city: "London",
+		region: null,
+		country: "GB",
+		latitude: 51.5074,
+		longitude: -0.1278,
+	},
+	{
+		city: "Toronto",
+		region: "ON",
+		country: "CA",
+		latitude: 43.6532,
+		longitude: -79.3832,
+	},
+	{
+		city: "Lisbon",
+		region: null,
+		country: "PT",
+		latitude: 38.7223,
+		longitude: -9.1393,
+		aliases: ["Lisboa"],
+	},
+];
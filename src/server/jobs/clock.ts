@@ -0,0 +1,28 @@
+/** Where the job runner gets the time from, so tests can move it forward by hand. */
+export interface Clock {
+	now(): Date;
+}
+
+export const systemClock: Clock = {
+	now: () => new Date(),
+};
+
+export interface FakeClock extends Clock {
+	/** Moves the time forward by `ms`. */
+	advance(ms: number): void;
+	set(time: Date): void;
+}
+
+/** A clock that stands still until told otherwise. */
+export function createFakeClock(start: Date): FakeClock {
+	let time = start.getTime();
+	return {
+		now: () => new Date(time),
+		advance(ms) {
+			time += ms;
+		},
+		set(to) {
+			time = to.getTime();
+		},
+	};
+}
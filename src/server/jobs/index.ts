@@ -0,0 +1,39 @@
+import { env } from "~/env";
+import { db } from "~/server/db";
+import { embeddingProvider } from "~/server/embeddings";
+import { notificationChannels } from "~/server/notifications";
+import { paymentGateway } from "~/server/payments";
+
+import { MARKETPLACE_SCHEDULES, marketplaceJobHandlers } from "./marketplace";
+import { createPrismaJobStore } from "./prisma-store";
+import { createJobRunner } from "./runner";
+
+export { enqueueJob } from "./prisma-store";
+export type { JobHandler, JobHandlers, RecurringJob } from "./runner";
+export type { NewJob } from "./store";
+
+const createRunner = () =>
+	createJobRunner({
+		store: createPrismaJobStore(db),
+		handlers: marketplaceJobHandlers({
+			db,
+			channels: notificationChannels,
+			embeddings: embeddingProvider,
+			gateway: paymentGateway,
+		}),
+		schedules: MARKETPLACE_SCHEDULES,
+		pollIntervalMs: env.JOB_POLL_INTERVAL_MS,
+	});
+
+// Kept across hot reloads, so a dev server never ends up with two loops running.
+const globalForJobs = globalThis as unknown as {
+	jobRunner: ReturnType<typeof createRunner> | undefined;
+};
+
+/**
+ * This process's runner. The web server starts it when `JOB_RUNNER` is "inprocess"; otherwise
+ * `npm run worker` does, or `/api/cron/run-jobs` ticks it.
+ */
+export const jobRunner = globalForJobs.jobRunner ?? createRunner();
+
+if (env.NODE_ENV !== "production") globalForJobs.jobRunner = jobRunner;
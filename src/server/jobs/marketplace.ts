@@ -0,0 +1,107 @@
+import type { PrismaClient } from "@prisma/client";
+
+import {
+	NO_SHOW_SETTLE_JOB,
+	autoCompleteBookings,
+	expireUnpaidBookings,
+	settleNoShow,
+} from "~/server/domain/booking-lifecycle";
+import {
+	BOOKING_REMINDER_JOB,
+	NO_SHOW_CHECK_JOB,
+	sendBookingReminder,
+	startNoShowCheck,
+} from "~/server/domain/booking-reminders";
+import { releaseEscrowedEarnings } from "~/server/domain/escrow";
+import {
+	deliverPendingNotifications,
+	sendNotificationDigests,
+} from "~/server/domain/notifications";
+import { REFUND_JOB, runRefundJob } from "~/server/domain/payments";
+import { revealExpiredReviews } from "~/server/domain/reviews";
+import {
+	CATEGORY_REINDEX_JOB,
+	reindexCategoryEmbeddings,
+	reindexServiceEmbeddings,
+} from "~/server/domain/service-embeddings";
+import type { EmbeddingProvider } from "~/server/embeddings";
+import type { NotificationChannels } from "~/server/notifications";
+import type { PaymentGateway } from "~/server/payments";
+import { withSettledEvents } from "~/server/realtime";
+
+import { pruneFinishedJobs } from "./prisma-store";
+import type { JobHandlers, RecurringJob } from "./runner";
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/** How long finished jobs are kept for reference before `jobs.prune` deletes them. */
+const FINISHED_JOB_RETENTION_MS = 7 * DAY;
+
+/**
+ * The marketplace's time-based work. Each handler runs like a tRPC procedure: live events it
+ * raises (e.g. unread counts from `notify`) go out once its transactions have committed.
+ */
+export function marketplaceJobHandlers({
+	db,
+	channels,
+	embeddings,
+	gateway,
+}: {
+	db: PrismaClient;
+	channels: NotificationChannels;
+	embeddings: EmbeddingProvider;
+	gateway: PaymentGateway;
+}): JobHandlers {
+	const handlers: JobHandlers = {
+		"escrow.release": async (_, { now }) => releaseEscrowedEarnings(db, now),
+		"reviews.reveal": async (_, { now }) => revealExpiredReviews(db, now),
+		"bookings.autoComplete": async (_, { now }) =>
+			autoCompleteBookings(db, now),
+		"bookings.expireUnpaid": async (_, { now }) =>
+			expireUnpaidBookings(db, now),
+		[BOOKING_REMINDER_JOB]: async (payload, { now }) =>
+			sendBookingReminder(db, payload, now),
+		[NO_SHOW_CHECK_JOB]: async (payload, { now }) =>
+			startNoShowCheck(db, payload, now),
+		[NO_SHOW_SETTLE_JOB]: async (payload, { now }) =>
+			settleNoShow(db, payload, now),
+		[REFUND_JOB]: async (payload, { now }) =>
+			runRefundJob(db, gateway, payload, now),
+		"notifications.deliver": async (_, { now }) =>
+			deliverPendingNotifications(db, channels, { now }),
+		"notifications.digest": async (_, { now }) =>
+			sendNotificationDigests(db, channels.EMAIL, { now }),
+		"embeddings.reindex": async () => reindexServiceEmbeddings(db, embeddings),
+		[CATEGORY_REINDEX_JOB]: async (payload) =>
+			reindexCategoryEmbeddings(db, embeddings, payload),
+		"jobs.prune": async (_, { now }) =>
+			pruneFinishedJobs(
+				db,
+				new Date(now.getTime() - FINISHED_JOB_RETENTION_MS),
+			),
+	};
+
+	return Object.fromEntries(
+		Object.entries(handlers).map(([name, handler]) => [
+			name,
+			(payload, context) => withSettledEvents(() => handler(payload, context)),
+		]),
+	);
+}
+
+/**
+ * How often each recurring job runs. Digests are due at the top of the hour but are checked
+ * more often, so those held back by quiet hours go out soon after they end.
+ */
+export const MARKETPLACE_SCHEDULES: RecurringJob[] = [
+	{ name: "notifications.deliver", everyMs: MINUTE },
+	{ name: "notifications.digest", everyMs: 15 * MINUTE },
+	{ name: "bookings.expireUnpaid", everyMs: 15 * MINUTE },
+	{ name: "bookings.autoComplete", everyMs: 15 * MINUTE },
+	{ name: "escrow.release", everyMs: HOUR },
+	{ name: "reviews.reveal", everyMs: HOUR },
+	{ name: "embeddings.reindex", everyMs: DAY },
+	{ name: "jobs.prune", everyMs: DAY },
+];
@@ -0,0 +1,125 @@
+import { randomUUID } from "node:crypto";
+
+import { type Job, JobStatus, type Prisma } from "@prisma/client";
+
+import { DEFAULT_MAX_ATTEMPTS, type JobStore, STALE_JOB_ERROR } from "./store";
+
+export interface MemoryJobStore extends JobStore {
+	/** Every job ever enqueued, oldest first, for tests to inspect. */
+	all(): Job[];
+}
+
+/**
+ * Keeps jobs in this process only. Used by the test harness; the app always runs on Postgres so
+ * that jobs survive restarts and can be shared between runners.
+ */
+export function createMemoryJobStore(): MemoryJobStore {
+	const jobs: Job[] = [];
+	// Hand out copies, like a database would, so callers cannot change stored jobs by accident.
+	const copy = (job: Job): Job => structuredClone(job);
+	const held = (job: Job) =>
+		jobs.find(
+			(stored) =>
+				stored.id === job.id &&
+				stored.status === JobStatus.RUNNING &&
+				stored.lockedBy === job.lockedBy,
+		);
+
+	return {
+		name: "memory",
+
+		all: () => jobs.map(copy),
+
+		async enqueue(job, now) {
+			const existing =
+				job.idempotencyKey &&
+				jobs.find((stored) => stored.idempotencyKey === job.idempotencyKey);
+			if (existing) return copy(existing);
+
+			const created: Job = {
+				id: randomUUID(),
+				name: job.name,
+				// What a JSON column would give back.
+				payload: structuredClone(job.payload ?? {}) as Prisma.JsonObject,
+				status: JobStatus.PENDING,
+				idempotencyKey: job.idempotencyKey ?? null,
+				runAt: job.runAt ?? now,
+				attempts: 0,
+				maxAttempts: job.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+				lockedAt: null,
+				lockedBy: null,
+				lastError: null,
+				finishedAt: null,
+				createdAt: now,
+				updatedAt: now,
+			};
+			jobs.push(created);
+			return copy(created);
+		},
+
+		async claim(workerId, now, limit) {
+			const due = jobs
+				.filter((job) => job.status === JobStatus.PENDING && job.runAt <= now)
+				.sort((a, b) => a.runAt.getTime() - b.runAt.getTime())
+				.slice(0, limit);
+			for (const job of due) {
+				Object.assign(job, {
+					status: JobStatus.RUNNING,
+					lockedAt: now,
+					lockedBy: workerId,
+					attempts: job.attempts + 1,
+					updatedAt: now,
+				});
+			}
+			return due.map(copy);
+		},
+
+		async succeed(job, now) {
+			const stored = held(job);
+			if (!stored) return;
+			Object.assign(stored, {
+				status: JobStatus.SUCCEEDED,
+				lockedAt: null,
+				lockedBy: null,
+				lastError: null,
+				finishedAt: now,
+				updatedAt: now,
+			});
+		},
+
+		async fail(job, error, retryAt, now) {
+			const stored = held(job);
+			if (!stored) return;
+			Object.assign(stored, {
+				status: retryAt ? JobStatus.PENDING : JobStatus.DEAD,
+				runAt: retryAt ?? stored.runAt,
+				lockedAt: null,
+				lockedBy: null,
+				lastError: error,
+				finishedAt: retryAt ? null : now,
+				updatedAt: now,
+			});
+		},
+
+		async releaseStale(lockedBefore, now) {
+			const stale = jobs.filter(
+				(job) =>
+					job.status === JobStatus.RUNNING &&
+					job.lockedAt !== null &&
+					job.lockedAt < lockedBefore,
+			);
+			for (const job of stale) {
+				const dead = job.attempts >= job.maxAttempts;
+				Object.assign(job, {
+					status: dead ? JobStatus.DEAD : JobStatus.PENDING,
+					lockedAt: null,
+					lockedBy: null,
+					lastError: STALE_JOB_ERROR,
+					finishedAt: dead ? now : null,
+					updatedAt: now,
+				});
+			}
+			return stale.length;
+		},
+	};
+}
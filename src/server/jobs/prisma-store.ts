@@ -0,0 +1,146 @@
+import {
+	type Job,
+	JobStatus,
+	type Prisma,
+	type PrismaClient,
+} from "@prisma/client";
+
+import {
+	DEFAULT_MAX_ATTEMPTS,
+	type JobStore,
+	type NewJob,
+	STALE_JOB_ERROR,
+} from "./store";
+
+/**
+ * Adds a job to the queue. Takes a transaction client so domain code can enqueue follow-up
+ * work in the same transaction as the change that calls for it.
+ */
+export async function enqueueJob(
+	db: Prisma.TransactionClient,
+	job: NewJob,
+	now = new Date(),
+) {
+	const data = {
+		name: job.name,
+		payload: job.payload ?? {},
+		runAt: job.runAt ?? now,
+		idempotencyKey: job.idempotencyKey,
+		maxAttempts: job.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+	};
+	if (!job.idempotencyKey) {
+		return db.job.create({ data });
+	}
+	// ON CONFLICT DO NOTHING, so two runners scheduling the same slot do not trip over each other.
+	await db.job.createMany({ data: [data], skipDuplicates: true });
+	return db.job.findUniqueOrThrow({
+		where: { idempotencyKey: job.idempotencyKey },
+	});
+}
+
+/** Deletes jobs that finished before `before`; dead letters stay until staff deal with them. */
+export async function pruneFinishedJobs(db: PrismaClient, before: Date) {
+	const { count } = await db.job.deleteMany({
+		where: {
+			status: { in: [JobStatus.SUCCEEDED, JobStatus.DISCARDED] },
+			finishedAt: { lt: before },
+		},
+	});
+	return count;
+}
+
+/** Keeps jobs in the `Job` table; `SKIP LOCKED` lets runners claim without waiting on each other. */
+export function createPrismaJobStore(db: PrismaClient): JobStore {
+	return {
+		name: "postgres",
+
+		enqueue: (job, now) => enqueueJob(db, job, now),
+
+		async claim(workerId, now, limit) {
+			const jobs = await db.$queryRaw<Job[]>`
+				UPDATE "Job"
+				SET "status" = 'RUNNING', "lockedAt" = ${now}, "lockedBy" = ${workerId},
+					"attempts" = "attempts" + 1, "updatedAt" = ${now}
+				WHERE "id" IN (
+					SELECT "id" FROM "Job"
+					WHERE "status" = 'PENDING' AND "runAt" <= ${now}
+					ORDER BY "runAt"
+					LIMIT ${limit}
+					FOR UPDATE SKIP LOCKED
+				)
+				RETURNING *`;
+			return jobs.sort((a, b) => a.runAt.getTime() - b.runAt.getTime());
+		},
+
+		async succeed(job, now) {
+			await db.job.updateMany({
+				where: {
+					id: job.id,
+					status: JobStatus.RUNNING,
+					lockedBy: job.lockedBy,
+				},
+				data: {
+					status: JobStatus.SUCCEEDED,
+					lockedAt: null,
+					lockedBy: null,
+					lastError: null,
+					finishedAt: now,
+				},
+			});
+		},
+
+		async fail(job, error, retryAt, now) {
+			await db.job.updateMany({
+				where: {
+					id: job.id,
+					status: JobStatus.RUNNING,
+					lockedBy: job.lockedBy,
+				},
+				data: retryAt
+					? {
+							status: JobStatus.PENDING,
+							runAt: retryAt,
+							lockedAt: null,
+							lockedBy: null,
+							lastError: error,
+						}
+					: {
+							status: JobStatus.DEAD,
+							lockedAt: null,
+							lockedBy: null,
+							lastError: error,
+							finishedAt: now,
+						},
+			});
+		},
+
+		async releaseStale(lockedBefore, now) {
+			const stale = {
+				status: JobStatus.RUNNING,
+				lockedAt: { lt: lockedBefore },
+			};
+			const [dead, released] = await db.$transaction([
+				db.job.updateMany({
+					where: { ...stale, attempts: { gte: db.job.fields.maxAttempts } },
+					data: {
+						status: JobStatus.DEAD,
+						lockedAt: null,
+						lockedBy: null,
+						lastError: STALE_JOB_ERROR,
+						finishedAt: now,
+					},
+				}),
+				db.job.updateMany({
+					where: stale,
+					data: {
+						status: JobStatus.PENDING,
+						lockedAt: null,
+						lockedBy: null,
+						lastError: STALE_JOB_ERROR,
+					},
+				}),
+			]);
+			return dead.count + released.count;
+		},
+	};
+}
@@ -0,0 +1,208 @@
+import { JobStatus } from "@prisma/client";
+import { describe, expect, it, vi } from "vitest";
+
+import { retryDelayMs, scheduleSlot } from "./runner";
+import { STALE_JOB_ERROR } from "./store";
+import { createJobHarness } from "./testing";
+
+const HOUR = 60 * 60_000;
+
+describe("retryDelayMs", () => {
+	it("should double the wait after each failed attempt, up to an hour", () => {
+		expect(retryDelayMs(1)).toBe(30_000);
+		expect(retryDelayMs(2)).toBe(60_000);
+		expect(retryDelayMs(3)).toBe(120_000);
+		expect(retryDelayMs(20)).toBe(HOUR);
+	});
+});
+
+describe("scheduleSlot", () => {
+	it("should round down to the start of the period", () => {
+		expect(
+			scheduleSlot(new Date("2030-01-01T10:37:12.000Z"), 15 * 60_000),
+		).toEqual(new Date("2030-01-01T10:30:00.000Z"));
+	});
+});
+
+describe("job runner", () => {
+	it("should run a job once it is due, and only once", async () => {
+		const handler = vi.fn(async () => {});
+		const harness = createJobHarness({ handlers: { greet: handler } });
+		const runAt = new Date(harness.clock.now().getTime() + 60_000);
+		await harness.enqueue({ name: "greet", payload: { to: "Ada" }, runAt });
+
+		await harness.advance(59_000);
+		expect(handler).not.toHaveBeenCalled();
+
+		await harness.advance(10_000);
+		expect(handler).toHaveBeenCalledTimes(1);
+		expect(handler).toHaveBeenCalledWith(
+			{ to: "Ada" },
+			expect.objectContaining({ now: runAt }),
+		);
+		expect(harness.store.all()[0]).toMatchObject({
+			status: JobStatus.SUCCEEDED,
+			attempts: 1,
+			finishedAt: runAt,
+		});
+	});
+
+	it("should retry a failing job with backoff until it succeeds", async () => {
+		let calls = 0;
+		const harness = createJobHarness({
+			handlers: {
+				flaky: async () => {
+					calls++;
+					if (calls < 3) throw new Error(`failure ${calls}`);
+				},
+			},
+		});
+		await harness.enqueue({ name: "flaky" });
+
+		await harness.advance(0);
+		expect(calls).toBe(1);
+		expect(harness.store.all()[0]).toMatchObject({
+			status: JobStatus.PENDING,
+			lastError: "failure 1",
+		});
+
+		await harness.advance(29_000);
+		expect(calls).toBe(1);
+		await harness.advance(1000);
+		expect(calls).toBe(2);
+
+		await harness.advance(60_000);
+		expect(calls).toBe(3);
+		expect(harness.store.all()[0]).toMatchObject({
+			status: JobStatus.SUCCEEDED,
+			attempts: 3,
+			lastError: null,
+		});
+	});
+
+	it("should move a job to the dead letters when it runs out of attempts", async () => {
+		const handler = vi.fn(async () => {
+			throw new Error("gateway unavailable");
+		});
+		const harness = createJobHarness({ handlers: { charge: handler } });
+		await harness.enqueue({ name: "charge", maxAttempts: 3 });
+
+		await harness.advance(HOUR);
+
+		expect(handler).toHaveBeenCalledTimes(3);
+		expect(harness.store.all()[0]).toMatchObject({
+			status: JobStatus.DEAD,
+			attempts: 3,
+			lastError: "gateway unavailable",
+		});
+	});
+
+	it("should dead-letter a job without a handler straight away", async () => {
+		const harness = createJobHarness({ handlers: {} });
+		await harness.enqueue({ name: "missing" });
+
+		await harness.advance(0);
+
+		expect(harness.store.all()[0]).toMatchObject({
+			status: JobStatus.DEAD,
+			attempts: 1,
+			lastError: 'No handler for job "missing"',
+		});
+	});
+
+	it("should keep one job per idempotency key", async () => {
+		const handler = vi.fn(async () => {});
+		const harness = createJobHarness({ handlers: { remind: handler } });
+
+		const first = await harness.enqueue({
+			name: "remind",
+			idempotencyKey: "remind:booking-1",
+		});
+		await harness.advance(0);
+		const second = await harness.enqueue({
+			name: "remind",
+			idempotencyKey: "remind:booking-1",
+		});
+		await harness.advance(0);
+
+		expect(second.id).toBe(first.id);
+		expect(harness.store.all()).toHaveLength(1);
+		expect(handler).toHaveBeenCalledTimes(1);
+	});
+
+	it("should run a recurring job once per period", async () => {
+		const handler = vi.fn(async () => {});
+		const harness = createJobHarness({
+			handlers: { sweep: handler },
+			schedules: [{ name: "sweep", everyMs: HOUR }],
+			start: new Date("2030-01-01T10:30:00.000Z"),
+			pollIntervalMs: 60_000,
+		});
+
+		await harness.advance(3 * HOUR);
+
+		// The period already under way when the runner started, then 11:00, 12:00 and 13:00.
+		expect(handler.mock.calls.map(([, { now }]) => now.toISOString())).toEqual([
+			"2030-01-01T10:30:00.000Z",
+			"2030-01-01T11:00:00.000Z",
+			"2030-01-01T12:00:00.000Z",
+			"2030-01-01T13:00:00.000Z",
+		]);
+	});
+
+	it("should not run a recurring job twice when several runners share the queue", async () => {
+		const handler = vi.fn(async () => {});
+		const options = {
+			handlers: { sweep: handler },
+			schedules: [{ name: "sweep", everyMs: HOUR }],
+			pollIntervalMs: 60_000,
+		};
+		const first = createJobHarness(options);
+		const second = createJobHarness({ ...options, store: first.store });
+
+		for (let step = 0; step < 3; step++) {
+			await first.advance(HOUR);
+			await second.advance(HOUR);
+		}
+
+		expect(handler).toHaveBeenCalledTimes(4);
+		expect(first.store.all()).toHaveLength(4);
+	});
+
+	it("should hand back a job whose runner died while holding it", async () => {
+		const handler = vi.fn(async () => {});
+		const harness = createJobHarness({
+			handlers: { export: handler },
+			lockTimeoutMs: 10 * 60_000,
+		});
+		await harness.enqueue({ name: "export" });
+		// Another runner claims it and is never heard from again.
+		await harness.store.claim("crashed-worker", harness.clock.now(), 1);
+
+		await harness.advance(9 * 60_000);
+		expect(handler).not.toHaveBeenCalled();
+
+		await harness.advance(2 * 60_000);
+		expect(handler).toHaveBeenCalledTimes(1);
+		expect(harness.store.all()[0]).toMatchObject({
+			status: JobStatus.SUCCEEDED,
+			attempts: 2,
+		});
+	});
+
+	it("should dead-letter a lost job that has no attempts left", async () => {
+		const harness = createJobHarness({
+			handlers: { export: async () => {} },
+			lockTimeoutMs: 10 * 60_000,
+		});
+		await harness.enqueue({ name: "export", maxAttempts: 1 });
+		await harness.store.claim("crashed-worker", harness.clock.now(), 1);
+
+		await harness.advance(11 * 60_000);
+
+		expect(harness.store.all()[0]).toMatchObject({
+			status: JobStatus.DEAD,
+			lastError: STALE_JOB_ERROR,
+		});
+	});
+});
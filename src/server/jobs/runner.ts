@@ -0,0 +1,199 @@
+import { randomUUID } from "node:crypto";
+import { hostname } from "node:os";
+
+import type { Job, Prisma } from "@prisma/client";
+
+import { type Clock, systemClock } from "./clock";
+import type { JobStore } from "./store";
+
+export interface JobContext {
+	job: Job;
+	/** The runner's clock at the start of this attempt. */
+	now: Date;
+}
+
+/** Does the work of one job. Throwing fails the attempt; whatever it returns is ignored. */
+export type JobHandler = (
+	payload: Prisma.JsonValue,
+	context: JobContext,
+) => Promise<unknown>;
+
+export type JobHandlers = Record<string, JobHandler>;
+
+/** A job enqueued once per period, e.g. every 15 minutes. */
+export interface RecurringJob {
+	name: string;
+	everyMs: number;
+	payload?: Prisma.InputJsonObject;
+	maxAttempts?: number;
+}
+
+const RETRY_BASE_DELAY_MS = 30_000;
+const RETRY_MAX_DELAY_MS = 60 * 60_000;
+
+/** Wait before the next attempt after `attempt` failed: 30s, 1m, 2m, … capped at an hour. */
+export function retryDelayMs(attempt: number) {
+	return Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), RETRY_MAX_DELAY_MS);
+}
+
+/** Start of the period of length `everyMs` that `now` falls in, counting periods from the epoch. */
+export function scheduleSlot(now: Date, everyMs: number) {
+	return new Date(Math.floor(now.getTime() / everyMs) * everyMs);
+}
+
+/** One key per job and period, so each period runs once however many runners schedule it. */
+export function recurringJobKey(name: string, slot: Date) {
+	return `${name}@${slot.toISOString()}`;
+}
+
+export interface JobRunnerOptions {
+	store: JobStore;
+	handlers: JobHandlers;
+	schedules?: RecurringJob[];
+	clock?: Clock;
+	/** Identifies this runner in `Job.lockedBy`. */
+	workerId?: string;
+	/** Jobs claimed per tick. */
+	batchSize?: number;
+	/** How long `start` waits between ticks when there was nothing left to do. */
+	pollIntervalMs?: number;
+	/** How long a job may stay claimed before it is assumed lost and handed back. */
+	lockTimeoutMs?: number;
+}
+
+export interface TickResult {
+	claimed: number;
+	succeeded: number;
+	retried: number;
+	dead: number;
+}
+
+export interface JobRunner {
+	readonly workerId: string;
+	/** Enqueues the recurring jobs for the current period, then runs one batch of due jobs. */
+	tick(): Promise<TickResult>;
+	/** Ticks until no due jobs are left. */
+	runDue(): Promise<TickResult>;
+	/** Keeps running due jobs in the background until `stop` is called. */
+	start(): void;
+	/** Stops the background loop, after the job in progress has finished. */
+	stop(): Promise<void>;
+}
+
+export function createJobRunner({
+	store,
+	handlers,
+	schedules = [],
+	clock = systemClock,
+	workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`,
+	batchSize = 20,
+	pollIntervalMs = 5000,
+	lockTimeoutMs = 15 * 60_000,
+}: JobRunnerOptions): JobRunner {
+	async function runJob(job: Job): Promise<keyof Omit<TickResult, "claimed">> {
+		const handler = handlers[job.name];
+		const now = clock.now();
+		try {
+			if (!handler) {
+				throw new Error(`No handler for job "${job.name}"`);
+			}
+			await handler(job.payload, { job, now });
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			const finishedAt = clock.now();
+			// Retrying cannot help a job nobody knows how to run.
+			const retryAt =
+				handler && job.attempts < job.maxAttempts
+					? new Date(finishedAt.getTime() + retryDelayMs(job.attempts))
+					: null;
+			await store.fail(job, message, retryAt, finishedAt);
+			return retryAt ? "retried" : "dead";
+		}
+		await store.succeed(job, clock.now());
+		return "succeeded";
+	}
+
+	async function tick(): Promise<TickResult> {
+		const now = clock.now();
+		await store.releaseStale(new Date(now.getTime() - lockTimeoutMs), now);
+		for (const schedule of schedules) {
+			const slot = scheduleSlot(now, schedule.everyMs);
+			await store.enqueue(
+				{
+					name: schedule.name,
+					payload: schedule.payload,
+					runAt: slot,
+					idempotencyKey: recurringJobKey(schedule.name, slot),
+					maxAttempts: schedule.maxAttempts,
+				},
+				now,
+			);
+		}
+
+		const jobs = await store.claim(workerId, now, batchSize);
+		const result: TickResult = {
+			claimed: jobs.length,
+			succeeded: 0,
+			retried: 0,
+			dead: 0,
+		};
+		for (const job of jobs) {
+			result[await runJob(job)]++;
+		}
+		return result;
+	}
+
+	async function runDue(): Promise<TickResult> {
+		const total: TickResult = { claimed: 0, succeeded: 0, retried: 0, dead: 0 };
+		let result: TickResult;
+		do {
+			result = await tick();
+			total.claimed += result.claimed;
+			total.succeeded += result.succeeded;
+			total.retried += result.retried;
+			total.dead += result.dead;
+		} while (result.claimed === batchSize);
+		return total;
+	}
+
+	let loop: Promise<void> | undefined;
+	let stopping = false;
+	let wake: (() => void) | undefined;
+	let timer: ReturnType<typeof setTimeout> | undefined;
+
+	const sleep = (ms: number) =>
+		new Promise<void>((resolve) => {
+			wake = resolve;
+			timer = setTimeout(resolve, ms);
+		});
+
+	return {
+		workerId,
+		tick,
+		runDue,
+
+		start() {
+			if (loop) return;
+			stopping = false;
+			loop = (async () => {
+				while (!stopping) {
+					try {
+						await runDue();
+					} catch (error) {
+						// The database may be briefly unreachable; try again on the next tick.
+						console.error("[jobs] tick failed", error);
+					}
+					if (!stopping) await sleep(pollIntervalMs);
+				}
+			})();
+		},
+
+		async stop() {
+			stopping = true;
+			clearTimeout(timer);
+			wake?.();
+			await loop;
+			loop = undefined;
+		},
+	};
+}
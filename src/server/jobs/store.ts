@@ -0,0 +1,41 @@
+import type { Job, Prisma } from "@prisma/client";
+
+export interface NewJob {
+	/** The handler that runs it, e.g. "bookings.autoComplete". */
+	name: string;
+	payload?: Prisma.InputJsonObject;
+	/** Not before this time; right away when left out. */
+	runAt?: Date;
+	/** Enqueueing a second job with the same key returns the first one instead. */
+	idempotencyKey?: string;
+	maxAttempts?: number;
+}
+
+/**
+ * Where jobs wait until a runner claims them. Claiming is exclusive, so any number of runners,
+ * in-process or worker scripts, can share one store without running a job twice.
+ */
+export interface JobStore {
+	readonly name: string;
+	/** Adds a job, or returns the existing one with the same idempotency key. */
+	enqueue(job: NewJob, now: Date): Promise<Job>;
+	/** Locks up to `limit` due PENDING jobs for `workerId`, counting an attempt on each. */
+	claim(workerId: string, now: Date, limit: number): Promise<Job[]>;
+	/** Marks a claimed job done. Does nothing if the claim was lost in the meantime. */
+	succeed(job: Job, now: Date): Promise<void>;
+	/**
+	 * Records a failed attempt: the job runs again at `retryAt`, or goes to the dead letters when
+	 * that is null. Does nothing if the claim was lost in the meantime.
+	 */
+	fail(job: Job, error: string, retryAt: Date | null, now: Date): Promise<void>;
+	/**
+	 * Hands back jobs whose runner has held them since before `lockedBefore`, most likely because
+	 * it died. Those out of attempts go to the dead letters. Returns how many were released.
+	 */
+	releaseStale(lockedBefore: Date, now: Date): Promise<number>;
+}
+
+export const DEFAULT_MAX_ATTEMPTS = 5;
+
+/** Recorded on jobs taken back from a runner that never finished them. */
+export const STALE_JOB_ERROR = "The runner stopped before the job finished";
@@ -0,0 +1,67 @@
+import { type FakeClock, createFakeClock } from "./clock";
+import { type MemoryJobStore, createMemoryJobStore } from "./memory-store";
+import {
+	type JobHandlers,
+	type JobRunner,
+	type RecurringJob,
+	createJobRunner,
+} from "./runner";
+import type { NewJob } from "./store";
+
+export interface JobHarness {
+	clock: FakeClock;
+	store: MemoryJobStore;
+	runner: JobRunner;
+	enqueue(job: NewJob): ReturnType<MemoryJobStore["enqueue"]>;
+	/**
+	 * Moves the clock forward by `ms` one poll interval at a time, running whatever is due at
+	 * each step, the way a live runner would have.
+	 */
+	advance(ms: number): Promise<void>;
+}
+
+/**
+ * A runner on an in-memory store and a fake clock, for testing jobs and schedules without a
+ * database or real waiting.
+ */
+export function createJobHarness({
+	handlers,
+	schedules,
+	start = new Date("2030-01-01T00:00:00.000Z"),
+	pollIntervalMs = 1000,
+	lockTimeoutMs,
+	store = createMemoryJobStore(),
+}: {
+	handlers: JobHandlers;
+	schedules?: RecurringJob[];
+	start?: Date;
+	pollIntervalMs?: number;
+	lockTimeoutMs?: number;
+	/** Pass another harness's store to simulate several runners sharing a queue. */
+	store?: MemoryJobStore;
+}): JobHarness {
+	const clock = createFakeClock(start);
+	const runner = createJobRunner({
+		store,
+		handlers,
+		schedules,
+		clock,
+		pollIntervalMs,
+		lockTimeoutMs,
+	});
+
+	return {
+		clock,
+		store,
+		runner,
+		enqueue: (job) => store.enqueue(job, clock.now()),
+		async advance(ms) {
+			const end = clock.now().getTime() + ms;
+			await runner.runDue();
+			while (clock.now().getTime() < end) {
+				clock.advance(Math.min(pollIntervalMs, end - clock.now().getTime()));
+				await runner.runDue();
+			}
+		},
+	};
+}
@@ -0,0 +1,110 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import {
+	SMS_MAX_LENGTH,
+	createEmailAdapter,
+	createPushAdapter,
+	createSmsAdapter,
+	smsText,
+} from "./adapters";
+import { createFileTransport } from "./local-transport";
+
+const recipient = {
+	id: "u1",
+	name: "Ada",
+	email: "ada@example.com",
+	phone: null,
+	timeZone: null,
+};
+const notification = {
+	id: "n1",
+	type: "BOOKING_CONFIRMED" as const,
+	title: "Booking confirmed",
+	message: "Your booking has been confirmed by the provider.",
+	data: { bookingId: "b1" },
+	href: "/bookings/b1",
+	createdAt: new Date("2025-06-01T08:30:00Z"),
+};
+
+describe("notification channels", () => {
+	let directory: string;
+
+	beforeEach(async () => {
+		directory = await mkdtemp(join(tmpdir(), "notifications-"));
+	});
+
+	afterEach(async () => {
+		await rm(directory, { recursive: true, force: true });
+	});
+
+	async function sent(channel: string) {
+		const lines = await readFile(join(directory, `${channel}.jsonl`), "utf8");
+		return lines
+			.trim()
+			.split("\n")
+			.map((line) => JSON.parse(line) as Record<string, unknown>);
+	}
+
+	it("should write an email per notification to the file transport", async () => {
+		const email = createEmailAdapter(createFileTransport(directory, "email"), {
+			from: "noreply@example.com",
+			appUrl: "https://app.example.com",
+		});
+		const to = email.addressOf(recipient);
+		expect(to).toBe("ada@example.com");
+		await email.send(to ?? "", notification, recipient);
+		await email.sendDigest(to ?? "", {
+			recipient,
+			frequency: "HOURLY",
+			notifications: [notification, { ...notification, id: "n2" }],
+		});
+
+		const [first, digest] = await sent("email");
+		expect(first).toMatchObject({
+			from: "noreply@example.com",
+			to: "ada@example.com",
+			subject: "Booking confirmed",
+			notificationIds: ["n1"],
+		});
+		expect(first?.text).toContain("https://app.example.com/bookings/b1");
+		expect(digest).toMatchObject({
+			subject: "Your hourly digest: 2 confirmed bookings",
+			notificationIds: ["n1", "n2"],
+		});
+	});
+
+	it("should not reach users without a phone number by SMS", () => {
+		const sms = createSmsAdapter(createFileTransport(directory, "sms"));
+		expect(sms.addressOf(recipient)).toBeNull();
+		expect(sms.addressOf({ ...recipient, phone: "+15550100" })).toBe(
+			"+15550100",
+		);
+	});
+
+	it("should keep SMS texts to one segment", () => {
+		expect(smsText(notification)).toBe(
+			"Booking confirmed: Your booking has been confirmed by the provider.",
+		);
+		const long = smsText({ ...notification, message: "x".repeat(500) });
+		expect(long).toHaveLength(SMS_MAX_LENGTH);
+		expect(long.endsWith("…")).toBe(true);
+	});
+
+	it("should push the notification data along with its type", async () => {
+		const push = createPushAdapter(createFileTransport(directory, "push"));
+		await push.send("u1", notification, recipient);
+		const [message] = await sent("push");
+		expect(message).toMatchObject({
+			userId: "u1",
+			data: {
+				bookingId: "b1",
+				type: "BOOKING_CONFIRMED",
+				href: "/bookings/b1",
+			},
+		});
+	});
+});
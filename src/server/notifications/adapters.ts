@@ -0,0 +1,84 @@
+import type {
+	ChannelAdapter,
+	EmailChannelAdapter,
+	EmailEnvelope,
+	NotificationTransport,
+	OutgoingNotification,
+} from "./channel";
+import { renderDigestEmail, renderNotificationEmail } from "./templates";
+
+/** One SMS segment; longer texts are cut rather than split into several paid messages. */
+export const SMS_MAX_LENGTH = 160;
+
+/** Renders emails from the templates; `appUrl` turns the in-app links into absolute ones. */
+export function createEmailAdapter(
+	transport: NotificationTransport<EmailEnvelope>,
+	{ from, appUrl }: { from: string; appUrl: string },
+): EmailChannelAdapter {
+	return {
+		name: `email:${transport.name}`,
+		addressOf: (recipient) => recipient.email,
+		send: (to, notification) =>
+			transport.deliver({
+				...renderNotificationEmail(notification, appUrl),
+				from,
+				to,
+				notificationIds: [notification.id],
+			}),
+		sendDigest: (to, digest) =>
+			transport.deliver({
+				...renderDigestEmail(digest, appUrl),
+				from,
+				to,
+				notificationIds: digest.notifications.map((n) => n.id),
+			}),
+	};
+}
+
+export function smsText(notification: OutgoingNotification) {
+	const text = `${notification.title}: ${notification.message}`;
+	return text.length > SMS_MAX_LENGTH
+		? `${text.slice(0, SMS_MAX_LENGTH - 1)}…`
+		: text;
+}
+
+export function createSmsAdapter(
+	transport: NotificationTransport,
+): ChannelAdapter {
+	return {
+		name: `sms:${transport.name}`,
+		addressOf: (recipient) => recipient.phone,
+		send: (to, notification) =>
+			transport.deliver({
+				to,
+				body: smsText(notification),
+				notificationId: notification.id,
+			}),
+	};
+}
+
+/** Push goes to the user's devices, which the push transport resolves from the user id. */
+export function createPushAdapter(
+	transport: NotificationTransport,
+): ChannelAdapter {
+	return {
+		name: `push:${transport.name}`,
+		addressOf: (recipient) => recipient.id,
+		send: (userId, notification) =>
+			transport.deliver({
+				userId,
+				title: notification.title,
+				body: notification.message,
+				data: {
+					...asObject(notification.data),
+					type: notification.type,
+					href: notification.href,
+				},
+				notificationId: notification.id,
+			}),
+	};
+}
+
+function asObject(data: OutgoingNotification["data"]) {
+	return data && typeof data === "object" && !Array.isArray(data) ? data : {};
+}
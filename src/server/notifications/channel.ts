@@ -0,0 +1,78 @@
+import type {
+	NotificationFrequency,
+	NotificationType,
+	Prisma,
+} from "@prisma/client";
+
+/** Who a notification goes to, with the addresses the channels may need. */
+export interface NotificationRecipient {
+	id: string;
+	name: string | null;
+	email: string;
+	phone: string | null;
+	/** IANA time zone dates are shown in; UTC when unset. */
+	timeZone: string | null;
+}
+
+/** The stored notification being sent out. */
+export interface OutgoingNotification {
+	id: string;
+	type: NotificationType;
+	title: string;
+	message: string;
+	data: Prisma.JsonValue | null;
+	/** Where it leads in the app, relative to the app's URL. */
+	href: string | null;
+	createdAt: Date;
+}
+
+/** Several notifications sent together as one email. */
+export interface NotificationDigest {
+	recipient: NotificationRecipient;
+	frequency: Exclude<NotificationFrequency, "INSTANT">;
+	notifications: OutgoingNotification[];
+}
+
+/**
+ * Sends notifications through one channel (email, SMS or push), turning them into whatever that
+ * channel carries and handing the result to a transport.
+ */
+export interface ChannelAdapter {
+	readonly name: string;
+	/** Where the recipient is reached on this channel, or null when they cannot be. */
+	addressOf(recipient: NotificationRecipient): string | null;
+	send(
+		address: string,
+		notification: OutgoingNotification,
+		recipient: NotificationRecipient,
+	): Promise<void>;
+}
+
+/** Email is the one channel that also carries digests. */
+export interface EmailChannelAdapter extends ChannelAdapter {
+	sendDigest(address: string, digest: NotificationDigest): Promise<void>;
+}
+
+export interface RenderedEmail {
+	subject: string;
+	text: string;
+	html: string;
+}
+
+/** What the email adapter hands its transport. */
+export interface EmailEnvelope extends RenderedEmail {
+	from: string;
+	to: string;
+	notificationIds: string[];
+}
+
+/**
+ * Carries what a channel adapter produced to its destination: a provider's API in production,
+ * the console or a file in development.
+ */
+export interface NotificationTransport<
+	Envelope extends object = Record<string, unknown>,
+> {
+	readonly name: string;
+	deliver(envelope: Envelope): Promise<void>;
+}
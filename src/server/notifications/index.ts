@@ -0,0 +1,63 @@
+import { join } from "node:path";
+
+import { env } from "~/env";
+import {
+	createEmailAdapter,
+	createPushAdapter,
+	createSmsAdapter,
+} from "./adapters";
+import type {
+	ChannelAdapter,
+	EmailChannelAdapter,
+	EmailEnvelope,
+	NotificationTransport,
+} from "./channel";
+import { createConsoleTransport, createFileTransport } from "./local-transport";
+import { createMailSinkTransport } from "./mail-sink";
+
+export type {
+	ChannelAdapter,
+	EmailChannelAdapter,
+	NotificationDigest,
+	NotificationRecipient,
+	NotificationTransport,
+	OutgoingNotification,
+} from "./channel";
+
+export interface NotificationChannels {
+	EMAIL: EmailChannelAdapter;
+	SMS: ChannelAdapter;
+	PUSH: ChannelAdapter;
+}
+
+const createTransport = <Envelope extends object>(
+	kind: "console" | "file",
+	channel: string,
+): NotificationTransport<Envelope> => {
+	switch (kind) {
+		case "console":
+			return createConsoleTransport(channel);
+		case "file":
+			return createFileTransport(env.NOTIFICATION_OUTBOX_DIR, channel);
+	}
+};
+
+const createEmailTransport = (): NotificationTransport<EmailEnvelope> => {
+	switch (env.EMAIL_TRANSPORT) {
+		case "console":
+		case "file":
+			return createTransport(env.EMAIL_TRANSPORT, "email");
+		case "mailsink":
+			return createMailSinkTransport(join(env.NOTIFICATION_OUTBOX_DIR, "mail"));
+	}
+};
+
+/** The adapter for each channel, over the transport configured for it. */
+export const notificationChannels: NotificationChannels = {
+	EMAIL: createEmailAdapter(createEmailTransport(), {
+		from: env.EMAIL_FROM,
+		appUrl: env.APP_URL,
+	}),
+	SMS: createSmsAdapter(createTransport(env.SMS_TRANSPORT, "sms")),
+	PUSH: createPushAdapter(createTransport(env.PUSH_TRANSPORT, "push")),
+};
@@ -0,0 +1,37 @@
+import { appendFile, mkdir } from "node:fs/promises";
+import { join } from "node:path";
+
+import type { NotificationTransport } from "./channel";
+
+/** Prints each envelope, which is all a developer needs to see that something was sent. */
+export function createConsoleTransport<Envelope extends object>(
+	channel: string,
+): NotificationTransport<Envelope> {
+	return {
+		name: "console",
+		async deliver(envelope) {
+			console.info(`[${channel}]`, JSON.stringify(envelope));
+		},
+	};
+}
+
+/**
+ * Appends each envelope as one JSON line to `<directory>/<channel>.jsonl`, so tests and local
+ * tooling can read back what was sent.
+ */
+export function createFileTransport<Envelope extends object>(
+	directory: string,
+	channel: string,
+): NotificationTransport<Envelope> {
+	const file = join(directory, `${channel}.jsonl`);
+	return {
+		name: "file",
+		async deliver(envelope) {
+			await mkdir(directory, { recursive: true });
+			await appendFile(
+				file,
+				`${JSON.stringify({ ...envelope, sentAt: new Date() })}\n`,
+			);
+		},
+	};
+}
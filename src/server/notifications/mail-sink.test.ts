@@ -0,0 +1,55 @@
+import { mkdtemp, readFile, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { createMailSinkTransport } from "./mail-sink";
+
+describe("mail sink", () => {
+	let directory: string;
+
+	beforeEach(async () => {
+		directory = await mkdtemp(join(tmpdir(), "mail-"));
+	});
+
+	afterEach(async () => {
+		await rm(directory, { recursive: true, force: true });
+	});
+
+	it("should write each email as an .eml file with text and HTML parts", async () => {
+		const sink = createMailSinkTransport(join(directory, "mail"));
+		await sink.deliver({
+			from: "Marketplace <noreply@example.com>",
+			to: "ada@example.com",
+			subject: "Your hourly digest: 2 messages",
+			text: "Hi Ada",
+			html: "<p>Hi Ada</p>",
+			notificationIds: ["n1", "n2"],
+		});
+		await sink.deliver({
+			from: "Marketplace <noreply@example.com>",
+			to: "ada@example.com",
+			subject: "Réservation confirmée",
+			text: "",
+			html: "",
+			notificationIds: ["n3"],
+		});
+
+		const files = (await readdir(join(directory, "mail"))).sort();
+		expect(files).toHaveLength(2);
+		expect(files.every((file) => file.endsWith(".eml"))).toBe(true);
+
+		const emails = await Promise.all(
+			files.map((file) => readFile(join(directory, "mail", file), "utf8")),
+		);
+		const digest = emails.find((email) => email.includes("n1, n2")) ?? "";
+		expect(digest).toContain("To: ada@example.com\r\n");
+		expect(digest).toContain("Subject: Your hourly digest: 2 messages\r\n");
+		expect(digest).toContain("Content-Type: text/plain; charset=utf-8");
+		expect(digest).toContain("<p>Hi Ada</p>");
+		expect(emails.some((email) => email.includes("Subject: =?UTF-8?B?"))).toBe(
+			true,
+		);
+	});
+});
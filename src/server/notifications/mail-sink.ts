@@ -0,0 +1,59 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+import type { EmailEnvelope, NotificationTransport } from "./channel";
+
+/** Encodes a header value that may hold non-ASCII text (RFC 2047). */
+function encodeHeader(value: string) {
+	return /^[\x20-\x7e]*$/.test(value)
+		? value
+		: `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+}
+
+/** The email as a MIME message with a plain text and an HTML part. */
+export function toEml(envelope: EmailEnvelope, date: Date) {
+	const boundary = `alt-${randomUUID()}`;
+	return [
+		`From: ${encodeHeader(envelope.from)}`,
+		`To: ${envelope.to}`,
+		`Subject: ${encodeHeader(envelope.subject)}`,
+		`Date: ${date.toUTCString()}`,
+		"MIME-Version: 1.0",
+		`X-Notification-Ids: ${envelope.notificationIds.join(", ")}`,
+		`Content-Type: multipart/alternative; boundary="${boundary}"`,
+		"",
+		`--${boundary}`,
+		"Content-Type: text/plain; charset=utf-8",
+		"Content-Transfer-Encoding: 8bit",
+		"",
+		envelope.text,
+		`--${boundary}`,
+		"Content-Type: text/html; charset=utf-8",
+		"Content-Transfer-Encoding: 8bit",
+		"",
+		envelope.html,
+		`--${boundary}--`,
+		"",
+	].join("\r\n");
+}
+
+/**
+ * A local mail sink: every email becomes an `.eml` file in `directory`, which any mail client
+ * opens, so digests and templates can be checked without a mail server.
+ */
+export function createMailSinkTransport(
+	directory: string,
+): NotificationTransport<EmailEnvelope> {
+	return {
+		name: "mailsink",
+		async deliver(envelope) {
+			const now = new Date();
+			await mkdir(directory, { recursive: true });
+			await writeFile(
+				join(directory, `${now.getTime()}-${randomUUID()}.eml`),
+				toEml(envelope, now),
+			);
+		},
+	};
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+
+import {
+	digestSummary,
+	renderDigestEmail,
+	renderNotificationEmail,
+	renderTemplate,
+} from "./templates";
+
+const appUrl = "https://app.example.com";
+const recipient = {
+	id: "u1",
+	name: "Ada",
+	email: "ada@example.com",
+	phone: null,
+	timeZone: "Europe/Paris",
+};
+const message = {
+	id: "n1",
+	type: "MESSAGE_RECEIVED" as const,
+	title: "New message from Bob",
+	message: "Can we move to <Friday>?",
+	data: { conversationId: "c1" },
+	href: "/messages/c1",
+	createdAt: new Date("2025-06-01T08:30:00Z"),
+};
+const request = {
+	...message,
+	id: "n2",
+	type: "BOOKING_REQUEST" as const,
+	title: "New booking request",
+	message: '"Deep clean" was requested.',
+	href: null,
+};
+
+describe("notification templates", () => {
+	it("should escape values in HTML but not in text", () => {
+		expect(
+			renderTemplate("<p>{{v}}</p>", { v: "a & <b>" }, { html: true }),
+		).toBe("<p>a &amp; &lt;b&gt;</p>");
+		expect(renderTemplate("{{v}}", { v: "a & <b>" }, { html: false })).toBe(
+			"a & <b>",
+		);
+		expect(renderTemplate("{{{v}}}", { v: "<b>" }, { html: true })).toBe("<b>");
+	});
+
+	it("should refuse templates with missing values", () => {
+		expect(() =>
+			renderTemplate("{{v}} {{w}}", { v: "" }, { html: false }),
+		).toThrow('"w"');
+	});
+
+	it("should render a single notification with a link into the app", () => {
+		const email = renderNotificationEmail(message, appUrl);
+		expect(email.subject).toBe("New message from Bob");
+		expect(email.text).toContain("https://app.example.com/messages/c1");
+		expect(email.html).toContain("Can we move to &lt;Friday&gt;?");
+		expect(email.html).toContain('href="https://app.example.com/settings"');
+	});
+
+	it("should summarize a digest by type, most frequent first", () => {
+		expect(digestSummary([request, message, { ...message, id: "n3" }])).toBe(
+			"2 messages, 1 booking request",
+		);
+	});
+
+	it("should list every notification of a digest in the recipient's time zone", () => {
+		const email = renderDigestEmail(
+			{ recipient, frequency: "DAILY", notifications: [message, request] },
+			appUrl,
+		);
+		expect(email.subject).toBe(
+			"Your daily digest: 1 message, 1 booking request",
+		);
+		expect(email.text).toContain(
+			"Hi Ada, here is what happened since yesterday",
+		);
+		// 08:30 UTC is 10:30 in Paris.
+		expect(email.text).toContain("10:30");
+		expect(email.text).toContain('"Deep clean" was requested.');
+		expect(email.html).toContain("&quot;Deep clean&quot; was requested.");
+		expect(email.html.match(/Open in the app/g)).toHaveLength(1);
+	});
+});
@@ -0,0 +1,220 @@
+import type { NotificationType } from "@prisma/client";
+
+import type {
+	NotificationDigest,
+	OutgoingNotification,
+	RenderedEmail,
+} from "./channel";
+
+/**
+ * Email templates. `{{name}}` inserts a value, HTML-escaped in the HTML templates; `{{{name}}}`
+ * inserts already rendered HTML as is.
+ */
+const TEMPLATES = {
+	layoutHtml: `<!doctype html>
+<html>
+<body style="font-family: sans-serif; color: #111827; max-width: 600px; margin: 0 auto;">
+{{{content}}}
+<p style="color: #6b7280; font-size: 12px;">You get this email because of your <a href="{{settingsUrl}}">notification settings</a>.</p>
+</body>
+</html>`,
+	layoutText: `{{{content}}}
+
+--
+Change which emails you get: {{settingsUrl}}`,
+
+	notificationSubject: "{{title}}",
+	notificationHtml: `<h2>{{title}}</h2>
+<p>{{message}}</p>
+{{{action}}}`,
+	notificationText: `{{title}}
+
+{{message}}
+{{link}}`,
+
+	digestSubject: "Your {{period}} digest: {{summary}}",
+	digestHtml: `<h2>Hi {{name}}, here is what happened {{since}}</h2>
+{{{items}}}`,
+	digestText: `Hi {{name}}, here is what happened {{since}}:
+{{{items}}}`,
+	digestItemHtml: `<div style="border-top: 1px solid #e5e7eb; padding: 8px 0;">
+<strong>{{title}}</strong> <span style="color: #6b7280;">{{time}}</span>
+<p style="margin: 4px 0;">{{message}}</p>
+{{{action}}}
+</div>`,
+	digestItemText: `
+* {{title}} ({{time}})
+  {{message}}
+  {{link}}`,
+	actionHtml: `<a href="{{url}}">Open in the app</a>`,
+};
+
+const TYPE_NOUNS: Record<NotificationType, [string, string]> = {
+	BOOKING_REQUEST: ["booking request", "booking requests"],
+	BOOKING_CONFIRMED: ["confirmed booking", "confirmed bookings"],
+	BOOKING_CANCELLED: ["cancellation", "cancellations"],
+	BOOKING_COMPLETED: ["completed booking", "completed bookings"],
+	BOOKING_REMINDER: ["booking reminder", "booking reminders"],
+	PAYMENT_RECEIVED: ["payment", "payments"],
+	MESSAGE_RECEIVED: ["message", "messages"],
+	REVIEW_RECEIVED: ["review", "reviews"],
+	REVIEW_REPLIED: ["review reply", "review replies"],
+	WITHDRAWAL_COMPLETED: ["payout", "payouts"],
+	SYSTEM: ["account update", "account updates"],
+};
+
+function escapeHtml(value: string) {
+	return value
+		.replaceAll("&", "&amp;")
+		.replaceAll("<", "&lt;")
+		.replaceAll(">", "&gt;")
+		.replaceAll('"', "&quot;")
+		.replaceAll("'", "&#39;");
+}
+
+/** Fills a template's placeholders; every placeholder must have a value. */
+export function renderTemplate(
+	template: string,
+	values: Record<string, string>,
+	{ html }: { html: boolean },
+) {
+	return template.replace(
+		/\{\{\{\s*(\w+)\s*\}\}\}|\{\{\s*(\w+)\s*\}\}/g,
+		(_, raw: string | undefined, escaped: string | undefined) => {
+			const name = raw ?? escaped ?? "";
+			const value = values[name];
+			if (value === undefined) {
+				throw new Error(`No value for template placeholder "${name}"`);
+			}
+			return raw || !html ? value : escapeHtml(value);
+		},
+	);
+}
+
+function layout(
+	content: { html: string; text: string },
+	appUrl: string,
+): Pick<RenderedEmail, "html" | "text"> {
+	const settingsUrl = `${appUrl}/settings`;
+	return {
+		html: renderTemplate(
+			TEMPLATES.layoutHtml,
+			{ content: content.html, settingsUrl },
+			{ html: true },
+		),
+		text: renderTemplate(
+			TEMPLATES.layoutText,
+			{ content: content.text.trim(), settingsUrl },
+			{ html: false },
+		),
+	};
+}
+
+function linkValues(notification: OutgoingNotification, appUrl: string) {
+	const url = notification.href ? `${appUrl}${notification.href}` : null;
+	return {
+		link: url ?? "",
+		action: url
+			? renderTemplate(TEMPLATES.actionHtml, { url }, { html: true })
+			: "",
+	};
+}
+
+export function renderNotificationEmail(
+	notification: OutgoingNotification,
+	appUrl: string,
+): RenderedEmail {
+	const { link, action } = linkValues(notification, appUrl);
+	const values = {
+		title: notification.title,
+		message: notification.message,
+	};
+	return {
+		subject: renderTemplate(TEMPLATES.notificationSubject, values, {
+			html: false,
+		}),
+		...layout(
+			{
+				html: renderTemplate(
+					TEMPLATES.notificationHtml,
+					{ ...values, action },
+					{ html: true },
+				),
+				text: renderTemplate(
+					TEMPLATES.notificationText,
+					{ ...values, link },
+					{ html: false },
+				),
+			},
+			appUrl,
+		),
+	};
+}
+
+/** "3 messages, 1 booking request", most frequent first. */
+export function digestSummary(notifications: OutgoingNotification[]) {
+	const counts = new Map<NotificationType, number>();
+	for (const { type } of notifications) {
+		counts.set(type, (counts.get(type) ?? 0) + 1);
+	}
+	return [...counts]
+		.sort(([, a], [, b]) => b - a)
+		.map(([type, count]) => {
+			const [one, many] = TYPE_NOUNS[type];
+			return `${count} ${count === 1 ? one : many}`;
+		})
+		.join(", ");
+}
+
+export function renderDigestEmail(
+	{ recipient, frequency, notifications }: NotificationDigest,
+	appUrl: string,
+): RenderedEmail {
+	const formatTime = new Intl.DateTimeFormat("en-US", {
+		timeZone: recipient.timeZone ?? "UTC",
+		dateStyle: frequency === "DAILY" ? "medium" : undefined,
+		timeStyle: "short",
+	});
+	const items = notifications.map((notification) => {
+		const values = {
+			title: notification.title,
+			message: notification.message,
+			time: formatTime.format(notification.createdAt),
+			...linkValues(notification, appUrl),
+		};
+		return {
+			html: renderTemplate(TEMPLATES.digestItemHtml, values, { html: true }),
+			text: renderTemplate(TEMPLATES.digestItemText, values, { html: false }),
+		};
+	});
+
+	const values = {
+		name: recipient.name ?? "there",
+		since: frequency === "DAILY" ? "since yesterday" : "in the last hour",
+	};
+	return {
+		subject: renderTemplate(
+			TEMPLATES.digestSubject,
+			{
+				period: frequency === "DAILY" ? "daily" : "hourly",
+				summary: digestSummary(notifications),
+			},
+			{ html: false },
+		),
+		...layout(
+			{
+				html: renderTemplate(
+					TEMPLATES.digestHtml,
+					{ ...values, items: items.map((i) => i.html).join("\n") },
+					{ html: true },
+				),
+				text: renderTemplate(
+					TEMPLATES.digestText,
+					{ ...values, items: items.map((i) => i.text).join("\n") },
+					{ html: false },
+				),
+			},
+			appUrl,
+		),
+	};
+}
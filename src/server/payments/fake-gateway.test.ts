@@ -0,0 +1,198 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { describe, expect, it } from "vitest";
+
+import {
+	FAKE_PAYMENT_TOKENS,
+	createFakePaymentGateway,
+	createFileFakeLedger,
+} from "./fake-gateway";
+import { fromMinorUnits, toMinorUnits } from "./gateway";
+
+const request = {
+	amountMinor: 8800,
+	currency: "USD",
+	method: "CREDIT_CARD" as const,
+	paymentToken: FAKE_PAYMENT_TOKENS.approved,
+	idempotencyKey: "payment-1:1",
+};
+
+describe("fake payment gateway", () => {
+	it("should authorize, capture and refund a payment", async () => {
+		const gateway = createFakePaymentGateway({ webhookSecret: "secret" });
+
+		const authorization = await gateway.authorize(request);
+		if (!authorization.ok) throw new Error("expected approval");
+
+		const capture = await gateway.capture(authorization.transactionId, 8800);
+		expect(capture.ok).toBe(true);
+
+		const partial = await gateway.refund(
+			authorization.transactionId,
+			4400,
+			"refund-1",
+		);
+		expect(partial.ok).toBe(true);
+
+		const tooMuch = await gateway.refund(
+			authorization.transactionId,
+			4401,
+			"refund-2",
+		);
+		expect(tooMuch).toMatchObject({
+			ok: false,
+			code: "refund_exceeds_capture",
+		});
+	});
+
+	it("should refund only once per idempotency key", async () => {
+		const gateway = createFakePaymentGateway({ webhookSecret: "secret" });
+		const authorization = await gateway.authorize(request);
+		if (!authorization.ok) throw new Error("expected approval");
+		await gateway.capture(authorization.transactionId, 8800);
+
+		const first = await gateway.refund(
+			authorization.transactionId,
+			8800,
+			"refund-1",
+		);
+		const replay = await gateway.refund(
+			authorization.transactionId,
+			8800,
+			"refund-1",
+		);
+
+		expect(first.ok).toBe(true);
+		expect(replay).toEqual(first);
+	});
+
+	it("should derive the same transaction id from the same idempotency key", async () => {
+		const first = createFakePaymentGateway({ webhookSecret: "secret" });
+		const second = createFakePaymentGateway({ webhookSecret: "secret" });
+
+		const a = await first.authorize(request);
+		const b = await second.authorize(request);
+		const replay = await first.authorize(request);
+
+		expect(a.ok && b.ok && replay.ok).toBe(true);
+		if (a.ok && b.ok && replay.ok) {
+			expect(a.transactionId).toBe(b.transactionId);
+			expect(replay.transactionId).toBe(a.transactionId);
+		}
+	});
+
+	it("should share a file ledger between processes", async () => {
+		const directory = await mkdtemp(join(tmpdir(), "fake-gateway-"));
+		const path = join(directory, "ledger.json");
+		try {
+			const web = createFakePaymentGateway({
+				webhookSecret: "secret",
+				ledger: createFileFakeLedger(path),
+			});
+			const worker = createFakePaymentGateway({
+				webhookSecret: "secret",
+				ledger: createFileFakeLedger(path),
+			});
+
+			const authorization = await web.authorize(request);
+			if (!authorization.ok) throw new Error("expected approval");
+			await web.capture(authorization.transactionId, 8800);
+
+			const refund = await worker.refund(
+				authorization.transactionId,
+				8800,
+				"refund-1",
+			);
+			expect(refund).toMatchObject({ ok: true, raw: { refundedMinor: 8800 } });
+		} finally {
+			await rm(directory, { recursive: true, force: true });
+		}
+	});
+
+	it("should keep concurrent updates from processes sharing a file ledger", async () => {
+		const directory = await mkdtemp(join(tmpdir(), "fake-gateway-"));
+		const path = join(directory, "ledger.json");
+		try {
+			const [web, worker] = [1, 2].map(() =>
+				createFakePaymentGateway({
+					webhookSecret: "secret",
+					ledger: createFileFakeLedger(path),
+				}),
+			);
+
+			const authorizations = await Promise.all(
+				[web, worker, web, worker].map((gateway, i) =>
+					gateway.authorize({ ...request, idempotencyKey: `payment-${i}:1` }),
+				),
+			);
+			const captures = await Promise.all(
+				authorizations.map((authorization) =>
+					authorization.ok
+						? web.capture(authorization.transactionId, 8800)
+						: authorization,
+				),
+			);
+
+			expect(captures.map((capture) => capture.ok)).toEqual([
+				true,
+				true,
+				true,
+				true,
+			]);
+		} finally {
+			await rm(directory, { recursive: true, force: true });
+		}
+	});
+
+	it("should decline the documented test tokens", async () => {
+		const gateway = createFakePaymentGateway({ webhookSecret: "secret" });
+
+		const declined = await gateway.authorize({
+			...request,
+			paymentToken: FAKE_PAYMENT_TOKENS.declined,
+		});
+		expect(declined).toMatchObject({ ok: false, code: "card_declined" });
+
+		const broke = await gateway.authorize({
+			...request,
+			idempotencyKey: "payment-2:1",
+			paymentToken: FAKE_PAYMENT_TOKENS.insufficientFunds,
+		});
+		expect(broke).toMatchObject({ ok: false, code: "insufficient_funds" });
+	});
+
+	it("should refuse to capture more than was authorized", async () => {
+		const gateway = createFakePaymentGateway({ webhookSecret: "secret" });
+		const authorization = await gateway.authorize(request);
+		if (!authorization.ok) throw new Error("expected approval");
+
+		const capture = await gateway.capture(authorization.transactionId, 9000);
+		expect(capture).toMatchObject({ ok: false, code: "amount_too_large" });
+	});
+
+	it("should only trust correctly signed webhooks", () => {
+		const gateway = createFakePaymentGateway({ webhookSecret: "secret" });
+		const body = JSON.stringify({
+			id: "evt_1",
+			type: "payment.captured",
+			transactionId: "fake_txn_1",
+			amountMinor: 8800,
+		});
+
+		expect(gateway.verifyWebhook(body, gateway.signWebhook(body))).toEqual(
+			JSON.parse(body),
+		);
+		expect(gateway.verifyWebhook(body, "bogus")).toBeNull();
+		expect(gateway.verifyWebhook(body, null)).toBeNull();
+
+		const other = createFakePaymentGateway({ webhookSecret: "other" });
+		expect(other.verifyWebhook(body, gateway.signWebhook(body))).toBeNull();
+	});
+
+	it("should convert between decimal amounts and minor units", () => {
+		expect(toMinorUnits(82.5)).toBe(8250);
+		expect(fromMinorUnits(8250).toString()).toBe("82.5");
+	});
+});
@@ -0,0 +1,295 @@
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+import {
+	mkdir,
+	open,
+	readFile,
+	rename,
+	rm,
+	stat,
+	writeFile,
+} from "node:fs/promises";
+import { dirname } from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+
+import type {
+	GatewayResult,
+	GatewayWebhookEvent,
+	PaymentGateway,
+} from "./gateway";
+
+/** Payment tokens the fake gateway understands. Any other token is approved. */
+export const FAKE_PAYMENT_TOKENS = {
+	approved: "tok_approved",
+	declined: "tok_declined",
+	insufficientFunds: "tok_insufficient_funds",
+} as const;
+
+const DECLINES: Record<string, { code: string; message: string }> = {
+	[FAKE_PAYMENT_TOKENS.declined]: {
+		code: "card_declined",
+		message: "The card was declined",
+	},
+	[FAKE_PAYMENT_TOKENS.insufficientFunds]: {
+		code: "insufficient_funds",
+		message: "The card has insufficient funds",
+	},
+};
+
+interface FakeTransaction {
+	currency: string;
+	authorizedMinor: number;
+	capturedMinor: number;
+	refundedMinor: number;
+}
+
+/** Everything the fake gateway remembers: transactions by id and refund results by key. */
+export interface FakeLedgerState {
+	transactions: Record<string, FakeTransaction>;
+	refunds: Record<string, GatewayResult>;
+}
+
+/**
+ * Where the fake gateway keeps its ledger between calls. `update` reads the state, lets `change`
+ * modify it in place and saves it, with no other update in between.
+ */
+export interface FakeLedger {
+	update<T>(change: (state: FakeLedgerState) => T): Promise<T>;
+}
+
+const emptyLedger = (): FakeLedgerState => ({ transactions: {}, refunds: {} });
+
+/** A ledger that lives and dies with the process, for tests. */
+export function createMemoryFakeLedger(): FakeLedger {
+	const state = emptyLedger();
+	return { update: async (change) => change(state) };
+}
+
+const LOCK_RETRY_MS = 10;
+/** A lock older than this was left behind by a process that died holding it. */
+const STALE_LOCK_MS = 10_000;
+
+/** Runs `fn` while holding `lockPath`, a file only one process at a time can create. */
+async function withLockFile<T>(lockPath: string, fn: () => Promise<T>) {
+	for (;;) {
+		try {
+			await (await open(lockPath, "wx")).close();
+			break;
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+			const held = await stat(lockPath).catch(() => null);
+			if (held && Date.now() - held.mtimeMs > STALE_LOCK_MS) {
+				await rm(lockPath, { force: true });
+			} else {
+				await sleep(LOCK_RETRY_MS);
+			}
+		}
+	}
+	try {
+		return await fn();
+	} finally {
+		await rm(lockPath, { force: true });
+	}
+}
+
+/**
+ * A ledger kept as JSON in `path`, so the web server and `npm run worker` see the same
+ * transactions: a refund run by the worker finds the payment the web server captured. Each
+ * update holds a lock file next to the ledger from its read to its write, so concurrent updates
+ * from either process take turns instead of overwriting each other. Writes go through a
+ * temporary file and a rename, so a reader never sees half a ledger.
+ */
+export function createFileFakeLedger(path: string): FakeLedger {
+	async function load() {
+		try {
+			return JSON.parse(await readFile(path, "utf8")) as FakeLedgerState;
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+				return emptyLedger();
+			}
+			throw error;
+		}
+	}
+
+	return {
+		async update(change) {
+			await mkdir(dirname(path), { recursive: true });
+			return withLockFile(`${path}.lock`, async () => {
+				const state = await load();
+				const result = change(state);
+				const temporary = `${path}.${process.pid}.tmp`;
+				await writeFile(temporary, JSON.stringify(state));
+				await rename(temporary, path);
+				return result;
+			});
+		},
+	};
+}
+
+const WEBHOOK_TYPES: readonly GatewayWebhookEvent["type"][] = [
+	"payment.captured",
+	"payment.failed",
+	"payment.refunded",
+];
+
+function sign(secret: string, rawBody: string) {
+	return createHmac("sha256", secret).update(rawBody).digest("hex");
+}
+
+function failure(code: string, message: string): GatewayResult {
+	return { ok: false, code, message, raw: { gateway: "fake", code, message } };
+}
+
+/**
+ * Offline gateway for development and tests. It never touches the network and is fully
+ * deterministic: transaction ids derive from the idempotency key, the outcome from the payment
+ * token (see `FAKE_PAYMENT_TOKENS`), and webhooks are HMAC-SHA256 signed with `webhookSecret`.
+ * What it has authorized, captured and refunded is kept in `ledger`, in memory by default.
+ */
+export function createFakePaymentGateway({
+	webhookSecret,
+	ledger = createMemoryFakeLedger(),
+}: {
+	webhookSecret: string;
+	ledger?: FakeLedger;
+}) {
+	const gateway = {
+		name: "fake",
+
+		authorize(request) {
+			const transactionId = `fake_txn_${createHash("sha256")
+				.update(request.idempotencyKey)
+				.digest("hex")
+				.slice(0, 24)}`;
+
+			const decline = DECLINES[request.paymentToken];
+			const invalidAmount =
+				!Number.isInteger(request.amountMinor) || request.amountMinor <= 0;
+
+			return ledger.update((state): GatewayResult => {
+				if (state.transactions[transactionId]) {
+					return {
+						ok: true,
+						transactionId,
+						raw: { gateway: "fake", transactionId, replayed: true },
+					};
+				}
+				if (decline) return failure(decline.code, decline.message);
+				if (invalidAmount) {
+					return failure("invalid_amount", "Amount must be a positive integer");
+				}
+
+				state.transactions[transactionId] = {
+					currency: request.currency,
+					authorizedMinor: request.amountMinor,
+					capturedMinor: 0,
+					refundedMinor: 0,
+				};
+				return {
+					ok: true,
+					transactionId,
+					raw: {
+						gateway: "fake",
+						transactionId,
+						status: "authorized",
+						amountMinor: request.amountMinor,
+						currency: request.currency,
+					},
+				};
+			});
+		},
+
+		capture(transactionId, amountMinor) {
+			return ledger.update((state): GatewayResult => {
+				const transaction = state.transactions[transactionId];
+				if (!transaction) {
+					return failure("unknown_transaction", "No such transaction");
+				}
+				if (amountMinor > transaction.authorizedMinor) {
+					return failure("amount_too_large", "Capture exceeds authorization");
+				}
+
+				transaction.capturedMinor = amountMinor;
+				return {
+					ok: true,
+					transactionId,
+					raw: {
+						gateway: "fake",
+						transactionId,
+						status: "captured",
+						amountMinor,
+					},
+				};
+			});
+		},
+
+		refund(transactionId, amountMinor, idempotencyKey) {
+			return ledger.update((state): GatewayResult => {
+				const replayed = state.refunds[idempotencyKey];
+				if (replayed) return replayed;
+
+				const transaction = state.transactions[transactionId];
+				if (!transaction) {
+					return failure("unknown_transaction", "No such transaction");
+				}
+				if (
+					transaction.refundedMinor + amountMinor >
+					transaction.capturedMinor
+				) {
+					return failure(
+						"refund_exceeds_capture",
+						"Refund exceeds the captured amount",
+					);
+				}
+
+				transaction.refundedMinor += amountMinor;
+				const result: GatewayResult = {
+					ok: true,
+					transactionId,
+					raw: {
+						gateway: "fake",
+						transactionId,
+						status: "refunded",
+						amountMinor,
+						refundedMinor: transaction.refundedMinor,
+					},
+				};
+				state.refunds[idempotencyKey] = result;
+				return result;
+			});
+		},
+
+		verifyWebhook(rawBody, signature) {
+			if (!signature) return null;
+
+			const expected = Buffer.from(sign(webhookSecret, rawBody));
+			const given = Buffer.from(signature);
+			if (
+				expected.length !== given.length ||
+				!timingSafeEqual(expected, given)
+			) {
+				return null;
+			}
+
+			try {
+				const event = JSON.parse(rawBody) as Partial<GatewayWebhookEvent>;
+				if (
+					typeof event.id !== "string" ||
+					typeof event.transactionId !== "string" ||
+					typeof event.amountMinor !== "number" ||
+					!WEBHOOK_TYPES.includes(event.type as GatewayWebhookEvent["type"])
+				) {
+					return null;
+				}
+				return event as GatewayWebhookEvent;
+			} catch {
+				return null;
+			}
+		},
+	} satisfies PaymentGateway;
+
+	return {
+		...gateway,
+		/** Signs a webhook body the way the fake gateway would, for tests and local tooling. */
+		signWebhook: (rawBody: string) => sign(webhookSecret, rawBody),
+	};
+}
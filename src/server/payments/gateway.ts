@@ -0,0 +1,56 @@
+import { type PaymentMethod, Prisma } from "@prisma/client";
+
+/**
+ * Contract every payment provider adapter implements.
+ *
+ * Amounts cross this boundary in minor units (cents) as integers, the way card networks and
+ * gateways expect them. Failures the customer can act on (a declined card) come back as
+ * `{ ok: false }`; only programming or transport errors throw.
+ */
+export interface PaymentGateway {
+	readonly name: string;
+	/** Reserves funds on the customer's payment method. Repeating a key returns the same result. */
+	authorize(request: AuthorizeRequest): Promise<GatewayResult>;
+	/** Collects up to the authorized amount. */
+	capture(transactionId: string, amountMinor: number): Promise<GatewayResult>;
+	/** Returns part or all of a captured amount. Repeating a key returns the same result. */
+	refund(
+		transactionId: string,
+		amountMinor: number,
+		idempotencyKey: string,
+	): Promise<GatewayResult>;
+	/** Checks a webhook's signature and parses it; returns null when it cannot be trusted. */
+	verifyWebhook(
+		rawBody: string,
+		signature: string | null,
+	): GatewayWebhookEvent | null;
+}
+
+export interface AuthorizeRequest {
+	amountMinor: number;
+	currency: string;
+	method: PaymentMethod;
+	/** Opaque token for the customer's card or wallet, produced client-side by the gateway. */
+	paymentToken: string;
+	idempotencyKey: string;
+}
+
+export type GatewayResult =
+	| { ok: true; transactionId: string; raw: Prisma.InputJsonObject }
+	| { ok: false; code: string; message: string; raw: Prisma.InputJsonObject };
+
+export interface GatewayWebhookEvent {
+	id: string;
+	type: "payment.captured" | "payment.failed" | "payment.refunded";
+	transactionId: string;
+	/** The captured amount, or for refunds the total refunded so far. */
+	amountMinor: number;
+}
+
+export function toMinorUnits(amount: Prisma.Decimal | number): number {
+	return new Prisma.Decimal(amount).mul(100).round().toNumber();
+}
+
+export function fromMinorUnits(amountMinor: number): Prisma.Decimal {
+	return new Prisma.Decimal(amountMinor).div(100);
+}
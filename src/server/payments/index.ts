@@ -0,0 +1,26 @@
+import { env } from "~/env";
+import { createFakePaymentGateway, createFileFakeLedger } from "./fake-gateway";
+import type { PaymentGateway } from "./gateway";
+
+export type { PaymentGateway } from "./gateway";
+
+const createPaymentGateway = (): PaymentGateway => {
+	switch (env.PAYMENT_GATEWAY) {
+		case "fake":
+			return createFakePaymentGateway({
+				webhookSecret: env.PAYMENT_WEBHOOK_SECRET,
+				ledger: createFileFakeLedger(env.PAYMENT_FAKE_LEDGER_FILE),
+			});
+	}
+};
+
+const globalForPayments = globalThis as unknown as {
+	paymentGateway: PaymentGateway | undefined;
+};
+
+// Kept on globalThis in development so hot reloads reuse the same gateway.
+export const paymentGateway =
+	globalForPayments.paymentGateway ?? createPaymentGateway();
+
+if (env.NODE_ENV !== "production")
+	globalForPayments.paymentGateway = paymentGateway;
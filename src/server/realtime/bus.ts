@@ -0,0 +1,53 @@
+import type { MessageView } from "~/server/domain/conversations";
+
+/** A message as pushed to its participants; the same shape `history` returns. */
+export type MessageEventPayload = MessageView;
+
+export type RealtimeEvent =
+	| { type: "message"; message: MessageEventPayload }
+	/** A card was answered; replaces the earlier copy of the message. */
+	| { type: "card"; message: MessageEventPayload }
+	| { type: "read"; conversationId: string; userId: string; readAt: Date }
+	| {
+			type: "typing";
+			conversationId: string;
+			userId: string;
+			isTyping: boolean;
+			/** When to drop the indicator if no further typing event arrives. */
+			expiresAt: Date;
+	  }
+	| {
+			type: "presence";
+			userId: string;
+			online: boolean;
+			lastSeenAt: Date | null;
+	  }
+	/** The user's notifications changed; listeners recount rather than trust the event. */
+	| { type: "notifications" };
+
+/**
+ * Fans events out to a user's open connections. Events are addressed to users rather than
+ * conversations, so one stream per signed-in tab covers all of its conversations.
+ */
+export interface RealtimeBus {
+	readonly name: string;
+	publish(userId: string, event: RealtimeEvent): Promise<void>;
+	/**
+	 * Streams the events published to `userId` until `signal` aborts. Listening starts when this
+	 * is called, not on the first `next()`, so nothing published in between is missed.
+	 */
+	subscribe(userId: string, signal?: AbortSignal): AsyncIterable<RealtimeEvent>;
+}
+
+/**
+ * Counts each user's open event streams, so a user with any tab open is online. Shared between
+ * instances the same way as the bus that goes with it.
+ */
+export interface PresenceTracker {
+	/** Records one more open stream; true when the user just came online. */
+	connect(userId: string): Promise<boolean>;
+	/** Records a closed stream; true when it was the user's last one. */
+	disconnect(userId: string): Promise<boolean>;
+	/** Which of `userIds` have at least one stream open. */
+	onlineAmong(userIds: string[]): Promise<Set<string>>;
+}
@@ -0,0 +1,71 @@
+import { env } from "~/env";
+import type {
+	MessageEventPayload,
+	PresenceTracker,
+	RealtimeBus,
+	RealtimeEvent,
+} from "./bus";
+import { createMemoryBus } from "./memory-bus";
+import { createMemoryPresence } from "./memory-presence";
+import { type SettledEvent, collectSettledEvents } from "./settled";
+
+export { publishWhenSettled } from "./settled";
+export type {
+	MessageEventPayload,
+	PresenceTracker,
+	RealtimeBus,
+	RealtimeEvent,
+} from "./bus";
+
+const createRealtime = (): {
+	bus: RealtimeBus;
+	presence: PresenceTracker;
+} => {
+	switch (env.REALTIME_BUS) {
+		case "memory":
+			return { bus: createMemoryBus(), presence: createMemoryPresence() };
+	}
+};
+
+// Kept across hot reloads, like the Prisma client, so publishers and subscribers share one bus.
+const globalForRealtime = globalThis as unknown as {
+	realtime: ReturnType<typeof createRealtime> | undefined;
+};
+
+const realtime = globalForRealtime.realtime ?? createRealtime();
+
+if (env.NODE_ENV !== "production") globalForRealtime.realtime = realtime;
+
+export const realtimeBus = realtime.bus;
+export const presence = realtime.presence;
+
+/** Pushes a new message to both participants; the sender's other tabs show it too. */
+export async function publishMessage(message: MessageEventPayload) {
+	const event = { type: "message", message } as const;
+	await Promise.all([
+		realtimeBus.publish(message.senderId, event),
+		realtimeBus.publish(message.recipientId, event),
+	]);
+}
+
+/** Publishes one event to each of `userIds`. */
+export async function publishToUsers(userIds: string[], event: RealtimeEvent) {
+	await Promise.all(
+		userIds.map((userId) => realtimeBus.publish(userId, event)),
+	);
+}
+
+/**
+ * Runs `fn`, holding back the events raised with `publishWhenSettled` until it has finished and
+ * the transactions it ran have committed or rolled back. The tRPC procedures all run this way.
+ */
+export async function withSettledEvents<T>(fn: () => Promise<T>) {
+	const pending: SettledEvent[] = [];
+	try {
+		return await collectSettledEvents(pending, fn);
+	} finally {
+		for (const { userIds, event } of pending) {
+			await publishToUsers(userIds, event);
+		}
+	}
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+
+import type { RealtimeEvent } from "./bus";
+import { createMemoryBus } from "./memory-bus";
+
+const read = (userId: string): RealtimeEvent => ({
+	type: "read",
+	conversationId: "c1",
+	userId,
+	readAt: new Date("2025-03-01T12:00:00Z"),
+});
+
+describe("memory bus", () => {
+	it("should deliver events published after subscribing, before the first read", async () => {
+		const bus = createMemoryBus();
+		const controller = new AbortController();
+		const events = bus
+			.subscribe("u1", controller.signal)
+			[Symbol.asyncIterator]();
+
+		await bus.publish("u1", read("u2"));
+		await bus.publish("u1", read("u3"));
+
+		expect((await events.next()).value).toEqual(read("u2"));
+		expect((await events.next()).value).toEqual(read("u3"));
+		controller.abort();
+	});
+
+	it("should only deliver a user's own events", async () => {
+		const bus = createMemoryBus();
+		const controller = new AbortController();
+		const events = bus
+			.subscribe("u1", controller.signal)
+			[Symbol.asyncIterator]();
+
+		await bus.publish("u2", read("u9"));
+		await bus.publish("u1", read("u3"));
+
+		expect((await events.next()).value).toEqual(read("u3"));
+		controller.abort();
+	});
+
+	it("should end the stream when the signal aborts", async () => {
+		const bus = createMemoryBus();
+		const controller = new AbortController();
+		const events = bus
+			.subscribe("u1", controller.signal)
+			[Symbol.asyncIterator]();
+
+		const pending = events.next();
+		controller.abort();
+
+		expect(await pending).toEqual({ done: true, value: undefined });
+	});
+});
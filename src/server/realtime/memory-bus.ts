@@ -0,0 +1,35 @@
+import { EventEmitter, on } from "node:events";
+
+import type { RealtimeBus, RealtimeEvent } from "./bus";
+
+/**
+ * Delivers events within this server process only. Enough for a single instance and for
+ * development; running several instances needs a bus shared between them.
+ */
+export function createMemoryBus(): RealtimeBus {
+	const emitter = new EventEmitter();
+	// Every open connection is a listener, and one user may have many tabs.
+	emitter.setMaxListeners(0);
+
+	return {
+		name: "memory",
+
+		async publish(userId, event) {
+			emitter.emit(userId, event);
+		},
+
+		subscribe(userId, signal) {
+			const events = on(emitter, userId, { signal });
+			return (async function* () {
+				try {
+					for await (const [event] of events) {
+						yield event as RealtimeEvent;
+					}
+				} catch (error) {
+					if (signal?.aborted) return;
+					throw error;
+				}
+			})();
+		},
+	};
+}
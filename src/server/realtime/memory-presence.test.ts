@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+
+import { createMemoryPresence } from "./memory-presence";
+
+describe("memory presence", () => {
+	it("should report the first connection and the last disconnection", async () => {
+		const presence = createMemoryPresence();
+
+		expect(await presence.connect("u1")).toBe(true);
+		expect(await presence.connect("u1")).toBe(false);
+		expect(await presence.disconnect("u1")).toBe(false);
+		expect(await presence.disconnect("u1")).toBe(true);
+	});
+
+	it("should list who is online while any connection is open", async () => {
+		const presence = createMemoryPresence();
+		await presence.connect("u1");
+		await presence.connect("u2");
+		await presence.disconnect("u2");
+
+		expect(await presence.onlineAmong(["u1", "u2", "u3"])).toEqual(
+			new Set(["u1"]),
+		);
+	});
+});
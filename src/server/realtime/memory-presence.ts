@@ -0,0 +1,28 @@
+import type { PresenceTracker } from "./bus";
+
+/** Presence within this server process only; pairs with `createMemoryBus`. */
+export function createMemoryPresence(): PresenceTracker {
+	const connections = new Map<string, number>();
+
+	return {
+		async connect(userId) {
+			const count = (connections.get(userId) ?? 0) + 1;
+			connections.set(userId, count);
+			return count === 1;
+		},
+
+		async disconnect(userId) {
+			const count = (connections.get(userId) ?? 0) - 1;
+			if (count > 0) {
+				connections.set(userId, count);
+				return false;
+			}
+			connections.delete(userId);
+			return true;
+		},
+
+		async onlineAmong(userIds) {
+			return new Set(userIds.filter((id) => connections.has(id)));
+		},
+	};
+}
@@ -0,0 +1,38 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+import type { RealtimeEvent } from "./bus";
+
+export interface SettledEvent {
+	userIds: string[];
+	event: RealtimeEvent;
+}
+
+const settledEvents = new AsyncLocalStorage<SettledEvent[]>();
+
+/** Runs `fn` with `publishWhenSettled` adding to `pending`; see `withSettledEvents`. */
+export function collectSettledEvents<T>(
+	pending: SettledEvent[],
+	fn: () => Promise<T>,
+) {
+	return settledEvents.run(pending, fn);
+}
+
+/**
+ * Publishes once the surrounding `withSettledEvents` call finishes, or right away outside one.
+ * Only for events listeners answer by re-reading the database, since the change behind them may
+ * have been rolled back by then.
+ *
+ * Kept apart from the bus so domain code can raise events without loading it.
+ */
+export async function publishWhenSettled(
+	userIds: string[],
+	event: RealtimeEvent,
+) {
+	const pending = settledEvents.getStore();
+	if (pending) {
+		pending.push({ userIds, event });
+		return;
+	}
+	const { publishToUsers } = await import("./index");
+	await publishToUsers(userIds, event);
+}
@@ -0,0 +1,27 @@
+import { randomBytes } from "node:crypto";
+
+import { env } from "~/env";
+import { createLocalFileStorage } from "./local-storage";
+export type { FileStorage, UploadTarget } from "./storage";
+
+const createFileStorage = () => {
+	switch (env.STORAGE_PROVIDER) {
+		case "local":
+			return createLocalFileStorage({
+				directory: env.STORAGE_LOCAL_DIR,
+				// Same origin as the app, so the signed URLs stay relative.
+				baseUrl: "",
+				// Signed URLs only need to outlive the process when there is a stable secret.
+				secret: env.AUTH_SECRET ?? randomBytes(32).toString("hex"),
+			});
+	}
+};
+
+const globalForStorage = globalThis as unknown as {
+	fileStorage: ReturnType<typeof createFileStorage> | undefined;
+};
+
+// Kept across hot reloads so URLs signed with a generated secret stay valid in development.
+export const fileStorage = globalForStorage.fileStorage ?? createFileStorage();
+
+if (env.NODE_ENV !== "production") globalForStorage.fileStorage = fileStorage;
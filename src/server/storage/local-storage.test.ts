@@ -0,0 +1,87 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { type LocalFileStorage, createLocalFileStorage } from "./local-storage";
+
+const body = new TextEncoder().encode("hello").buffer as ArrayBuffer;
+
+function paramsOf(url: string) {
+	return new URL(url, "http://localhost").searchParams;
+}
+
+describe("local file storage", () => {
+	let directory: string;
+	let storage: LocalFileStorage;
+
+	beforeEach(async () => {
+		directory = await mkdtemp(join(tmpdir(), "storage-"));
+		storage = createLocalFileStorage({ directory, baseUrl: "", secret: "s" });
+	});
+
+	afterEach(async () => {
+		await rm(directory, { recursive: true, force: true });
+	});
+
+	it("should accept a signed upload and serve it through a signed download", async () => {
+		const upload = await storage.createUpload("a/b.txt", {
+			contentType: "text/plain",
+			maxBytes: 100,
+			expiresInSeconds: 60,
+		});
+		expect(upload.url.startsWith("/api/storage/a/b.txt?")).toBe(true);
+
+		const received = await storage.receive(
+			"a/b.txt",
+			paramsOf(upload.url),
+			body,
+			"text/plain",
+		);
+		expect(received).toEqual({ ok: true });
+		expect(await storage.stat("a/b.txt")).toEqual({
+			size: 5,
+			contentType: "text/plain",
+		});
+
+		const download = await storage.createDownloadUrl("a/b.txt", {
+			fileName: "b.txt",
+			expiresInSeconds: 60,
+		});
+		const file = await storage.read("a/b.txt", paramsOf(download));
+		expect(file?.body.toString()).toBe("hello");
+		expect(file?.fileName).toBe("b.txt");
+	});
+
+	it("should refuse uploads that do not match what was signed", async () => {
+		const upload = await storage.createUpload("a/b.txt", {
+			contentType: "text/plain",
+			maxBytes: 3,
+			expiresInSeconds: 60,
+		});
+		const params = paramsOf(upload.url);
+
+		expect(
+			await storage.receive("a/c.txt", params, body, "text/plain"),
+		).toMatchObject({ ok: false, status: 403 });
+		expect(
+			await storage.receive("a/b.txt", params, body, "image/png"),
+		).toMatchObject({ ok: false, status: 400 });
+		expect(
+			await storage.receive("a/b.txt", params, body, "text/plain"),
+		).toMatchObject({ ok: false, status: 413 });
+		expect(await storage.stat("a/b.txt")).toBeNull();
+	});
+
+	it("should refuse expired URLs and keys outside the directory", async () => {
+		const download = await storage.createDownloadUrl("a/b.txt", {
+			fileName: "b.txt",
+			expiresInSeconds: 60,
+		});
+		const later = new Date(Date.now() + 120_000);
+		expect(await storage.read("a/b.txt", paramsOf(download), later)).toBeNull();
+
+		await expect(storage.stat("../outside")).rejects.toThrow();
+	});
+});
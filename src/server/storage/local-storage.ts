@@ -0,0 +1,173 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { mkdir, readFile, rm, stat, writeFile } from "node:fs/promises";
+import { dirname, resolve, sep } from "node:path";
+
+import type { FileStorage, StoredObject } from "./storage";
+
+type Operation = "get" | "put";
+
+/** Serves the signed URLs handed out by the local storage; see `src/app/api/storage`. */
+export const LOCAL_STORAGE_ROUTE = "/api/storage";
+
+export interface LocalFileStorage extends FileStorage {
+	readonly name: "local";
+	/** Stores an upload if `params` carry a valid, unexpired signature for it. */
+	receive(
+		key: string,
+		params: URLSearchParams,
+		body: ArrayBuffer,
+		contentType: string | null,
+		now?: Date,
+	): Promise<{ ok: true } | { ok: false; status: number; error: string }>;
+	/** Reads an object if `params` carry a valid, unexpired signature for it. */
+	read(
+		key: string,
+		params: URLSearchParams,
+		now?: Date,
+	): Promise<{ body: Buffer; contentType: string; fileName: string } | null>;
+}
+
+/**
+ * Keeps files on the local disk under `directory`, for development and tests. Uploads and
+ * downloads go through `LOCAL_STORAGE_ROUTE` with HMAC-SHA256 signed query strings, the way
+ * presigned URLs work with a cloud bucket.
+ */
+export function createLocalFileStorage({
+	directory,
+	baseUrl,
+	secret,
+}: {
+	directory: string;
+	baseUrl: string;
+	secret: string;
+}): LocalFileStorage {
+	const root = resolve(directory);
+
+	function pathFor(key: string) {
+		const path = resolve(root, key);
+		if (!path.startsWith(root + sep)) {
+			throw new Error(`Invalid storage key: ${key}`);
+		}
+		return path;
+	}
+
+	function sign(operation: Operation, key: string, fields: string[]) {
+		return createHmac("sha256", secret)
+			.update([operation, key, ...fields].join("\n"))
+			.digest("hex");
+	}
+
+	function verify(
+		operation: Operation,
+		key: string,
+		params: URLSearchParams,
+		fields: string[],
+		now: Date,
+	) {
+		const expires = Number(params.get("expires"));
+		const signature = Buffer.from(params.get("signature") ?? "");
+		const expected = Buffer.from(
+			sign(operation, key, [String(expires), ...fields]),
+		);
+		return (
+			Number.isFinite(expires) &&
+			expires > now.getTime() &&
+			signature.length === expected.length &&
+			timingSafeEqual(signature, expected)
+		);
+	}
+
+	function urlFor(key: string, params: Record<string, string>) {
+		const query = new URLSearchParams(params).toString();
+		return `${baseUrl}${LOCAL_STORAGE_ROUTE}/${key}?${query}`;
+	}
+
+	async function readMeta(key: string): Promise<StoredObject | null> {
+		const path = `${pathFor(key)}.meta.json`;
+		try {
+			return JSON.parse(await readFile(path, "utf8"));
+		} catch {
+			return null;
+		}
+	}
+
+	return {
+		name: "local",
+
+		async createUpload(key, { contentType, maxBytes, expiresInSeconds }) {
+			const expiresAt = new Date(Date.now() + expiresInSeconds * 1000);
+			const expires = String(expiresAt.getTime());
+			const limit = String(maxBytes);
+			return {
+				url: urlFor(key, {
+					expires,
+					contentType,
+					maxBytes: limit,
+					signature: sign("put", key, [expires, contentType, limit]),
+				}),
+				method: "PUT",
+				headers: { "Content-Type": contentType },
+				expiresAt,
+			};
+		},
+
+		async createDownloadUrl(key, { fileName, expiresInSeconds }) {
+			const expires = String(Date.now() + expiresInSeconds * 1000);
+			return urlFor(key, {
+				expires,
+				fileName,
+				signature: sign("get", key, [expires, fileName]),
+			});
+		},
+
+		async stat(key) {
+			const meta = await readMeta(key);
+			if (!meta) return null;
+			const file = await stat(pathFor(key)).catch(() => null);
+			return file ? { size: file.size, contentType: meta.contentType } : null;
+		},
+
+		async delete(key) {
+			await rm(pathFor(key), { force: true });
+			await rm(`${pathFor(key)}.meta.json`, { force: true });
+		},
+
+		async receive(key, params, body, contentType, now = new Date()) {
+			const signedType = params.get("contentType") ?? "";
+			const maxBytes = params.get("maxBytes") ?? "";
+			if (!verify("put", key, params, [signedType, maxBytes], now)) {
+				return {
+					ok: false,
+					status: 403,
+					error: "Invalid or expired signature",
+				};
+			}
+			if (contentType !== signedType) {
+				return { ok: false, status: 400, error: "Unexpected content type" };
+			}
+			if (body.byteLength > Number(maxBytes)) {
+				return { ok: false, status: 413, error: "File too large" };
+			}
+
+			const path = pathFor(key);
+			await mkdir(dirname(path), { recursive: true });
+			await writeFile(path, Buffer.from(body));
+			await writeFile(
+				`${path}.meta.json`,
+				JSON.stringify({ size: body.byteLength, contentType: signedType }),
+			);
+			return { ok: true };
+		},
+
+		async read(key, params, now = new Date()) {
+			const fileName = params.get("fileName") ?? "";
+			if (!verify("get", key, params, [fileName], now)) return null;
+
+			const meta = await readMeta(key);
+			const body = meta ? await readFile(pathFor(key)).catch(() => null) : null;
+			return meta && body
+				? { body, contentType: meta.contentType, fileName }
+				: null;
+		},
+	};
+}
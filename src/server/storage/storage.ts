@@ -0,0 +1,39 @@
+/** Where and how a client uploads a file straight to storage, without passing through our API. */
+export interface UploadTarget {
+	url: string;
+	method: "PUT";
+	/** Headers the upload request must carry, e.g. the content type that was signed. */
+	headers: Record<string, string>;
+	expiresAt: Date;
+}
+
+export interface StoredObject {
+	size: number;
+	contentType: string;
+}
+
+/**
+ * Stores uploaded files under opaque keys. Uploads and downloads go directly between the client
+ * and the storage through short-lived signed URLs; the API only hands those out and checks what
+ * arrived.
+ */
+export interface FileStorage {
+	readonly name: string;
+	/** A URL the client can PUT exactly one object of `contentType`, at most `maxBytes`, to. */
+	createUpload(
+		key: string,
+		options: {
+			contentType: string;
+			maxBytes: number;
+			expiresInSeconds: number;
+		},
+	): Promise<UploadTarget>;
+	/** A URL that serves the object for a limited time, as a download named `fileName`. */
+	createDownloadUrl(
+		key: string,
+		options: { fileName: string; expiresInSeconds: number },
+	): Promise<string>;
+	/** What was uploaded under `key`, or null when nothing was. */
+	stat(key: string): Promise<StoredObject | null>;
+	delete(key: string): Promise<void>;
+}
@@ -1,7 +1,12 @@
 "use client";
 
 import { type QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { httpBatchStreamLink, loggerLink } from "@trpc/client";
+import {
+	httpBatchStreamLink,
+	httpSubscriptionLink,
+	loggerLink,
+	splitLink,
+} from "@trpc/client";
 import { createTRPCReact } from "@trpc/react-query";
 import type { inferRouterInputs, inferRouterOutputs } from "@trpc/server";
 import { useState } from "react";
@@ -49,14 +54,22 @@ export function TRPCReactProvider(props: { children: React.ReactNode }) {
 						process.env.NODE_ENV === "development" ||
 						(op.direction === "down" && op.result instanceof Error),
 				}),
-				httpBatchStreamLink({
-					transformer: SuperJSON,
-					url: `${getBaseUrl()}/api/trpc`,
-					headers: () => {
-						const headers = new Headers();
-						headers.set("x-trpc-source", "nextjs-react");
-						return headers;
-					},
+				// Subscriptions stream over SSE; everything else is batched.
+				splitLink({
+					condition: (op) => op.type === "subscription",
+					true: httpSubscriptionLink({
+						transformer: SuperJSON,
+						url: `${getBaseUrl()}/api/trpc`,
+					}),
+					false: httpBatchStreamLink({
+						transformer: SuperJSON,
+						url: `${getBaseUrl()}/api/trpc`,
+						headers: () => {
+							const headers = new Headers();
+							headers.set("x-trpc-source", "nextjs-react");
+							return headers;
+						},
+					}),
 				}),
 			],
 		}),
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+
+import { boundingBox, distanceKm } from "./geo";
+
+const sanFrancisco = { latitude: 37.7749, longitude: -122.4194 };
+const losAngeles = { latitude: 34.0522, longitude: -118.2437 };
+
+describe("geo", () => {
+	it("should measure great-circle distance in kilometres", () => {
+		expect(distanceKm(sanFrancisco, losAngeles)).toBeCloseTo(559, 0);
+		expect(distanceKm(sanFrancisco, sanFrancisco)).toBe(0);
+	});
+
+	it("should contain every point of the radius in the bounding box", () => {
+		const box = boundingBox(sanFrancisco, 10);
+		const north = { latitude: box.maxLatitude, longitude: -122.4194 };
+
+		expect(distanceKm(sanFrancisco, north)).toBeCloseTo(10, 1);
+		expect(box.minLongitude).toBeLessThan(sanFrancisco.longitude);
+		expect(box.maxLongitude - box.minLongitude).toBeGreaterThan(
+			box.maxLatitude - box.minLatitude,
+		);
+	});
+});
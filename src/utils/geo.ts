@@ -0,0 +1,43 @@
+/**
+ * Great-circle helpers for `latitude`/`longitude` pairs in degrees. Distances are in kilometres on
+ * a spherical Earth, which is within 0.5% of the real thing and plenty for "within 10 km".
+ */
+
+export const EARTH_RADIUS_KM = 6371;
+
+export interface GeoPoint {
+	latitude: number;
+	longitude: number;
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/** Haversine distance between two points, in kilometres. */
+export function distanceKm(a: GeoPoint, b: GeoPoint): number {
+	const dLat = toRadians(b.latitude - a.latitude);
+	const dLng = toRadians(b.longitude - a.longitude);
+	const h =
+		Math.sin(dLat / 2) ** 2 +
+		Math.cos(toRadians(a.latitude)) *
+			Math.cos(toRadians(b.latitude)) *
+			Math.sin(dLng / 2) ** 2;
+	return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * The latitude/longitude box that contains every point within `radiusKm` of `center`. Cheap to
+ * check against an index before computing exact distances. Near the poles the longitude span
+ * covers the whole globe.
+ */
+export function boundingBox(center: GeoPoint, radiusKm: number) {
+	const dLat = (radiusKm / EARTH_RADIUS_KM) * (180 / Math.PI);
+	const cosLat = Math.cos(toRadians(center.latitude));
+	const dLng =
+		cosLat < 1e-6 ? 180 : Math.min(180, dLat / Math.max(cosLat, 1e-6));
+	return {
+		minLatitude: Math.max(-90, center.latitude - dLat),
+		maxLatitude: Math.min(90, center.latitude + dLat),
+		minLongitude: center.longitude - dLng,
+		maxLongitude: center.longitude + dLng,
+	};
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+
+import {
+	atTimeOfDay,
+	isValidTimeZone,
+	minutesIntoLocalDay,
+	minutesToTime,
+	nextLocalTime,
+	startOfLocalDay,
+	timeToMinutes,
+} from "./time";
+
+describe("time helpers", () => {
+	it("should convert HH:MM to minutes since midnight", () => {
+		expect(timeToMinutes("00:00")).toBe(0);
+		expect(timeToMinutes("09:30")).toBe(570);
+		expect(timeToMinutes("23:59")).toBe(1439);
+	});
+
+	it("should reject malformed times", () => {
+		expect(() => timeToMinutes("24:00")).toThrow();
+		expect(() => timeToMinutes("9:30")).toThrow();
+	});
+
+	it("should round-trip minutes back to HH:MM", () => {
+		expect(minutesToTime(570)).toBe("09:30");
+		expect(minutesToTime(timeToMinutes("17:05"))).toBe("17:05");
+	});
+
+	it("should read the wall clock of a time zone", () => {
+		const at = new Date("2025-06-01T12:15:00Z");
+		expect(minutesIntoLocalDay(at, "UTC")).toBe(735);
+		expect(minutesIntoLocalDay(at, "Europe/Paris")).toBe(855);
+		expect(minutesIntoLocalDay(at, "America/New_York")).toBe(495);
+		expect(isValidTimeZone("Asia/Kolkata")).toBe(true);
+		expect(isValidTimeZone("Mars/Olympus")).toBe(false);
+	});
+
+	it("should find the next time a local clock shows HH:MM", () => {
+		const zone = "America/New_York";
+		expect(
+			nextLocalTime(new Date("2025-06-01T11:00:00Z"), "08:00", zone),
+		).toEqual(new Date("2025-06-01T12:00:00Z"));
+		expect(
+			nextLocalTime(new Date("2025-06-01T12:00:30Z"), "08:00", zone),
+		).toEqual(new Date("2025-06-02T12:00:00Z"));
+	});
+
+	it("should keep the wall-clock time across daylight saving changes", () => {
+		const zone = "America/New_York";
+		// Midnight before the clocks go forward, then before they go back.
+		expect(
+			nextLocalTime(new Date("2025-03-09T05:00:00Z"), "08:00", zone),
+		).toEqual(new Date("2025-03-09T12:00:00Z"));
+		expect(
+			nextLocalTime(new Date("2025-11-02T04:00:00Z"), "08:00", zone),
+		).toEqual(new Date("2025-11-02T13:00:00Z"));
+		// 02:30 does not exist that night; the first minute after the gap stands in.
+		expect(
+			nextLocalTime(new Date("2025-03-09T05:00:00Z"), "02:30", zone),
+		).toEqual(new Date("2025-03-09T07:30:00Z"));
+	});
+
+	it("should read a booked day and time on a time zone's wall clock", () => {
+		const day = (date: string) => new Date(`${date}T00:00:00.000Z`);
+		const at = (date: string, time: string, zone?: string) =>
+			atTimeOfDay(day(date), time, zone).toISOString();
+
+		expect(at("2025-06-01", "10:00")).toBe("2025-06-01T10:00:00.000Z");
+		expect(at("2025-06-01", "10:00", "America/New_York")).toBe(
+			"2025-06-01T14:00:00.000Z",
+		);
+		expect(at("2025-01-01", "00:30", "Europe/Paris")).toBe(
+			"2024-12-31T23:30:00.000Z",
+		);
+		// Skipped by the spring change: read as an hour later.
+		expect(at("2025-03-09", "02:30", "America/New_York")).toBe(
+			"2025-03-09T07:30:00.000Z",
+		);
+		expect(at("2025-03-30", "02:30", "Europe/Paris")).toBe(
+			"2025-03-30T01:30:00.000Z",
+		);
+		// Happens twice in the autumn: the first one.
+		expect(at("2025-11-02", "01:30", "America/New_York")).toBe(
+			"2025-11-02T05:30:00.000Z",
+		);
+	});
+
+	it("should tell which calendar day it is in a time zone", () => {
+		const at = new Date("2025-06-01T23:30:00Z");
+		expect(startOfLocalDay(at, "UTC").toISOString()).toBe(
+			"2025-06-01T00:00:00.000Z",
+		);
+		expect(startOfLocalDay(at, "Europe/Paris").toISOString()).toBe(
+			"2025-06-02T00:00:00.000Z",
+		);
+		expect(startOfLocalDay(at, "America/Los_Angeles").toISOString()).toBe(
+			"2025-06-01T00:00:00.000Z",
+		);
+	});
+});
@@ -0,0 +1,136 @@
+/**
+ * Helpers for the "HH:MM" wall-clock strings used by `Availability` and `Booking`, which are read
+ * in the provider's time zone, and for the date-only `Booking.bookingDate`, which is stored as
+ * midnight UTC of the booked day.
+ */
+
+export const TIME_OF_DAY_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** Converts "HH:MM" into minutes since midnight. */
+export function timeToMinutes(time: string): number {
+	if (!TIME_OF_DAY_REGEX.test(time)) {
+		throw new Error(`Invalid time of day: ${time}`);
+	}
+	const [hours, minutes] = time.split(":").map(Number);
+	return (hours ?? 0) * 60 + (minutes ?? 0);
+}
+
+/** Converts minutes since midnight back into "HH:MM". */
+export function minutesToTime(totalMinutes: number): string {
+	const hours = Math.floor(totalMinutes / 60);
+	const minutes = totalMinutes % 60;
+	return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
+/** Truncates a date to midnight UTC. */
+export function startOfUtcDay(date: Date): Date {
+	return new Date(
+		Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+	);
+}
+
+export function addUtcDays(date: Date, days: number): Date {
+	return new Date(date.getTime() + days * MS_PER_DAY);
+}
+
+/** Formats a date as its UTC "YYYY-MM-DD" calendar day. */
+export function toDateKey(date: Date): string {
+	return date.toISOString().slice(0, 10);
+}
+
+/** How far the wall clock in `timeZone` is ahead of UTC at `date`, in minutes. */
+function utcOffsetMinutes(date: Date, timeZone: string): number {
+	const parts = new Intl.DateTimeFormat("en-US", {
+		timeZone,
+		year: "numeric",
+		month: "2-digit",
+		day: "2-digit",
+		hour: "2-digit",
+		minute: "2-digit",
+		hourCycle: "h23",
+	}).formatToParts(date);
+	const part = (type: Intl.DateTimeFormatPartTypes) =>
+		Number(parts.find((p) => p.type === type)?.value ?? 0);
+	const wallClock = Date.UTC(
+		part("year"),
+		part("month") - 1,
+		part("day"),
+		part("hour"),
+		part("minute"),
+	);
+	return Math.round((wallClock - date.getTime()) / 60_000);
+}
+
+/**
+ * Combines a calendar day with an "HH:MM" time on the wall clock of `timeZone` into an instant.
+ * A time skipped by a daylight saving change moves forward with the clocks (02:30 becomes
+ * 03:30); a time that happens twice resolves to the first.
+ */
+export function atTimeOfDay(day: Date, time: string, timeZone = "UTC"): Date {
+	const wallClock = startOfUtcDay(day).getTime() + timeToMinutes(time) * 60_000;
+	// The offset at the wall-clock reading can differ from the one at the instant near a change.
+	const first = utcOffsetMinutes(new Date(wallClock), timeZone);
+	const second = utcOffsetMinutes(
+		new Date(wallClock - first * 60_000),
+		timeZone,
+	);
+	const instant = new Date(wallClock - second * 60_000);
+	if (utcOffsetMinutes(instant, timeZone) === second) return instant;
+	return new Date(wallClock - Math.min(first, second) * 60_000);
+}
+
+/** The calendar day it is in `timeZone` at `date`, as midnight UTC like `Booking.bookingDate`. */
+export function startOfLocalDay(date: Date, timeZone: string): Date {
+	return startOfUtcDay(
+		new Date(date.getTime() + utcOffsetMinutes(date, timeZone) * 60_000),
+	);
+}
+
+/** Whether `timeZone` is an IANA time zone this runtime knows, e.g. "America/New_York". */
+export function isValidTimeZone(timeZone: string): boolean {
+	try {
+		new Intl.DateTimeFormat("en-US", { timeZone });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/** Minutes since midnight on the wall clock of `timeZone` at `date`. */
+export function minutesIntoLocalDay(date: Date, timeZone: string): number {
+	const parts = new Intl.DateTimeFormat("en-US", {
+		timeZone,
+		hour: "2-digit",
+		minute: "2-digit",
+		hourCycle: "h23",
+	}).formatToParts(date);
+	const part = (type: "hour" | "minute") =>
+		Number(parts.find((p) => p.type === type)?.value ?? 0);
+	return part("hour") * 60 + part("minute");
+}
+
+/**
+ * The first whole minute at or after `from` when the wall clock in `timeZone` shows `time`.
+ * Across a daylight saving change it lands on the same wall-clock time, or just after it when
+ * that time is skipped.
+ */
+export function nextLocalTime(
+	from: Date,
+	time: string,
+	timeZone: string,
+): Date {
+	const target = timeToMinutes(time);
+	const start = new Date(Math.ceil(from.getTime() / 60_000) * 60_000);
+	const ahead = (target - minutesIntoLocalDay(start, timeZone) + 1440) % 1440;
+	const candidate = new Date(start.getTime() + ahead * 60_000);
+	// The offset may change in between; correct by however far the wall clock ended up off.
+	const drift =
+		((target - minutesIntoLocalDay(candidate, timeZone) + 2160) % 1440) - 720;
+	const corrected = new Date(candidate.getTime() + drift * 60_000);
+	return corrected >= start &&
+		minutesIntoLocalDay(corrected, timeZone) === target
+		? corrected
+		: candidate;
+}